@@ -1,5 +1,13 @@
-import { Hono } from "hono";
+import { Hono, type MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
+import { mkdir, rm } from "node:fs/promises";
+import { byteRangeResponse, isRangeRejection, rangeRejectionResponse, resolveByteRange } from "../src/api/byte-range";
+import { parseStringQuery } from "../src/analysis/strings";
+import { CookieManager } from "../src/api/cookie-manager";
+import { multipartBoundary, spoolMultipartFile, spoolStream, sweepUploads, UPLOADS_DIR, uploadPath, type SpooledUpload } from "../src/api/uploads";
+import { config } from "../src/config";
+import { Palette } from "../src/utils/colors";
+import { runOffThread, taskErrorStatus } from "../src/workers";
 
 // Environment variables
 const FRONTEND_PORT = process.env.PORT || "3879";
@@ -11,24 +19,106 @@ const app = new Hono();
 // Use environment variables for CORS configuration
 app.use("/api/*", cors({ 
   origin: FRONTEND_URL, 
-  allowMethods: ["POST", "GET"] 
+  allowMethods: ["POST", "GET"],
+  credentials: true,
+  exposeHeaders: ["Content-Range", "X-Window-Offset", "X-Window-Length", "X-File-Size"],
 }));
 
-app.post("/api/files/analyze", async (c) => {
-  const body = await c.req.parseBody();
-  const file = body.file as File;
-  if (!file) return c.json({ error: "No file provided" }, 400);
-  if (file.size > 100 * 1024 * 1024) return c.json({ error: "File too large" }, 413);
+// Same session check as the protected routes in src/api/routes.ts
+const requireSession: MiddlewareHandler = async (c, next) => {
+  const cookieHeader = c.req.header("cookie");
+  const cookies = new CookieManager(cookieHeader ? [cookieHeader] : undefined);
+  if (!cookies.getSession()) {
+    return c.json({ error: "Unauthorized: No session cookie" }, 401, {
+      "WWW-Authenticate": 'Cookie realm="file-analyzer"',
+      "X-Error-Color": Bun.color(Palette.security.stroke, "hex")!,
+    });
+  }
+  await next();
+};
+
+app.post("/api/files/analyze", requireSession, async (c) => {
+  const { maxFileSize } = config.streaming;
+  const contentType = c.req.header("content-type") ?? "";
+  const body = c.req.raw.body;
+  if (!body) return c.json({ error: "No file provided" }, 400);
+  if (Number(c.req.header("content-length") ?? 0) > maxFileSize) {
+    return c.json({ error: `File too large (limit ${maxFileSize} bytes)` }, 413);
+  }
+  
+  // Uploads are stored as they arrive and analyzed from there on a worker; the id is
+  // what the byte and strings routes below are addressed by. Expired ones are dropped first
+  await sweepUploads(config.uploads.retentionMs);
+  const id = Bun.randomUUIDv7();
+  const path = uploadPath(id)!;
+  await mkdir(UPLOADS_DIR, { recursive: true });
+  let result;
+  let stored = false;
+  try {
+    let upload: SpooledUpload | null;
+    if (contentType.startsWith("multipart/form-data")) {
+      const boundary = multipartBoundary(contentType);
+      if (!boundary) return c.json({ error: "Multipart body has no boundary" }, 400);
+      upload = await spoolMultipartFile(body, boundary, "file", path, maxFileSize);
+    } else {
+      // Raw bodies (e.g. disk images sent as application/octet-stream)
+      const size = await spoolStream(body, path, maxFileSize);
+      upload = { source: { name: c.req.query("name") ?? c.req.header("x-file-name"), type: contentType || undefined }, size };
+    }
+    if (!upload) return c.json({ error: "No file provided" }, 400);
+    result = await runOffThread({ type: "analyze", path, size: upload.size, source: upload.source });
+    stored = true;
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, taskErrorStatus(error) as 413 | 500 | 503 | 504);
+  } finally {
+    // Only uploads that were analyzed are kept
+    if (!stored) await rm(path, { force: true });
+  }
+  const { analysis, hashes } = result;
+  
+  return c.json({ success: true, data: { id, signature: analysis.detection.format, mime: analysis.detection.mime, hashes, ...analysis }, timestamp: Date.now() });
+});
+
+// Raw byte windows of a stored upload for the hex viewer
+app.get("/api/files/:id/bytes", requireSession, async (c) => {
+  const path = uploadPath(c.req.param("id"));
+  if (!path) return c.json({ error: "Invalid file id" }, 400);
+  const file = Bun.file(path);
+  if (!(await file.exists())) return c.json({ error: "File not found" }, 404);
+  
+  const range = resolveByteRange(c.req.raw, file.size, config.hexView);
+  if (isRangeRejection(range)) return rangeRejectionResponse(range, file.size);
+  return byteRangeResponse(file, range);
+});
+
+// Printable strings of a stored upload, one page at a time
+app.get("/api/files/:id/strings", requireSession, async (c) => {
+  const id = c.req.param("id");
+  const path = uploadPath(id);
+  if (!path) return c.json({ error: "Invalid file id" }, 400);
+  const file = Bun.file(path);
+  if (!(await file.exists())) return c.json({ error: "File not found" }, 404);
+  
+  const url = new URL(c.req.url);
+  const query = parseStringQuery(url.searchParams, config.strings);
+  if (typeof query === "string") return c.json({ error: query }, 400);
   
-  const buffer = await file.arrayBuffer();
-  const uint8 = new Uint8Array(buffer);
-  const signatures: Record<string, string> = { "89-50-4E-47": "PNG", "FF-D8-FF": "JPEG", "47-49-46-38": "GIF", "50-4B-03-04": "ZIP" };
-  const key = Array.from(uint8.slice(0, 4)).map(b => b.toString(16).toUpperCase().padStart(2, "0")).join("-");
+  let page;
+  try {
+    page = await runOffThread({ type: "strings", path, query });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : String(error) }, taskErrorStatus(error) as 413 | 500 | 503 | 504);
+  }
   
-  const hashBuffer = await crypto.subtle.digest("SHA-256", uint8);
-  const hash = Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+  // The next page keeps every filter and only moves the cursor
+  let nextUrl: string | null = null;
+  if (page.nextCursor !== null) {
+    const next = new URLSearchParams(url.searchParams);
+    next.set("cursor", String(page.nextCursor));
+    nextUrl = `${url.pathname}?${next}`;
+  }
   
-  return c.json({ success: true, data: { signature: signatures[key] || "Unknown", hash, size: file.size }, timestamp: Date.now() });
+  return c.json({ id, size: file.size, ...page, nextUrl });
 });
 
 app.get("/health", async (c) => {
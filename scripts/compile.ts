@@ -1,5 +1,7 @@
 #!/usr/bin/env bun
 
+import { parseExecutable } from "../src/analysis/parsers/executable";
+
 // Enhanced CLI argument parsing with flags
 const args = process.argv.slice(2);
 const flags = {
@@ -435,6 +437,21 @@ if (result.success) {
     }
   }
   
+  // Verify the headers match the requested target; cross-compiled outputs cannot be run here
+  const expectedFormat = flags.target.includes("windows") ? "PE" : flags.target.includes("darwin") ? "Mach-O" : "ELF";
+  const expectedArchitecture = flags.target.includes("arm64") ? "AArch64" : "x86-64";
+  const head = await Bun.file(exePath).slice(0, 16 * 1024 * 1024).bytes();
+  const { metadata: executable } = parseExecutable(head, { offset: 0, size });
+  if (executable.format !== expectedFormat || executable.architecture !== expectedArchitecture) {
+    console.error(`❌ Expected a ${expectedFormat} ${expectedArchitecture} binary, got ${executable.format} ${executable.architecture}`);
+    process.exit(1);
+  }
+  console.log(`✅ Headers: ${executable.format} ${executable.architecture} ${executable.bits}-bit ${executable.fileType}`);
+  if (flags.verbose) {
+    const { pie, nx, stripped, rwx } = executable.security;
+    console.log(`  PIE: ${pie}, NX: ${nx}, stripped: ${stripped}, RWX: ${rwx.length > 0 ? rwx.join(", ") : "none"}`);
+  }
+
   // Test executable
   if (flags.verbose) console.log("🧪 Testing executable...");
   
@@ -0,0 +1,48 @@
+/**
+ * Binary Reading Helpers
+ * Bounds-aware primitives shared by the format parsers
+ */
+
+export function u16be(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+export function u16le(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+export function u32be(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+export function u32le(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+/** 64-bit little-endian read; precise up to Number.MAX_SAFE_INTEGER */
+export function u64le(bytes: Uint8Array, offset: number): number {
+  return u32le(bytes, offset) + u32le(bytes, offset + 4) * 2 ** 32;
+}
+
+export function u64be(bytes: Uint8Array, offset: number): number {
+  return u32be(bytes, offset) * 2 ** 32 + u32be(bytes, offset + 4);
+}
+
+/** Decode bytes one-to-one as Latin-1, which never throws on binary input */
+export function latin1(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  let text = "";
+  for (let i = start; i < Math.min(end, bytes.length); i++) text += String.fromCharCode(bytes[i]);
+  return text;
+}
+
+export function utf8(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  return new TextDecoder("utf-8").decode(bytes.subarray(start, end));
+}
+
+/** Index of the first zero byte at or after `start`, or -1 */
+export function indexOfNul(bytes: Uint8Array, start: number, end = bytes.length): number {
+  for (let i = start; i < Math.min(end, bytes.length); i++) {
+    if (bytes[i] === 0) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,410 @@
+/**
+ * Embedded Content Carving
+ * Finds objects at any offset (ZIPs appended to images, executables inside documents,
+ * compressed streams inside firmware) and works out where each one ends
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { u16be, u16le, u32be, u32le, u64be, u64le } from "./binary";
+import { matchSignatures, scanSignatures, type SignatureCategory, type SignatureMatch } from "./signatures";
+import type { Finding, Severity } from "./types";
+
+export interface EmbeddedObject {
+  offset: number;
+  length: number;
+  /** False when the end could not be found and `length` runs to the next object or the end of the data */
+  lengthExact: boolean;
+  /** Registry id of the best-matching signature, e.g. "gzip" or "jar" */
+  signature: string;
+  format: string;
+  mime: string;
+  category: SignatureCategory;
+  /** Index of the innermost exactly-measured object containing this one */
+  parent: number | null;
+}
+
+export interface EmbeddedScan {
+  size: number;
+  /** Bytes searched; less than `size` when the file exceeded the scan limit */
+  scanned: number;
+  objects: EmbeddedObject[];
+  /** True when more objects were found than are listed */
+  truncated: boolean;
+  findings: Finding[];
+}
+
+export interface CarveOptions {
+  maxObjects?: number;
+  /** Decompressed bytes a deflate stream may produce while its end is found */
+  maxInflateBytes?: number;
+}
+
+interface Carver {
+  ids: string[];
+  /** Rejects signature hits that cannot start a real object */
+  validate?: (bytes: Uint8Array, offset: number) => boolean;
+  /** Bytes the object spans, or null when its end cannot be found */
+  measure: (bytes: Uint8Array, offset: number, options: Required<CarveOptions>) => number | null;
+  /** Members repeat the container's own magic (ZIP local headers, tar headers) */
+  repeats?: boolean;
+}
+
+const DEFAULT_MAX_OBJECTS = 1000;
+const DEFAULT_MAX_INFLATE = 64 * 1024 * 1024;
+// Structure walks stop after this many steps so crafted input cannot spin
+const MAX_STEPS = 100_000;
+
+const buffer = (bytes: Uint8Array) => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// --- Measurers --------------------------------------------------------------
+
+const ZIP_EOCD = ascii("PK\x05\x06");
+
+function measureZip(bytes: Uint8Array, offset: number): number | null {
+  const eocd = buffer(bytes).indexOf(ZIP_EOCD, offset + 30);
+  if (eocd < 0 || eocd + 22 > bytes.length) return null;
+  return eocd + 22 + u16le(bytes, eocd + 20) - offset;
+}
+
+const GZIP_FEXTRA = 0x04;
+const GZIP_FNAME = 0x08;
+const GZIP_FCOMMENT = 0x10;
+const GZIP_FHCRC = 0x02;
+
+function measureGzip(bytes: Uint8Array, offset: number, { maxInflateBytes }: Required<CarveOptions>): number | null {
+  const flags = bytes[offset + 3];
+  let position = offset + 10;
+  if (flags & GZIP_FEXTRA) position += 2 + u16le(bytes, position);
+  if (flags & GZIP_FNAME) position = bytes.indexOf(0, position) + 1;
+  if (flags & GZIP_FCOMMENT) position = bytes.indexOf(0, position) + 1;
+  if (flags & GZIP_FHCRC) position += 2;
+  if (position <= offset || position >= bytes.length) return null;
+
+  try {
+    const { engine } = inflateRawSync(bytes.subarray(position), { info: true, maxOutputLength: maxInflateBytes }) as unknown as {
+      engine: { bytesWritten: number };
+    };
+    // CRC32 and size trailer
+    const end = position + engine.bytesWritten + 8;
+    return end <= bytes.length ? end - offset : null;
+  } catch {
+    return null;
+  }
+}
+
+function measurePe(bytes: Uint8Array, offset: number): number | null {
+  const pe = offset + u32le(bytes, offset + 60);
+  if (pe + 24 > bytes.length) return null;
+  const sections = u16le(bytes, pe + 6);
+  const optionalSize = u16le(bytes, pe + 20);
+  const table = pe + 24 + optionalSize;
+  let end = table + sections * 40;
+  if (end > bytes.length) return null;
+
+  for (let i = 0; i < sections; i++) {
+    const section = table + i * 40;
+    const rawSize = u32le(bytes, section + 16);
+    if (rawSize > 0) end = Math.max(end, offset + u32le(bytes, section + 20) + rawSize);
+  }
+
+  // Authenticode signatures sit after the last section; the security directory entry holds a file offset
+  const magic = u16le(bytes, pe + 24);
+  const directories = pe + 24 + (magic === 0x20b ? 112 : 96);
+  const security = directories + 4 * 8;
+  if (security + 8 <= table) {
+    const certificates = u32le(bytes, security);
+    if (certificates > 0) end = Math.max(end, offset + certificates + u32le(bytes, security + 4));
+  }
+  return end - offset;
+}
+
+function measureElf(bytes: Uint8Array, offset: number): number | null {
+  const is64 = bytes[offset + 4] === 2;
+  const le = bytes[offset + 5] === 1;
+  const u16 = (at: number) => (le ? u16le : u16be)(bytes, offset + at);
+  const u32 = (at: number) => (le ? u32le : u32be)(bytes, offset + at);
+  const word = (at: number) => (is64 ? (le ? u64le : u64be)(bytes, offset + at) : u32(at));
+  if (offset + (is64 ? 64 : 52) > bytes.length) return null;
+
+  const phoff = word(is64 ? 32 : 28);
+  const shoff = word(is64 ? 40 : 32);
+  const [phentsize, phnum, shentsize, shnum] = is64 ? [u16(54), u16(56), u16(58), u16(60)] : [u16(42), u16(44), u16(46), u16(48)];
+  let end = Math.max(is64 ? 64 : 52, shoff + shentsize * shnum, phoff + phentsize * phnum);
+
+  for (let i = 0; i < Math.min(phnum, 1024); i++) {
+    const header = phoff + i * phentsize;
+    if (offset + header + phentsize > bytes.length) break;
+    const start = word(header + (is64 ? 8 : 4));
+    const size = word(header + (is64 ? 32 : 16));
+    end = Math.max(end, start + size);
+  }
+  for (let i = 0; i < Math.min(shnum, 4096); i++) {
+    const header = shoff + i * shentsize;
+    if (offset + header + shentsize > bytes.length) break;
+    // SHT_NOBITS (.bss) occupies no file space
+    if (u32(header + 4) === 8) continue;
+    end = Math.max(end, word(header + (is64 ? 24 : 16)) + word(header + (is64 ? 32 : 20)));
+  }
+  return end;
+}
+
+function measurePng(bytes: Uint8Array, offset: number): number | null {
+  let position = offset + 8;
+  for (let step = 0; step < MAX_STEPS && position + 12 <= bytes.length; step++) {
+    const next = position + 12 + u32be(bytes, position);
+    if (u32be(bytes, position + 4) === 0x49454e44) return next - offset; // IEND
+    position = next;
+  }
+  return null;
+}
+
+function measureJpeg(bytes: Uint8Array, offset: number): number | null {
+  let position = offset + 2;
+  for (let step = 0; step < MAX_STEPS && position + 4 <= bytes.length; step++) {
+    if (bytes[position] !== 0xff) return null;
+    const marker = bytes[position + 1];
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+    if (marker === 0xd9) return position + 2 - offset;
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      position += 2;
+      continue;
+    }
+    position += 2 + u16be(bytes, position + 2);
+    if (marker !== 0xda) continue;
+
+    // Entropy-coded data runs to the next marker other than a stuffed zero or a restart
+    while (position + 1 < bytes.length) {
+      if (bytes[position] === 0xff && bytes[position + 1] !== 0 && (bytes[position + 1] < 0xd0 || bytes[position + 1] > 0xd7)) break;
+      position++;
+    }
+  }
+  return null;
+}
+
+function measureGif(bytes: Uint8Array, offset: number): number | null {
+  const skipSubBlocks = (position: number) => {
+    while (position < bytes.length && bytes[position] !== 0) position += bytes[position] + 1;
+    return position + 1;
+  };
+  const colorTable = (packed: number) => (packed & 0x80 ? 3 * 2 ** ((packed & 7) + 1) : 0);
+
+  let position = offset + 13 + colorTable(bytes[offset + 10]);
+  for (let step = 0; step < MAX_STEPS && position < bytes.length; step++) {
+    const block = bytes[position];
+    if (block === 0x3b) return position + 1 - offset;
+    if (block === 0x21) {
+      position = skipSubBlocks(position + 2);
+    } else if (block === 0x2c) {
+      position += 10 + colorTable(bytes[position + 9]);
+      position = skipSubBlocks(position + 1);
+    } else {
+      return null;
+    }
+  }
+  return null;
+}
+
+const PDF_HEADER = ascii("%PDF-");
+const PDF_EOF = ascii("%%EOF");
+
+/** Up to the last %%EOF before the next PDF header, so incremental updates stay attached */
+function measurePdf(bytes: Uint8Array, offset: number): number | null {
+  const data = buffer(bytes);
+  const nextHeader = data.indexOf(PDF_HEADER, offset + PDF_HEADER.length);
+  const limit = nextHeader < 0 ? bytes.length : nextHeader;
+  const eof = data.lastIndexOf(PDF_EOF, limit - PDF_EOF.length);
+  if (eof < offset) return null;
+  let end = eof + PDF_EOF.length;
+  if (bytes[end] === 0x0d) end++;
+  if (bytes[end] === 0x0a) end++;
+  return end - offset;
+}
+
+function measure7z(bytes: Uint8Array, offset: number): number | null {
+  if (offset + 32 > bytes.length) return null;
+  return 32 + u64le(bytes, offset + 12) + u64le(bytes, offset + 20);
+}
+
+const XZ_FOOTER_MAGIC = ascii("YZ");
+
+/** The stream footer ends in "YZ" and carries a CRC32 of its own fields */
+function measureXz(bytes: Uint8Array, offset: number): number | null {
+  const data = buffer(bytes);
+  for (let at = data.indexOf(XZ_FOOTER_MAGIC, offset + 24); at >= 0; at = data.indexOf(XZ_FOOTER_MAGIC, at + 1)) {
+    const footer = at - 10;
+    if (u32le(bytes, footer) === Bun.hash.crc32(bytes.subarray(footer + 4, at)) >>> 0) return at + 2 - offset;
+  }
+  return null;
+}
+
+function tarChecksumValid(bytes: Uint8Array, header: number): boolean {
+  if (header + 512 > bytes.length) return false;
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += i >= 148 && i < 156 ? 0x20 : bytes[header + i];
+  const stored = parseInt(new TextDecoder().decode(bytes.subarray(header + 148, header + 156)).replace(/[\0 ]/g, ""), 8);
+  return stored === sum;
+}
+
+function measureTar(bytes: Uint8Array, offset: number): number | null {
+  let position = offset;
+  for (let step = 0; step < MAX_STEPS && position + 512 <= bytes.length; step++) {
+    if (bytes.subarray(position, position + 512).every((byte) => byte === 0)) {
+      return Math.min(bytes.length, position + 1024) - offset;
+    }
+    if (!tarChecksumValid(bytes, position)) return position - offset;
+    const size = parseInt(new TextDecoder().decode(bytes.subarray(position + 124, position + 136)).replace(/[\0 ]/g, "") || "0", 8);
+    position += 512 + Math.ceil(size / 512) * 512;
+  }
+  return Math.min(position, bytes.length) - offset;
+}
+
+function measureUImage(bytes: Uint8Array, offset: number): number | null {
+  return 64 + u32be(bytes, offset + 12);
+}
+
+function validUImage(bytes: Uint8Array, offset: number): boolean {
+  if (offset + 64 > bytes.length) return false;
+  const header = bytes.slice(offset, offset + 64);
+  header.fill(0, 4, 8);
+  return Bun.hash.crc32(header) >>> 0 === u32be(bytes, offset + 4);
+}
+
+const CARVERS: Carver[] = [
+  {
+    ids: ["zip", "jar", "apk", "ooxml", "odt", "ods", "odp", "odg", "epub", "xps"],
+    validate: (b, o) => o + 30 <= b.length && u16le(b, o + 4) < 100 && u16le(b, o + 26) > 0 && u16le(b, o + 26) < 1024,
+    measure: measureZip,
+    repeats: true,
+  },
+  { ids: ["gzip"], validate: (b, o) => (b[o + 3] & 0xe0) === 0, measure: measureGzip },
+  { ids: ["pe"], measure: measurePe },
+  { ids: ["elf"], validate: (b, o) => [1, 2].includes(b[o + 4]) && [1, 2].includes(b[o + 5]) && b[o + 6] === 1, measure: measureElf },
+  { ids: ["png", "apng"], measure: measurePng },
+  { ids: ["jpeg", "jpeg-jfif", "jpeg-exif"], validate: (b, o) => b[o + 3] >= 0xc0, measure: measureJpeg },
+  { ids: ["gif87a", "gif89a"], measure: measureGif },
+  { ids: ["pdf"], measure: measurePdf },
+  { ids: ["7z"], measure: measure7z },
+  { ids: ["xz"], measure: measureXz },
+  { ids: ["bzip2", "rar4", "rar5", "ole2"], measure: () => null },
+  { ids: ["tar", "tar-gnu"], validate: tarChecksumValid, measure: measureTar, repeats: true },
+  { ids: ["squashfs-le"], measure: (b, o) => (o + 48 <= b.length ? u64le(b, o + 40) : null) },
+  { ids: ["squashfs-be"], measure: (b, o) => (o + 48 <= b.length ? u64be(b, o + 40) : null) },
+  { ids: ["uimage"], validate: validUImage, measure: measureUImage },
+  { ids: ["dtb"], validate: (b, o) => o + 24 <= b.length && u32be(b, o + 20) >= 1 && u32be(b, o + 20) <= 17, measure: (b, o) => u32be(b, o + 4) },
+  { ids: ["cab"], measure: (b, o) => (o + 12 <= b.length ? u32le(b, o + 8) : null) },
+];
+
+const CARVER_BY_ID = new Map(CARVERS.flatMap((carver) => carver.ids.map((id) => [id, carver] as const)));
+const CARVED_IDS = new Set(CARVER_BY_ID.keys());
+
+// --- Scanning ---------------------------------------------------------------
+
+/**
+ * Map every carvable object in a buffer. Objects are listed in offset order; an object
+ * whose end is unknown is assumed to run to the next object found after it.
+ */
+export function findEmbedded(bytes: Uint8Array, options: CarveOptions = {}): { objects: EmbeddedObject[]; truncated: boolean } {
+  const settings: Required<CarveOptions> = {
+    maxObjects: options.maxObjects ?? DEFAULT_MAX_OBJECTS,
+    maxInflateBytes: options.maxInflateBytes ?? DEFAULT_MAX_INFLATE,
+  };
+
+  // Strongest match per offset only; weaker entries at the same offset describe the same bytes
+  const hits: SignatureMatch[] = [];
+  for (const match of scanSignatures(bytes, CARVED_IDS)) {
+    if (hits[hits.length - 1]?.offset !== match.offset) hits.push(match);
+  }
+
+  const objects: EmbeddedObject[] = [];
+  const carvers: Carver[] = [];
+  let truncated = false;
+  for (const hit of hits) {
+    const carver = CARVER_BY_ID.get(hit.id)!;
+    if (carver.validate && !carver.validate(bytes, hit.offset)) continue;
+
+    const parent = enclosing(objects, hit.offset);
+    // A container's own members start with the container's magic
+    if (carver.repeats && parent !== null && carvers[parent] === carver) continue;
+    if (objects.length >= settings.maxObjects) {
+      truncated = true;
+      break;
+    }
+
+    const measured = carver.measure(bytes, hit.offset, settings);
+    const lengthExact = measured !== null && measured > 0 && hit.offset + measured <= bytes.length;
+    const length = lengthExact ? measured! : bytes.length - hit.offset;
+    const type = matchSignatures(bytes.subarray(hit.offset, hit.offset + length)).find((match) => match.family === hit.family) ?? hit;
+
+    objects.push({
+      offset: hit.offset,
+      length,
+      lengthExact,
+      signature: type.id,
+      format: type.name,
+      mime: type.mime,
+      category: type.category,
+      parent,
+    });
+    carvers.push(carver);
+  }
+
+  // Unknown ends stop at the next object at the same nesting level
+  objects.forEach((object, index) => {
+    if (object.lengthExact) return;
+    const next = objects.find((other, otherIndex) => otherIndex > index && other.offset > object.offset && other.parent === object.parent);
+    if (next) object.length = next.offset - object.offset;
+  });
+
+  return { objects, truncated };
+}
+
+/** Innermost exactly-measured object that contains `offset` */
+function enclosing(objects: EmbeddedObject[], offset: number): number | null {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const object = objects[i];
+    if (object.lengthExact && offset > object.offset && offset < object.offset + object.length) return i;
+  }
+  return null;
+}
+
+/**
+ * Objects that are not the file itself and not members of an archive that holds them by design
+ */
+export function topLevelObjects(objects: EmbeddedObject[]): EmbeddedObject[] {
+  return objects.filter((object) => {
+    if (object.offset === 0) return false;
+    const parent = object.parent === null ? null : objects[object.parent];
+    return parent === null || parent.offset === 0 && parent.category !== "archive";
+  });
+}
+
+const EMBEDDED_SEVERITY: Partial<Record<SignatureCategory, Severity>> = {
+  executable: "high",
+  archive: "medium",
+  document: "medium",
+};
+
+/**
+ * One finding per object hidden inside the file, most severe for executables
+ */
+export function embeddedFindings(objects: EmbeddedObject[]): Finding[] {
+  return topLevelObjects(objects).map((object) => ({
+    id: "carve.embedded",
+    severity: EMBEDDED_SEVERITY[object.category] ?? "info",
+    message: `${object.format} embedded at offset ${object.offset} (${object.lengthExact ? "" : "about "}${object.length} bytes)`,
+    source: "carve",
+    offset: object.offset,
+  }));
+}
+
+/**
+ * Map a file's embedded objects, searching at most `scanned` bytes of it
+ */
+export function scanEmbedded(bytes: Uint8Array, size = bytes.length, options?: CarveOptions): EmbeddedScan {
+  const { objects, truncated } = findEmbedded(bytes, options);
+  return { size, scanned: bytes.length, objects, truncated, findings: embeddedFindings(objects) };
+}
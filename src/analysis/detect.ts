@@ -0,0 +1,63 @@
+/**
+ * Format Detection
+ * Ranks every offset-anchored signature match and flags files that validly parse as more than one format
+ */
+
+import { matchSignatures, type SignatureCategory, type SignatureMatch } from "./signatures";
+
+export type FormatCandidate = SignatureMatch;
+
+export interface DetectionResult {
+  format: string;
+  mime: string;
+  category: SignatureCategory | "unknown";
+  confidence: number;
+  /** One entry per distinct format, strongest first */
+  candidates: FormatCandidate[];
+  /** True when unrelated formats both match with at least POLYGLOT_THRESHOLD confidence */
+  polyglot: boolean;
+  polyglotFormats: string[];
+}
+
+/** Candidates below this confidence are too weak to call a file ambiguous */
+export const POLYGLOT_THRESHOLD = 0.5;
+
+export const UNKNOWN_FORMAT = "Unknown";
+export const DEFAULT_MIME = "application/octet-stream";
+
+/**
+ * Detect the format of a buffer using signatures anchored at their defined offsets.
+ * `tail` holds the end of the file when `bytes` is only its head.
+ */
+export function detectFormat(bytes: Uint8Array, tail?: Uint8Array): DetectionResult {
+  const candidates: FormatCandidate[] = [];
+  const seen = new Set<string>();
+  for (const match of matchSignatures(bytes, tail)) {
+    if (seen.has(match.name)) continue;
+    seen.add(match.name);
+    candidates.push(match);
+  }
+
+  // Refinements of one structure (RIFF → WAV, ZIP → JAR) share a family;
+  // a polyglot needs strong matches from two unrelated families.
+  // Payloads that only ever ride on a host (Bun's standalone trailer) don't count next to it
+  const families = new Map<string, FormatCandidate>();
+  const hosted = (candidate: FormatCandidate) =>
+    candidate.host !== undefined && candidates.some((other) => other !== candidate && other.category === candidate.host);
+  for (const candidate of candidates) {
+    if (candidate.confidence < POLYGLOT_THRESHOLD || families.has(candidate.family) || hosted(candidate)) continue;
+    families.set(candidate.family, candidate);
+  }
+  const polyglotFormats = families.size > 1 ? [...families.values()].map((c) => c.name) : [];
+
+  const best = candidates[0];
+  return {
+    format: best?.name ?? UNKNOWN_FORMAT,
+    mime: best?.mime ?? DEFAULT_MIME,
+    category: best?.category ?? "unknown",
+    confidence: best?.confidence ?? 0,
+    candidates,
+    polyglot: polyglotFormats.length > 1,
+    polyglotFormats,
+  };
+}
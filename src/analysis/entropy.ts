@@ -0,0 +1,247 @@
+/**
+ * Entropy Analysis
+ * Shannon entropy per block and a byte histogram, computed incrementally so streamed files are covered end to end
+ */
+
+import type { DetectionResult } from "./detect";
+import type { Finding } from "./types";
+
+export interface EntropyRegion {
+  offset: number;
+  length: number;
+  /** Mean entropy of the region's blocks, bits per byte */
+  entropy: number;
+  /**
+   * "encrypted" when the region is large enough to test and its bytes are
+   * indistinguishable from uniform noise; compressed data is measurably less even
+   */
+  likely: "compressed" | "encrypted";
+}
+
+export interface EntropyProfile {
+  /** Shannon entropy of the whole file, 0..8 bits per byte */
+  overall: number;
+  /** Bytes covered by each entry of `blocks`; grows for large files so the profile stays bounded */
+  blockSize: number;
+  blocks: number[];
+  /** Occurrences of each byte value */
+  histogram: number[];
+  /** Pearson chi-square of the histogram against a uniform distribution (255 degrees of freedom) */
+  chiSquare: number;
+  /** High-entropy stretches, in file order; at most MAX_REGIONS are listed */
+  regions: EntropyRegion[];
+  highEntropyBytes: number;
+}
+
+export interface EntropyOptions {
+  /** Window each entropy sample is taken over */
+  windowSize?: number;
+  /** Chart entries kept before adjacent blocks are merged */
+  maxBlocks?: number;
+}
+
+const DEFAULT_WINDOW = 4096;
+const DEFAULT_MAX_BLOCKS = 1024;
+const MAX_REGIONS = 64;
+/** Windows at or above this many bits per byte look compressed or encrypted */
+export const HIGH_ENTROPY = 7.2;
+/** Smallest region whose uniformity is tested; small deflate runs pass as noise */
+const MIN_RANDOM_REGION = 64 * 1024;
+/** Chi-square critical value at p = 0.001 with 255 degrees of freedom */
+const UNIFORM_CHI_SQUARE = 330.5;
+// Tail windows shorter than this give entropy estimates too low to classify
+const MIN_CLASSIFIED_WINDOW = 1024;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function shannon(counts: ArrayLike<number>, total: number): number {
+  if (total === 0) return 0;
+  let entropy = 0;
+  for (let i = 0; i < 256; i++) {
+    if (counts[i] === 0) continue;
+    const p = counts[i] / total;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function chiSquare(counts: ArrayLike<number>, total: number): number {
+  if (total === 0) return 0;
+  const expected = total / 256;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += (counts[i] - expected) ** 2 / expected;
+  return sum;
+}
+
+interface OpenRegion {
+  offset: number;
+  length: number;
+  entropySum: number;
+  windows: number;
+  counts: Float64Array;
+}
+
+/**
+ * Incremental entropy profiler fed the same chunks as the hashers
+ */
+export class EntropyProfiler {
+  private readonly windowSize: number;
+  private readonly maxBlocks: number;
+  private histogram = new Float64Array(256);
+  private window = new Uint32Array(256);
+  private windowFill = 0;
+  private offset = 0;
+
+  private blocks: number[] = [];
+  private blockSize: number;
+  // Windows averaged into the next chart entry
+  private pendingSum = 0;
+  private pendingWindows = 0;
+
+  private region: OpenRegion | null = null;
+  private regions: EntropyRegion[] = [];
+  private highEntropyBytes = 0;
+
+  constructor({ windowSize = DEFAULT_WINDOW, maxBlocks = DEFAULT_MAX_BLOCKS }: EntropyOptions = {}) {
+    this.windowSize = windowSize;
+    this.maxBlocks = maxBlocks;
+    this.blockSize = windowSize;
+  }
+
+  update(chunk: Uint8Array): this {
+    const { histogram, window, windowSize } = this;
+    let index = 0;
+    while (index < chunk.length) {
+      const end = Math.min(chunk.length, index + windowSize - this.windowFill);
+      for (let i = index; i < end; i++) {
+        histogram[chunk[i]]++;
+        window[chunk[i]]++;
+      }
+      this.windowFill += end - index;
+      index = end;
+      if (this.windowFill === windowSize) this.closeWindow();
+    }
+    return this;
+  }
+
+  digest(): EntropyProfile {
+    if (this.windowFill > 0) this.closeWindow();
+    this.closeRegion();
+    if (this.pendingWindows > 0) {
+      this.blocks.push(this.pendingSum / this.pendingWindows);
+      this.pendingSum = 0;
+      this.pendingWindows = 0;
+    }
+
+    return {
+      overall: round(shannon(this.histogram, this.offset)),
+      blockSize: this.blockSize,
+      blocks: this.blocks.map(round),
+      histogram: Array.from(this.histogram),
+      chiSquare: round(chiSquare(this.histogram, this.offset)),
+      regions: this.regions,
+      highEntropyBytes: this.highEntropyBytes,
+    };
+  }
+
+  private closeWindow(): void {
+    const length = this.windowFill;
+    const entropy = shannon(this.window, length);
+
+    if (entropy >= HIGH_ENTROPY && length >= Math.min(this.windowSize, MIN_CLASSIFIED_WINDOW)) {
+      this.region ??= { offset: this.offset, length: 0, entropySum: 0, windows: 0, counts: new Float64Array(256) };
+      this.region.length += length;
+      this.region.entropySum += entropy;
+      this.region.windows++;
+      for (let i = 0; i < 256; i++) this.region.counts[i] += this.window[i];
+      this.highEntropyBytes += length;
+    } else {
+      this.closeRegion();
+    }
+
+    this.pendingSum += entropy;
+    this.pendingWindows++;
+    if (this.pendingWindows * this.windowSize === this.blockSize) {
+      this.blocks.push(this.pendingSum / this.pendingWindows);
+      this.pendingSum = 0;
+      this.pendingWindows = 0;
+      if (this.blocks.length > this.maxBlocks) this.coarsen();
+    }
+
+    this.offset += length;
+    this.window.fill(0);
+    this.windowFill = 0;
+  }
+
+  /** Halve the chart resolution by averaging neighbouring blocks */
+  private coarsen(): void {
+    const merged: number[] = [];
+    for (let i = 0; i + 1 < this.blocks.length; i += 2) merged.push((this.blocks[i] + this.blocks[i + 1]) / 2);
+    if (this.blocks.length % 2 === 1) {
+      this.pendingSum = this.blocks[this.blocks.length - 1] * (this.blockSize / this.windowSize);
+      this.pendingWindows = this.blockSize / this.windowSize;
+    }
+    this.blocks = merged;
+    this.blockSize *= 2;
+  }
+
+  private closeRegion(): void {
+    const region = this.region;
+    if (!region) return;
+    this.region = null;
+    if (this.regions.length >= MAX_REGIONS) return;
+
+    const uniform = region.length >= MIN_RANDOM_REGION && chiSquare(region.counts, region.length) < UNIFORM_CHI_SQUARE;
+    this.regions.push({
+      offset: region.offset,
+      length: region.length,
+      entropy: round(region.entropySum / region.windows),
+      likely: uniform ? "encrypted" : "compressed",
+    });
+  }
+}
+
+/**
+ * Profile an in-memory buffer
+ */
+export function profileEntropy(bytes: Uint8Array, options?: EntropyOptions): EntropyProfile {
+  return new EntropyProfiler(options).update(bytes).digest();
+}
+
+// Formats whose payload is compressed or encrypted by design
+const PACKED_CATEGORIES = new Set(["archive", "media", "font"]);
+// Compressed resources are common in executables; most of the file is another matter
+const PACKED_SHARE = 0.3;
+
+/**
+ * Findings for high-entropy content the detected format does not account for
+ */
+export function entropyFindings(profile: EntropyProfile, detection: DetectionResult, size: number): Finding[] {
+  const findings: Finding[] = [];
+  if (profile.highEntropyBytes === 0) return findings;
+
+  if (detection.category === "executable") {
+    const share = profile.highEntropyBytes / size;
+    if (share < PACKED_SHARE) return findings;
+    findings.push({
+      id: "entropy.packed",
+      severity: "medium",
+      message: `${Math.round(share * 100)}% of the executable is high-entropy data; it may be packed or encrypted`,
+      source: "entropy",
+      offset: profile.regions[0]?.offset,
+    });
+    return findings;
+  }
+
+  for (const region of profile.regions) {
+    if (region.likely !== "encrypted") continue;
+    findings.push({
+      id: "entropy.encrypted",
+      severity: PACKED_CATEGORIES.has(detection.category) ? "info" : "medium",
+      message: `${region.length} bytes at offset ${region.offset} are indistinguishable from random data (likely encrypted)`,
+      source: "entropy",
+      offset: region.offset,
+    });
+  }
+  return findings;
+}
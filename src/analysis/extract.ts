@@ -0,0 +1,308 @@
+/**
+ * Sandboxed Archive Extraction
+ * Unpacks tar, tar.gz and ZIP into a per-request directory under byte, entry, depth and path limits
+ */
+
+import { readdir, rm, stat } from "node:fs/promises";
+import { join, resolve, sep } from "node:path";
+import { gunzipSync } from "node:zlib";
+import { indexOfNul, latin1, utf8 } from "./binary";
+import { detectFormat } from "./detect";
+import { analyzeBuffer, type FileAnalysis } from "./index";
+import { parseZip, readZipEntry, ZIP_SIGNATURES } from "./parsers/zip";
+
+export type ArchiveKind = "tar" | "tar.gz" | "zip";
+
+export interface ExtractionLimits {
+  maxTotalBytes: number;
+  maxEntries: number;
+  /** How many archive-within-archive levels are unpacked; the uploaded archive is level 1 */
+  maxDepth: number;
+  maxPathLength: number;
+}
+
+export interface ExtractedChild {
+  /** Normalized path relative to the sandbox */
+  path: string;
+  size: number;
+  analysis: FileAnalysis;
+  /** Contents of a nested archive, present when the depth limit allowed unpacking it */
+  archive?: { kind: ArchiveKind; children: ExtractedChild[] };
+}
+
+export interface SkippedEntry {
+  name: string;
+  reason: string;
+}
+
+export interface ExtractionManifest {
+  kind: ArchiveKind;
+  limits: ExtractionLimits;
+  children: ExtractedChild[];
+  skipped: SkippedEntry[];
+  totalEntries: number;
+  totalBytes: number;
+  /** The limit that stopped extraction early, if any */
+  limitReached: keyof ExtractionLimits | null;
+}
+
+interface ArchiveEntry {
+  name: string;
+  type: "file" | "directory" | "link" | "other";
+  /** Declared size, checked against the byte budget before reading */
+  size: number;
+  read: () => Uint8Array;
+}
+
+interface ExtractionState {
+  root: string;
+  limits: ExtractionLimits;
+  entries: number;
+  bytes: number;
+  skipped: SkippedEntry[];
+  limitReached: keyof ExtractionLimits | null;
+  /** Sandbox-relative paths already written, across every nesting level */
+  written: Set<string>;
+}
+
+const TAR_BLOCK = 512;
+/** Headers and padding a tar stream may add per entry on top of its file data */
+const TAR_ENTRY_OVERHEAD = 3 * TAR_BLOCK;
+/** Nested archive contents are written next to the archive file under this suffix */
+const NESTED_SUFFIX = ".contents";
+
+const TAR_SIGNATURES = ["tar", "tar-gnu"];
+
+/**
+ * Identify an archive format this module can unpack
+ */
+export function archiveKind(bytes: Uint8Array): ArchiveKind | null {
+  const ids = new Set(detectFormat(bytes).candidates.map((candidate) => candidate.id));
+  if (ZIP_SIGNATURES.some((id) => ids.has(id))) return "zip";
+  if (TAR_SIGNATURES.some((id) => ids.has(id))) return "tar";
+  if (ids.has("gzip")) return "tar.gz";
+  return null;
+}
+
+/**
+ * Collapse an entry name to a relative path inside the sandbox, or null if it would escape.
+ * Leading slashes and drive letters are stripped the same way tar does.
+ */
+export function normalizeEntryPath(name: string): string | null {
+  if (name.includes("\0")) return null;
+  const segments: string[] = [];
+  for (const part of name.replace(/\\/g, "/").replace(/^[A-Za-z]:/, "").split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+      continue;
+    }
+    segments.push(part);
+  }
+  return segments.length > 0 ? segments.join("/") : null;
+}
+
+function cstring(bytes: Uint8Array, start: number, end: number): string {
+  const nul = indexOfNul(bytes, start, end);
+  return utf8(bytes, start, nul < 0 ? end : nul);
+}
+
+/** Octal tar number, or base-256 when the high bit of the first byte is set */
+function tarNumber(header: Uint8Array, start: number, length: number): number {
+  if (header[start] & 0x80) {
+    let value = header[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i++) value = value * 256 + header[i];
+    return value;
+  }
+  return parseInt(latin1(header, start, start + length).replace(/[\0 ]+/g, ""), 8) || 0;
+}
+
+function tarChecksumValid(header: Uint8Array): boolean {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  return sum === tarNumber(header, 148, 8);
+}
+
+/** The `path` record of a PAX extended header */
+function paxPath(data: Uint8Array): string | null {
+  for (const record of utf8(data).split("\n")) {
+    const match = /^\d+ path=(.*)$/s.exec(record);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function* tarEntries(bytes: Uint8Array): Generator<ArchiveEntry> {
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + TAR_BLOCK <= bytes.length) {
+    const header = bytes.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) return;
+    if (!tarChecksumValid(header)) throw new Error(`Corrupt tar header at offset ${offset}`);
+
+    const size = tarNumber(header, 124, 12);
+    const flag = header[156] === 0 ? "0" : String.fromCharCode(header[156]);
+    const dataStart = offset + TAR_BLOCK;
+    if (dataStart + size > bytes.length) throw new Error(`Truncated tar entry at offset ${offset}`);
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    // GNU long names and PAX headers describe the entry that follows
+    if (flag === "L") { longName = cstring(data, 0, data.length); continue; }
+    if (flag === "x") { longName = paxPath(data) ?? longName; continue; }
+    if (flag === "g") continue;
+
+    const prefix = latin1(header, 257, 262) === "ustar" ? cstring(header, 345, 500) : "";
+    const baseName = cstring(header, 0, 100);
+    const name = longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+    longName = null;
+
+    yield {
+      name,
+      type: flag === "0" || flag === "7" ? "file" : flag === "5" ? "directory" : flag === "1" || flag === "2" ? "link" : "other",
+      size,
+      read: () => data,
+    };
+  }
+}
+
+function* zipEntries(bytes: Uint8Array): Generator<ArchiveEntry> {
+  const { metadata } = parseZip(bytes);
+  if (!metadata.eocd) throw new Error("ZIP end-of-central-directory record not found");
+
+  for (const entry of metadata.entries) {
+    yield {
+      name: entry.name,
+      type: entry.directory ? "directory" : "file",
+      size: entry.uncompressedSize,
+      read: () => readZipEntry(bytes, entry, metadata.prependedBytes),
+    };
+  }
+}
+
+function archiveEntries(kind: ArchiveKind, bytes: Uint8Array, state: ExtractionState): Iterable<ArchiveEntry> {
+  if (kind === "zip") return zipEntries(bytes);
+  if (kind === "tar") return tarEntries(bytes);
+
+  const remaining = state.limits.maxTotalBytes - state.bytes;
+  const overhead = (state.limits.maxEntries - state.entries + 2) * TAR_ENTRY_OVERHEAD;
+  let tar: Uint8Array;
+  try {
+    tar = gunzipSync(bytes, { maxOutputLength: Math.max(1, remaining + overhead) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      state.limitReached = "maxTotalBytes";
+      return [];
+    }
+    throw new Error("gzip stream is corrupt");
+  }
+  if (latin1(tar, 257, 262) !== "ustar") throw new Error("gzip stream does not contain a tar archive");
+  return tarEntries(tar);
+}
+
+async function extractInto(kind: ArchiveKind, bytes: Uint8Array, prefix: string, depth: number, state: ExtractionState): Promise<ExtractedChild[]> {
+  const { limits } = state;
+  const children: ExtractedChild[] = [];
+
+  for (const entry of archiveEntries(kind, bytes, state)) {
+    if (state.limitReached) break;
+    const skip = (reason: string) => state.skipped.push({ name: prefix ? `${prefix}/${entry.name}` : entry.name, reason });
+
+    const path = normalizeEntryPath(entry.name);
+    if (!path) { skip("path escapes the sandbox"); continue; }
+    const fullPath = prefix ? `${prefix}/${path}` : path;
+    if (fullPath.length > limits.maxPathLength) { skip("path exceeds maxPathLength"); continue; }
+    if (entry.type === "directory") continue;
+    if (entry.type !== "file") { skip(`${entry.type} entries are not extracted`); continue; }
+    if (state.written.has(fullPath)) { skip("duplicate path"); continue; }
+    state.written.add(fullPath);
+
+    if (state.entries >= limits.maxEntries) { state.limitReached = "maxEntries"; break; }
+    if (state.bytes + entry.size > limits.maxTotalBytes) { state.limitReached = "maxTotalBytes"; break; }
+
+    let data: Uint8Array;
+    try {
+      data = entry.read();
+    } catch (error) {
+      skip(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    const target = resolve(state.root, fullPath);
+    if (!target.startsWith(state.root + sep)) { skip("path escapes the sandbox"); continue; }
+    try {
+      await Bun.write(target, data);
+    } catch (error) {
+      skip(`write failed: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+    state.entries++;
+    state.bytes += data.length;
+
+    const child: ExtractedChild = { path: fullPath, size: data.length, analysis: analyzeBuffer(data, { name: path }) };
+    const nested = archiveKind(data);
+    if (nested && depth >= limits.maxDepth) {
+      state.skipped.push({ name: fullPath, reason: "nested archive exceeds maxDepth" });
+    } else if (nested) {
+      try {
+        child.archive = { kind: nested, children: await extractInto(nested, data, fullPath + NESTED_SUFFIX, depth + 1, state) };
+      } catch (error) {
+        state.skipped.push({ name: fullPath, reason: `nested archive not extracted: ${error instanceof Error ? error.message : error}` });
+      }
+    }
+    children.push(child);
+  }
+
+  return children;
+}
+
+/**
+ * Extract an archive into `sandbox`, analyzing every extracted file.
+ * Throws when the top-level archive is corrupt; problems with single entries are reported as skipped.
+ */
+export async function extractArchive(
+  bytes: Uint8Array,
+  kind: ArchiveKind,
+  sandbox: string,
+  limits: ExtractionLimits
+): Promise<ExtractionManifest> {
+  const state: ExtractionState = {
+    root: resolve(sandbox),
+    limits,
+    entries: 0,
+    bytes: 0,
+    skipped: [],
+    limitReached: null,
+    written: new Set(),
+  };
+  const children = await extractInto(kind, bytes, "", 1, state);
+
+  return {
+    kind,
+    limits,
+    children,
+    skipped: state.skipped,
+    totalEntries: state.entries,
+    totalBytes: state.bytes,
+    limitReached: state.limitReached,
+  };
+}
+
+/**
+ * Remove per-request sandboxes under `root` that were last written more than `retentionMs` ago
+ */
+export async function sweepSandboxes(root: string, retentionMs: number): Promise<number> {
+  const cutoff = Date.now() - retentionMs;
+  let removed = 0;
+  const names = await readdir(root).catch(() => [] as string[]);
+  for (const name of names) {
+    const dir = join(root, name);
+    const info = await stat(dir).catch(() => null);
+    if (!info?.isDirectory() || info.mtimeMs > cutoff) continue;
+    await rm(dir, { recursive: true, force: true });
+    removed++;
+  }
+  return removed;
+}
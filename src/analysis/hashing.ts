@@ -0,0 +1,99 @@
+/**
+ * Hashing Service
+ * Computes a configurable set of digests in a single pass over buffers or streamed chunks
+ */
+
+import { CtphHasher, TlshHasher } from "./similarity";
+
+export const HASH_ALGORITHMS = [
+  "crc32",
+  "md5",
+  "sha1",
+  "sha256",
+  "sha512",
+  "sha3-256",
+  "blake2b256",
+  "blake2b512",
+  "blake2s256",
+  "ssdeep",
+  "tlsh",
+] as const;
+
+export type HashAlgorithm = (typeof HASH_ALGORITHMS)[number];
+
+/**
+ * Digests keyed by algorithm: lowercase hex for cryptographic hashes and CRC32
+ * (zero-padded to 8 digits), ssdeep's `blocksize:sig:sig`, and TLSH hex or TNULL
+ */
+export type FileHashes = Partial<Record<HashAlgorithm, string>>;
+
+export const DEFAULT_HASH_ALGORITHMS: HashAlgorithm[] = ["crc32", "md5", "sha1", "sha256", "sha512", "blake2b512", "ssdeep", "tlsh"];
+
+interface Digester {
+  update(chunk: Uint8Array): unknown;
+  digest(): string;
+}
+
+class Crc32Digester implements Digester {
+  private crc = 0;
+
+  update(chunk: Uint8Array): void {
+    this.crc = Bun.hash.crc32(chunk, this.crc);
+  }
+
+  digest(): string {
+    return (this.crc >>> 0).toString(16).padStart(8, "0");
+  }
+}
+
+function createDigester(algorithm: HashAlgorithm): Digester {
+  switch (algorithm) {
+    case "crc32":
+      return new Crc32Digester();
+    case "ssdeep":
+      return new CtphHasher();
+    case "tlsh":
+      return new TlshHasher();
+    default: {
+      const hasher = new Bun.CryptoHasher(algorithm);
+      return { update: (chunk) => hasher.update(chunk), digest: () => hasher.digest("hex") };
+    }
+  }
+}
+
+export function isHashAlgorithm(name: string): name is HashAlgorithm {
+  return (HASH_ALGORITHMS as readonly string[]).includes(name);
+}
+
+/**
+ * Incremental hasher feeding every chunk to each selected algorithm
+ */
+export class MultiHasher {
+  private digesters = new Map<HashAlgorithm, Digester>();
+
+  constructor(algorithms: readonly HashAlgorithm[] = DEFAULT_HASH_ALGORITHMS) {
+    for (const algorithm of algorithms) {
+      if (!isHashAlgorithm(algorithm)) throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+      if (!this.digesters.has(algorithm)) this.digesters.set(algorithm, createDigester(algorithm));
+    }
+  }
+
+  update(chunk: Uint8Array): this {
+    for (const digester of this.digesters.values()) digester.update(chunk);
+    return this;
+  }
+
+  /** Finish every digest; the hasher cannot be updated afterwards */
+  digest(): FileHashes {
+    const hashes: FileHashes = {};
+    for (const [algorithm, digester] of this.digesters) hashes[algorithm] = digester.digest();
+    return hashes;
+  }
+}
+
+/**
+ * Hash an in-memory buffer with the selected algorithms
+ */
+export function hashBytes(bytes: Uint8Array, algorithms?: readonly HashAlgorithm[]): FileHashes {
+  return new MultiHasher(algorithms).update(bytes).digest();
+}
@@ -0,0 +1,271 @@
+/**
+ * File Analysis Pipeline
+ * Single entry point used by the API routes, CLI and workers to analyze a buffer
+ */
+
+import { detectFormat, type DetectionResult, type FormatCandidate } from "./detect";
+import { entropyFindings, profileEntropy, type EntropyProfile } from "./entropy";
+import type { FileHashes } from "./hashing";
+import { analyzeMismatch, type MismatchAnalysis } from "./mismatch";
+import { CERTIFICATE_SIGNATURES, hasPemBlock, parseCertificates, type CertificateMetadata } from "./parsers/certificate";
+import { EXECUTABLE_SIGNATURES, parseExecutable, type ExecutableMetadata } from "./parsers/executable";
+import { isJavaArchive, JAVA_SIGNATURES, parseJava, type JavaMetadata } from "./parsers/java";
+import { parseJpeg, type JpegMetadata } from "./parsers/jpeg";
+import { MEDIA_SIGNATURES, parseMedia, type MediaMetadata } from "./parsers/media";
+import { isOfficePackage, OFFICE_SIGNATURES, parseOffice, type OfficeMetadata } from "./parsers/office";
+import { parsePdf, type PdfMetadata } from "./parsers/pdf";
+import { isPickleArchive, looksLikePickle, parsePickle, PICKLE_SIGNATURES, type PickleMetadata } from "./parsers/pickle";
+import { parsePng, type PngMetadata } from "./parsers/png";
+import { looksLikeText, parseText, TEXT_SIGNATURES, type TextMetadata } from "./parsers/text";
+import { parseWasm, type WasmMetadata } from "./parsers/wasm";
+import { parseZip, ZIP_SIGNATURES, type ZipMetadata } from "./parsers/zip";
+import { scanContent, verdictOf, type ScanResult, type Verdict } from "./scan";
+import { parseSecrets, type SecretMetadata } from "./secrets";
+import type { ByteWindow, DeclaredSource, Finding, ParseResult, RiskSummary, Severity } from "./types";
+
+/** Structured, format-specific sections keyed by parser */
+export interface FileMetadata {
+  png?: PngMetadata;
+  jpeg?: JpegMetadata;
+  zip?: ZipMetadata;
+  pdf?: PdfMetadata;
+  executable?: ExecutableMetadata;
+  text?: TextMetadata;
+  office?: OfficeMetadata;
+  media?: MediaMetadata;
+  wasm?: WasmMetadata;
+  java?: JavaMetadata;
+  pickle?: PickleMetadata;
+  certificates?: CertificateMetadata;
+  secrets?: SecretMetadata;
+}
+
+export interface FileAnalysis {
+  size: number;
+  detection: DetectionResult;
+  mismatch: MismatchAnalysis;
+  metadata: FileMetadata;
+  findings: Finding[];
+  risk: RiskSummary;
+  /** Local rule and hash blocklist matches */
+  scan: ScanResult;
+  verdict: Verdict;
+  /** Always covers the whole file, including streamed files parsed from windows */
+  entropy: EntropyProfile;
+  /** Set when the file was too large to hold and only its head and tail were parsed */
+  windows?: { head: number; tail: number };
+}
+
+/** Bounded slices of a file that is analyzed without loading it whole */
+export interface FileWindows {
+  head: Uint8Array;
+  tail: Uint8Array;
+  size: number;
+  /** Profile of the whole file, gathered while it was read */
+  entropy: EntropyProfile;
+  /** Digests of the whole file, for the hash blocklist */
+  hashes?: FileHashes;
+}
+
+interface MetadataParser<K extends keyof FileMetadata> {
+  key: K;
+  /** Signature ids whose presence among the candidates triggers this parser */
+  signatures: string[];
+  /** Part of a large file the parser can work from; parsers without one need the whole file */
+  window?: "head" | "tail";
+  /** Content check consulted when none of `signatures` matched, given every matched signature id and candidate */
+  sniff?: (bytes: Uint8Array, ids: ReadonlySet<string>, candidates: readonly FormatCandidate[]) => boolean;
+  parse: (bytes: Uint8Array, window?: ByteWindow) => ParseResult<NonNullable<FileMetadata[K]>>;
+}
+
+/** Candidates below this confidence are short magics that plain text can start with by chance */
+const STRONG_MATCH = 0.6;
+
+const PARSERS: Array<MetadataParser<keyof FileMetadata>> = [
+  { key: "png", signatures: ["png", "apng"], window: "head", parse: parsePng },
+  { key: "jpeg", signatures: ["jpeg", "jpeg-jfif", "jpeg-exif"], window: "head", parse: parseJpeg },
+  { key: "zip", signatures: ZIP_SIGNATURES, window: "tail", parse: parseZip },
+  { key: "pdf", signatures: ["pdf"], parse: parsePdf },
+  { key: "executable", signatures: EXECUTABLE_SIGNATURES, window: "head", parse: parseExecutable },
+  {
+    key: "text",
+    signatures: TEXT_SIGNATURES,
+    window: "head",
+    sniff: (bytes, _ids, candidates) => candidates.every((c) => c.confidence < STRONG_MATCH) && looksLikeText(bytes),
+    parse: parseText,
+  },
+  { key: "office", signatures: OFFICE_SIGNATURES, sniff: (bytes, ids) => ids.has("zip") && isOfficePackage(bytes), parse: parseOffice },
+  { key: "media", signatures: MEDIA_SIGNATURES, window: "head", parse: parseMedia },
+  { key: "wasm", signatures: ["wasm"], window: "head", parse: parseWasm },
+  { key: "java", signatures: JAVA_SIGNATURES, sniff: (bytes, ids) => ids.has("zip") && !ids.has("apk") && isJavaArchive(bytes), parse: parseJava },
+  {
+    key: "pickle",
+    signatures: PICKLE_SIGNATURES,
+    window: "head",
+    sniff: (bytes, ids) => (ids.size === 0 && looksLikePickle(bytes)) || (ids.has("zip") && isPickleArchive(bytes)),
+    parse: parsePickle,
+  },
+  {
+    key: "certificates",
+    signatures: CERTIFICATE_SIGNATURES,
+    window: "head",
+    // PEM blocks pasted into config and text files; binaries that bundle CA stores are left alone
+    sniff: (bytes, ids) => [...ids].every((id) => TEXT_SIGNATURES.includes(id)) && hasPemBlock(bytes),
+    parse: parseCertificates,
+  },
+  // Runs on every file: text is scanned whole and anything else through its strings
+  { key: "secrets", signatures: [], window: "head", sniff: () => true, parse: (bytes, window) => parseSecrets(bytes, window) },
+];
+
+export const SEVERITY_WEIGHT: Record<Severity, number> = {
+  info: 0,
+  low: 25,
+  medium: 50,
+  high: 75,
+  critical: 100,
+};
+
+/**
+ * Collapse findings into an overall risk level driven by the most severe one
+ */
+export function summarizeRisk(findings: Finding[]): RiskSummary {
+  const counts: Record<Severity, number> = { info: 0, low: 0, medium: 0, high: 0, critical: 0 };
+  let level: Severity | "none" = "none";
+
+  for (const finding of findings) {
+    counts[finding.severity]++;
+    if (level === "none" || SEVERITY_WEIGHT[finding.severity] > SEVERITY_WEIGHT[level]) {
+      level = finding.severity;
+    }
+  }
+
+  return {
+    level,
+    score: level === "none" ? 0 : SEVERITY_WEIGHT[level],
+    findingCount: findings.length,
+    counts,
+  };
+}
+
+/**
+ * Analyze an in-memory buffer
+ */
+export function analyzeBuffer(
+  bytes: Uint8Array,
+  source: DeclaredSource = {},
+  entropy: EntropyProfile = profileEntropy(bytes),
+): FileAnalysis {
+  return analyze(bytes, bytes.length, source, entropy);
+}
+
+/**
+ * Analyze a large file from its head and tail; detection reads end-anchored signatures
+ * from the tail and everything else from the head, and each parser sees the window it declares
+ */
+export function analyzeWindows({ head, tail, size, entropy, hashes }: FileWindows, source: DeclaredSource = {}): FileAnalysis {
+  return analyze(head, size, source, entropy, tail, hashes);
+}
+
+function analyze(
+  head: Uint8Array,
+  size: number,
+  source: DeclaredSource,
+  entropy: EntropyProfile,
+  tail?: Uint8Array,
+  hashes?: FileHashes,
+): FileAnalysis {
+  const sniffed = detectFormat(head, tail);
+  const parsed: Finding[] = [];
+  const metadata: FileMetadata = {};
+  const ids = new Set(sniffed.candidates.map((candidate) => candidate.id));
+  for (const parser of PARSERS) {
+    const matched = parser.signatures.some((id) => ids.has(id)) || parser.sniff?.(head, ids, sniffed.candidates) === true;
+    if (!matched) continue;
+    if (tail && !parser.window) {
+      parsed.push({ id: `${parser.key}.skipped`, severity: "info", message: `File is too large for ${parser.key} parsing`, source: parser.key });
+      continue;
+    }
+    try {
+      const result = !tail
+        ? parser.parse(head)
+        : parser.window === "head"
+          ? parser.parse(head, { offset: 0, size })
+          : parser.parse(tail, { offset: size - tail.length, size });
+      (metadata as Record<string, unknown>)[parser.key] = result.metadata;
+      parsed.push(...result.findings);
+    } catch (error) {
+      parsed.push({ id: `${parser.key}.parse-error`, severity: "low", message: `Malformed ${parser.key} structure: ${error}`, source: parser.key });
+    }
+  }
+
+  // Office packages are only told apart from plain ZIP by their content types
+  const { office } = metadata;
+  const detection: DetectionResult = office
+    ? { ...sniffed, format: office.format, mime: office.mime, category: "document" }
+    : sniffed;
+  const mismatch = analyzeMismatch(source, detection, head);
+  const findings: Finding[] = [];
+
+  if (mismatch.severity !== "none") {
+    findings.push({ id: "mismatch", severity: mismatch.severity, message: mismatch.reason, source: "mismatch" });
+  }
+  findings.push(...parsed);
+  findings.push(...entropyFindings(entropy, detection, size));
+
+  if (detection.polyglot) {
+    findings.push({
+      id: "polyglot",
+      severity: "medium",
+      message: `Content is valid as ${detection.polyglotFormats.join(" and ")}`,
+      source: "detect",
+    });
+  }
+
+  let scan: ScanResult = { rules: 0, matches: [], blocklisted: null, partial: true };
+  try {
+    const result = scanContent(head, { size, hashes });
+    scan = result.metadata;
+    findings.push(...result.findings);
+  } catch (error) {
+    findings.push({ id: "rules.error", severity: "low", message: `Local scan failed: ${error}`, source: "rules" });
+  }
+  const risk = summarizeRisk(findings);
+
+  return {
+    size,
+    detection,
+    mismatch,
+    metadata,
+    findings,
+    risk,
+    scan,
+    verdict: verdictOf(scan, risk),
+    entropy,
+    ...(tail ? { windows: { head: head.length, tail: tail.length } } : {}),
+  };
+}
+
+export type { FileHashes, HashAlgorithm } from "./hashing";
+export type { SimilarityScore } from "./similarity";
+export type { ByteWindow, DeclaredSource, Finding, RiskSummary, Severity } from "./types";
+export type { DetectionResult } from "./detect";
+export type { EntropyProfile, EntropyRegion } from "./entropy";
+export type { ByteRegion } from "./regions";
+export type { ExtractedString, IocKind, StringPage } from "./strings";
+export type { SecretHit, SecretMetadata, SecretRule } from "./secrets";
+export type { BlocklistMatch, ScanResult, Verdict } from "./scan";
+export type { MetaValue, RuleMatch, StringMatch } from "./rules";
+export type { MismatchAnalysis } from "./mismatch";
+export type { PngMetadata } from "./parsers/png";
+export type { JpegMetadata } from "./parsers/jpeg";
+export type { ExifData, GpsInfo } from "./parsers/exif";
+export type { ZipEntry, ZipMetadata } from "./parsers/zip";
+export type { PdfKeyword, PdfMetadata } from "./parsers/pdf";
+export type { ExecutableMetadata, ExecutableSection, ExecutableSecurity, ImportedSymbol } from "./parsers/executable";
+export type { LineEnding, TextEncoding, TextMetadata } from "./parsers/text";
+export type { OfficeMetadata, OfficeProperties, OfficeRelationship } from "./parsers/office";
+export type { Id3Info, MediaBox, MediaContainer, MediaMetadata, MediaTrack, MpegAudioInfo, WaveFormat } from "./parsers/media";
+export type { WasmExport, WasmExternalKind, WasmImport, WasmMemory, WasmMetadata, WasmSection } from "./parsers/wasm";
+export type { JavaClass, JavaMetadata } from "./parsers/java";
+export type { PickleInstruction, PickleMetadata, PickleStream } from "./parsers/pickle";
+export type { CertificateInfo, CertificateMetadata, KeyInfo, Pkcs12Info, PkiKind, PkiObject } from "./parsers/certificate";
@@ -0,0 +1,154 @@
+/**
+ * Declared vs. Sniffed Type Analysis
+ * Compares the client-supplied extension and MIME type against the detected content signature
+ */
+
+import { SIGNATURES, signatureFamily, type SignatureCategory } from "./signatures";
+import { DEFAULT_MIME, type DetectionResult } from "./detect";
+import { looksLikeText } from "./parsers/text";
+import type { DeclaredSource, Severity } from "./types";
+
+export interface MismatchAnalysis {
+  declaredExtension: string;
+  declaredMime: string;
+  sniffedFormat: string;
+  sniffedMime: string;
+  /** Formats the declared extension normally denotes */
+  expectedFormats: string[];
+  /** null when there is nothing to compare (no claim or unknown content) */
+  extensionMatches: boolean | null;
+  mimeMatches: boolean | null;
+  severity: Severity | "none";
+  reason: string;
+}
+
+// MIME spellings clients commonly send for the same type
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+  "image/x-icon": "image/vnd.microsoft.icon",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/mp3": "audio/mpeg",
+  "application/x-zip-compressed": "application/zip",
+  "application/x-gzip": "application/gzip",
+  "application/x-pdf": "application/pdf",
+  "application/x-msdownload": "application/vnd.microsoft.portable-executable",
+  "application/x-dosexec": "application/vnd.microsoft.portable-executable",
+  "application/x-executable": "application/x-elf",
+  "application/x-sharedlib": "application/x-elf",
+};
+
+// MIME types and extensions that say nothing about the content
+const GENERIC_MIMES = new Set(["", DEFAULT_MIME, "application/binary", "binary/octet-stream"]);
+const GENERIC_EXTENSIONS = new Set(["bin", "dat", "img", "raw", "tmp", "out"]);
+/** Best matches at or below this confidence are short magics that ordinary text can start with */
+const WEAK_MATCH = 0.5;
+
+const MIME_PREFIX_CATEGORIES: Array<[string, SignatureCategory]> = [
+  ["image/", "image"],
+  ["audio/", "media"],
+  ["video/", "media"],
+  ["font/", "font"],
+  ["text/", "document"],
+];
+
+function normalizeMime(type: string | undefined): string {
+  const base = (type ?? "").split(";")[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+function extensionOf(name: string | undefined): string {
+  const base = (name ?? "").split(/[\\/]/).pop() ?? "";
+  const dot = base.lastIndexOf(".");
+  return dot > 0 ? base.slice(dot + 1).toLowerCase() : "";
+}
+
+// Every signature in the detected families, so "report.docx" detected as plain ZIP still matches
+function compatibleSignatures(detection: DetectionResult) {
+  const families = new Set(detection.candidates.map((candidate) => candidate.family));
+  return SIGNATURES.filter((signature) => families.has(signatureFamily(signature.id)!));
+}
+
+function expectedCategories(extension: string, mime: string): Set<SignatureCategory> {
+  const categories = new Set<SignatureCategory>();
+  for (const signature of SIGNATURES) {
+    if ((extension && signature.extensions.includes(extension)) || (mime && signature.mime === mime)) {
+      categories.add(signature.category);
+    }
+  }
+  for (const [prefix, category] of MIME_PREFIX_CATEGORIES) {
+    if (mime.startsWith(prefix)) categories.add(category);
+  }
+  return categories;
+}
+
+/**
+ * Compare what the client claims a file is with what its bytes say it is.
+ * `content` (the file or its head) lets a weak match on text be judged leniently.
+ */
+export function analyzeMismatch(declared: DeclaredSource, detection: DetectionResult, content?: Uint8Array): MismatchAnalysis {
+  const declaredExtension = extensionOf(declared.name);
+  const declaredMime = normalizeMime(declared.type);
+  const mimeClaim = GENERIC_MIMES.has(declaredMime) ? "" : declaredMime;
+  const known = detection.candidates.length > 0;
+
+  const claimedSignatures = SIGNATURES.filter((s) => declaredExtension && s.extensions.includes(declaredExtension));
+  const expectedFormats = [...new Set(claimedSignatures.map((s) => s.name))];
+  // Text formats and weak magics can legitimately lack a signature
+  const signatureRequired = claimedSignatures.length > 0 &&
+    !GENERIC_EXTENSIONS.has(declaredExtension) &&
+    claimedSignatures.every((s) => s.confidence >= 0.5 && !s.mime.startsWith("text/") && !s.mime.endsWith("xml"));
+
+  const compatible = known ? compatibleSignatures(detection) : [];
+  const extensionMatches = !declaredExtension || !known
+    ? null
+    : compatible.some((s) => s.extensions.includes(declaredExtension));
+  const mimeMatches = !mimeClaim || !known
+    ? null
+    : compatible.some((s) => s.mime === mimeClaim) ||
+      MIME_PREFIX_CATEGORIES.some(([prefix, category]) => mimeClaim.startsWith(prefix) && category === detection.category && detection.mime.startsWith(prefix));
+
+  const base = {
+    declaredExtension,
+    declaredMime,
+    sniffedFormat: detection.format,
+    sniffedMime: detection.mime,
+    expectedFormats,
+    extensionMatches,
+    mimeMatches,
+  };
+  const claim = [declaredExtension && `.${declaredExtension}`, mimeClaim].filter(Boolean).join(" / ");
+
+  if (!known) {
+    // Content has no signature: only suspicious if the claim names a format that always has one
+    if (signatureRequired) {
+      return { ...base, severity: "medium", reason: `Declared as ${claim} but content has no ${expectedFormats[0]} signature` };
+    }
+    return { ...base, severity: "none", reason: claim ? `No signature to compare with declared ${claim}` : "No recognisable signature and no type declared" };
+  }
+
+  if (extensionMatches !== false && mimeMatches !== false) {
+    return { ...base, severity: "none", reason: claim ? `Content matches declared ${claim}` : "No type was declared" };
+  }
+
+  const claimed = expectedCategories(extensionMatches === false ? declaredExtension : "", mimeMatches === false ? mimeClaim : "");
+  let severity: Severity;
+  if (detection.confidence <= WEAK_MATCH && content && looksLikeText(content)) {
+    // A short ASCII magic at the start of a text file is not enough to call it disguised
+    severity = "low";
+  } else if (detection.category === "executable" && !claimed.has("executable")) {
+    severity = "critical";
+  } else if (claimed.size > 0 && !claimed.has(detection.category as SignatureCategory)) {
+    severity = "high";
+  } else {
+    severity = "low";
+  }
+
+  return {
+    ...base,
+    severity,
+    reason: `Declared as ${claim} but content is ${detection.format} (${detection.mime})`,
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * DER Reader
+ * Minimal ASN.1 DER decoding for the certificate parser: tag/length headers, children,
+ * object identifiers, integers, strings and times
+ */
+
+import { latin1, utf8 } from "../binary";
+
+export interface Asn1Node {
+  /** Identifier octet, e.g. 0x30 for SEQUENCE or 0xa0 for context-specific [0] */
+  tag: number;
+  offset: number;
+  headerLength: number;
+  length: number;
+}
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  T61_STRING: 0x14,
+  IA5_STRING: 0x16,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  BMP_STRING: 0x1e,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+const MAX_CHILDREN = 10000;
+
+export function contentStart(node: Asn1Node): number {
+  return node.offset + node.headerLength;
+}
+
+export function nodeEnd(node: Asn1Node): number {
+  return node.offset + node.headerLength + node.length;
+}
+
+/**
+ * Read the header at `offset`; throws when it is not valid DER or runs past `end`
+ */
+export function readNode(bytes: Uint8Array, offset: number, end = bytes.length): Asn1Node {
+  if (offset + 2 > end) throw new Error(`ASN.1 header at offset ${offset} is truncated`);
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Error(`High-number ASN.1 tag at offset ${offset}`);
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length & 0x80) {
+    const octets = length & 0x7f;
+    // Zero octets is BER's indefinite form, which DER forbids
+    if (octets === 0 || octets > 4 || offset + 2 + octets > end) throw new Error(`Unsupported ASN.1 length at offset ${offset}`);
+    length = 0;
+    for (let i = 0; i < octets; i++) length = length * 256 + bytes[offset + 2 + i];
+    headerLength += octets;
+  }
+  if (offset + headerLength + length > end) throw new Error(`ASN.1 value at offset ${offset} runs past its container`);
+  return { tag, offset, headerLength, length };
+}
+
+/** Nodes directly inside a constructed node */
+export function children(bytes: Uint8Array, node: Asn1Node): Asn1Node[] {
+  const out: Asn1Node[] = [];
+  const end = nodeEnd(node);
+  for (let offset = contentStart(node); offset < end && out.length < MAX_CHILDREN;) {
+    const child = readNode(bytes, offset, end);
+    out.push(child);
+    offset = nodeEnd(child);
+  }
+  return out;
+}
+
+/** Dotted object identifier */
+export function oid(bytes: Uint8Array, node: Asn1Node): string {
+  const parts: number[] = [];
+  let value = 0;
+  for (let i = contentStart(node); i < nodeEnd(node); i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if ((bytes[i] & 0x80) === 0) {
+      if (parts.length === 0) parts.push(value < 80 ? Math.floor(value / 40) : 2, value < 80 ? value % 40 : value - 80);
+      else parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+/** Integer content as lowercase hex without the sign-padding zero */
+export function integerHex(bytes: Uint8Array, node: Asn1Node): string {
+  let start = contentStart(node);
+  if (bytes[start] === 0 && node.length > 1) start++;
+  return Buffer.from(bytes.subarray(start, nodeEnd(node))).toString("hex");
+}
+
+/** Small non-negative integer value */
+export function integerValue(bytes: Uint8Array, node: Asn1Node): number {
+  let value = 0;
+  for (let i = contentStart(node); i < nodeEnd(node); i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+/** Significant bits of an unsigned integer, e.g. an RSA modulus */
+export function integerBits(bytes: Uint8Array, node: Asn1Node): number {
+  let start = contentStart(node);
+  const end = nodeEnd(node);
+  while (start < end && bytes[start] === 0) start++;
+  if (start === end) return 0;
+  return (end - start - 1) * 8 + (32 - Math.clz32(bytes[start]));
+}
+
+/** String types as text */
+export function text(bytes: Uint8Array, node: Asn1Node): string {
+  const start = contentStart(node);
+  const end = nodeEnd(node);
+  if (node.tag === TAG.BMP_STRING) return new TextDecoder("utf-16be").decode(bytes.subarray(start, end));
+  if (node.tag === TAG.UTF8_STRING) return utf8(bytes, start, end);
+  return latin1(bytes, start, end);
+}
+
+/** UTCTime or GeneralizedTime as ISO 8601, or null when it does not parse */
+export function time(bytes: Uint8Array, node: Asn1Node): string | null {
+  const value = latin1(bytes, contentStart(node), nodeEnd(node));
+  const match = node.tag === TAG.UTC_TIME
+    ? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/.exec(value)
+    : /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/.exec(value);
+  if (!match) return null;
+  // RFC 5280: two-digit years from 50 are 19xx
+  const year = node.tag === TAG.UTC_TIME ? (Number(match[1]) >= 50 ? 1900 : 2000) + Number(match[1]) : Number(match[1]);
+  const date = new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0)));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -0,0 +1,458 @@
+/**
+ * Certificate & Key Parser
+ * Finds PEM blocks and DER structures, decodes X.509 certificates and certificate requests,
+ * and identifies private keys and PKCS#12 containers without needing their passwords
+ */
+
+import { latin1, u32be } from "../binary";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+import { children, contentStart, integerBits, integerHex, integerValue, nodeEnd, oid, readNode, TAG, text, time, type Asn1Node } from "./asn1";
+
+export type PkiKind = "certificate" | "certificate-request" | "private-key" | "public-key" | "pkcs12" | "pkcs7" | "crl" | "unknown";
+
+export interface KeyInfo {
+  /** e.g. "RSA", "EC", "DSA", "Ed25519" or "OpenPGP" */
+  type: string;
+  bits: number | null;
+  /** Named curve of an EC key, e.g. "P-256" */
+  curve: string | null;
+}
+
+export interface CertificateInfo {
+  /** Attributes in encoded order, e.g. "C=US, O=Example, CN=example.com" */
+  subject: string;
+  issuer: string;
+  /** Hex */
+  serialNumber: string;
+  /** ISO 8601 */
+  notBefore: string | null;
+  notAfter: string | null;
+  /** "DNS:example.com", "IP:10.0.0.1", "email:…" or "URI:…" */
+  subjectAltNames: string[];
+  signatureAlgorithm: string;
+  key: KeyInfo | null;
+  selfSigned: boolean;
+  ca: boolean;
+  /** Hex digests of the DER encoding */
+  sha1: string;
+  sha256: string;
+}
+
+export interface Pkcs12Info {
+  /** Bag types in safe contents readable without the password, e.g. "pkcs8ShroudedKeyBag" */
+  bags: string[];
+  /** Safe contents encrypted with the password */
+  encryptedSafes: number;
+  macAlgorithm: string | null;
+  macIterations: number | null;
+}
+
+export interface PkiObject {
+  kind: PkiKind;
+  /** PEM label such as "RSA PRIVATE KEY", or null for DER input */
+  label: string | null;
+  /** Position of the PEM block or DER structure in the file */
+  offset: number;
+  length: number;
+  /** The key or container is password protected */
+  encrypted: boolean;
+  /** Key of a certificate request, private key or public key */
+  key: KeyInfo | null;
+  /** Subject of a certificate request */
+  subject: string | null;
+  certificate: CertificateInfo | null;
+  pkcs12: Pkcs12Info | null;
+}
+
+export interface CertificateMetadata {
+  objects: PkiObject[];
+  /** Only the head of a large file was searched */
+  partial: boolean;
+}
+
+/** Signature ids of PEM files and DER structures */
+export const CERTIFICATE_SIGNATURES = ["pem", "pem-certificate", "pem-private-key", "pem-rsa-private-key", "pem-ec-private-key", "openssh-private-key", "der-sequence", "der-pkcs12"];
+
+const PEM_BEGIN = "-----BEGIN ";
+const PEM_BLOCK = /-----BEGIN ([A-Z0-9 #]+)-----\r?\n([\s\S]*?)-----END \1-----/g;
+const MAX_OBJECTS = 500;
+const OPENSSH_MAGIC = "openssh-key-v1\0";
+
+// Labels whose DER may not decode (encrypted or non-DER bodies) mapped to what they hold
+const LABEL_KINDS: Record<string, PkiKind> = {
+  "CERTIFICATE": "certificate", "TRUSTED CERTIFICATE": "certificate", "X509 CERTIFICATE": "certificate",
+  "CERTIFICATE REQUEST": "certificate-request", "NEW CERTIFICATE REQUEST": "certificate-request",
+  "PRIVATE KEY": "private-key", "ENCRYPTED PRIVATE KEY": "private-key", "RSA PRIVATE KEY": "private-key", "EC PRIVATE KEY": "private-key",
+  "DSA PRIVATE KEY": "private-key", "OPENSSH PRIVATE KEY": "private-key", "PGP PRIVATE KEY BLOCK": "private-key",
+  "PUBLIC KEY": "public-key", "RSA PUBLIC KEY": "public-key", "PGP PUBLIC KEY BLOCK": "public-key",
+  "PKCS7": "pkcs7", "CMS": "pkcs7", "X509 CRL": "crl",
+};
+
+const KEY_ALGORITHMS: Record<string, string> = {
+  "1.2.840.113549.1.1.1": "RSA", "1.2.840.113549.1.1.10": "RSA-PSS", "1.2.840.10045.2.1": "EC", "1.2.840.10040.4.1": "DSA",
+  "1.3.101.110": "X25519", "1.3.101.111": "X448", "1.3.101.112": "Ed25519", "1.3.101.113": "Ed448",
+};
+// Fixed sizes of keys whose algorithm determines the length
+const FIXED_BITS: Record<string, number> = { X25519: 256, X448: 448, Ed25519: 256, Ed448: 456 };
+
+const CURVES: Record<string, [string, number]> = {
+  "1.2.840.10045.3.1.1": ["P-192", 192], "1.3.132.0.33": ["P-224", 224], "1.2.840.10045.3.1.7": ["P-256", 256],
+  "1.3.132.0.34": ["P-384", 384], "1.3.132.0.35": ["P-521", 521], "1.3.132.0.10": ["secp256k1", 256],
+  "1.3.36.3.3.2.8.1.1.7": ["brainpoolP256r1", 256], "1.3.36.3.3.2.8.1.1.11": ["brainpoolP384r1", 384], "1.3.36.3.3.2.8.1.1.13": ["brainpoolP512r1", 512],
+};
+const SSH_CURVES: Record<string, [string, number]> = { nistp256: ["P-256", 256], nistp384: ["P-384", 384], nistp521: ["P-521", 521] };
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  "1.2.840.113549.1.1.2": "md2WithRSAEncryption", "1.2.840.113549.1.1.4": "md5WithRSAEncryption", "1.2.840.113549.1.1.5": "sha1WithRSAEncryption",
+  "1.2.840.113549.1.1.11": "sha256WithRSAEncryption", "1.2.840.113549.1.1.12": "sha384WithRSAEncryption", "1.2.840.113549.1.1.13": "sha512WithRSAEncryption",
+  "1.2.840.113549.1.1.10": "RSASSA-PSS", "1.2.840.10045.4.1": "ecdsa-with-SHA1", "1.2.840.10045.4.3.2": "ecdsa-with-SHA256",
+  "1.2.840.10045.4.3.3": "ecdsa-with-SHA384", "1.2.840.10045.4.3.4": "ecdsa-with-SHA512", "1.2.840.10040.4.3": "dsa-with-SHA1",
+  "2.16.840.1.101.3.4.3.2": "dsa-with-SHA256", "1.3.101.112": "Ed25519", "1.3.101.113": "Ed448",
+};
+const WEAK_SIGNATURE = /^(md2|md5|sha1)With|with-SHA1$/;
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  "2.5.4.3": "CN", "2.5.4.6": "C", "2.5.4.7": "L", "2.5.4.8": "ST", "2.5.4.10": "O", "2.5.4.11": "OU", "2.5.4.5": "serialNumber",
+  "2.5.4.9": "street", "2.5.4.17": "postalCode", "1.2.840.113549.1.9.1": "emailAddress", "0.9.2342.19200300.100.1.25": "DC", "0.9.2342.19200300.100.1.1": "UID",
+};
+
+const PKCS7_DATA = "1.2.840.113549.1.7.1";
+const PKCS7_SIGNED_DATA = "1.2.840.113549.1.7.2";
+const PKCS7_ENCRYPTED_DATA = "1.2.840.113549.1.7.6";
+const SUBJECT_ALT_NAME = "2.5.29.17";
+const BASIC_CONSTRAINTS = "2.5.29.19";
+const PKCS12_BAGS: Record<string, string> = {
+  "1.2.840.113549.1.12.10.1.1": "keyBag", "1.2.840.113549.1.12.10.1.2": "pkcs8ShroudedKeyBag", "1.2.840.113549.1.12.10.1.3": "certBag",
+  "1.2.840.113549.1.12.10.1.4": "crlBag", "1.2.840.113549.1.12.10.1.5": "secretBag", "1.2.840.113549.1.12.10.1.6": "safeContentsBag",
+};
+const DIGESTS: Record<string, string> = {
+  "1.3.14.3.2.26": "SHA-1", "2.16.840.1.101.3.4.2.1": "SHA-256", "2.16.840.1.101.3.4.2.2": "SHA-384", "2.16.840.1.101.3.4.2.3": "SHA-512",
+};
+
+/** RSA and DSA keys below this are factorable with public effort */
+const MIN_RSA_BITS = 2048;
+const MIN_EC_BITS = 224;
+
+type Decoded = Pick<PkiObject, "kind" | "encrypted" | "key" | "subject" | "certificate" | "pkcs12">;
+
+/**
+ * Whether the bytes contain a PEM block header anywhere
+ */
+export function hasPemBlock(bytes: Uint8Array): boolean {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length).includes(PEM_BEGIN, 0, "latin1");
+}
+
+function emptyDecoded(kind: PkiKind): Decoded {
+  return { kind, encrypted: false, key: null, subject: null, certificate: null, pkcs12: null };
+}
+
+function hex(algorithm: "sha1" | "sha256", data: Uint8Array): string {
+  return new Bun.CryptoHasher(algorithm).update(data).digest("hex");
+}
+
+function name(der: Uint8Array, node: Asn1Node): string {
+  const parts: string[] = [];
+  for (const set of children(der, node)) {
+    for (const attribute of children(der, set)) {
+      const [type, value] = children(der, attribute);
+      if (!type || !value) continue;
+      const key = oid(der, type);
+      parts.push(`${NAME_ATTRIBUTES[key] ?? key}=${text(der, value)}`);
+    }
+  }
+  return parts.join(", ");
+}
+
+/** Key type and size from an AlgorithmIdentifier and the key material it describes */
+function keyInfo(der: Uint8Array, algorithm: Asn1Node, material: Asn1Node | null): KeyInfo {
+  const [identifier, parameters] = children(der, algorithm);
+  const type = KEY_ALGORITHMS[oid(der, identifier)] ?? oid(der, identifier);
+  const info: KeyInfo = { type, bits: FIXED_BITS[type] ?? null, curve: null };
+
+  if (type === "EC" && parameters?.tag === TAG.OID) {
+    const curve = CURVES[oid(der, parameters)];
+    info.curve = curve?.[0] ?? oid(der, parameters);
+    info.bits = curve?.[1] ?? null;
+  } else if (type === "DSA" && parameters?.tag === TAG.SEQUENCE) {
+    info.bits = integerBits(der, children(der, parameters)[0]);
+  } else if (type.startsWith("RSA") && material) {
+    // Public keys wrap RSAPublicKey in a BIT STRING with a leading unused-bits octet
+    const start = material.tag === TAG.BIT_STRING ? contentStart(material) + 1 : contentStart(material);
+    const sequence = readNode(der, start, nodeEnd(material));
+    const fields = children(der, sequence);
+    info.bits = integerBits(der, material.tag === TAG.BIT_STRING ? fields[0] : fields[1]);
+  }
+  return info;
+}
+
+function certificateInfo(der: Uint8Array, root: Asn1Node, fields: Asn1Node[]): CertificateInfo {
+  const tbs = children(der, fields[0]);
+  const at = tbs[0].tag === 0xa0 ? 1 : 0;
+  const [serial, , issuerNode, validity, subjectNode, spki] = tbs.slice(at);
+  const [notBefore, notAfter] = children(der, validity);
+  const [algorithm, material] = children(der, spki);
+
+  const info: CertificateInfo = {
+    subject: name(der, subjectNode),
+    issuer: name(der, issuerNode),
+    serialNumber: integerHex(der, serial),
+    notBefore: notBefore ? time(der, notBefore) : null,
+    notAfter: notAfter ? time(der, notAfter) : null,
+    subjectAltNames: [],
+    signatureAlgorithm: SIGNATURE_ALGORITHMS[oid(der, children(der, fields[1])[0])] ?? oid(der, children(der, fields[1])[0]),
+    key: keyInfo(der, algorithm, material),
+    selfSigned: Buffer.from(der.subarray(issuerNode.offset, nodeEnd(issuerNode))).equals(der.subarray(subjectNode.offset, nodeEnd(subjectNode))),
+    ca: false,
+    sha1: hex("sha1", der.subarray(root.offset, nodeEnd(root))),
+    sha256: hex("sha256", der.subarray(root.offset, nodeEnd(root))),
+  };
+
+  const extensions = tbs.find((node) => node.tag === 0xa3);
+  for (const extension of extensions ? children(der, children(der, extensions)[0]) : []) {
+    const parts = children(der, extension);
+    const id = oid(der, parts[0]);
+    const value = parts[parts.length - 1];
+    const inner = readNode(der, contentStart(value), nodeEnd(value));
+    if (id === SUBJECT_ALT_NAME) {
+      info.subjectAltNames = children(der, inner).map((general) => generalName(der, general)).filter((entry): entry is string => entry !== null);
+    } else if (id === BASIC_CONSTRAINTS) {
+      const [ca] = children(der, inner);
+      info.ca = ca?.tag === TAG.BOOLEAN && der[contentStart(ca)] !== 0;
+    }
+  }
+  return info;
+}
+
+function generalName(der: Uint8Array, node: Asn1Node): string | null {
+  const value = der.subarray(contentStart(node), nodeEnd(node));
+  switch (node.tag) {
+    case 0x81: return `email:${latin1(value)}`;
+    case 0x82: return `DNS:${latin1(value)}`;
+    case 0x86: return `URI:${latin1(value)}`;
+    case 0x87:
+      return value.length === 4 ? `IP:${[...value].join(".")}` : `IP:${Buffer.from(value).toString("hex").replace(/(.{4})(?!$)/g, "$1:")}`;
+    default: return null;
+  }
+}
+
+function pkcs12Info(der: Uint8Array, fields: Asn1Node[]): Pkcs12Info {
+  const info: Pkcs12Info = { bags: [], encryptedSafes: 0, macAlgorithm: null, macIterations: null };
+  const [, authSafe, mac] = fields;
+  const [contentType, wrapped] = children(der, authSafe);
+  if (oid(der, contentType) === PKCS7_DATA && wrapped) {
+    const octets = children(der, wrapped)[0];
+    const safes = readNode(der, contentStart(octets), nodeEnd(octets));
+    for (const safe of children(der, safes)) {
+      const [safeType, safeContent] = children(der, safe);
+      const type = oid(der, safeType);
+      if (type === PKCS7_ENCRYPTED_DATA) {
+        info.encryptedSafes++;
+      } else if (type === PKCS7_DATA && safeContent) {
+        const inner = children(der, safeContent)[0];
+        const bags = readNode(der, contentStart(inner), nodeEnd(inner));
+        for (const bag of children(der, bags)) {
+          const bagId = oid(der, children(der, bag)[0]);
+          info.bags.push(PKCS12_BAGS[bagId] ?? bagId);
+        }
+      }
+    }
+  }
+  if (mac) {
+    const [digestInfo, , iterations] = children(der, mac);
+    const algorithm = oid(der, children(der, children(der, digestInfo)[0])[0]);
+    info.macAlgorithm = DIGESTS[algorithm] ?? algorithm;
+    info.macIterations = iterations ? integerValue(der, iterations) : 1;
+  }
+  return info;
+}
+
+/**
+ * Identify a DER structure from its shape; null when it is none of the supported kinds
+ */
+function decodeDer(der: Uint8Array, root: Asn1Node): Decoded | null {
+  if (root.tag !== TAG.SEQUENCE) return null;
+  const fields = children(der, root);
+  const [first, second, third] = fields;
+  if (!first) return null;
+
+  // Signed structures: to-be-signed body, signature algorithm, signature
+  if (fields.length === 3 && first.tag === TAG.SEQUENCE && second.tag === TAG.SEQUENCE && third.tag === TAG.BIT_STRING) {
+    const body = children(der, first);
+    const at = body[0]?.tag === 0xa0 ? 1 : 0;
+    if (body.length - at >= 6 && body[at].tag === TAG.INTEGER && body[at + 3].tag === TAG.SEQUENCE) {
+      return { ...emptyDecoded("certificate"), certificate: certificateInfo(der, root, fields) };
+    }
+    if (body[0]?.tag === TAG.INTEGER && body[1]?.tag === TAG.SEQUENCE && body[2]?.tag === TAG.SEQUENCE) {
+      const [algorithm, material] = children(der, body[2]);
+      return { ...emptyDecoded("certificate-request"), subject: name(der, body[1]), key: keyInfo(der, algorithm, material) };
+    }
+    return emptyDecoded("crl");
+  }
+
+  if (first.tag === TAG.INTEGER) {
+    const version = integerValue(der, first);
+    if (version === 3 && second?.tag === TAG.SEQUENCE) return { ...emptyDecoded("pkcs12"), pkcs12: pkcs12Info(der, fields) };
+    if (version <= 1 && second?.tag === TAG.SEQUENCE && third?.tag === TAG.OCTET_STRING) {
+      return { ...emptyDecoded("private-key"), key: keyInfo(der, second, third) };
+    }
+    if (version === 1 && second?.tag === TAG.OCTET_STRING) {
+      const parameters = fields.find((node) => node.tag === 0xa0);
+      const curveOid = parameters ? oid(der, children(der, parameters)[0]) : "";
+      const curve = CURVES[curveOid];
+      return { ...emptyDecoded("private-key"), key: { type: "EC", bits: curve?.[1] ?? null, curve: curve?.[0] ?? (curveOid || null) } };
+    }
+    if (version === 0 && fields.length === 9 && fields.every((node) => node.tag === TAG.INTEGER)) {
+      return { ...emptyDecoded("private-key"), key: { type: "RSA", bits: integerBits(der, second), curve: null } };
+    }
+    if (version === 0 && fields.length === 6 && fields.every((node) => node.tag === TAG.INTEGER)) {
+      return { ...emptyDecoded("private-key"), key: { type: "DSA", bits: integerBits(der, second), curve: null } };
+    }
+    if (fields.length === 2 && second?.tag === TAG.INTEGER) {
+      return { ...emptyDecoded("public-key"), key: { type: "RSA", bits: integerBits(der, first), curve: null } };
+    }
+    return null;
+  }
+
+  if (fields.length === 2 && first.tag === TAG.SEQUENCE && second.tag === TAG.BIT_STRING) {
+    return { ...emptyDecoded("public-key"), key: keyInfo(der, first, second) };
+  }
+  if (fields.length === 2 && first.tag === TAG.SEQUENCE && second.tag === TAG.OCTET_STRING) {
+    // EncryptedPrivateKeyInfo: only the encryption scheme is visible
+    return { ...emptyDecoded("private-key"), encrypted: true };
+  }
+  if (first.tag === TAG.OID && [PKCS7_SIGNED_DATA, PKCS7_DATA].includes(oid(der, first))) return emptyDecoded("pkcs7");
+  return null;
+}
+
+/** Cipher and public key of an OpenSSH private key, which stays readable when the key is encrypted */
+function decodeOpenSsh(blob: Uint8Array): Decoded {
+  const decoded = emptyDecoded("private-key");
+  if (latin1(blob, 0, OPENSSH_MAGIC.length) !== OPENSSH_MAGIC) return decoded;
+  let offset = OPENSSH_MAGIC.length;
+  const string = () => {
+    const length = u32be(blob, offset);
+    const value = blob.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+    return value;
+  };
+  decoded.encrypted = latin1(string()) !== "none";
+  string();
+  string();
+  offset += 4;
+
+  const publicKey = string();
+  offset = 0;
+  const read = (): Uint8Array => {
+    const length = u32be(publicKey, offset);
+    const value = publicKey.subarray(offset + 4, offset + 4 + length);
+    offset += 4 + length;
+    return value;
+  };
+  const type = latin1(read());
+  if (type === "ssh-rsa") {
+    read();
+    const modulus = read();
+    const leading = modulus.findIndex((byte) => byte !== 0);
+    decoded.key = { type: "RSA", bits: leading < 0 ? 0 : (modulus.length - leading - 1) * 8 + (32 - Math.clz32(modulus[leading])), curve: null };
+  } else if (type.startsWith("ecdsa-sha2-")) {
+    const curve = SSH_CURVES[latin1(read())];
+    decoded.key = { type: "EC", bits: curve?.[1] ?? null, curve: curve?.[0] ?? null };
+  } else if (type === "ssh-ed25519") {
+    decoded.key = { type: "Ed25519", bits: 256, curve: null };
+  } else if (type === "ssh-dss") {
+    decoded.key = { type: "DSA", bits: 1024, curve: null };
+  } else {
+    decoded.key = { type, bits: null, curve: null };
+  }
+  return decoded;
+}
+
+function decodePem(label: string, body: string): Decoded {
+  // RFC 1421 headers such as Proc-Type precede a blank line
+  const split = /^((?:[\w-]+:[^\n]*\r?\n)+)\r?\n/.exec(body);
+  const headers = split?.[1] ?? "";
+  const data = new Uint8Array(Buffer.from((split ? body.slice(split[0].length) : body).replace(/[^A-Za-z0-9+/=]/g, ""), "base64"));
+  const kind = LABEL_KINDS[label] ?? "unknown";
+
+  if (label === "OPENSSH PRIVATE KEY") return decodeOpenSsh(data);
+  if (label.startsWith("PGP ")) return { ...emptyDecoded(kind), key: { type: "OpenPGP", bits: null, curve: null } };
+
+  const encrypted = /Proc-Type:\s*4,ENCRYPTED/i.test(headers) || label === "ENCRYPTED PRIVATE KEY";
+  if (!encrypted) {
+    try {
+      const decoded = decodeDer(data, readNode(data, 0));
+      if (decoded) return decoded;
+    } catch {
+      // Fall back to what the label says
+    }
+  }
+  const keyType = /^(RSA|EC|DSA) /.exec(label)?.[1];
+  return { ...emptyDecoded(kind), encrypted, key: keyType ? { type: keyType, bits: null, curve: null } : null };
+}
+
+/**
+ * Find and decode the PEM blocks in a file, or decode the file as a single DER structure
+ */
+export function parseCertificates(bytes: Uint8Array, window?: ByteWindow): ParseResult<CertificateMetadata> {
+  const metadata: CertificateMetadata = { objects: [], partial: window !== undefined && bytes.length < window.size };
+
+  if (hasPemBlock(bytes)) {
+    const source = latin1(bytes);
+    for (const match of source.matchAll(PEM_BLOCK)) {
+      if (metadata.objects.length >= MAX_OBJECTS) break;
+      metadata.objects.push({ label: match[1], offset: match.index ?? 0, length: match[0].length, ...decodePem(match[1], match[2]) });
+    }
+  } else {
+    const root = readNode(bytes, 0);
+    const decoded = decodeDer(bytes, root);
+    if (!decoded) throw new Error("DER structure is not a certificate, key or PKCS#12 container");
+    metadata.objects.push({ label: null, offset: 0, length: nodeEnd(root), ...decoded });
+  }
+
+  return { metadata, findings: objectFindings(metadata.objects, Date.now()) };
+}
+
+function describeKey(key: KeyInfo | null): string {
+  if (!key) return "";
+  const size = key.curve ? ` ${key.curve}` : key.bits && !FIXED_BITS[key.type] ? ` ${key.bits}-bit` : "";
+  return `${key.type}${size} `;
+}
+
+function objectFindings(objects: PkiObject[], now: number): Finding[] {
+  const findings: Finding[] = [];
+  for (const object of objects) {
+    const { offset, key, certificate, pkcs12 } = object;
+    const base = { source: "certificates", offset };
+
+    if (object.kind === "private-key") {
+      const state = object.encrypted ? "Password-protected" : "Unencrypted";
+      findings.push({ id: "certificates.private-key", severity: "high", message: `${state} ${describeKey(key)}private key is exposed`, ...base });
+    } else if (pkcs12) {
+      const keyBags = pkcs12.bags.filter((bag) => bag === "keyBag" || bag === "pkcs8ShroudedKeyBag").length;
+      const message = keyBags > 0
+        ? `PKCS#12 container holds ${keyBags} private key${keyBags === 1 ? "" : "s"}`
+        : `PKCS#12 container has ${pkcs12.encryptedSafes} password-protected safe${pkcs12.encryptedSafes === 1 ? "" : "s"} that usually hold a private key`;
+      findings.push({ id: "certificates.private-key", severity: "high", message, ...base });
+    }
+
+    if (certificate) {
+      const who = /(?:^|, )CN=([^,]+)/.exec(certificate.subject)?.[1] ?? (certificate.subject || "(empty subject)");
+      const notAfter = certificate.notAfter ? Date.parse(certificate.notAfter) : NaN;
+      const notBefore = certificate.notBefore ? Date.parse(certificate.notBefore) : NaN;
+      if (notAfter < now) {
+        findings.push({ id: "certificates.expired", severity: "high", message: `Certificate for ${who} expired on ${certificate.notAfter}`, ...base });
+      } else if (notBefore > now) {
+        findings.push({ id: "certificates.not-yet-valid", severity: "low", message: `Certificate for ${who} is not valid until ${certificate.notBefore}`, ...base });
+      }
+      if (WEAK_SIGNATURE.test(certificate.signatureAlgorithm) && !certificate.selfSigned) {
+        findings.push({ id: "certificates.weak-signature", severity: "medium", message: `Certificate for ${who} is signed with ${certificate.signatureAlgorithm}`, ...base });
+      }
+    }
+
+    const checked = certificate?.key ?? key;
+    if (checked?.bits && ((["RSA", "RSA-PSS", "DSA"].includes(checked.type) && checked.bits < MIN_RSA_BITS) || (checked.type === "EC" && checked.bits < MIN_EC_BITS))) {
+      findings.push({ id: "certificates.weak-key", severity: "high", message: `${describeKey(checked)}key in ${object.kind.replace("-", " ")} is too short`, ...base });
+    }
+  }
+  return findings;
+}
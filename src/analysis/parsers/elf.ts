@@ -0,0 +1,224 @@
+/**
+ * ELF Header Parser
+ * Reads program and section headers, the dynamic section and undefined dynamic symbols
+ */
+
+import { indexOfNul, latin1 } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { MAX_IMPORTS, MAX_SECTIONS, reader, sectionEntropy, type ExecutableMetadata, type ExecutableSection, type ImportedSymbol } from "./executable";
+
+const MACHINES: Record<number, string> = {
+  2: "SPARC", 3: "i386", 8: "MIPS", 20: "PowerPC", 21: "PowerPC64", 22: "S/390", 40: "ARM", 42: "SuperH",
+  43: "SPARC V9", 50: "IA-64", 62: "x86-64", 183: "AArch64", 243: "RISC-V", 247: "BPF", 258: "LoongArch",
+};
+
+const ET_REL = 1;
+const ET_EXEC = 2;
+const ET_DYN = 3;
+const ET_CORE = 4;
+
+const PT_LOAD = 1;
+const PT_DYNAMIC = 2;
+const PT_INTERP = 3;
+const PT_GNU_STACK = 0x6474e551;
+const PT_GNU_RELRO = 0x6474e552;
+const PF_X = 1;
+const PF_W = 2;
+
+const SHT_SYMTAB = 2;
+const SHT_NOBITS = 8;
+const SHT_DYNSYM = 11;
+const SHF_WRITE = 1;
+const SHF_ALLOC = 2;
+const SHF_EXECINSTR = 4;
+
+const DT_NULL = 0;
+const DT_NEEDED = 1;
+const DT_STRTAB = 5;
+const DT_BIND_NOW = 24;
+const DT_FLAGS = 30;
+const DT_FLAGS_1 = 0x6ffffffb;
+const DF_BIND_NOW = 0x8;
+const DF_1_NOW = 0x1;
+const DF_1_PIE = 0x08000000;
+
+const STB_GLOBAL = 1;
+const STB_WEAK = 2;
+
+const MAX_SEGMENTS = 1000;
+const MAX_DYNAMIC_ENTRIES = 4096;
+
+interface Segment {
+  type: number;
+  flags: number;
+  offset: number;
+  vaddr: number;
+  filesz: number;
+}
+
+function cString(bytes: Uint8Array, offset: number): string {
+  if (offset >= bytes.length) return "";
+  const end = indexOfNul(bytes, offset);
+  return latin1(bytes, offset, end < 0 ? bytes.length : end);
+}
+
+/**
+ * Parse an ELF image; `partial` means only the head of the file is in `bytes`
+ */
+export function parseElf(bytes: Uint8Array, partial: boolean): ParseResult<ExecutableMetadata> {
+  const findings: Finding[] = [];
+  if (bytes.length < 52) throw new Error("ELF header is truncated");
+
+  const bits = bytes[4] === 2 ? 64 : 32;
+  const is64 = bits === 64;
+  const littleEndian = bytes[5] !== 2;
+  const r = reader(bytes, littleEndian, bits);
+
+  const type = r.u16(16);
+  const machine = r.u16(18);
+  const entry = r.word(24);
+  const phoff = r.word(is64 ? 32 : 28);
+  const shoff = r.word(is64 ? 40 : 32);
+  const phentsize = r.u16(is64 ? 54 : 42);
+  const phnum = r.u16(is64 ? 56 : 44);
+  const shentsize = r.u16(is64 ? 58 : 46);
+  const shnum = r.u16(is64 ? 60 : 48);
+  const shstrndx = r.u16(is64 ? 62 : 50);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < Math.min(phnum, MAX_SEGMENTS); i++) {
+    const at = phoff + i * phentsize;
+    if (at + phentsize > bytes.length) break;
+    segments.push(is64
+      ? { type: r.u32(at), flags: r.u32(at + 4), offset: r.word(at + 8), vaddr: r.word(at + 16), filesz: r.word(at + 32) }
+      : { type: r.u32(at), offset: r.word(at + 4), vaddr: r.word(at + 8), filesz: r.word(at + 16), flags: r.u32(at + 24) });
+  }
+  const fileOffset = (address: number) => {
+    const load = segments.find((segment) => segment.type === PT_LOAD && address >= segment.vaddr && address < segment.vaddr + segment.filesz);
+    return load ? load.offset + (address - load.vaddr) : null;
+  };
+
+  const interpSegment = segments.find((segment) => segment.type === PT_INTERP);
+  const interpreter = interpSegment ? cString(bytes, interpSegment.offset) || null : null;
+
+  // Dynamic section: needed libraries and the flags that decide PIE and RELRO strength
+  const libraries: string[] = [];
+  let bindNow = false;
+  let pieFlag = false;
+  const dynamic = segments.find((segment) => segment.type === PT_DYNAMIC);
+  if (dynamic) {
+    const entrySize = is64 ? 16 : 8;
+    const entries: Array<[number, number]> = [];
+    for (let i = 0; i < MAX_DYNAMIC_ENTRIES; i++) {
+      const at = dynamic.offset + i * entrySize;
+      if (at + entrySize > bytes.length || at + entrySize > dynamic.offset + dynamic.filesz) break;
+      const tag = r.word(at);
+      if (tag === DT_NULL) break;
+      entries.push([tag, r.word(at + entrySize / 2)]);
+    }
+    const strtabAddress = entries.find(([tag]) => tag === DT_STRTAB)?.[1];
+    const strtab = strtabAddress === undefined ? null : fileOffset(strtabAddress);
+    for (const [tag, value] of entries) {
+      if (tag === DT_NEEDED && strtab !== null) libraries.push(cString(bytes, strtab + value));
+      if (tag === DT_BIND_NOW || (tag === DT_FLAGS && value & DF_BIND_NOW) || (tag === DT_FLAGS_1 && value & DF_1_NOW)) bindNow = true;
+      if (tag === DT_FLAGS_1 && value & DF_1_PIE) pieFlag = true;
+    }
+  }
+
+  // Section headers usually sit at the end of the file, outside a head window
+  const sections: ExecutableSection[] = [];
+  const imports: ImportedSymbol[] = [];
+  let omittedImports = 0;
+  let stripped: boolean | null = null;
+  const tableEnd = shoff + shnum * shentsize;
+  if (shoff === 0 || shnum === 0) {
+    stripped = true;
+  } else if (tableEnd <= bytes.length && shentsize >= (is64 ? 64 : 40)) {
+    const header = (index: number) => {
+      const at = shoff + index * shentsize;
+      return is64
+        ? { name: r.u32(at), type: r.u32(at + 4), flags: r.word(at + 8), addr: r.word(at + 16), offset: r.word(at + 24), size: r.word(at + 32), link: r.u32(at + 40), entsize: r.word(at + 56) }
+        : { name: r.u32(at), type: r.u32(at + 4), flags: r.word(at + 8), addr: r.word(at + 12), offset: r.word(at + 16), size: r.word(at + 20), link: r.u32(at + 24), entsize: r.word(at + 36) };
+    };
+    const names = shstrndx < shnum ? header(shstrndx).offset : null;
+    const headers = Array.from({ length: Math.min(shnum, MAX_SECTIONS) }, (_, index) => header(index));
+
+    headers.forEach((section, index) => {
+      if (index === 0) return;
+      const size = section.type === SHT_NOBITS ? 0 : section.size;
+      sections.push({
+        name: names === null ? "" : cString(bytes, names + section.name),
+        offset: section.offset,
+        size,
+        virtualAddress: section.addr,
+        virtualSize: section.size,
+        readable: (section.flags & SHF_ALLOC) !== 0,
+        writable: (section.flags & SHF_WRITE) !== 0,
+        executable: (section.flags & SHF_EXECINSTR) !== 0,
+        entropy: sectionEntropy(bytes, section.offset, size),
+      });
+    });
+    stripped = !headers.some((section) => section.type === SHT_SYMTAB);
+
+    // Undefined global symbols of the dynamic symbol table are what the binary imports
+    const dynsym = headers.find((section) => section.type === SHT_DYNSYM);
+    const dynstr = dynsym && dynsym.link < headers.length ? headers[dynsym.link] : undefined;
+    if (dynsym && dynstr) {
+      const symbolSize = is64 ? 24 : 16;
+      const count = Math.floor(dynsym.size / symbolSize);
+      for (let i = 1; i < count; i++) {
+        const at = dynsym.offset + i * symbolSize;
+        if (at + symbolSize > bytes.length) break;
+        const name = r.u32(at);
+        const info = bytes[at + (is64 ? 4 : 12)];
+        const shndx = r.u16(at + (is64 ? 6 : 14));
+        const binding = info >> 4;
+        if (shndx !== 0 || name === 0 || (binding !== STB_GLOBAL && binding !== STB_WEAK)) continue;
+        if (imports.length < MAX_IMPORTS) imports.push({ name: cString(bytes, dynstr.offset + name), library: null });
+        else omittedImports++;
+      }
+    }
+  } else if (!partial) {
+    findings.push({ id: "executable.truncated-headers", severity: "low", message: "Section header table extends past the end of the file", source: "executable", offset: shoff });
+  }
+
+  const gnuStack = segments.find((segment) => segment.type === PT_GNU_STACK);
+  const relocatable = type === ET_REL || type === ET_CORE;
+  const rwx = [
+    ...segments
+      .map((segment, index) => ({ segment, index }))
+      .filter(({ segment }) => segment.type === PT_LOAD && (segment.flags & (PF_W | PF_X)) === (PF_W | PF_X))
+      .map(({ index }) => `segment ${index}`),
+    ...sections.filter((section) => section.writable && section.executable).map((section) => section.name),
+  ];
+
+  const metadata: ExecutableMetadata = {
+    format: "ELF",
+    architecture: MACHINES[machine] ?? `machine ${machine}`,
+    bits,
+    endianness: littleEndian ? "little" : "big",
+    fileType: type === ET_EXEC || (type === ET_DYN && (interpreter !== null || pieFlag))
+      ? "executable"
+      : { [ET_REL]: "relocatable object", [ET_DYN]: "shared object", [ET_CORE]: "core dump" }[type] ?? `type ${type}`,
+    entryPoint: entry === 0 ? null : entry,
+    interpreter,
+    timestamp: null,
+    subsystem: null,
+    sections,
+    libraries,
+    imports,
+    omittedImports,
+    slices: [],
+    security: {
+      pie: type === ET_DYN ? true : type === ET_EXEC ? false : null,
+      // Without PT_GNU_STACK the kernel maps the stack executable
+      nx: relocatable ? null : gnuStack ? (gnuStack.flags & PF_X) === 0 : false,
+      stripped,
+      rwx,
+      relro: relocatable ? null : segments.some((segment) => segment.type === PT_GNU_RELRO) ? (bindNow ? "full" : "partial") : "none",
+      signed: null,
+    },
+  };
+
+  return { metadata, findings };
+}
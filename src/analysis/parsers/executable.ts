@@ -0,0 +1,166 @@
+/**
+ * Executable Header Parser
+ * Common view of ELF, PE and Mach-O binaries: architecture, sections, imports and hardening flags
+ */
+
+import { u16be, u16le, u32be, u32le, u64be, u64le } from "../binary";
+import { HIGH_ENTROPY, profileEntropy } from "../entropy";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+import { parseElf } from "./elf";
+import { parseMachO } from "./macho";
+import { parsePe } from "./pe";
+
+export type ExecutableFormat = "ELF" | "PE" | "Mach-O";
+
+export interface ExecutableSection {
+  name: string;
+  /** File offset and size of the section's bytes; size is 0 for zero-filled sections such as .bss */
+  offset: number;
+  size: number;
+  virtualAddress: number;
+  virtualSize: number;
+  readable: boolean;
+  writable: boolean;
+  executable: boolean;
+  /** Shannon entropy of the section's bytes; null when they are not in the parsed part of the file */
+  entropy: number | null;
+}
+
+export interface ImportedSymbol {
+  name: string;
+  /** Library the symbol binds to, where the format records it */
+  library: string | null;
+}
+
+export interface ExecutableSecurity {
+  /** Position-independent image that the loader can randomise (PIE, PE DYNAMIC_BASE) */
+  pie: boolean | null;
+  /** Stack and data are not executable (PT_GNU_STACK, PE NX_COMPAT, no MH_ALLOW_STACK_EXECUTION) */
+  nx: boolean | null;
+  /** No local symbol table; null when the symbol tables are outside the parsed window */
+  stripped: boolean | null;
+  /** Sections or segments mapped writable and executable at once */
+  rwx: string[];
+  /** ELF only: GOT and other relocated data made read-only after start-up */
+  relro: "none" | "partial" | "full" | null;
+  /** Authenticode certificate table (PE) or code signature (Mach-O) */
+  signed: boolean | null;
+}
+
+export interface ExecutableSlice {
+  architecture: string;
+  offset: number;
+  size: number;
+}
+
+export interface ExecutableMetadata {
+  format: ExecutableFormat;
+  /** e.g. "x86-64", "AArch64", "i386" */
+  architecture: string;
+  bits: 32 | 64;
+  endianness: "little" | "big";
+  /** e.g. "executable", "shared object", "dynamic-link library" */
+  fileType: string;
+  /** Virtual address; PE addresses include the image base */
+  entryPoint: number | null;
+  /** Dynamic loader named by PT_INTERP or LC_LOAD_DYLINKER */
+  interpreter: string | null;
+  /** PE link time as ISO 8601; null when zero */
+  timestamp: string | null;
+  /** PE subsystem, e.g. "Windows GUI" */
+  subsystem: string | null;
+  sections: ExecutableSection[];
+  libraries: string[];
+  imports: ImportedSymbol[];
+  /** Imports beyond MAX_IMPORTS that were counted but not listed */
+  omittedImports: number;
+  /** Architectures in a Mach-O universal binary; everything else describes the first one */
+  slices: ExecutableSlice[];
+  security: ExecutableSecurity;
+}
+
+/** Signature ids whose presence triggers executable parsing */
+export const EXECUTABLE_SIGNATURES = ["elf", "pe", "macho32-be", "macho64-be", "macho32-le", "macho64-le", "macho-fat"];
+
+export const MAX_SECTIONS = 1000;
+export const MAX_IMPORTS = 5000;
+
+export interface Reader {
+  u16(offset: number): number;
+  u32(offset: number): number;
+  /** Address-sized read: 32 or 64 bits depending on the binary's class */
+  word(offset: number): number;
+}
+
+export function reader(bytes: Uint8Array, littleEndian: boolean, bits: 32 | 64): Reader {
+  const u16 = (offset: number) => (littleEndian ? u16le : u16be)(bytes, offset);
+  const u32 = (offset: number) => (littleEndian ? u32le : u32be)(bytes, offset);
+  const u64 = (offset: number) => (littleEndian ? u64le : u64be)(bytes, offset);
+  return { u16, u32, word: bits === 64 ? u64 : u32 };
+}
+
+/**
+ * Entropy of a section's bytes, or null when they lie outside `bytes`
+ */
+export function sectionEntropy(bytes: Uint8Array, offset: number, size: number): number | null {
+  if (size === 0 || offset + size > bytes.length) return null;
+  return profileEntropy(bytes.subarray(offset, offset + size)).overall;
+}
+
+/**
+ * Parse an executable's headers, whichever of the three formats it is
+ */
+export function parseExecutable(bytes: Uint8Array, window?: ByteWindow): ParseResult<ExecutableMetadata> {
+  // Only the head of a large file is available; structures past it are reported as unknown
+  const partial = window !== undefined && bytes.length < window.size;
+  const magic = bytes.length >= 4 ? u32be(bytes, 0) : 0;
+
+  const result = magic === 0x7f454c46
+    ? parseElf(bytes, partial)
+    : bytes[0] === 0x4d && bytes[1] === 0x5a
+      ? parsePe(bytes, partial)
+      : parseMachO(bytes, partial);
+
+  result.findings.push(...securityFindings(result.metadata, bytes, partial));
+  return result;
+}
+
+function securityFindings(metadata: ExecutableMetadata, bytes: Uint8Array, partial: boolean): Finding[] {
+  const findings: Finding[] = [];
+  const { security, sections } = metadata;
+  const flag = (id: string, severity: Finding["severity"], message: string, offset?: number) =>
+    findings.push({ id: `executable.${id}`, severity, message, source: "executable", ...(offset === undefined ? {} : { offset }) });
+
+  if (security.rwx.length > 0) {
+    flag("rwx", "medium", `Writable and executable at once: ${security.rwx.join(", ")}`);
+  }
+  if (security.nx === false) {
+    flag("no-nx", "medium", "Stack or data is executable (no NX/DEP)");
+  }
+  if (security.pie === false && metadata.fileType === "executable") {
+    flag("no-pie", "low", "Loaded at a fixed address (no PIE/ASLR)");
+  }
+
+  // Packers leave code sections that compress no further
+  for (const section of sections) {
+    if (section.executable && section.entropy !== null && section.entropy >= HIGH_ENTROPY) {
+      flag("packed-section", "medium", `Executable section ${section.name || "(unnamed)"} has entropy ${section.entropy.toFixed(2)}; likely packed or encrypted`, section.offset);
+    }
+    if (!partial && section.size > 0 && section.offset + section.size > bytes.length) {
+      flag("truncated-section", "low", `Section ${section.name || "(unnamed)"} extends past the end of the file`, section.offset);
+    }
+  }
+
+  const entry = metadata.entryPoint;
+  if (entry !== null && sections.length > 0) {
+    // Sections that are not loaded have address 0 and cannot hold the entry point
+    const home = sections.find((section) => section.virtualAddress > 0 && entry >= section.virtualAddress && entry < section.virtualAddress + Math.max(section.virtualSize, section.size));
+    if (!home) {
+      flag("entry-outside-sections", "medium", `Entry point 0x${entry.toString(16)} is outside every section`);
+    } else if (!home.executable) {
+      flag("entry-in-data", "medium", `Entry point is in non-executable section ${home.name}`, home.offset);
+    }
+  }
+
+  return findings;
+}
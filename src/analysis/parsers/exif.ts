@@ -0,0 +1,266 @@
+/**
+ * EXIF / TIFF IFD Reader
+ * Decodes IFD0, the Exif and GPS sub-IFDs and the IFD1 thumbnail pointer from a TIFF-structured block
+ */
+
+import { latin1, u16be, u16le, u32be, u32le } from "../binary";
+
+export type ExifValue = string | number | number[];
+
+export interface GpsInfo {
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  /** ISO-8601 UTC timestamp assembled from GPSDateStamp and GPSTimeStamp */
+  timestamp: string | null;
+  mapDatum: string | null;
+}
+
+export interface ExifData {
+  byteOrder: "little-endian" | "big-endian";
+  make: string | null;
+  model: string | null;
+  software: string | null;
+  lensModel: string | null;
+  serialNumber: string | null;
+  dateTime: string | null;
+  dateTimeOriginal: string | null;
+  dateTimeDigitized: string | null;
+  orientation: number | null;
+  orientationName: string | null;
+  gps: GpsInfo | null;
+  /** Location of the embedded JPEG thumbnail relative to the TIFF header */
+  thumbnail: { offset: number; length: number } | null;
+  ifd0: Record<string, ExifValue>;
+  exif: Record<string, ExifValue>;
+}
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x011a: "XResolution",
+  0x011b: "YResolution",
+  0x0128: "ResolutionUnit",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x0213: "YCbCrPositioning",
+  0x8298: "Copyright",
+  0x8769: "ExifIFDPointer",
+  0x8825: "GPSInfoIFDPointer",
+  0x0201: "JPEGInterchangeFormat",
+  0x0202: "JPEGInterchangeFormatLength",
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: "ExposureTime",
+  0x829d: "FNumber",
+  0x8822: "ExposureProgram",
+  0x8827: "ISOSpeedRatings",
+  0x9000: "ExifVersion",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0x9011: "OffsetTimeOriginal",
+  0x9209: "Flash",
+  0x920a: "FocalLength",
+  0x927c: "MakerNote",
+  0x9286: "UserComment",
+  0xa001: "ColorSpace",
+  0xa002: "PixelXDimension",
+  0xa003: "PixelYDimension",
+  0xa005: "InteroperabilityIFDPointer",
+  0xa420: "ImageUniqueID",
+  0xa430: "CameraOwnerName",
+  0xa431: "BodySerialNumber",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+  0xa435: "LensSerialNumber",
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x00: "GPSVersionID",
+  0x01: "GPSLatitudeRef",
+  0x02: "GPSLatitude",
+  0x03: "GPSLongitudeRef",
+  0x04: "GPSLongitude",
+  0x05: "GPSAltitudeRef",
+  0x06: "GPSAltitude",
+  0x07: "GPSTimeStamp",
+  0x0c: "GPSSpeedRef",
+  0x0d: "GPSSpeed",
+  0x10: "GPSImgDirectionRef",
+  0x11: "GPSImgDirection",
+  0x12: "GPSMapDatum",
+  0x1d: "GPSDateStamp",
+};
+
+export const ORIENTATIONS: Record<number, string> = {
+  1: "Horizontal (normal)",
+  2: "Mirror horizontal",
+  3: "Rotate 180",
+  4: "Mirror vertical",
+  5: "Mirror horizontal and rotate 270 CW",
+  6: "Rotate 90 CW",
+  7: "Mirror horizontal and rotate 90 CW",
+  8: "Rotate 270 CW",
+};
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const MAX_IFD_ENTRIES = 1000;
+/** Opaque blobs are summarised rather than copied into the response */
+const MAX_INLINE_UNDEFINED = 64;
+
+interface Reader {
+  u16(offset: number): number;
+  u32(offset: number): number;
+  littleEndian: boolean;
+}
+
+function readValue(tiff: Uint8Array, reader: Reader, type: number, count: number, valueOffset: number, name: string): ExifValue | undefined {
+  const size = TYPE_SIZES[type];
+  if (!size) return undefined;
+  const total = size * count;
+  const start = total <= 4 ? valueOffset : reader.u32(valueOffset);
+  if (start + total > tiff.length) return undefined;
+
+  switch (type) {
+    case 2:
+      return latin1(tiff, start, start + count).replace(/\0+$/, "").trim();
+    case 7:
+      if (name === "ExifVersion") return latin1(tiff, start, start + count);
+      if (name === "UserComment") return latin1(tiff, start + 8, start + count).replace(/\0+$/, "").trim();
+      return count <= MAX_INLINE_UNDEFINED ? Array.from(tiff.subarray(start, start + count)) : count;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count && i < 256; i++) {
+    const at = start + i * size;
+    switch (type) {
+      case 1: values.push(tiff[at]); break;
+      case 6: values.push((tiff[at] << 24) >> 24); break;
+      case 3: values.push(reader.u16(at)); break;
+      case 8: values.push((reader.u16(at) << 16) >> 16); break;
+      case 4: values.push(reader.u32(at)); break;
+      case 9: values.push(reader.u32(at) | 0); break;
+      case 5: {
+        const den = reader.u32(at + 4);
+        values.push(den === 0 ? 0 : reader.u32(at) / den);
+        break;
+      }
+      case 10: {
+        const den = reader.u32(at + 4) | 0;
+        values.push(den === 0 ? 0 : (reader.u32(at) | 0) / den);
+        break;
+      }
+      case 11: values.push(new DataView(tiff.buffer, tiff.byteOffset + at, 4).getFloat32(0, reader.littleEndian)); break;
+      case 12: values.push(new DataView(tiff.buffer, tiff.byteOffset + at, 8).getFloat64(0, reader.littleEndian)); break;
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+function readIfd(
+  tiff: Uint8Array,
+  reader: Reader,
+  offset: number,
+  names: Record<number, string>,
+  visited: Set<number>
+): { tags: Record<string, ExifValue>; next: number } {
+  const tags: Record<string, ExifValue> = {};
+  if (offset < 8 || offset + 2 > tiff.length || visited.has(offset)) return { tags, next: 0 };
+  visited.add(offset);
+
+  const count = Math.min(reader.u16(offset), MAX_IFD_ENTRIES);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = reader.u16(entry);
+    const name = names[tag] ?? `0x${tag.toString(16).padStart(4, "0")}`;
+    const value = readValue(tiff, reader, reader.u16(entry + 2), reader.u32(entry + 4), entry + 8, name);
+    if (value !== undefined) tags[name] = value;
+  }
+
+  const nextAt = offset + 2 + count * 12;
+  return { tags, next: nextAt + 4 <= tiff.length ? reader.u32(nextAt) : 0 };
+}
+
+function toDegrees(value: ExifValue | undefined, ref: ExifValue | undefined): number | null {
+  if (!Array.isArray(value) || value.length < 3) return null;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+function gpsTimestamp(date: ExifValue | undefined, time: ExifValue | undefined): string | null {
+  if (typeof date !== "string" || !Array.isArray(time) || time.length < 3) return null;
+  const [h, m, s] = time;
+  const pad = (n: number) => String(Math.floor(n)).padStart(2, "0");
+  return `${date.replace(/:/g, "-")}T${pad(h)}:${pad(m)}:${pad(s)}Z`;
+}
+
+const asString = (value: ExifValue | undefined) => (typeof value === "string" && value ? value : null);
+
+/**
+ * Parse a TIFF-structured EXIF block (the bytes following "Exif\0\0" in APP1)
+ */
+export function parseExif(tiff: Uint8Array): ExifData | null {
+  if (tiff.length < 8) return null;
+  const order = latin1(tiff, 0, 2);
+  if (order !== "II" && order !== "MM") return null;
+
+  const littleEndian = order === "II";
+  const reader: Reader = littleEndian
+    ? { u16: (o) => u16le(tiff, o), u32: (o) => u32le(tiff, o), littleEndian }
+    : { u16: (o) => u16be(tiff, o), u32: (o) => u32be(tiff, o), littleEndian };
+  if (reader.u16(2) !== 42) return null;
+
+  const visited = new Set<number>();
+  const ifd0 = readIfd(tiff, reader, reader.u32(4), IFD0_TAGS, visited);
+  const exif = typeof ifd0.tags.ExifIFDPointer === "number"
+    ? readIfd(tiff, reader, ifd0.tags.ExifIFDPointer, EXIF_TAGS, visited).tags
+    : {};
+  const gpsTags = typeof ifd0.tags.GPSInfoIFDPointer === "number"
+    ? readIfd(tiff, reader, ifd0.tags.GPSInfoIFDPointer, GPS_TAGS, visited).tags
+    : null;
+  const ifd1 = readIfd(tiff, reader, ifd0.next, IFD0_TAGS, visited).tags;
+
+  const gps: GpsInfo | null = gpsTags
+    ? {
+        latitude: toDegrees(gpsTags.GPSLatitude, gpsTags.GPSLatitudeRef),
+        longitude: toDegrees(gpsTags.GPSLongitude, gpsTags.GPSLongitudeRef),
+        altitude: typeof gpsTags.GPSAltitude === "number"
+          ? (gpsTags.GPSAltitudeRef === 1 ? -gpsTags.GPSAltitude : gpsTags.GPSAltitude)
+          : null,
+        timestamp: gpsTimestamp(gpsTags.GPSDateStamp, gpsTags.GPSTimeStamp),
+        mapDatum: asString(gpsTags.GPSMapDatum),
+      }
+    : null;
+
+  const thumbOffset = ifd1.JPEGInterchangeFormat;
+  const thumbLength = ifd1.JPEGInterchangeFormatLength;
+  const orientation = typeof ifd0.tags.Orientation === "number" ? ifd0.tags.Orientation : null;
+
+  return {
+    byteOrder: littleEndian ? "little-endian" : "big-endian",
+    make: asString(ifd0.tags.Make),
+    model: asString(ifd0.tags.Model),
+    software: asString(ifd0.tags.Software),
+    lensModel: asString(exif.LensModel),
+    serialNumber: asString(exif.BodySerialNumber),
+    dateTime: asString(ifd0.tags.DateTime),
+    dateTimeOriginal: asString(exif.DateTimeOriginal),
+    dateTimeDigitized: asString(exif.DateTimeDigitized),
+    orientation,
+    orientationName: orientation !== null ? ORIENTATIONS[orientation] ?? null : null,
+    gps,
+    thumbnail: typeof thumbOffset === "number" && typeof thumbLength === "number"
+      ? { offset: thumbOffset, length: thumbLength }
+      : null,
+    ifd0: ifd0.tags,
+    exif,
+  };
+}
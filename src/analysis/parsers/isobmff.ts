@@ -0,0 +1,164 @@
+/**
+ * ISO Base Media Parser
+ * Walks the MP4/QuickTime box tree for brands, movie and track headers, sample descriptions and iTunes tags
+ */
+
+import { u16be, u32be, u64be, utf8 } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { emptyMedia, fourCC, MAX_BOXES, MAX_TAG_LENGTH, type MediaBox, type MediaMetadata, type MediaTrack } from "./media";
+
+// Boxes whose payload is a sequence of boxes
+const CONTAINERS = new Set(["moov", "trak", "mdia", "minf", "stbl", "edts", "udta", "mvex", "moof", "traf", "mfra", "dinf", "meta", "ilst"]);
+const MAX_DEPTH = 12;
+/** Seconds from the ISO-BMFF epoch (1904-01-01) to the Unix epoch */
+const EPOCH_OFFSET = 2082844800;
+/** iTunes `data` atom type for UTF-8 text */
+const DATA_UTF8 = 1;
+
+const HANDLERS: Record<string, MediaTrack["kind"]> = { vide: "video", soun: "audio", text: "text", sbtl: "text", subt: "text", clcp: "text" };
+
+const ITUNES_TAGS: Record<string, string> = {
+  "©nam": "title", "©ART": "artist", "©alb": "album", "©day": "date", "©gen": "genre", "©too": "encoder",
+  "©cmt": "comment", "©wrt": "composer", "©xyz": "location", aART: "albumArtist", cprt: "copyright", desc: "description",
+};
+
+function isoDate(seconds: number): string | null {
+  if (seconds === 0) return null;
+  const date = new Date((seconds - EPOCH_OFFSET) * 1000);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function emptyTrack(): MediaTrack {
+  return { id: null, kind: "other", codec: null, duration: null, width: null, height: null, sampleRate: null, channels: null };
+}
+
+/**
+ * Parse an MP4, MOV or other ISO base media file; `partial` means only the head of the file is in `bytes`
+ */
+export function parseIsoBmff(bytes: Uint8Array, partial: boolean): ParseResult<MediaMetadata> {
+  const findings: Finding[] = [];
+  const metadata = emptyMedia("ISO-BMFF", partial);
+  let listed = 0;
+  let movie = false;
+  let track: MediaTrack | null = null;
+
+  const tag = (name: string, value: string) => {
+    if (value && !(name in metadata.tags)) metadata.tags[name] = value.slice(0, MAX_TAG_LENGTH);
+  };
+
+  const read = (type: string, start: number, end: number, parent: string | null) => {
+    const version = bytes[start];
+    if (type === "ftyp" && parent === null) {
+      metadata.brand = fourCC(bytes, start)?.trim() ?? null;
+      for (let at = start + 8; at + 4 <= end; at += 4) {
+        const brand = fourCC(bytes, at)?.trim();
+        if (brand) metadata.compatibleBrands.push(brand);
+      }
+    } else if (type === "mvhd") {
+      movie = true;
+      const wide = version === 1;
+      metadata.created = isoDate(wide ? u64be(bytes, start + 4) : u32be(bytes, start + 4));
+      metadata.modified = isoDate(wide ? u64be(bytes, start + 12) : u32be(bytes, start + 8));
+      const timescale = u32be(bytes, start + (wide ? 20 : 12));
+      const duration = wide ? u64be(bytes, start + 24) : u32be(bytes, start + 16);
+      // All ones means the duration is unknown, as in live fragmented files
+      if (timescale > 0 && duration !== 0xffffffff) metadata.duration = duration / timescale;
+    } else if (type === "tkhd" && track) {
+      track.id = u32be(bytes, start + (version === 1 ? 20 : 12));
+      // Presentation size closes the box as 16.16 fixed point
+      const width = u32be(bytes, end - 8) >>> 16;
+      const height = u32be(bytes, end - 4) >>> 16;
+      if (width > 0 && height > 0) Object.assign(track, { width, height });
+    } else if (type === "mdhd" && track) {
+      const timescale = u32be(bytes, start + (version === 1 ? 20 : 12));
+      const duration = version === 1 ? u64be(bytes, start + 24) : u32be(bytes, start + 16);
+      if (timescale > 0) track.duration = duration / timescale;
+    } else if (type === "hdlr" && parent === "mdia" && track) {
+      track.kind = HANDLERS[fourCC(bytes, start + 8) ?? ""] ?? "other";
+    } else if (type === "stsd" && track && u32be(bytes, start + 4) > 0) {
+      // Only the first sample description is reported; the box header is followed by the entry layout
+      const entry = start + 8;
+      track.codec = fourCC(bytes, entry + 4)?.trim() ?? null;
+      if (track.kind === "video" && entry + 36 <= end) {
+        track.width ??= u16be(bytes, entry + 32);
+        track.height ??= u16be(bytes, entry + 34);
+      } else if (track.kind === "audio" && entry + 36 <= end) {
+        track.channels = u16be(bytes, entry + 24);
+        track.sampleRate = u32be(bytes, entry + 32) >>> 16;
+      }
+    } else if (parent === "ilst" && ITUNES_TAGS[type]) {
+      // Each item holds a `data` atom: size, "data", type, locale, value
+      if (fourCC(bytes, start + 4) === "data" && u32be(bytes, start + 8) === DATA_UTF8) {
+        tag(ITUNES_TAGS[type], utf8(bytes, start + 16, Math.min(end, start + u32be(bytes, start))));
+      }
+    } else if (parent === "udta" && ITUNES_TAGS[type] && type.startsWith("©")) {
+      // QuickTime user data text: 16-bit length, 16-bit language, text
+      const length = u16be(bytes, start);
+      tag(ITUNES_TAGS[type], utf8(bytes, start + 4, Math.min(end, start + 4 + length)));
+    }
+  };
+
+  const walk = (start: number, end: number, depth: number, parent: string | null): { boxes: MediaBox[]; stop: number } => {
+    const boxes: MediaBox[] = [];
+    let offset = start;
+    while (offset + 8 <= Math.min(end, bytes.length)) {
+      const type = fourCC(bytes, offset + 4);
+      if (type === null) break;
+      let size = u32be(bytes, offset);
+      let header = 8;
+      if (size === 1) {
+        size = u64be(bytes, offset + 8);
+        header = 16;
+      } else if (size === 0) {
+        // Size zero runs to the end of the enclosing box or file
+        size = end - offset;
+      }
+      if (size < header) {
+        findings.push({ id: "media.malformed-box", severity: "medium", message: `Box "${type}" declares ${size} bytes, less than its own header`, source: "media", offset });
+        return { boxes, stop: offset };
+      }
+
+      const boxEnd = offset + size;
+      if (boxEnd > end && parent !== null) {
+        findings.push({ id: "media.malformed-box", severity: "medium", message: `Box "${type}" runs ${boxEnd - end} bytes past the end of its parent "${parent}"`, source: "media", offset });
+      } else if (boxEnd > bytes.length && !partial) {
+        findings.push({ id: "media.truncated", severity: "low", message: `Box "${type}" runs ${boxEnd - bytes.length} bytes past the end of the file`, source: "media", offset });
+      }
+
+      const box: MediaBox = { type, offset, size };
+      if (listed++ < MAX_BOXES) boxes.push(box);
+      const contentStart = offset + header + (type === "uuid" ? 16 : 0);
+      const contentEnd = Math.min(boxEnd, end, bytes.length);
+      read(type, contentStart, contentEnd, parent);
+
+      if (CONTAINERS.has(type) && depth < MAX_DEPTH) {
+        // ISO meta is a full box with version and flags before its children; QuickTime meta is not
+        const childStart = type === "meta" && u32be(bytes, contentStart) === 0 ? contentStart + 4 : contentStart;
+        if (type === "trak") track = emptyTrack();
+        const children = walk(childStart, contentEnd, depth + 1, type).boxes;
+        if (children.length > 0) box.children = children;
+        if (type === "trak" && track) {
+          metadata.tracks.push(track);
+          track = null;
+        }
+      }
+      offset = boxEnd;
+    }
+    return { boxes, stop: offset };
+  };
+
+  const { boxes, stop } = walk(0, Number.MAX_SAFE_INTEGER, 0, null);
+  metadata.structure = boxes;
+
+  if (!partial) {
+    metadata.trailingBytes = Math.max(0, bytes.length - stop);
+    if (metadata.trailingBytes > 0) {
+      findings.push({ id: "media.trailing-data", severity: "low", message: `${metadata.trailingBytes} bytes after the last box are not part of the media`, source: "media", offset: stop });
+    }
+    if (!movie && !metadata.compatibleBrands.includes("heic")) {
+      findings.push({ id: "media.missing-movie-header", severity: "low", message: "No moov/mvhd box; players cannot read the file's tracks", source: "media" });
+    }
+  }
+
+  return { metadata, findings };
+}
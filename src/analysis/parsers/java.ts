@@ -0,0 +1,267 @@
+/**
+ * Java Class & JAR Parser
+ * Class file version, names and constant-pool strings, plus the JAR manifest and the
+ * platform APIs its classes reference
+ */
+
+import { u16be, u32be, utf8 } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { parseZip, readZipEntry, type ZipEntry } from "./zip";
+
+export interface JavaClass {
+  /** Binary name with dots, e.g. "com.example.Main" */
+  name: string | null;
+  superName: string | null;
+  major: number;
+  minor: number;
+  /** e.g. "Java 17" */
+  javaVersion: string;
+  /** String literals from the constant pool */
+  strings: string[];
+}
+
+export interface JavaMetadata {
+  kind: "class" | "jar";
+  /** The class file itself, or the JAR's Main-Class when it could be read */
+  class: JavaClass | null;
+  /** Class files in the archive */
+  classCount: number;
+  /** Class file count by target Java version, e.g. { "Java 8": 120 } */
+  versions: Record<string, number>;
+  /** Main section of META-INF/MANIFEST.MF */
+  manifest: Record<string, string>;
+  mainClass: string | null;
+  /** The archive carries META-INF signature files */
+  signed: boolean;
+}
+
+/** Signature ids of class files and JARs */
+export const JAVA_SIGNATURES = ["java-class", "jar"];
+
+const MANIFEST = "META-INF/MANIFEST.MF";
+const CLASS_MAGIC = 0xcafebabe;
+/** Class file major version of Java 1.0; later releases count up from here */
+const JAVA_1_MAJOR = 44;
+const MAX_STRINGS = 500;
+const MAX_STRING_LENGTH = 1024;
+const MAX_CLASSES = 2000;
+const MAX_CLASS_BYTES = 4 * 1024 * 1024;
+
+// Manifest attributes that make the JVM load a class into every application or as an agent
+const AGENT_ATTRIBUTES = ["Premain-Class", "Agent-Class", "Launcher-Agent-Class"];
+
+// Platform members referenced by loaders, droppers and exploit payloads; "*" matches any member
+const CAPABILITIES: Array<{ owner: string; member: string; id: string; message: string }> = [
+  { owner: "java/lang/Runtime", member: "exec", id: "java.process-execution", message: "runs external commands" },
+  { owner: "java/lang/ProcessBuilder", member: "*", id: "java.process-execution", message: "runs external commands" },
+  { owner: "java/lang/ClassLoader", member: "defineClass", id: "java.dynamic-class-loading", message: "defines classes from bytes at run time" },
+  { owner: "java/net/URLClassLoader", member: "*", id: "java.dynamic-class-loading", message: "loads classes from URLs" },
+  { owner: "java/lang/invoke/MethodHandles$Lookup", member: "defineClass", id: "java.dynamic-class-loading", message: "defines classes from bytes at run time" },
+  { owner: "javax/script/ScriptEngineManager", member: "*", id: "java.script-engine", message: "evaluates scripts" },
+  { owner: "javax/naming/InitialContext", member: "lookup", id: "java.jndi-lookup", message: "performs JNDI lookups" },
+  { owner: "sun/misc/Unsafe", member: "*", id: "java.unsafe", message: "uses sun.misc.Unsafe" },
+  { owner: "java/lang/System", member: "load", id: "java.native-library", message: "loads native libraries" },
+  { owner: "java/lang/System", member: "loadLibrary", id: "java.native-library", message: "loads native libraries" },
+];
+
+interface ParsedClass {
+  info: JavaClass;
+  /** "owner.member" for every field and method reference, plus "owner.*" for every class reference */
+  references: Set<string>;
+}
+
+function javaVersion(major: number): string {
+  if (major < JAVA_1_MAJOR + 5) return `Java 1.${Math.max(0, major - JAVA_1_MAJOR)}`;
+  return `Java ${major - JAVA_1_MAJOR}`;
+}
+
+/**
+ * Whether a ZIP archive holds class files or a JAR manifest, judged from its entry names
+ */
+export function isJavaArchive(bytes: Uint8Array): boolean {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+  return buffer.includes(MANIFEST, 0, "latin1") || buffer.includes(".class", 0, "latin1");
+}
+
+function parseClass(bytes: Uint8Array, keepStrings: boolean): ParsedClass {
+  if (bytes.length < 10 || u32be(bytes, 0) !== CLASS_MAGIC) throw new Error("Missing CAFEBABE magic");
+  const minor = u16be(bytes, 4);
+  const major = u16be(bytes, 6);
+  const count = u16be(bytes, 8);
+
+  // Slots hold UTF-8 text for tag 1 and the referenced indices for the tags that point elsewhere
+  const text: Array<string | undefined> = [];
+  const links: Array<[number, number, number] | undefined> = [];
+  let offset = 10;
+  for (let index = 1; index < count; index++) {
+    if (offset >= bytes.length) throw new Error("Constant pool is truncated");
+    const tag = bytes[offset];
+    switch (tag) {
+      case 1: {
+        const length = u16be(bytes, offset + 1);
+        // Modified UTF-8 differs only for NUL and supplementary characters
+        text[index] = utf8(bytes, offset + 3, offset + 3 + length);
+        offset += 3 + length;
+        break;
+      }
+      case 7: case 8: case 16: case 19: case 20:
+        links[index] = [tag, u16be(bytes, offset + 1), 0];
+        offset += 3;
+        break;
+      case 15:
+        offset += 4;
+        break;
+      case 3: case 4: case 17: case 18:
+        offset += 5;
+        break;
+      case 9: case 10: case 11: case 12:
+        links[index] = [tag, u16be(bytes, offset + 1), u16be(bytes, offset + 3)];
+        offset += 5;
+        break;
+      case 5: case 6:
+        // Longs and doubles take two slots
+        offset += 9;
+        index++;
+        break;
+      default:
+        throw new Error(`Unknown constant pool tag ${tag} at offset ${offset}`);
+    }
+  }
+
+  const className = (index: number): string | null => {
+    const link = links[index];
+    const value = link?.[0] === 7 ? text[link[1]] : undefined;
+    return value ?? null;
+  };
+
+  const strings: string[] = [];
+  const references = new Set<string>();
+  for (let index = 1; index < count; index++) {
+    const link = links[index];
+    if (!link) continue;
+    const [tag, first, second] = link;
+    if (tag === 8 && keepStrings && strings.length < MAX_STRINGS) {
+      const value = text[first];
+      if (value !== undefined) strings.push(value.slice(0, MAX_STRING_LENGTH));
+    } else if (tag === 7 && text[first] !== undefined) {
+      references.add(`${text[first]}.*`);
+    } else if (tag >= 9 && tag <= 11) {
+      const owner = className(first);
+      const member = links[second]?.[0] === 12 ? text[links[second]![1]] : undefined;
+      if (owner && member) references.add(`${owner}.${member}`);
+    }
+  }
+
+  const thisClass = offset + 2 <= bytes.length ? className(u16be(bytes, offset + 2)) : null;
+  const superClass = offset + 4 <= bytes.length ? className(u16be(bytes, offset + 4)) : null;
+  return {
+    info: {
+      name: thisClass?.replace(/\//g, ".") ?? null,
+      superName: superClass?.replace(/\//g, ".") ?? null,
+      major,
+      minor,
+      javaVersion: javaVersion(major),
+      strings,
+    },
+    references,
+  };
+}
+
+/**
+ * Parse a Java class file or JAR archive
+ */
+export function parseJava(bytes: Uint8Array): ParseResult<JavaMetadata> {
+  const metadata: JavaMetadata = { kind: "class", class: null, classCount: 0, versions: {}, manifest: {}, mainClass: null, signed: false };
+  const users = new Map<string, Set<string>>();
+
+  if (u32be(bytes, 0) === CLASS_MAGIC) {
+    const parsed = parseClass(bytes, true);
+    metadata.class = parsed.info;
+    metadata.classCount = 1;
+    metadata.versions[parsed.info.javaVersion] = 1;
+    collectCapabilities(parsed, users);
+    return { metadata, findings: capabilityFindings(users) };
+  }
+
+  metadata.kind = "jar";
+  const { metadata: zip } = parseZip(bytes);
+  const findings: Finding[] = [];
+  const read = (entry: ZipEntry): Uint8Array | null => {
+    if (entry.uncompressedSize > MAX_CLASS_BYTES) return null;
+    try {
+      return readZipEntry(bytes, entry, zip.prependedBytes);
+    } catch {
+      return null;
+    }
+  };
+
+  const manifestEntry = zip.entries.find((entry) => entry.name === MANIFEST);
+  const manifestBytes = manifestEntry ? read(manifestEntry) : null;
+  if (manifestBytes) metadata.manifest = parseManifest(utf8(manifestBytes));
+  metadata.mainClass = metadata.manifest["Main-Class"] ?? null;
+  metadata.signed = zip.entries.some((entry) => /^META-INF\/[^/]+\.(SF|RSA|DSA|EC)$/i.test(entry.name));
+
+  const mainEntry = metadata.mainClass ? `${metadata.mainClass.replace(/\./g, "/")}.class` : null;
+  let unreadable = 0;
+  for (const entry of zip.entries) {
+    if (entry.directory || !entry.name.endsWith(".class")) continue;
+    metadata.classCount++;
+    if (metadata.classCount > MAX_CLASSES) continue;
+    const data = read(entry);
+    try {
+      if (!data) throw new Error("unreadable");
+      const parsed = parseClass(data, entry.name === mainEntry);
+      metadata.versions[parsed.info.javaVersion] = (metadata.versions[parsed.info.javaVersion] ?? 0) + 1;
+      if (entry.name === mainEntry) metadata.class = parsed.info;
+      collectCapabilities(parsed, users, parsed.info.name ?? entry.name);
+    } catch {
+      unreadable++;
+    }
+  }
+
+  if (metadata.classCount === 0 && !manifestBytes) throw new Error("Archive has neither class files nor a JAR manifest");
+  if (mainEntry && !zip.entries.some((entry) => entry.name === mainEntry)) {
+    findings.push({ id: "java.missing-main-class", severity: "low", message: `Main-Class ${metadata.mainClass} is not in the archive`, source: "java" });
+  }
+  for (const attribute of AGENT_ATTRIBUTES) {
+    const value = metadata.manifest[attribute];
+    if (value) {
+      findings.push({ id: "java.agent", severity: "medium", message: `Manifest ${attribute} ${value} runs as a Java agent that can rewrite other classes`, source: "java" });
+    }
+  }
+  if (unreadable > 0) {
+    findings.push({ id: "java.unreadable-classes", severity: "low", message: `${unreadable} class files could not be read`, source: "java" });
+  }
+  findings.push(...capabilityFindings(users));
+  return { metadata, findings };
+}
+
+/** Main section attributes; continuation lines start with a single space */
+function parseManifest(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const main = text.replace(/\r\n?/g, "\n").split(/\n\n/)[0].replace(/\n /g, "");
+  for (const line of main.split("\n")) {
+    const colon = line.indexOf(": ");
+    if (colon > 0) attributes[line.slice(0, colon)] = line.slice(colon + 2).trim();
+  }
+  return attributes;
+}
+
+function collectCapabilities({ info, references }: ParsedClass, users: Map<string, Set<string>>, name = info.name ?? "(unnamed)"): void {
+  for (const { owner, member, id } of CAPABILITIES) {
+    if (!references.has(`${owner}.${member}`)) continue;
+    if (!users.has(id)) users.set(id, new Set());
+    users.get(id)!.add(name);
+  }
+}
+
+function capabilityFindings(users: Map<string, Set<string>>): Finding[] {
+  const findings: Finding[] = [];
+  for (const [id, classes] of users) {
+    const { message } = CAPABILITIES.find((capability) => capability.id === id)!;
+    const names = [...classes].slice(0, 5).join(", ");
+    findings.push({ id, severity: "medium", message: `${names}${classes.size > 5 ? ` and ${classes.size - 5} more` : ""} ${message}`, source: "java" });
+  }
+  return findings;
+}
+
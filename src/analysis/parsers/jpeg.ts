@@ -0,0 +1,318 @@
+/**
+ * JPEG Segment Walker
+ * Lists marker segments and decodes frame header, JFIF, EXIF, XMP, IPTC and comment metadata
+ */
+
+import { indexOfNul, latin1, u16be, u32be, utf8 } from "../binary";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+import { parseExif, type ExifData } from "./exif";
+
+export interface JpegSegment {
+  offset: number;
+  marker: number;
+  name: string;
+  /** Segment length including the two length bytes; 0 for standalone markers */
+  length: number;
+}
+
+export interface JpegFrame {
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  components: number;
+  progressive: boolean;
+}
+
+export interface XmpPacket {
+  length: number;
+  /** Simple `prefix:Name` properties found as attributes or leaf elements */
+  properties: Record<string, string>;
+}
+
+export interface JpegMetadata {
+  frame: JpegFrame | null;
+  jfif: { version: string; densityUnits: number; xDensity: number; yDensity: number } | null;
+  exif: ExifData | null;
+  xmp: XmpPacket | null;
+  /** IPTC IIM application record datasets keyed by name; repeatable fields become arrays */
+  iptc: Record<string, string | string[]> | null;
+  comments: string[];
+  segments: JpegSegment[];
+  hasEOI: boolean;
+  /** Bytes present after the EOI marker */
+  trailingBytes: number;
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const PHOTOSHOP_HEADER = "Photoshop 3.0\0";
+const IPTC_RESOURCE_ID = 0x0404;
+
+const MAX_SEGMENTS = 10000;
+/** XMP properties are capped so a padded or hostile packet cannot bloat the response */
+const MAX_XMP_PROPERTIES = 200;
+
+const MARKER_NAMES: Record<number, string> = {
+  0xc0: "SOF0", 0xc1: "SOF1", 0xc2: "SOF2", 0xc3: "SOF3",
+  0xc5: "SOF5", 0xc6: "SOF6", 0xc7: "SOF7",
+  0xc9: "SOF9", 0xca: "SOF10", 0xcb: "SOF11",
+  0xcd: "SOF13", 0xce: "SOF14", 0xcf: "SOF15",
+  0xc4: "DHT", 0xcc: "DAC", 0xd8: "SOI", 0xd9: "EOI", 0xda: "SOS",
+  0xdb: "DQT", 0xdc: "DNL", 0xdd: "DRI", 0xde: "DHP", 0xdf: "EXP", 0xfe: "COM",
+};
+
+const PROGRESSIVE_FRAMES = new Set([0xc2, 0xc6, 0xca, 0xce]);
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: "ObjectName",
+  15: "Category",
+  25: "Keywords",
+  40: "SpecialInstructions",
+  55: "DateCreated",
+  60: "TimeCreated",
+  80: "By-line",
+  85: "By-lineTitle",
+  90: "City",
+  92: "Sub-location",
+  95: "Province-State",
+  100: "CountryCode",
+  101: "Country",
+  105: "Headline",
+  110: "Credit",
+  115: "Source",
+  116: "CopyrightNotice",
+  120: "Caption-Abstract",
+  122: "Writer-Editor",
+};
+
+const REPEATABLE_DATASETS = new Set(["Keywords", "By-line", "Category"]);
+
+/** XMP properties that place the photo somewhere */
+const XMP_LOCATION_PROPERTIES = ["exif:GPSLatitude", "exif:GPSLongitude"];
+
+function markerName(marker: number): string {
+  if (marker >= 0xe0 && marker <= 0xef) return `APP${marker - 0xe0}`;
+  if (marker >= 0xd0 && marker <= 0xd7) return `RST${marker - 0xd0}`;
+  return MARKER_NAMES[marker] ?? `0x${marker.toString(16).toUpperCase()}`;
+}
+
+const isFrameMarker = (marker: number) => marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+const isStandalone = (marker: number) => marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7);
+
+const startsWith = (data: Uint8Array, prefix: string) => latin1(data, 0, prefix.length) === prefix;
+
+/** Offset of the next marker after entropy-coded scan data, skipping stuffed 0xFF00 and restart markers */
+function scanEnd(bytes: Uint8Array, start: number): number {
+  for (let i = start; i + 1 < bytes.length; i++) {
+    if (bytes[i] !== 0xff) continue;
+    const next = bytes[i + 1];
+    if (next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) return i;
+  }
+  return bytes.length;
+}
+
+export function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function parseXmp(data: Uint8Array): XmpPacket {
+  const packet = utf8(data);
+  const properties: Record<string, string> = {};
+  const add = (name: string, value: string) => {
+    if (name.startsWith("xmlns:") || name.startsWith("rdf:") || name.startsWith("x:")) return;
+    if (Object.keys(properties).length < MAX_XMP_PROPERTIES && !(name in properties)) {
+      properties[name] = decodeXml(value.trim());
+    }
+  };
+
+  for (const match of packet.matchAll(/\s([A-Za-z][\w-]*:[A-Za-z][\w-]*)="([^"]*)"/g)) add(match[1], match[2]);
+  for (const match of packet.matchAll(/<([A-Za-z][\w-]*:[A-Za-z][\w-]*)(?:\s[^>]*)?>([^<]+)<\/\1>/g)) add(match[1], match[2]);
+
+  return { length: data.length, properties };
+}
+
+function parseIptcRecords(data: Uint8Array, into: Record<string, string | string[]>): void {
+  let offset = 0;
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    const size = u16be(data, offset + 3);
+    // Extended datasets (high bit set) carry a length-of-length; they are never text fields we decode
+    if (size & 0x8000) break;
+    const start = offset + 5;
+    offset = start + size;
+    if (offset > data.length) break;
+
+    const name = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+    if (!name) continue;
+    const value = utf8(data, start, start + size).trim();
+    if (REPEATABLE_DATASETS.has(name)) {
+      const list = into[name];
+      into[name] = Array.isArray(list) ? [...list, value] : [value];
+    } else {
+      into[name] = value;
+    }
+  }
+}
+
+/** Walk Photoshop image resource blocks and decode the IPTC-NAA resource */
+function parseIptc(data: Uint8Array): Record<string, string | string[]> | null {
+  const iptc: Record<string, string | string[]> = {};
+  let found = false;
+  let offset = PHOTOSHOP_HEADER.length;
+
+  while (offset + 12 <= data.length && latin1(data, offset, offset + 4) === "8BIM") {
+    const id = u16be(data, offset + 4);
+    const nameLength = data[offset + 6];
+    // Pascal name, padded so that length byte + name is even
+    const sizeAt = offset + 6 + ((nameLength + 2) & ~1);
+    if (sizeAt + 4 > data.length) break;
+    const size = u32be(data, sizeAt);
+    const start = sizeAt + 4;
+    if (start + size > data.length) break;
+
+    if (id === IPTC_RESOURCE_ID) {
+      parseIptcRecords(data.subarray(start, start + size), iptc);
+      found = true;
+    }
+    offset = start + size + (size & 1);
+  }
+
+  return found ? iptc : null;
+}
+
+/**
+ * Parse a JPEG file's marker segments and embedded metadata
+ */
+export function parseJpeg(bytes: Uint8Array, window?: ByteWindow): ParseResult<JpegMetadata> {
+  const findings: Finding[] = [];
+  // Only the head of a large file is available; running off its end is expected
+  const partial = window !== undefined && bytes.length < window.size;
+  const metadata: JpegMetadata = {
+    frame: null,
+    jfif: null,
+    exif: null,
+    xmp: null,
+    iptc: null,
+    comments: [],
+    segments: [],
+    hasEOI: false,
+    trailingBytes: 0,
+  };
+
+  let offset = 2;
+  while (offset + 2 <= bytes.length && metadata.segments.length < MAX_SEGMENTS) {
+    if (bytes[offset] !== 0xff) {
+      findings.push({ id: "jpeg.invalid-marker", severity: "medium", message: `Expected a marker at offset ${offset}`, source: "jpeg", offset });
+      break;
+    }
+    // Any number of 0xFF fill bytes may precede a marker
+    let markerAt = offset;
+    while (markerAt + 1 < bytes.length && bytes[markerAt + 1] === 0xff) markerAt++;
+    if (markerAt + 1 >= bytes.length) break;
+    const marker = bytes[markerAt + 1];
+    const segmentStart = markerAt;
+
+    if (marker === 0xd9) {
+      metadata.segments.push({ offset: segmentStart, marker, name: "EOI", length: 0 });
+      metadata.hasEOI = true;
+      offset = markerAt + 2;
+      break;
+    }
+    if (isStandalone(marker)) {
+      metadata.segments.push({ offset: segmentStart, marker, name: markerName(marker), length: 0 });
+      offset = markerAt + 2;
+      continue;
+    }
+
+    if (markerAt + 4 > bytes.length) break;
+    const length = u16be(bytes, markerAt + 2);
+    const dataStart = markerAt + 4;
+    const dataEnd = markerAt + 2 + length;
+    if (length < 2 || dataEnd > bytes.length) {
+      if (partial && length >= 2) break;
+      findings.push({
+        id: "jpeg.truncated-segment",
+        severity: "medium",
+        message: `${markerName(marker)} segment at offset ${segmentStart} extends past end of file`,
+        source: "jpeg",
+        offset: segmentStart,
+      });
+      break;
+    }
+
+    metadata.segments.push({ offset: segmentStart, marker, name: markerName(marker), length });
+    const data = bytes.subarray(dataStart, dataEnd);
+
+    if (isFrameMarker(marker) && data.length >= 6) {
+      metadata.frame = {
+        bitsPerSample: data[0],
+        height: u16be(data, 1),
+        width: u16be(data, 3),
+        components: data[5],
+        progressive: PROGRESSIVE_FRAMES.has(marker),
+      };
+    } else if (marker === 0xe0 && startsWith(data, "JFIF\0") && data.length >= 12) {
+      metadata.jfif = {
+        version: `${data[5]}.${String(data[6]).padStart(2, "0")}`,
+        densityUnits: data[7],
+        xDensity: u16be(data, 8),
+        yDensity: u16be(data, 10),
+      };
+    } else if (marker === 0xe1 && startsWith(data, EXIF_HEADER)) {
+      metadata.exif ??= parseExif(data.subarray(EXIF_HEADER.length));
+    } else if (marker === 0xe1 && startsWith(data, XMP_HEADER)) {
+      metadata.xmp ??= parseXmp(data.subarray(XMP_HEADER.length));
+    } else if (marker === 0xed && startsWith(data, PHOTOSHOP_HEADER)) {
+      metadata.iptc ??= parseIptc(data);
+    } else if (marker === 0xfe) {
+      const end = indexOfNul(data, 0);
+      metadata.comments.push(utf8(data, 0, end < 0 ? data.length : end));
+    }
+
+    offset = marker === 0xda ? scanEnd(bytes, dataEnd) : dataEnd;
+  }
+
+  if (!metadata.frame) {
+    findings.push({ id: "jpeg.missing-frame", severity: "low", message: "No SOF frame header found", source: "jpeg" });
+  }
+
+  const gps = metadata.exif?.gps;
+  if (gps && gps.latitude !== null && gps.longitude !== null) {
+    findings.push({
+      id: "jpeg.gps-location",
+      severity: "medium",
+      message: `EXIF GPS places the photo at ${gps.latitude.toFixed(6)}, ${gps.longitude.toFixed(6)}`,
+      source: "jpeg",
+    });
+  } else if (metadata.xmp && XMP_LOCATION_PROPERTIES.every((name) => name in metadata.xmp!.properties)) {
+    findings.push({ id: "jpeg.gps-location", severity: "medium", message: "XMP packet contains GPS coordinates", source: "jpeg" });
+  }
+  if (metadata.exif?.serialNumber) {
+    findings.push({ id: "jpeg.camera-serial", severity: "low", message: `EXIF records camera serial number ${metadata.exif.serialNumber}`, source: "jpeg" });
+  }
+
+  if (metadata.hasEOI) {
+    metadata.trailingBytes = (window?.size ?? bytes.length) - offset;
+    // Zero padding after EOI is common from camera firmware and is not worth flagging;
+    // bytes past the end of a head window are unseen, so they always count
+    if (partial || bytes.subarray(offset).some((byte) => byte !== 0)) {
+      findings.push({
+        id: "jpeg.trailing-data",
+        severity: "medium",
+        message: `${metadata.trailingBytes} bytes appended after EOI`,
+        source: "jpeg",
+        offset,
+      });
+    }
+  } else if (!partial) {
+    findings.push({ id: "jpeg.missing-eoi", severity: "low", message: "No EOI marker; file may be truncated", source: "jpeg" });
+  }
+
+  return { metadata, findings };
+}
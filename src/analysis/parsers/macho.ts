@@ -0,0 +1,230 @@
+/**
+ * Mach-O Header Parser
+ * Reads load commands, segments and sections, linked dylibs and undefined symbols; universal files use their first slice
+ */
+
+import { indexOfNul, latin1, u32be } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { MAX_IMPORTS, MAX_SECTIONS, reader, sectionEntropy, type ExecutableMetadata, type ExecutableSection, type ExecutableSlice, type ImportedSymbol } from "./executable";
+
+const CPU_ARCH_ABI64 = 0x01000000;
+const CPU_ARCH_ABI64_32 = 0x02000000;
+const CPU_TYPES: Record<number, string> = {
+  7: "i386", [7 | CPU_ARCH_ABI64]: "x86-64",
+  12: "ARM", [12 | CPU_ARCH_ABI64]: "AArch64", [12 | CPU_ARCH_ABI64_32]: "ARM64_32",
+  18: "PowerPC", [18 | CPU_ARCH_ABI64]: "PowerPC64",
+};
+
+const FILE_TYPES: Record<number, string> = {
+  1: "relocatable object", 2: "executable", 3: "fixed VM shared library", 4: "core dump", 5: "preloaded executable",
+  6: "dynamic library", 7: "dynamic linker", 8: "bundle", 9: "dynamic library stub", 10: "debug symbols", 11: "kernel extension",
+};
+
+const MH_EXECUTE = 2;
+const MH_PIE = 0x200000;
+const MH_ALLOW_STACK_EXECUTION = 0x20000;
+
+const LC_SEGMENT = 0x1;
+const LC_SYMTAB = 0x2;
+const LC_DYSYMTAB = 0xb;
+const LC_LOAD_DYLIB = 0xc;
+const LC_LOAD_DYLINKER = 0xe;
+const LC_SEGMENT_64 = 0x19;
+const LC_CODE_SIGNATURE = 0x1d;
+const LC_LAZY_LOAD_DYLIB = 0x20;
+const LC_LOAD_WEAK_DYLIB = 0x80000018;
+const LC_REEXPORT_DYLIB = 0x8000001f;
+const LC_LOAD_UPWARD_DYLIB = 0x80000023;
+const LC_MAIN = 0x80000028;
+const DYLIB_COMMANDS = new Set([LC_LOAD_DYLIB, LC_LAZY_LOAD_DYLIB, LC_LOAD_WEAK_DYLIB, LC_REEXPORT_DYLIB, LC_LOAD_UPWARD_DYLIB]);
+
+const VM_PROT_READ = 1;
+const VM_PROT_WRITE = 2;
+const VM_PROT_EXECUTE = 4;
+
+const N_TYPE = 0x0e;
+const N_EXT = 0x01;
+const N_UNDF = 0x0;
+const SELF_LIBRARY_ORDINAL = 0;
+const MAX_LIBRARY_ORDINAL = 0xfd;
+
+const FAT_MAGIC = 0xcafebabe;
+const FAT_MAGIC_64 = 0xcafebabf;
+const MAX_SLICES = 32;
+const MAX_LOAD_COMMANDS = 10000;
+
+function cString(bytes: Uint8Array, offset: number, end = bytes.length): string {
+  if (offset >= bytes.length) return "";
+  const nul = indexOfNul(bytes, offset, end);
+  return latin1(bytes, offset, nul < 0 ? end : nul);
+}
+
+function architecture(cpuType: number): string {
+  return CPU_TYPES[cpuType] ?? `cpu ${cpuType}`;
+}
+
+/**
+ * Parse a Mach-O image or universal binary; `partial` means only the head of the file is in `bytes`
+ */
+export function parseMachO(bytes: Uint8Array, partial: boolean): ParseResult<ExecutableMetadata> {
+  const magic = u32be(bytes, 0);
+  if (magic !== FAT_MAGIC && magic !== FAT_MAGIC_64) return parseImage(bytes, 0, partial);
+
+  // Universal headers are always big-endian
+  const wide = magic === FAT_MAGIC_64;
+  const entrySize = wide ? 32 : 20;
+  const slices: ExecutableSlice[] = [];
+  const count = Math.min(u32be(bytes, 4), MAX_SLICES);
+  for (let i = 0; i < count; i++) {
+    const at = 8 + i * entrySize;
+    if (at + entrySize > bytes.length) break;
+    const cpuType = u32be(bytes, at);
+    const offset = wide ? u32be(bytes, at + 8) * 2 ** 32 + u32be(bytes, at + 12) : u32be(bytes, at + 8);
+    const size = wide ? u32be(bytes, at + 16) * 2 ** 32 + u32be(bytes, at + 20) : u32be(bytes, at + 12);
+    slices.push({ architecture: architecture(cpuType), offset, size });
+  }
+  if (slices.length === 0 || slices[0].offset >= bytes.length) throw new Error("Universal binary has no readable slice");
+
+  const first = slices[0];
+  const result = parseImage(bytes, first.offset, partial || first.offset + first.size > bytes.length);
+  result.metadata.slices = slices;
+  return result;
+}
+
+function parseImage(bytes: Uint8Array, base: number, partial: boolean): ParseResult<ExecutableMetadata> {
+  const findings: Finding[] = [];
+  const magic = u32be(bytes, base);
+  const littleEndian = magic === 0xcefaedfe || magic === 0xcffaedfe;
+  const is64 = magic === 0xfeedfacf || magic === 0xcffaedfe;
+  const bits = is64 ? 64 : 32;
+  const r = reader(bytes, littleEndian, bits);
+  // Offsets inside a slice are relative to the slice; everything reported is relative to the file
+  const u32 = (offset: number) => r.u32(base + offset);
+  const word = (offset: number) => r.word(base + offset);
+
+  const cpuType = u32(4);
+  const fileType = u32(12);
+  const commandCount = u32(16);
+  const flags = u32(24);
+
+  const sections: ExecutableSection[] = [];
+  const libraries: string[] = [];
+  const rwx: string[] = [];
+  let interpreter: string | null = null;
+  let entryOffset: number | null = null;
+  let textAddress: number | null = null;
+  let textFileOffset = 0;
+  let symtab: { symbols: number; count: number; strings: number } | null = null;
+  let dysymtab: { localCount: number; undefinedIndex: number; undefinedCount: number } | null = null;
+  let signed = false;
+
+  let at = is64 ? 32 : 28;
+  for (let i = 0; i < Math.min(commandCount, MAX_LOAD_COMMANDS); i++) {
+    if (base + at + 8 > bytes.length) break;
+    const command = u32(at);
+    const size = u32(at + 4);
+    if (size < 8) {
+      findings.push({ id: "executable.malformed-load-command", severity: "medium", message: `Load command ${i} has size ${size}`, source: "executable", offset: base + at });
+      break;
+    }
+
+    if (command === LC_SEGMENT || command === LC_SEGMENT_64) {
+      const wide = command === LC_SEGMENT_64;
+      const segment = cString(bytes, base + at + 8, base + at + 24);
+      const vmaddr = wide ? word(at + 24) : u32(at + 24);
+      const fileoff = wide ? word(at + 40) : u32(at + 32);
+      const protection = u32(at + (wide ? 60 : 44));
+      const sectionCount = u32(at + (wide ? 64 : 48));
+      if (segment === "__TEXT") {
+        textAddress = vmaddr;
+        textFileOffset = fileoff;
+      }
+      if ((protection & (VM_PROT_WRITE | VM_PROT_EXECUTE)) === (VM_PROT_WRITE | VM_PROT_EXECUTE)) rwx.push(segment);
+
+      const headerSize = wide ? 80 : 68;
+      for (let j = 0; j < sectionCount && sections.length < MAX_SECTIONS; j++) {
+        const section = at + (wide ? 72 : 56) + j * headerSize;
+        if (base + section + headerSize > bytes.length) break;
+        const address = wide ? word(section + 32) : u32(section + 32);
+        const sectionSize = wide ? word(section + 40) : u32(section + 36);
+        const fileOffset = u32(section + (wide ? 48 : 40));
+        // Zero-fill sections such as __bss have no bytes in the file
+        const stored = fileOffset === 0 ? 0 : sectionSize;
+        sections.push({
+          name: `${segment},${cString(bytes, base + section, base + section + 16)}`,
+          offset: base + fileOffset,
+          size: stored,
+          virtualAddress: address,
+          virtualSize: sectionSize,
+          readable: (protection & VM_PROT_READ) !== 0,
+          writable: (protection & VM_PROT_WRITE) !== 0,
+          executable: (protection & VM_PROT_EXECUTE) !== 0,
+          entropy: sectionEntropy(bytes, base + fileOffset, stored),
+        });
+      }
+    } else if (DYLIB_COMMANDS.has(command)) {
+      libraries.push(cString(bytes, base + at + u32(at + 8), base + at + size));
+    } else if (command === LC_LOAD_DYLINKER) {
+      interpreter = cString(bytes, base + at + u32(at + 8), base + at + size);
+    } else if (command === LC_MAIN) {
+      entryOffset = word(at + 8);
+    } else if (command === LC_SYMTAB) {
+      symtab = { symbols: u32(at + 8), count: u32(at + 12), strings: u32(at + 16) };
+    } else if (command === LC_DYSYMTAB) {
+      dysymtab = { localCount: u32(at + 12), undefinedIndex: u32(at + 24), undefinedCount: u32(at + 28) };
+    } else if (command === LC_CODE_SIGNATURE) {
+      signed = true;
+    }
+    at += size;
+  }
+
+  // Two-level namespace: the high byte of n_desc is a 1-based index into the dylib list
+  const imports: ImportedSymbol[] = [];
+  let omittedImports = 0;
+  if (symtab && dysymtab) {
+    const entrySize = is64 ? 16 : 12;
+    for (let i = 0; i < dysymtab.undefinedCount; i++) {
+      const entry = base + symtab.symbols + (dysymtab.undefinedIndex + i) * entrySize;
+      if (entry + entrySize > bytes.length) break;
+      const type = bytes[entry + 4];
+      if ((type & N_TYPE) !== N_UNDF || (type & N_EXT) === 0) continue;
+      if (imports.length >= MAX_IMPORTS) {
+        omittedImports++;
+        continue;
+      }
+      const ordinal = r.u16(entry + 6) >> 8;
+      imports.push({
+        name: cString(bytes, base + symtab.strings + r.u32(entry)),
+        library: ordinal === SELF_LIBRARY_ORDINAL || ordinal > MAX_LIBRARY_ORDINAL ? null : (libraries[ordinal - 1] ?? null),
+      });
+    }
+  }
+
+  const metadata: ExecutableMetadata = {
+    format: "Mach-O",
+    architecture: architecture(cpuType),
+    bits,
+    endianness: littleEndian ? "little" : "big",
+    fileType: FILE_TYPES[fileType] ?? `type ${fileType}`,
+    entryPoint: entryOffset !== null && textAddress !== null ? textAddress + entryOffset - textFileOffset : null,
+    interpreter,
+    timestamp: null,
+    subsystem: null,
+    sections,
+    libraries,
+    imports,
+    omittedImports,
+    slices: [],
+    security: {
+      // Libraries are always position-independent; executables opt in with MH_PIE
+      pie: fileType === MH_EXECUTE ? (flags & MH_PIE) !== 0 : true,
+      nx: (flags & MH_ALLOW_STACK_EXECUTION) === 0,
+      stripped: symtab === null || symtab.count === 0 ? true : dysymtab ? dysymtab.localCount === 0 : partial ? null : false,
+      rwx,
+      relro: null,
+      signed,
+    },
+  };
+
+  return { metadata, findings };
+}
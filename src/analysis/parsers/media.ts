@@ -0,0 +1,149 @@
+/**
+ * Media Container Parser
+ * Common view of ISO-BMFF (MP4/MOV), RIFF (WAV/AVI) and MPEG audio (MP3): structure, tracks, duration and tags
+ */
+
+import { latin1 } from "../binary";
+import type { ByteWindow, ParseResult } from "../types";
+import { parseIsoBmff } from "./isobmff";
+import { parseMpegAudio } from "./mp3";
+import { parseRiff } from "./riff";
+
+export type MediaContainer = "ISO-BMFF" | "RIFF" | "MPEG audio";
+
+/** A box (ISO-BMFF), chunk (RIFF) or tag/frame run (MPEG audio) */
+export interface MediaBox {
+  type: string;
+  offset: number;
+  size: number;
+  children?: MediaBox[];
+}
+
+export interface MediaTrack {
+  id: number | null;
+  kind: "video" | "audio" | "text" | "other";
+  /** Sample entry or stream handler four-character code, or the audio codec name */
+  codec: string | null;
+  /** Seconds */
+  duration: number | null;
+  width: number | null;
+  height: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+/** Fields of a WAV `fmt ` chunk */
+export interface WaveFormat {
+  formatTag: number;
+  codec: string;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+}
+
+/** First MPEG audio frame header plus what the frame walk found */
+export interface MpegAudioInfo {
+  version: "1" | "2" | "2.5";
+  layer: 1 | 2 | 3;
+  /** kbps of the first frame */
+  bitrate: number;
+  sampleRate: number;
+  channelMode: "stereo" | "joint stereo" | "dual channel" | "mono";
+  frames: number;
+  /** Bitrate varies between frames, or a Xing/VBRI header says so */
+  vbr: boolean;
+}
+
+export interface Id3Info {
+  /** e.g. "2.4.0"; null without an ID3v2 tag */
+  version: string | null;
+  v1: boolean;
+  /** Frame ids in the ID3v2 tag, in order */
+  frames: string[];
+}
+
+export interface MediaMetadata {
+  container: MediaContainer;
+  /** ftyp major brand or RIFF form type */
+  brand: string | null;
+  compatibleBrands: string[];
+  /** Seconds */
+  duration: number | null;
+  /** ISO 8601, from mvhd or tags */
+  created: string | null;
+  modified: string | null;
+  tracks: MediaTrack[];
+  structure: MediaBox[];
+  /** Average bits per second */
+  bitrate: number | null;
+  /** ID3, iTunes (ilst) and RIFF INFO tags by name */
+  tags: Record<string, string>;
+  wave: WaveFormat | null;
+  mpeg: MpegAudioInfo | null;
+  id3: Id3Info | null;
+  /** Bytes after the last box, chunk or frame */
+  trailingBytes: number;
+  /** Only the head of a large file was read; structure past it is unknown */
+  partial: boolean;
+}
+
+/** Signature ids whose presence triggers media parsing */
+export const MEDIA_SIGNATURES = [
+  "isobmff", "mp4-isom", "mp4-iso2", "mp4-mp41", "mp4-mp42", "mp4-avc1", "mp4-dash", "m4a", "m4b", "m4p", "m4v", "mov", "mov-moov", "mov-mdat", "mov-wide", "3gp", "3g2", "f4v",
+  "wav", "rf64", "avi",
+  "mp3-id3", "mp3-frame", "mp3-frame-v2", "mp3-frame-v25", "mp2-frame",
+];
+
+/** Most tags and boxes listed; structure past this is walked but not reported */
+export const MAX_BOXES = 2000;
+export const MAX_TAG_LENGTH = 1024;
+
+/** Four-character code as text, or null when it is not printable (Mac Roman © is allowed) */
+export function fourCC(bytes: Uint8Array, offset: number): string | null {
+  if (offset + 4 > bytes.length) return null;
+  for (let i = offset; i < offset + 4; i++) {
+    if ((bytes[i] < 0x20 || bytes[i] > 0x7e) && bytes[i] !== 0xa9) return null;
+  }
+  return latin1(bytes, offset, offset + 4);
+}
+
+export function emptyMedia(container: MediaContainer, partial: boolean): MediaMetadata {
+  return {
+    container,
+    brand: null,
+    compatibleBrands: [],
+    duration: null,
+    created: null,
+    modified: null,
+    tracks: [],
+    structure: [],
+    bitrate: null,
+    tags: {},
+    wave: null,
+    mpeg: null,
+    id3: null,
+    trailingBytes: 0,
+    partial,
+  };
+}
+
+/**
+ * Parse a media container, whichever of the three families it is
+ */
+export function parseMedia(bytes: Uint8Array, window?: ByteWindow): ParseResult<MediaMetadata> {
+  const partial = window !== undefined && bytes.length < window.size;
+  const magic = latin1(bytes, 0, 4);
+  const result = magic === "RIFF" || magic === "RF64"
+    ? parseRiff(bytes, partial)
+    : bytes.length >= 8 && ["ftyp", "moov", "mdat", "wide", "free", "skip"].includes(latin1(bytes, 4, 8))
+      ? parseIsoBmff(bytes, partial)
+      : parseMpegAudio(bytes, partial);
+
+  const { metadata } = result;
+  if (metadata.bitrate === null && metadata.duration) {
+    metadata.bitrate = Math.round(((window?.size ?? bytes.length) * 8) / metadata.duration);
+  }
+  return result;
+}
@@ -0,0 +1,248 @@
+/**
+ * MPEG Audio Parser
+ * ID3v2/ID3v1 tags, frame headers, Xing/VBRI counts and a frame walk for bitrate, duration and trailing data
+ */
+
+import { indexOfNul, latin1, u32be } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { emptyMedia, MAX_BOXES, MAX_TAG_LENGTH, type MediaBox, type MediaMetadata, type MpegAudioInfo } from "./media";
+
+// kbps by [MPEG-1 | MPEG-2/2.5][layer], indexed by the 4-bit bitrate field
+const BITRATES: Record<string, number[]> = {
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const SAMPLE_RATES: Record<MpegAudioInfo["version"], number[]> = {
+  "1": [44100, 48000, 32000],
+  "2": [22050, 24000, 16000],
+  "2.5": [11025, 12000, 8000],
+};
+const CHANNEL_MODES: MpegAudioInfo["channelMode"][] = ["stereo", "joint stereo", "dual channel", "mono"];
+
+const ID3_NAMES: Record<string, string> = {
+  TIT2: "title", TPE1: "artist", TALB: "album", TPE2: "albumArtist", TCOM: "composer", TYER: "year", TDRC: "date",
+  TCON: "genre", TRCK: "track", TCOP: "copyright", TENC: "encodedBy", TSSE: "encoder", COMM: "comment", APIC: "picture",
+  TT2: "title", TP1: "artist", TAL: "album", TP2: "albumArtist", TCM: "composer", TYE: "year", TCO: "genre",
+  TRK: "track", TCR: "copyright", TEN: "encodedBy", TSS: "encoder", COM: "comment", PIC: "picture",
+};
+
+/** How far past the tag to look for the first frame when the audio does not start cleanly */
+const MAX_SYNC_SCAN = 64 * 1024;
+const ID3V1_SIZE = 128;
+
+interface FrameHeader {
+  version: MpegAudioInfo["version"];
+  layer: MpegAudioInfo["layer"];
+  bitrate: number;
+  sampleRate: number;
+  channelMode: MpegAudioInfo["channelMode"];
+  samples: number;
+  length: number;
+}
+
+function frameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 3;
+  const layerBits = (bytes[offset + 1] >> 1) & 3;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const rateIndex = (bytes[offset + 2] >> 2) & 3;
+  // Reserved values, and free-format bitrate which has no computable frame length
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const version = versionBits === 3 ? "1" : versionBits === 2 ? "2" : "2.5";
+  const layer = (4 - layerBits) as MpegAudioInfo["layer"];
+  const bitrate = BITRATES[`${version === "1" ? 1 : 2}-${layer}`][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[version][rateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 1;
+  const samples = layer === 1 ? 384 : layer === 3 && version !== "1" ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12000 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samples / 8) * 1000 * bitrate) / sampleRate) + padding;
+  return { version, layer, bitrate, sampleRate, channelMode: CHANNEL_MODES[bytes[offset + 3] >> 6], samples, length };
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+}
+
+/** Decode an ID3v2 text payload by its leading encoding byte */
+function id3Text(data: Uint8Array, encoding: number): string {
+  let text: string;
+  if (encoding === 1 || encoding === 2) {
+    const bigEndian = encoding === 2 || (data[0] === 0xfe && data[1] === 0xff);
+    text = new TextDecoder(bigEndian ? "utf-16be" : "utf-16le").decode(data);
+  } else {
+    text = encoding === 3 ? new TextDecoder().decode(data) : latin1(data);
+  }
+  // ID3v2.4 separates multiple values with NUL
+  return text.replace(/^﻿/, "").split("\0").filter(Boolean).join("; ").slice(0, MAX_TAG_LENGTH);
+}
+
+/** Offset just past a NUL terminator in the given encoding (two bytes wide for UTF-16) */
+function skipTerminated(data: Uint8Array, start: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < data.length; i += wide ? 2 : 1) {
+    if (data[i] === 0 && (!wide || data[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return data.length;
+}
+
+function parseId3v2(bytes: Uint8Array, metadata: MediaMetadata, findings: Finding[]): number {
+  const major = bytes[3];
+  const flags = bytes[5];
+  const tagEnd = 10 + syncsafe(bytes, 6);
+  const frames: string[] = [];
+  metadata.id3 = { version: `2.${major}.${bytes[4]}`, v1: false, frames };
+
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  let offset = 10;
+  if (flags & 0x40 && major > 2) offset += major === 4 ? syncsafe(bytes, 10) : u32be(bytes, 10) + 4;
+
+  while (offset + headerLength <= Math.min(tagEnd, bytes.length) && bytes[offset] !== 0) {
+    const id = latin1(bytes, offset, offset + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      findings.push({ id: "media.malformed-tag", severity: "low", message: `ID3v2 frame at offset ${offset} has an invalid id`, source: "media", offset });
+      break;
+    }
+    const size = major === 2
+      ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+      : major === 4 ? syncsafe(bytes, offset + 4) : u32be(bytes, offset + 4);
+    const start = offset + headerLength;
+    if (start + size > tagEnd) {
+      findings.push({ id: "media.malformed-tag", severity: "low", message: `ID3v2 frame "${id}" runs ${start + size - tagEnd} bytes past the end of the tag`, source: "media", offset });
+      break;
+    }
+    if (frames.length < MAX_BOXES) frames.push(id);
+
+    const data = bytes.subarray(start, Math.min(start + size, bytes.length));
+    const name = ID3_NAMES[id] ?? id;
+    const encoding = data[0];
+    if (id[0] === "T" && id !== "TXXX" && id !== "TXX") {
+      metadata.tags[name] ??= id3Text(data.subarray(1), encoding);
+    } else if (id === "COMM" || id === "COM") {
+      // Encoding, language, NUL-terminated description, text
+      metadata.tags[name] ??= id3Text(data.subarray(skipTerminated(data, 4, encoding)), encoding);
+    } else if (id === "APIC") {
+      const mimeEnd = indexOfNul(data, 1);
+      const mime = latin1(data, 1, mimeEnd < 0 ? data.length : mimeEnd);
+      metadata.tags[name] ??= `${mime || "image"}, ${size} bytes`;
+    } else if (id === "PIC") {
+      metadata.tags[name] ??= `${latin1(data, 1, 4).toLowerCase()}, ${size} bytes`;
+    }
+    offset = start + size;
+  }
+
+  // A footer repeats the header after the frames
+  return tagEnd + (flags & 0x10 ? 10 : 0);
+}
+
+function parseId3v1(bytes: Uint8Array, metadata: MediaMetadata): void {
+  const at = bytes.length - ID3V1_SIZE;
+  const field = (start: number, length: number) => {
+    const nul = indexOfNul(bytes, at + start, at + start + length);
+    return latin1(bytes, at + start, nul < 0 ? at + start + length : nul).trim();
+  };
+  metadata.id3 ??= { version: null, v1: true, frames: [] };
+  metadata.id3.v1 = true;
+  const fields: [string, string][] = [["title", field(3, 30)], ["artist", field(33, 30)], ["album", field(63, 30)], ["year", field(93, 4)], ["comment", field(97, 30)]];
+  for (const [name, value] of fields) {
+    if (value) metadata.tags[name] ??= value;
+  }
+}
+
+/** Frame count from a Xing/Info or VBRI header in the first frame, and whether it declares VBR */
+function vbrHeader(bytes: Uint8Array, offset: number, first: FrameHeader): { frames: number | null; vbr: boolean } {
+  const mono = first.channelMode === "mono";
+  const sideInfo = first.version === "1" ? (mono ? 17 : 32) : mono ? 9 : 17;
+  const xing = offset + 4 + sideInfo;
+  const tag = latin1(bytes, xing, xing + 4);
+  if (tag === "Xing" || tag === "Info") {
+    return { frames: u32be(bytes, xing + 4) & 1 ? u32be(bytes, xing + 8) : null, vbr: tag === "Xing" };
+  }
+  if (latin1(bytes, offset + 36, offset + 40) === "VBRI") return { frames: u32be(bytes, offset + 50), vbr: true };
+  return { frames: null, vbr: false };
+}
+
+/**
+ * Parse an MP3 (or other MPEG audio) stream; `partial` means only the head of the file is in `bytes`
+ */
+export function parseMpegAudio(bytes: Uint8Array, partial: boolean): ParseResult<MediaMetadata> {
+  const findings: Finding[] = [];
+  const metadata = emptyMedia("MPEG audio", partial);
+  const structure: MediaBox[] = [];
+
+  let audioStart = 0;
+  if (latin1(bytes, 0, 3) === "ID3") {
+    audioStart = parseId3v2(bytes, metadata, findings);
+    structure.push({ type: "ID3v2", offset: 0, size: audioStart });
+  }
+  const v1 = !partial && bytes.length >= ID3V1_SIZE && latin1(bytes, bytes.length - ID3V1_SIZE, bytes.length - ID3V1_SIZE + 3) === "TAG";
+  const audioEnd = v1 ? bytes.length - ID3V1_SIZE : bytes.length;
+  if (v1) parseId3v1(bytes, metadata);
+
+  // Encoders pad after the tag; otherwise require two consecutive frames so stray 0xFF bytes don't count
+  let start = audioStart;
+  let first: FrameHeader | null = null;
+  for (const limit = Math.min(audioEnd, audioStart + MAX_SYNC_SCAN); start < limit; start++) {
+    const header = frameHeader(bytes, start);
+    if (header && (start + header.length >= audioEnd || frameHeader(bytes, start + header.length))) {
+      first = header;
+      break;
+    }
+  }
+  if (!first) {
+    if (metadata.id3) {
+      metadata.structure = structure;
+      findings.push({ id: "media.no-audio-frames", severity: "low", message: "ID3 tag is not followed by MPEG audio frames", source: "media", offset: audioStart });
+      return { metadata, findings };
+    }
+    throw new Error("No MPEG audio frame sync found");
+  }
+
+  const { frames: declaredFrames, vbr: declaredVbr } = vbrHeader(bytes, start, first);
+  let offset = start;
+  let frames = 0;
+  let samples = 0;
+  let vbr = declaredVbr;
+  for (let header = frameHeader(bytes, offset); header && offset + header.length <= audioEnd; header = frameHeader(bytes, offset)) {
+    if (header.bitrate !== first.bitrate) vbr = true;
+    frames++;
+    samples += header.samples;
+    offset += header.length;
+  }
+  structure.push({ type: "MPEG frames", offset: start, size: offset - start });
+  if (v1) structure.push({ type: "ID3v1", offset: audioEnd, size: ID3V1_SIZE });
+  metadata.structure = structure;
+
+  const totalFrames = declaredFrames ?? frames;
+  metadata.mpeg = { version: first.version, layer: first.layer, bitrate: first.bitrate, sampleRate: first.sampleRate, channelMode: first.channelMode, frames: totalFrames, vbr };
+  if (declaredFrames !== null || !partial) {
+    metadata.duration = (declaredFrames !== null ? declaredFrames * first.samples : samples) / first.sampleRate;
+  }
+  metadata.bitrate = !partial && metadata.duration ? Math.round(((offset - start) * 8) / metadata.duration) : first.bitrate * 1000;
+  metadata.tracks = [{
+    id: null,
+    kind: "audio",
+    codec: first.layer === 3 ? "MP3" : first.layer === 2 ? "MP2" : "MP1",
+    duration: metadata.duration,
+    width: null,
+    height: null,
+    sampleRate: first.sampleRate,
+    channels: first.channelMode === "mono" ? 1 : 2,
+  }];
+
+  if (start > audioStart && bytes.subarray(audioStart, start).some((byte) => byte !== 0)) {
+    findings.push({ id: "media.leading-data", severity: "low", message: `${start - audioStart} bytes precede the first audio frame`, source: "media", offset: audioStart });
+  }
+  if (!partial && offset < audioEnd) {
+    metadata.trailingBytes = audioEnd - offset;
+    findings.push({ id: "media.trailing-data", severity: "low", message: `${metadata.trailingBytes} bytes after the last audio frame are not audio`, source: "media", offset });
+  }
+
+  return { metadata, findings };
+}
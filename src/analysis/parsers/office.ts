@@ -0,0 +1,310 @@
+/**
+ * Office Document Inspector
+ * Identifies OOXML and OpenDocument packages by their content types and reports document
+ * properties, macros, external relationships and embedded objects
+ */
+
+import { latin1, utf8 } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { decodeXml } from "./jpeg";
+import { parseZip, readZipEntry, type ZipEntry } from "./zip";
+
+export type OfficeFamily = "ooxml" | "odf";
+
+export interface OfficeProperties {
+  title: string | null;
+  subject: string | null;
+  author: string | null;
+  lastModifiedBy: string | null;
+  created: string | null;
+  modified: string | null;
+  /** Producing application, e.g. "Microsoft Office Word" or "LibreOffice/7.6" */
+  application: string | null;
+  company: string | null;
+  template: string | null;
+  revision: string | null;
+}
+
+export interface OfficeRelationship {
+  /** Part that declares the link */
+  part: string;
+  /** Last segment of the OOXML relationship type (e.g. "attachedTemplate") or the ODF linking element (e.g. "draw:image") */
+  type: string;
+  target: string;
+}
+
+export interface OfficeMetadata {
+  family: OfficeFamily;
+  /** e.g. "Word Macro-Enabled Document" or "OpenDocument Spreadsheet" */
+  format: string;
+  mime: string;
+  extension: string;
+  /** Content type of the main part, or the ODF mimetype entry */
+  contentType: string;
+  properties: OfficeProperties;
+  /** Parts holding VBA projects, Excel 4.0 macro sheets or ODF Basic and script libraries */
+  macros: string[];
+  /** Links the application resolves outside the package, other than plain hyperlinks */
+  externalRelationships: OfficeRelationship[];
+  hyperlinks: number;
+  /** Embedded OLE objects, packages and ActiveX controls */
+  embeddedObjects: string[];
+}
+
+/** Signature ids of Office packages recognised from their first entry */
+export const OFFICE_SIGNATURES = ["ooxml", "odt", "ods", "odp", "odg"];
+
+interface OfficeType {
+  format: string;
+  extension: string;
+  mime: string;
+}
+
+// Keyed by the main part's content type without its "+xml" suffix
+const OOXML_TYPES: Record<string, OfficeType> = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main": { format: "Word Document", extension: "docx", mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" },
+  "application/vnd.ms-word.document.macroEnabled.main": { format: "Word Macro-Enabled Document", extension: "docm", mime: "application/vnd.ms-word.document.macroEnabled.12" },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.template.main": { format: "Word Template", extension: "dotx", mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.template" },
+  "application/vnd.ms-word.template.macroEnabledTemplate.main": { format: "Word Macro-Enabled Template", extension: "dotm", mime: "application/vnd.ms-word.template.macroEnabled.12" },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main": { format: "Excel Workbook", extension: "xlsx", mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+  "application/vnd.ms-excel.sheet.macroEnabled.main": { format: "Excel Macro-Enabled Workbook", extension: "xlsm", mime: "application/vnd.ms-excel.sheet.macroEnabled.12" },
+  "application/vnd.ms-excel.sheet.binary.macroEnabled.main": { format: "Excel Binary Workbook", extension: "xlsb", mime: "application/vnd.ms-excel.sheet.binary.macroEnabled.12" },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.template.main": { format: "Excel Template", extension: "xltx", mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.template" },
+  "application/vnd.ms-excel.template.macroEnabled.main": { format: "Excel Macro-Enabled Template", extension: "xltm", mime: "application/vnd.ms-excel.template.macroEnabled.12" },
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation.main": { format: "PowerPoint Presentation", extension: "pptx", mime: "application/vnd.openxmlformats-officedocument.presentationml.presentation" },
+  "application/vnd.ms-powerpoint.presentation.macroEnabled.main": { format: "PowerPoint Macro-Enabled Presentation", extension: "pptm", mime: "application/vnd.ms-powerpoint.presentation.macroEnabled.12" },
+  "application/vnd.openxmlformats-officedocument.presentationml.slideshow.main": { format: "PowerPoint Slide Show", extension: "ppsx", mime: "application/vnd.openxmlformats-officedocument.presentationml.slideshow" },
+  "application/vnd.ms-powerpoint.slideshow.macroEnabled.main": { format: "PowerPoint Macro-Enabled Slide Show", extension: "ppsm", mime: "application/vnd.ms-powerpoint.slideshow.macroEnabled.12" },
+  "application/vnd.openxmlformats-officedocument.presentationml.template.main": { format: "PowerPoint Template", extension: "potx", mime: "application/vnd.openxmlformats-officedocument.presentationml.template" },
+  "application/vnd.ms-powerpoint.template.macroEnabled.main": { format: "PowerPoint Macro-Enabled Template", extension: "potm", mime: "application/vnd.ms-powerpoint.template.macroEnabled.12" },
+};
+
+const ODF_PREFIX = "application/vnd.oasis.opendocument.";
+const ODF_TYPES: Record<string, [string, string]> = {
+  "text": ["OpenDocument Text", "odt"],
+  "text-template": ["OpenDocument Text Template", "ott"],
+  "text-master": ["OpenDocument Master Document", "odm"],
+  "spreadsheet": ["OpenDocument Spreadsheet", "ods"],
+  "spreadsheet-template": ["OpenDocument Spreadsheet Template", "ots"],
+  "presentation": ["OpenDocument Presentation", "odp"],
+  "presentation-template": ["OpenDocument Presentation Template", "otp"],
+  "graphics": ["OpenDocument Drawing", "odg"],
+  "graphics-template": ["OpenDocument Drawing Template", "otg"],
+  "formula": ["OpenDocument Formula", "odf"],
+  "chart": ["OpenDocument Chart", "odc"],
+  "database": ["OpenDocument Database", "odb"],
+};
+
+const CONTENT_TYPES = "[Content_Types].xml";
+const ODF_MIMETYPE = "mimetype";
+const ODF_MANIFEST = "META-INF/manifest.xml";
+const ODF_OLE_OBJECT = "application/vnd.sun.star.oleobject";
+/** Parts larger than this are not read; property and relationship parts are small */
+const MAX_PART_BYTES = 4 * 1024 * 1024;
+const MAX_RELATIONSHIP_PARTS = 2000;
+const MAX_LISTED = 200;
+
+// Relationships whose external target the application fetches without the user clicking anything
+const AUTO_FETCHED = new Set(["attachedTemplate", "oleObject", "frame", "subDocument", "image", "externalLinkPath"]);
+const REMOTE_TARGET = /^(?:[a-z][a-z0-9+.-]*:|\\\\)/i;
+
+/**
+ * Whether a ZIP archive is an OOXML or OpenDocument package, judged from its entry names
+ */
+export function isOfficePackage(bytes: Uint8Array): boolean {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+  return buffer.includes(CONTENT_TYPES, 0, "latin1") || latin1(bytes, 30, 30 + ODF_MIMETYPE.length + ODF_PREFIX.length) === ODF_MIMETYPE + ODF_PREFIX;
+}
+
+function attributes(tag: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    out[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return out;
+}
+
+function elementText(xml: string, name: string): string | null {
+  const match = new RegExp(`<${name}(?:\\s[^>]*)?>([^<]*)</${name}>`).exec(xml);
+  const value = match ? decodeXml(match[1].trim()) : "";
+  return value || null;
+}
+
+/** Last path segment of a relationship type URI */
+function relationshipType(uri: string): string {
+  return uri.slice(uri.lastIndexOf("/") + 1);
+}
+
+/**
+ * Inspect an OOXML or OpenDocument package
+ */
+export function parseOffice(bytes: Uint8Array): ParseResult<OfficeMetadata> {
+  const { metadata: zip } = parseZip(bytes);
+  const entries = new Map<string, ZipEntry>();
+  for (const entry of zip.entries) entries.set(entry.name, entry);
+
+  const read = (name: string): string | null => {
+    const entry = entries.get(name);
+    if (!entry || entry.uncompressedSize > MAX_PART_BYTES) return null;
+    try {
+      return utf8(readZipEntry(bytes, entry, zip.prependedBytes));
+    } catch {
+      return null;
+    }
+  };
+
+  if (entries.has(CONTENT_TYPES)) return parseOoxml(entries, read);
+  const mimetype = read(ODF_MIMETYPE)?.trim();
+  if (mimetype?.startsWith(ODF_PREFIX)) return parseOdf(entries, read, mimetype);
+  throw new Error("Package has neither [Content_Types].xml nor an OpenDocument mimetype");
+}
+
+function emptyProperties(): OfficeProperties {
+  return { title: null, subject: null, author: null, lastModifiedBy: null, created: null, modified: null, application: null, company: null, template: null, revision: null };
+}
+
+function parseOoxml(entries: Map<string, ZipEntry>, read: (name: string) => string | null): ParseResult<OfficeMetadata> {
+  const findings: Finding[] = [];
+  const contentTypes = read(CONTENT_TYPES) ?? "";
+
+  let contentType = "";
+  let type: OfficeType | undefined;
+  const oleParts = new Set<string>();
+  for (const [tag] of contentTypes.matchAll(/<Override\b[^>]*>/g)) {
+    const { PartName: part = "", ContentType: value = "" } = attributes(tag);
+    const known = OOXML_TYPES[value.replace(/\+xml$/, "")];
+    if (known && !type) {
+      type = known;
+      contentType = value;
+    }
+    if (value === "application/vnd.openxmlformats-officedocument.oleObject") oleParts.add(part.replace(/^\//, ""));
+  }
+  type ??= { format: "Office Open XML", extension: "", mime: "application/vnd.openxmlformats-officedocument" };
+
+  const core = read("docProps/core.xml") ?? "";
+  const app = read("docProps/app.xml") ?? "";
+  const properties: OfficeProperties = {
+    title: elementText(core, "dc:title"),
+    subject: elementText(core, "dc:subject"),
+    author: elementText(core, "dc:creator"),
+    lastModifiedBy: elementText(core, "cp:lastModifiedBy"),
+    created: elementText(core, "dcterms:created"),
+    modified: elementText(core, "dcterms:modified"),
+    application: elementText(app, "Application"),
+    company: elementText(app, "Company"),
+    template: elementText(app, "Template"),
+    revision: elementText(core, "cp:revision"),
+  };
+
+  const names = [...entries.keys()];
+  const macros = names.filter((name) => /(^|\/)vbaProject\.bin$/i.test(name) || /^xl\/macrosheets\//i.test(name));
+  const embeddedObjects = names.filter((name) => oleParts.has(name) || /\/(embeddings\/[^/]+|activeX\/[^/]+\.bin)$/i.test(name));
+
+  // External targets are declared in the relationship parts next to each document part
+  const externalRelationships: OfficeRelationship[] = [];
+  let hyperlinks = 0;
+  for (const part of names.filter((name) => name.endsWith(".rels")).slice(0, MAX_RELATIONSHIP_PARTS)) {
+    const xml = read(part);
+    if (!xml) continue;
+    for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+      const { Type: uri = "", Target: target = "", TargetMode: mode } = attributes(tag);
+      if (mode !== "External") continue;
+      const relationship = { part, type: relationshipType(uri), target };
+      if (relationship.type === "hyperlink") {
+        hyperlinks++;
+        continue;
+      }
+      if (externalRelationships.length < MAX_LISTED) externalRelationships.push(relationship);
+      findings.push(externalFinding(relationship));
+    }
+  }
+
+  findings.push(...contentFindings(macros, embeddedObjects));
+  return {
+    metadata: { family: "ooxml", ...type, contentType, properties, macros, externalRelationships, hyperlinks, embeddedObjects: embeddedObjects.slice(0, MAX_LISTED) },
+    findings,
+  };
+}
+
+function parseOdf(entries: Map<string, ZipEntry>, read: (name: string) => string | null, mimetype: string): ParseResult<OfficeMetadata> {
+  const findings: Finding[] = [];
+  const [format, extension] = ODF_TYPES[mimetype.slice(ODF_PREFIX.length)] ?? ["OpenDocument", ""];
+
+  const meta = read("meta.xml") ?? "";
+  const template = /<meta:template\b[^>]*>/.exec(meta);
+  const templateHref = template ? attributes(template[0])["xlink:href"] ?? null : null;
+  const properties: OfficeProperties = {
+    ...emptyProperties(),
+    title: elementText(meta, "dc:title"),
+    subject: elementText(meta, "dc:subject"),
+    author: elementText(meta, "meta:initial-creator"),
+    lastModifiedBy: elementText(meta, "dc:creator"),
+    created: elementText(meta, "meta:creation-date"),
+    modified: elementText(meta, "dc:date"),
+    application: elementText(meta, "meta:generator"),
+    template: templateHref,
+    revision: elementText(meta, "meta:editing-cycles"),
+  };
+
+  const names = [...entries.keys()];
+  const macros = names.filter((name) => /^(Basic|Scripts)\/.+[^/]$/.test(name));
+  // Embedded ODF objects such as charts are directories; OLE objects are single binary entries
+  const oleEntries = new Set<string>();
+  for (const [tag] of (read(ODF_MANIFEST) ?? "").matchAll(/<manifest:file-entry\b[^>]*>/g)) {
+    const entry = attributes(tag);
+    if (entry["manifest:media-type"] === ODF_OLE_OBJECT) oleEntries.add(entry["manifest:full-path"] ?? "");
+  }
+  const embeddedObjects = names.filter((name) => oleEntries.has(name) || /^Object \d+$/.test(name));
+
+  // ODF links to external resources through xlink:href on the linking element
+  const externalRelationships: OfficeRelationship[] = [];
+  let hyperlinks = 0;
+  for (const part of ["content.xml", "styles.xml"]) {
+    const xml = read(part);
+    if (!xml) continue;
+    for (const [tag, element] of xml.matchAll(/<([\w:-]+)\b[^>]*\bxlink:href\s*=[^>]*>/g)) {
+      const target = attributes(tag)["xlink:href"] ?? "";
+      if (!REMOTE_TARGET.test(target) || target.startsWith("vnd.sun.star.")) continue;
+      if (element === "text:a" || element === "draw:a") {
+        hyperlinks++;
+        continue;
+      }
+      const relationship = { part, type: element, target };
+      if (externalRelationships.length < MAX_LISTED) externalRelationships.push(relationship);
+      findings.push(externalFinding(relationship));
+    }
+  }
+  if (templateHref && REMOTE_TARGET.test(templateHref) && !templateHref.startsWith("file:")) {
+    const relationship = { part: "meta.xml", type: "attachedTemplate", target: templateHref };
+    externalRelationships.push(relationship);
+    findings.push(externalFinding(relationship));
+  }
+
+  findings.push(...contentFindings(macros, embeddedObjects));
+  return {
+    metadata: { family: "odf", format, extension, mime: mimetype, contentType: mimetype, properties, macros, externalRelationships, hyperlinks, embeddedObjects: embeddedObjects.slice(0, MAX_LISTED) },
+    findings,
+  };
+}
+
+function externalFinding({ part, type, target }: OfficeRelationship): Finding {
+  if (type === "attachedTemplate") {
+    return { id: "office.remote-template", severity: "high", message: `Document loads its template from ${target} (remote template injection)`, source: "office" };
+  }
+  if (AUTO_FETCHED.has(type) || type.startsWith("draw:")) {
+    return { id: "office.external-object", severity: "high", message: `${part} fetches ${type} content from ${target} when the document opens`, source: "office" };
+  }
+  return { id: "office.external-relationship", severity: "medium", message: `${part} links ${type} to external target ${target}`, source: "office" };
+}
+
+function contentFindings(macros: string[], embeddedObjects: string[]): Finding[] {
+  const findings: Finding[] = [];
+  const list = (names: string[]) => names.slice(0, 5).join(", ") + (names.length > 5 ? `, … (${names.length} total)` : "");
+  if (macros.length > 0) {
+    findings.push({ id: "office.macros", severity: "high", message: `Document contains macros: ${list(macros)}`, source: "office" });
+  }
+  if (embeddedObjects.length > 0) {
+    findings.push({ id: "office.embedded-object", severity: "medium", message: `Document embeds ${embeddedObjects.length} object(s): ${list(embeddedObjects)}`, source: "office" });
+  }
+  return findings;
+}
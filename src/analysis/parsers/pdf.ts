@@ -0,0 +1,534 @@
+/**
+ * PDF Structural Parser
+ * Follows the cross-reference chain, counts objects and pages, reads Info/XMP metadata and flags active content
+ */
+
+import { inflateSync } from "node:zlib";
+import { latin1 } from "../binary";
+import type { Finding, ParseResult, Severity } from "../types";
+import { parseXmp, type XmpPacket } from "./jpeg";
+
+/** Names counted across the document, pdfid-style; most of them can run code or reach outside the file */
+export const PDF_KEYWORDS = [
+  "JavaScript", "JS", "OpenAction", "AA", "Launch", "EmbeddedFile", "URI",
+  "AcroForm", "XFA", "RichMedia", "Encrypt", "ObjStm",
+] as const;
+
+export type PdfKeyword = (typeof PDF_KEYWORDS)[number];
+
+export interface PdfXrefSection {
+  offset: number;
+  /** Classic `xref` table or a compressed cross-reference stream (PDF 1.5+) */
+  kind: "table" | "stream";
+  /** Bytes up to the end of the trailer or stream object */
+  length: number;
+  entries: number;
+}
+
+export interface PdfTrailer {
+  size: number | null;
+  /** References in `num gen R` form */
+  root: string | null;
+  info: string | null;
+  encrypt: string | null;
+  id: string[] | null;
+}
+
+export interface PdfEncryption {
+  filter: string | null;
+  version: number | null;
+  revision: number | null;
+  keyLength: number | null;
+}
+
+export interface PdfMetadata {
+  version: string | null;
+  /** Bytes before `%PDF-`; readers accept up to 1 KiB of them, which polyglots rely on */
+  headerOffset: number;
+  linearized: boolean;
+  xref: PdfXrefSection[];
+  /** False when startxref is missing or points at neither a table nor a stream */
+  xrefValid: boolean;
+  trailer: PdfTrailer;
+  /** Distinct object numbers, including those packed in object streams */
+  objectCount: number;
+  compressedObjects: number;
+  pageCount: number | null;
+  /** Revisions appended to the original; earlier versions of every changed object remain in the file */
+  incrementalUpdates: number;
+  info: Record<string, string>;
+  xmp: XmpPacket | null;
+  encryption: PdfEncryption | null;
+  keywords: Record<PdfKeyword, number>;
+  /** Names spelled with #xx escapes that decode to a keyword, e.g. /J#61vaScript */
+  obfuscatedNames: string[];
+  uris: string[];
+  /** Bytes other than whitespace after the last %%EOF */
+  trailingBytes: number;
+}
+
+interface PdfName { name: string }
+interface PdfString { text: string }
+interface PdfRef { num: number; gen: number }
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  offset: number;
+  value: PdfValue;
+  /** Raw, still-filtered stream data */
+  stream: Uint8Array | null;
+}
+
+const HEADER = "%PDF-";
+const MAX_HEADER_OFFSET = 1024;
+const MAX_XREF_SECTIONS = 1000;
+const MAX_NESTING = 64;
+const MAX_URIS = 100;
+const MAX_INFO_FIELDS = 50;
+const MAX_OBFUSCATED_NAMES = 20;
+/** Decompressed bytes per stream and across the document, so a crafted object stream cannot exhaust memory */
+const MAX_STREAM_BYTES = 16 * 1024 * 1024;
+const MAX_TOTAL_INFLATE = 64 * 1024 * 1024;
+
+const WHITESPACE = "\0\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)/y;
+const REFERENCE = /(\d+)\s+(\d+)\s+R(?![^\0\t\n\f\r ()<>[\]{}/%])/y;
+const OBJECT_HEADER = /(?<!\d)(\d+)\s+(\d+)\s+obj(?![^\0\t\n\f\r ()<>[\]{}/%])/g;
+const OBJECT_AT = /(\d+)\s+(\d+)\s+obj/y;
+const STREAM_START = /[\0\t\f ]*stream(?:\r\n|\n|\r)/y;
+const XREF_SUBSECTION = /\s*(\d+)\s+(\d+)/y;
+const XREF_ENTRY = /\s*\d{10}\s+\d{5}\s+[nf]/y;
+const NAME_TOKEN = /\/([^\0\t\n\f\r ()<>[\]{}/%]+)/g;
+
+const KEYWORD_SET: ReadonlySet<string> = new Set(PDF_KEYWORDS);
+
+function skipSpace(src: string, start: number): number {
+  let pos = start;
+  while (pos < src.length) {
+    if (WHITESPACE.includes(src[pos])) pos++;
+    else if (src[pos] === "%") {
+      while (pos < src.length && src[pos] !== "\n" && src[pos] !== "\r") pos++;
+    } else break;
+  }
+  return pos;
+}
+
+function decodeName(raw: string): string {
+  return raw.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function readName(src: string, start: number): [string, number] {
+  let end = start + 1;
+  while (end < src.length && !WHITESPACE.includes(src[end]) && !DELIMITERS.includes(src[end])) end++;
+  return [decodeName(src.slice(start + 1, end)), end];
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+function readLiteral(src: string, start: number): [PdfString, number] | null {
+  let text = "";
+  let depth = 1;
+  let pos = start + 1;
+  while (pos < src.length) {
+    const c = src[pos++];
+    if (c === "\\") {
+      const next = src[pos++];
+      if (next === undefined) break;
+      if (next in ESCAPES) text += ESCAPES[next];
+      else if (next >= "0" && next <= "7") {
+        let octal = next;
+        while (octal.length < 3 && src[pos] >= "0" && src[pos] <= "7") octal += src[pos++];
+        text += String.fromCharCode(parseInt(octal, 8) & 0xff);
+      } else if (next === "\r") {
+        if (src[pos] === "\n") pos++;
+      } else if (next !== "\n") text += next;
+    } else if (c === "(") {
+      depth++;
+      text += c;
+    } else if (c === ")") {
+      if (--depth === 0) return [{ text }, pos];
+      text += c;
+    } else text += c;
+  }
+  return null;
+}
+
+/**
+ * Parse one PDF value starting at `start`; returns null at anything it cannot read
+ */
+function parseValue(src: string, start: number, depth = 0): [PdfValue, number] | null {
+  if (depth > MAX_NESTING) return null;
+  let pos = skipSpace(src, start);
+  const c = src[pos];
+  if (c === undefined) return null;
+
+  if (c === "<" && src[pos + 1] === "<") {
+    const dict: PdfDict = new Map();
+    pos += 2;
+    for (;;) {
+      pos = skipSpace(src, pos);
+      if (src.startsWith(">>", pos)) return [dict, pos + 2];
+      if (src[pos] !== "/") return null;
+      const [key, keyEnd] = readName(src, pos);
+      const entry = parseValue(src, keyEnd, depth + 1);
+      if (!entry) return null;
+      dict.set(key, entry[0]);
+      pos = entry[1];
+    }
+  }
+  if (c === "<") {
+    const end = src.indexOf(">", pos);
+    if (end < 0) return null;
+    const hex = src.slice(pos + 1, end).replace(/[^0-9A-Fa-f]/g, "");
+    let text = "";
+    for (let i = 0; i < hex.length; i += 2) text += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+    return [{ text }, end + 1];
+  }
+  if (c === "(") return readLiteral(src, pos);
+  if (c === "[") {
+    const items: PdfValue[] = [];
+    pos++;
+    for (;;) {
+      pos = skipSpace(src, pos);
+      if (src[pos] === "]") return [items, pos + 1];
+      const item = parseValue(src, pos, depth + 1);
+      if (!item) return null;
+      items.push(item[0]);
+      pos = item[1];
+    }
+  }
+  if (c === "/") {
+    const [name, end] = readName(src, pos);
+    return [{ name }, end];
+  }
+
+  REFERENCE.lastIndex = pos;
+  const reference = REFERENCE.exec(src);
+  if (reference) return [{ num: Number(reference[1]), gen: Number(reference[2]) }, REFERENCE.lastIndex];
+  NUMBER.lastIndex = pos;
+  const number = NUMBER.exec(src);
+  if (number) return [Number(number[0]), NUMBER.lastIndex];
+
+  for (const [word, value] of [["true", true], ["false", false], ["null", null]] as const) {
+    if (src.startsWith(word, pos)) return [value, pos + word.length];
+  }
+  return null;
+}
+
+const isDict = (value: PdfValue | undefined): value is PdfDict => value instanceof Map;
+const isRef = (value: PdfValue | undefined): value is PdfRef => typeof value === "object" && value !== null && "num" in value;
+const nameOf = (value: PdfValue | undefined) => (typeof value === "object" && value !== null && "name" in value ? value.name : null);
+const textOf = (value: PdfValue | undefined) => (typeof value === "object" && value !== null && "text" in value ? value.text : null);
+const numberOf = (value: PdfValue | undefined) => (typeof value === "number" ? value : null);
+const refString = (value: PdfValue | undefined) => (isRef(value) ? `${value.num} ${value.gen} R` : null);
+
+/** Text strings are UTF-16BE with a BOM, UTF-8 with a BOM (PDF 2.0), or PDFDocEncoding, close enough to Latin-1 */
+function decodeText(raw: string): string {
+  const bytes = Uint8Array.from(raw, (char) => char.charCodeAt(0));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder().decode(bytes.subarray(3));
+  return raw;
+}
+
+/** Locate a stream's data after its dictionary, trusting /Length only when `endstream` follows it */
+function streamBounds(src: string, dict: PdfDict, dictEnd: number): [number, number] | null {
+  STREAM_START.lastIndex = skipSpace(src, dictEnd);
+  if (!STREAM_START.exec(src)) return null;
+  const start = STREAM_START.lastIndex;
+
+  const length = numberOf(dict.get("Length"));
+  if (length !== null && length >= 0 && src.startsWith("endstream", skipSpace(src, start + length))) {
+    return [start, start + length];
+  }
+  const end = src.indexOf("endstream", start);
+  if (end < 0) return [start, src.length];
+  const trimmed = src[end - 2] === "\r" && src[end - 1] === "\n" ? end - 2 : src[end - 1] === "\n" || src[end - 1] === "\r" ? end - 1 : end;
+  return [start, Math.max(start, trimmed)];
+}
+
+/**
+ * Parse a PDF document's structure, metadata and active content
+ */
+export function parsePdf(bytes: Uint8Array): ParseResult<PdfMetadata> {
+  const findings: Finding[] = [];
+  const src = latin1(bytes);
+  const headerOffset = src.slice(0, MAX_HEADER_OFFSET + HEADER.length).indexOf(HEADER);
+  const version = headerOffset < 0 ? null : (/^\d\.\d/.exec(src.slice(headerOffset + HEADER.length, headerOffset + HEADER.length + 3))?.[0] ?? null);
+  const keywords = Object.fromEntries(PDF_KEYWORDS.map((keyword) => [keyword, 0])) as Record<PdfKeyword, number>;
+  const firstSeen = new Map<PdfKeyword, number>();
+  const obfuscatedNames: string[] = [];
+
+  const countNames = (text: string, from: number, to: number, offset: (index: number) => number) => {
+    for (const match of text.slice(from, to).matchAll(NAME_TOKEN)) {
+      const name = decodeName(match[1]);
+      if (!KEYWORD_SET.has(name)) continue;
+      const keyword = name as PdfKeyword;
+      keywords[keyword]++;
+      if (!firstSeen.has(keyword)) firstSeen.set(keyword, offset(from + match.index!));
+      if (name !== match[1] && obfuscatedNames.length < MAX_OBFUSCATED_NAMES) obfuscatedNames.push(`/${match[1]}`);
+    }
+  };
+
+  // Index every object; later definitions replace earlier ones, as incremental updates intend
+  const objects = new Map<number, PdfObject>();
+  const objectOrder: PdfObject[] = [];
+  let scanned = 0;
+  OBJECT_HEADER.lastIndex = 0;
+  for (let match = OBJECT_HEADER.exec(src); match; match = OBJECT_HEADER.exec(src)) {
+    const parsed = parseValue(src, OBJECT_HEADER.lastIndex);
+    if (!parsed) continue;
+    const [value, valueEnd] = parsed;
+    const bounds = isDict(value) ? streamBounds(src, value, valueEnd) : null;
+    const object: PdfObject = { offset: match.index, value, stream: bounds ? bytes.subarray(bounds[0], bounds[1]) : null };
+    objects.set(Number(match[1]), object);
+    objectOrder.push(object);
+
+    // Names are counted outside stream data only, where random bytes would look like keywords
+    countNames(src, scanned, match.index, (index) => index);
+    countNames(src, match.index, valueEnd, (index) => index);
+    scanned = bounds ? bounds[1] : valueEnd;
+    OBJECT_HEADER.lastIndex = scanned;
+  }
+  countNames(src, scanned, src.length, (index) => index);
+
+  const resolve = (value: PdfValue | undefined): PdfValue | undefined => (isRef(value) ? objects.get(value.num)?.value : value);
+
+  let inflated = 0;
+  const decodeStream = (object: PdfObject): Uint8Array | null => {
+    if (!object.stream || !isDict(object.value)) return null;
+    const filter = resolve(object.value.get("Filter"));
+    const filters = Array.isArray(filter) ? filter.map(nameOf) : filter === undefined ? [] : [nameOf(filter)];
+    if (filters.length === 0) return object.stream;
+    if (filters.length > 1 || filters[0] !== "FlateDecode" || inflated >= MAX_TOTAL_INFLATE) return null;
+    try {
+      const data = inflateSync(object.stream, { maxOutputLength: Math.min(MAX_STREAM_BYTES, MAX_TOTAL_INFLATE - inflated) });
+      inflated += data.length;
+      return data;
+    } catch {
+      return null;
+    }
+  };
+
+  // Unpack object streams so objects and keywords hidden in compressed form are counted too
+  let compressedObjects = 0;
+  for (const container of objectOrder) {
+    if (!isDict(container.value) || nameOf(container.value.get("Type")) !== "ObjStm") continue;
+    const data = decodeStream(container);
+    const first = numberOf(container.value.get("First"));
+    const count = numberOf(container.value.get("N"));
+    if (!data || first === null || count === null) continue;
+
+    const text = latin1(data);
+    countNames(text, 0, text.length, () => container.offset);
+    let pos = 0;
+    for (let i = 0; i < count; i++) {
+      const num = parseValue(text, pos);
+      const offset = num && parseValue(text, num[1]);
+      if (!num || !offset || typeof num[0] !== "number" || typeof offset[0] !== "number") break;
+      pos = offset[1];
+      compressedObjects++;
+      const value = parseValue(text, first + offset[0]);
+      if (value && !objects.has(num[0])) objects.set(num[0], { offset: container.offset, value: value[0], stream: null });
+    }
+  }
+
+  // Follow startxref and each /Prev back to the original revision
+  const xref: PdfXrefSection[] = [];
+  const trailers: PdfDict[] = [];
+  const startxref = /startxref\s+(\d+)/g;
+  let xrefStart: number | null = null;
+  for (let match = startxref.exec(src); match; match = startxref.exec(src)) xrefStart = Number(match[1]);
+
+  const visited = new Set<number>();
+  let next = xrefStart;
+  while (next !== null && !visited.has(next) && xref.length < MAX_XREF_SECTIONS) {
+    visited.add(next);
+    // Offsets are meant to count from the header, though most writers count from byte 0
+    const section = readXrefSection(src, next) ?? (headerOffset > 0 ? readXrefSection(src, next + headerOffset) : null);
+    if (!section) break;
+    xref.push(section.section);
+    trailers.push(section.trailer);
+    next = numberOf(section.trailer.get("Prev"));
+  }
+  const xrefValid = xref.length > 0;
+
+  // Without a usable chain, fall back to the last trailer or cross-reference stream in the file
+  if (!xrefValid) {
+    const trailerAt = src.lastIndexOf("trailer");
+    const parsed = trailerAt >= 0 ? parseValue(src, trailerAt + "trailer".length) : null;
+    if (parsed && isDict(parsed[0])) trailers.push(parsed[0]);
+    const xrefStream = [...objectOrder].reverse().find((object) => isDict(object.value) && nameOf(object.value.get("Type")) === "XRef");
+    if (xrefStream) trailers.push(xrefStream.value as PdfDict);
+  }
+  const fromTrailer = (key: string) => trailers.find((trailer) => trailer.has(key))?.get(key);
+
+  const idValue = fromTrailer("ID");
+  const trailer: PdfTrailer = {
+    size: numberOf(fromTrailer("Size")),
+    root: refString(fromTrailer("Root")),
+    info: refString(fromTrailer("Info")),
+    encrypt: refString(fromTrailer("Encrypt")),
+    id: Array.isArray(idValue) ? idValue.map((part) => [...(textOf(part) ?? "")].map((char) => char.charCodeAt(0).toString(16).padStart(2, "0")).join("")) : null,
+  };
+
+  const encryptDict = resolve(fromTrailer("Encrypt"));
+  const encryption: PdfEncryption | null = isDict(encryptDict)
+    ? {
+        filter: nameOf(encryptDict.get("Filter")),
+        version: numberOf(encryptDict.get("V")),
+        revision: numberOf(encryptDict.get("R")),
+        keyLength: numberOf(encryptDict.get("Length")),
+      }
+    : null;
+
+  let catalog = resolve(fromTrailer("Root"));
+  if (!isDict(catalog)) catalog = [...objects.values()].map((object) => object.value).find((value) => isDict(value) && nameOf(value.get("Type")) === "Catalog");
+  const pages = isDict(catalog) ? resolve(catalog.get("Pages")) : undefined;
+  const pageCount = isDict(pages) && numberOf(pages.get("Count")) !== null
+    ? numberOf(pages.get("Count"))
+    : [...objects.values()].filter((object) => isDict(object.value) && nameOf(object.value.get("Type")) === "Page").length || null;
+
+  // Strings of an encrypted document are ciphertext until decrypted
+  const info: Record<string, string> = {};
+  const infoDict = encryption ? undefined : resolve(fromTrailer("Info"));
+  if (isDict(infoDict)) {
+    for (const [key, value] of infoDict) {
+      const text = textOf(resolve(value));
+      if (text !== null && Object.keys(info).length < MAX_INFO_FIELDS) info[key] = decodeText(text);
+    }
+  }
+
+  let xmp: XmpPacket | null = null;
+  const metadataRef = isDict(catalog) ? catalog.get("Metadata") : undefined;
+  const metadataObject = isRef(metadataRef) ? objects.get(metadataRef.num) : undefined;
+  const packet = metadataObject && !encryption ? decodeStream(metadataObject) : null;
+  if (packet) {
+    xmp = parseXmp(packet);
+  } else {
+    const start = src.indexOf("<x:xmpmeta");
+    const end = start < 0 ? -1 : src.indexOf("</x:xmpmeta>", start);
+    if (end > 0) xmp = parseXmp(bytes.subarray(start, end));
+  }
+
+  const uris: string[] = [];
+  const collectUris = (value: PdfValue, depth = 0) => {
+    if (depth > MAX_NESTING || uris.length >= MAX_URIS) return;
+    if (Array.isArray(value)) value.forEach((item) => collectUris(item, depth + 1));
+    if (!isDict(value)) return;
+    const uri = textOf(value.get("URI"));
+    if (uri !== null && !uris.includes(uri)) uris.push(uri);
+    for (const item of value.values()) collectUris(item, depth + 1);
+  };
+  if (!encryption) for (const object of objects.values()) collectUris(object.value);
+
+  const firstObject = objectOrder[0];
+  const linearized = firstObject !== undefined && isDict(firstObject.value) && firstObject.value.has("Linearized");
+  // A linearized file carries a second %%EOF for its first-page section
+  const eofs = src.split("%%EOF").length - 1;
+  const incrementalUpdates = Math.max(0, eofs - 1 - (linearized ? 1 : 0));
+  const lastEof = src.lastIndexOf("%%EOF");
+  const trailingBytes = lastEof < 0 ? 0 : src.slice(lastEof + 5).replace(/[\0\t\n\f\r ]+/g, "").length;
+
+  const metadata: PdfMetadata = {
+    version,
+    headerOffset: Math.max(0, headerOffset),
+    linearized,
+    xref,
+    xrefValid,
+    trailer,
+    objectCount: objects.size,
+    compressedObjects,
+    pageCount,
+    incrementalUpdates,
+    info,
+    xmp,
+    encryption,
+    keywords,
+    obfuscatedNames,
+    uris,
+    trailingBytes,
+  };
+
+  const flag = (id: string, severity: Severity, message: string, keyword?: PdfKeyword) =>
+    findings.push({ id, severity, message, source: "pdf", ...(keyword && firstSeen.has(keyword) ? { offset: firstSeen.get(keyword) } : {}) });
+
+  const scripts = keywords.JavaScript + keywords.JS;
+  if (scripts > 0) flag("pdf.javascript", "high", `Document contains JavaScript (${scripts} /JS or /JavaScript names)`, keywords.JS > 0 ? "JS" : "JavaScript");
+  if (keywords.Launch > 0) flag("pdf.launch", "high", "Launch action can start external programs", "Launch");
+  if (keywords.OpenAction > 0) flag("pdf.open-action", "medium", "Document runs an action when it is opened", "OpenAction");
+  if (keywords.AA > 0) flag("pdf.additional-actions", "medium", `${keywords.AA} additional-actions (/AA) dictionaries trigger on page or form events`, "AA");
+  if (keywords.EmbeddedFile > 0) flag("pdf.embedded-file", "medium", `${keywords.EmbeddedFile} embedded file(s)`, "EmbeddedFile");
+  if (keywords.XFA > 0) flag("pdf.xfa", "medium", "XFA form: scriptable XML forms are a common exploit vector", "XFA");
+  if (keywords.RichMedia > 0) flag("pdf.rich-media", "medium", "RichMedia annotation (embedded Flash or video)", "RichMedia");
+  if (keywords.URI > 0) flag("pdf.uri", "low", `${uris.length || keywords.URI} link(s) to external URIs`, "URI");
+  if (obfuscatedNames.length > 0) {
+    flag("pdf.obfuscated-name", "high", `Names hide keywords behind #xx escapes: ${obfuscatedNames.join(", ")}`);
+  }
+  if (encryption || trailer.encrypt) {
+    const scheme = encryption ? `${encryption.filter ?? "unknown"} handler, revision ${encryption.revision ?? "?"}` : "dictionary not found";
+    flag("pdf.encrypted", "low", `Document is encrypted (${scheme}); strings and streams were not inspected`, "Encrypt");
+  }
+
+  if (headerOffset < 0) {
+    flag("pdf.missing-header", "medium", "No %PDF- header in the first 1 KiB");
+  } else if (headerOffset > 0) {
+    findings.push({ id: "pdf.header-offset", severity: "low", message: `${headerOffset} bytes precede the %PDF- header`, source: "pdf", offset: 0 });
+  }
+  if (lastEof < 0) {
+    flag("pdf.missing-eof", "low", "No %%EOF marker; file may be truncated");
+  } else if (trailingBytes > 0) {
+    findings.push({ id: "pdf.trailing-data", severity: "low", message: `${trailingBytes} bytes appended after the last %%EOF`, source: "pdf", offset: lastEof + 5 });
+  }
+  if (!xrefValid) {
+    flag("pdf.broken-xref", "low", xrefStart === null ? "No startxref pointer" : `startxref points to ${xrefStart}, where there is no cross-reference section`);
+  }
+  if (incrementalUpdates > 0) {
+    flag("pdf.incremental-updates", "info", `Saved incrementally ${incrementalUpdates} time(s); earlier revisions remain in the file`);
+  }
+
+  return { metadata, findings };
+}
+
+/** A cross-reference table with its trailer, or a cross-reference stream whose dictionary doubles as the trailer */
+function readXrefSection(src: string, offset: number): { section: PdfXrefSection; trailer: PdfDict } | null {
+  if (offset < 0 || offset >= src.length) return null;
+  const start = skipSpace(src, offset);
+
+  if (src.startsWith("xref", start)) {
+    let pos = start + 4;
+    let entries = 0;
+    for (;;) {
+      XREF_SUBSECTION.lastIndex = pos;
+      const subsection = XREF_SUBSECTION.exec(src);
+      if (!subsection) break;
+      pos = XREF_SUBSECTION.lastIndex;
+      const count = Number(subsection[2]);
+      for (let i = 0; i < count; i++) {
+        XREF_ENTRY.lastIndex = pos;
+        if (!XREF_ENTRY.exec(src)) break;
+        pos = XREF_ENTRY.lastIndex;
+        entries++;
+      }
+    }
+    pos = skipSpace(src, pos);
+    if (!src.startsWith("trailer", pos)) return null;
+    const trailer = parseValue(src, pos + "trailer".length);
+    if (!trailer || !isDict(trailer[0])) return null;
+    return { section: { offset: start, kind: "table", length: trailer[1] - start, entries }, trailer: trailer[0] };
+  }
+
+  OBJECT_AT.lastIndex = start;
+  if (!OBJECT_AT.exec(src)) return null;
+  const parsed = parseValue(src, OBJECT_AT.lastIndex);
+  if (!parsed || !isDict(parsed[0]) || nameOf(parsed[0].get("Type")) !== "XRef") return null;
+  const dict = parsed[0];
+  const index = dict.get("Index");
+  const entries = Array.isArray(index)
+    ? index.reduce<number>((sum, value, i) => (i % 2 === 1 ? sum + (numberOf(value) ?? 0) : sum), 0)
+    : (numberOf(dict.get("Size")) ?? 0);
+  const end = src.indexOf("endobj", parsed[1]);
+  return { section: { offset: start, kind: "stream", length: (end < 0 ? parsed[1] : end + "endobj".length) - start, entries }, trailer: dict };
+}
@@ -0,0 +1,176 @@
+/**
+ * PE Header Parser
+ * Reads the COFF and optional headers, section table, import directory and certificate table
+ */
+
+import { indexOfNul, latin1, u16le, u32le, u64le } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { MAX_IMPORTS, MAX_SECTIONS, sectionEntropy, type ExecutableMetadata, type ExecutableSection, type ImportedSymbol } from "./executable";
+
+const MACHINES: Record<number, string> = {
+  0x014c: "i386", 0x8664: "x86-64", 0xaa64: "AArch64", 0x01c0: "ARM", 0x01c4: "ARM Thumb-2",
+  0x0200: "IA-64", 0x5064: "RISC-V 64", 0xa641: "ARM64EC", 0x0ebc: "EFI byte code",
+};
+
+const SUBSYSTEMS: Record<number, string> = {
+  1: "Native", 2: "Windows GUI", 3: "Windows console", 5: "OS/2 console", 7: "POSIX console",
+  9: "Windows CE GUI", 10: "EFI application", 11: "EFI boot service driver", 12: "EFI runtime driver",
+  13: "EFI ROM", 14: "Xbox", 16: "Windows boot application",
+};
+
+const PE32 = 0x10b;
+const PE32_PLUS = 0x20b;
+
+const FILE_DLL = 0x2000;
+const DLL_DYNAMIC_BASE = 0x0040;
+const DLL_NX_COMPAT = 0x0100;
+
+const SCN_EXECUTE = 0x20000000;
+const SCN_READ = 0x40000000;
+const SCN_WRITE = 0x80000000;
+
+const DIRECTORY_IMPORT = 1;
+const DIRECTORY_SECURITY = 4;
+
+const SECTION_HEADER_SIZE = 40;
+const IMPORT_DESCRIPTOR_SIZE = 20;
+const MAX_IMPORT_LIBRARIES = 1000;
+
+function cString(bytes: Uint8Array, offset: number, max = 256): string {
+  if (offset < 0 || offset >= bytes.length) return "";
+  const end = indexOfNul(bytes, offset, offset + max);
+  return latin1(bytes, offset, end < 0 ? offset + max : end);
+}
+
+/**
+ * Parse a PE image; `partial` means only the head of the file is in `bytes`
+ */
+export function parsePe(bytes: Uint8Array, partial: boolean): ParseResult<ExecutableMetadata> {
+  const findings: Finding[] = [];
+  const pe = bytes.length >= 64 ? u32le(bytes, 60) : bytes.length;
+  if (pe + 24 > bytes.length || latin1(bytes, pe, pe + 4) !== "PE\0\0") {
+    throw new Error("No PE header after the MZ stub");
+  }
+
+  const coff = pe + 4;
+  const machine = u16le(bytes, coff);
+  const sectionCount = u16le(bytes, coff + 2);
+  const timestamp = u32le(bytes, coff + 4);
+  const symbolTable = u32le(bytes, coff + 8);
+  const symbolCount = u32le(bytes, coff + 12);
+  const optionalSize = u16le(bytes, coff + 16);
+  const characteristics = u16le(bytes, coff + 18);
+
+  const optional = coff + 20;
+  const magic = u16le(bytes, optional);
+  if (magic !== PE32 && magic !== PE32_PLUS) throw new Error(`Unknown optional header magic 0x${magic.toString(16)}`);
+  const plus = magic === PE32_PLUS;
+  const entryRva = u32le(bytes, optional + 16);
+  const imageBase = plus ? u64le(bytes, optional + 24) : u32le(bytes, optional + 28);
+  const subsystem = u16le(bytes, optional + 68);
+  const dllCharacteristics = u16le(bytes, optional + 70);
+  const directoryCount = u32le(bytes, optional + (plus ? 108 : 92));
+  const directories = optional + (plus ? 112 : 96);
+  const directory = (index: number) =>
+    index < directoryCount && directories + index * 8 + 8 <= optional + optionalSize
+      ? { address: u32le(bytes, directories + index * 8), size: u32le(bytes, directories + index * 8 + 4) }
+      : { address: 0, size: 0 };
+
+  const table = optional + optionalSize;
+  const sections: ExecutableSection[] = [];
+  for (let i = 0; i < Math.min(sectionCount, MAX_SECTIONS); i++) {
+    const at = table + i * SECTION_HEADER_SIZE;
+    if (at + SECTION_HEADER_SIZE > bytes.length) break;
+    const flags = u32le(bytes, at + 36);
+    const rawSize = u32le(bytes, at + 16);
+    const rawOffset = u32le(bytes, at + 20);
+    sections.push({
+      name: cString(bytes, at, 8),
+      offset: rawOffset,
+      size: rawSize,
+      virtualAddress: imageBase + u32le(bytes, at + 12),
+      virtualSize: u32le(bytes, at + 8),
+      readable: (flags & SCN_READ) !== 0,
+      writable: (flags & SCN_WRITE) !== 0,
+      executable: (flags & SCN_EXECUTE) !== 0,
+      entropy: sectionEntropy(bytes, rawOffset, rawSize),
+    });
+  }
+
+  const fileOffset = (rva: number) => {
+    const section = sections.find((candidate) => {
+      const start = candidate.virtualAddress - imageBase;
+      return rva >= start && rva < start + Math.max(candidate.virtualSize, candidate.size);
+    });
+    return section ? section.offset + (rva - (section.virtualAddress - imageBase)) : null;
+  };
+
+  // Import descriptors name each DLL; their thunks name each function or ordinal
+  const libraries: string[] = [];
+  const imports: ImportedSymbol[] = [];
+  let omittedImports = 0;
+  const importDirectory = directory(DIRECTORY_IMPORT);
+  const descriptors = importDirectory.size > 0 ? fileOffset(importDirectory.address) : null;
+  if (descriptors !== null) {
+    const thunkSize = plus ? 8 : 4;
+    for (let i = 0; i < MAX_IMPORT_LIBRARIES; i++) {
+      const at = descriptors + i * IMPORT_DESCRIPTOR_SIZE;
+      if (at + IMPORT_DESCRIPTOR_SIZE > bytes.length) break;
+      const lookup = u32le(bytes, at) || u32le(bytes, at + 16);
+      const nameRva = u32le(bytes, at + 12);
+      if (lookup === 0 && nameRva === 0) break;
+
+      const nameOffset = fileOffset(nameRva);
+      const library = nameOffset === null ? "" : cString(bytes, nameOffset);
+      libraries.push(library);
+
+      const thunks = fileOffset(lookup);
+      for (let thunk = thunks ?? bytes.length; thunk + thunkSize <= bytes.length; thunk += thunkSize) {
+        const low = u32le(bytes, thunk);
+        const high = plus ? u32le(bytes, thunk + 4) : 0;
+        if (low === 0 && high === 0) break;
+        if (imports.length >= MAX_IMPORTS) {
+          omittedImports++;
+          continue;
+        }
+        const byOrdinal = plus ? (high & 0x80000000) !== 0 : (low & 0x80000000) !== 0;
+        const hint = byOrdinal ? null : fileOffset(low & 0x7fffffff);
+        imports.push({ name: byOrdinal ? `#${low & 0xffff}` : hint === null ? "" : cString(bytes, hint + 2), library });
+      }
+    }
+  }
+
+  // The certificate table is the one directory addressed by file offset rather than RVA
+  const certificates = directory(DIRECTORY_SECURITY);
+  if (!partial && certificates.size > 0 && certificates.address + certificates.size > bytes.length) {
+    findings.push({ id: "executable.truncated-certificate", severity: "low", message: "Authenticode certificate table extends past the end of the file", source: "executable", offset: certificates.address });
+  }
+
+  const dll = (characteristics & FILE_DLL) !== 0;
+  const metadata: ExecutableMetadata = {
+    format: "PE",
+    architecture: MACHINES[machine] ?? `machine 0x${machine.toString(16)}`,
+    bits: plus ? 64 : 32,
+    endianness: "little",
+    fileType: dll ? "dynamic-link library" : subsystem === 1 ? "driver" : "executable",
+    entryPoint: entryRva === 0 ? null : imageBase + entryRva,
+    interpreter: null,
+    timestamp: timestamp === 0 ? null : new Date(timestamp * 1000).toISOString(),
+    subsystem: SUBSYSTEMS[subsystem] ?? `subsystem ${subsystem}`,
+    sections,
+    libraries,
+    imports,
+    omittedImports,
+    slices: [],
+    security: {
+      pie: (dllCharacteristics & DLL_DYNAMIC_BASE) !== 0,
+      nx: (dllCharacteristics & DLL_NX_COMPAT) !== 0,
+      stripped: symbolTable === 0 && symbolCount === 0,
+      rwx: sections.filter((section) => section.writable && section.executable).map((section) => section.name),
+      relro: null,
+      signed: certificates.size > 0,
+    },
+  };
+
+  return { metadata, findings };
+}
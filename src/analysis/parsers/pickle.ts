@@ -0,0 +1,249 @@
+/**
+ * Python Pickle Disassembler
+ * Walks pickle opcodes without executing them and flags the globals a load would import and call,
+ * for bare pickles and for the data.pkl members of PyTorch model archives
+ */
+
+import { latin1, u16le, u32le, u64le, utf8 } from "../binary";
+import type { ByteWindow, Finding, ParseResult, Severity } from "../types";
+import { parseZip, readZipEntry } from "./zip";
+
+export interface PickleInstruction {
+  offset: number;
+  opcode: string;
+  argument?: string | number;
+}
+
+export interface PickleStream {
+  /** Archive member the stream came from; null for a bare pickle */
+  member: string | null;
+  protocol: number | null;
+  opcodes: number;
+  /** First instructions of the disassembly */
+  instructions: PickleInstruction[];
+  /** "module.name" of every global the stream imports, in first-use order */
+  globals: string[];
+  /** The walk reached STOP */
+  complete: boolean;
+}
+
+export interface PickleMetadata {
+  streams: PickleStream[];
+  /** Only the head of a large pickle was read */
+  partial: boolean;
+}
+
+/** Signature ids of bare pickles */
+export const PICKLE_SIGNATURES = ["pickle"];
+
+type ArgumentKind = "none" | "u8" | "u16" | "i32" | "u32" | "u64" | "f64" | "line" | "lines" | "u8-bytes" | "u32-bytes" | "u64-bytes";
+
+// Opcode byte → name and argument encoding, protocols 0 to 5
+const OPCODES: Record<number, [string, ArgumentKind]> = {
+  0x28: ["MARK", "none"], 0x2e: ["STOP", "none"], 0x30: ["POP", "none"], 0x31: ["POP_MARK", "none"], 0x32: ["DUP", "none"],
+  0x46: ["FLOAT", "line"], 0x49: ["INT", "line"], 0x4a: ["BININT", "i32"], 0x4b: ["BININT1", "u8"], 0x4c: ["LONG", "line"],
+  0x4d: ["BININT2", "u16"], 0x4e: ["NONE", "none"], 0x50: ["PERSID", "line"], 0x51: ["BINPERSID", "none"], 0x52: ["REDUCE", "none"],
+  0x53: ["STRING", "line"], 0x54: ["BINSTRING", "u32-bytes"], 0x55: ["SHORT_BINSTRING", "u8-bytes"], 0x56: ["UNICODE", "line"],
+  0x58: ["BINUNICODE", "u32-bytes"], 0x61: ["APPEND", "none"], 0x62: ["BUILD", "none"], 0x63: ["GLOBAL", "lines"], 0x64: ["DICT", "none"],
+  0x7d: ["EMPTY_DICT", "none"], 0x65: ["APPENDS", "none"], 0x67: ["GET", "line"], 0x68: ["BINGET", "u8"], 0x69: ["INST", "lines"],
+  0x6a: ["LONG_BINGET", "u32"], 0x6c: ["LIST", "none"], 0x5d: ["EMPTY_LIST", "none"], 0x6f: ["OBJ", "none"], 0x70: ["PUT", "line"],
+  0x71: ["BINPUT", "u8"], 0x72: ["LONG_BINPUT", "u32"], 0x73: ["SETITEM", "none"], 0x74: ["TUPLE", "none"], 0x29: ["EMPTY_TUPLE", "none"],
+  0x75: ["SETITEMS", "none"], 0x47: ["BINFLOAT", "f64"], 0x42: ["BINBYTES", "u32-bytes"], 0x43: ["SHORT_BINBYTES", "u8-bytes"],
+  0x80: ["PROTO", "u8"], 0x81: ["NEWOBJ", "none"], 0x82: ["EXT1", "u8"], 0x83: ["EXT2", "u16"], 0x84: ["EXT4", "i32"],
+  0x85: ["TUPLE1", "none"], 0x86: ["TUPLE2", "none"], 0x87: ["TUPLE3", "none"], 0x88: ["NEWTRUE", "none"], 0x89: ["NEWFALSE", "none"],
+  0x8a: ["LONG1", "u8-bytes"], 0x8b: ["LONG4", "u32-bytes"], 0x8c: ["SHORT_BINUNICODE", "u8-bytes"], 0x8d: ["BINUNICODE8", "u64-bytes"],
+  0x8e: ["BINBYTES8", "u64-bytes"], 0x8f: ["EMPTY_SET", "none"], 0x90: ["ADDITEMS", "none"], 0x91: ["FROZENSET", "none"],
+  0x92: ["NEWOBJ_EX", "none"], 0x93: ["STACK_GLOBAL", "none"], 0x94: ["MEMOIZE", "none"], 0x95: ["FRAME", "u64"],
+  0x96: ["BYTEARRAY8", "u64-bytes"], 0x97: ["NEXT_BUFFER", "none"], 0x98: ["READONLY_BUFFER", "none"],
+};
+
+// Opcodes that push a text value STACK_GLOBAL may consume
+const TEXT_OPCODES = new Set(["STRING", "BINSTRING", "SHORT_BINSTRING", "UNICODE", "BINUNICODE", "SHORT_BINUNICODE", "BINUNICODE8"]);
+// Opcodes that call whatever callable is on the stack
+const CALL_OPCODES = new Set(["REDUCE", "NEWOBJ", "NEWOBJ_EX", "OBJ", "INST", "BUILD"]);
+
+// Callables that run commands, evaluate code or reach the network when a pickle is loaded
+const DANGEROUS_GLOBALS = [
+  /^(os|posix|nt)\.(system|popen|exec\w*|spawn\w*|fork\w*|kill|remove|unlink|rmdir|putenv)$/,
+  /^subprocess\./,
+  /^(builtins|__builtin__)\.(eval|exec|compile|__import__|open|getattr|setattr|globals|breakpoint|input)$/,
+  /^(runpy|pty|commands|webbrowser|ctypes|socket|requests|httplib|http\.client|urllib[\w.]*|shutil)\./,
+  /^(importlib|pickle|_pickle|cPickle|marshal|dill|types|code|codeop)\./,
+  /^(operator\.attrgetter|operator\.methodcaller|functools\.partial)$/,
+];
+
+// Globals that model checkpoints and scientific data routinely import
+const SAFE_GLOBALS = [
+  /^collections\.(OrderedDict|defaultdict|Counter|deque)$/,
+  /^torch\.(_utils\._rebuild_\w+|\w+Storage|_tensor\._rebuild_from_type_v2|Size|device|dtype|float\w*|int\w*|bfloat16|bool|nn\.[\w.]+)$/,
+  /^numpy\.(core\.multiarray\._reconstruct|_core\.multiarray\._reconstruct|core\.multiarray\.scalar|ndarray|dtype)$/,
+  /^(builtins|__builtin__)\.(set|frozenset|bytearray|slice|complex|range|object|dict|list|tuple|int|float|str|bytes|bool)$/,
+  /^(_codecs\.encode|copyreg\._reconstructor|copy_reg\._reconstructor|datetime\.\w+|decimal\.Decimal|uuid\.UUID|pathlib\.\w*Path)$/,
+];
+
+const MAX_INSTRUCTIONS = 1000;
+const MAX_ARGUMENT_LENGTH = 200;
+const MAX_MEMBERS = 32;
+const MAX_MEMBER_BYTES = 64 * 1024 * 1024;
+
+interface Disassembly {
+  stream: PickleStream;
+  /** Global, its offset, and whether a call opcode follows it */
+  uses: Array<{ name: string; offset: number; called: boolean }>;
+  error: string | null;
+}
+
+function lineAt(bytes: Uint8Array, start: number): [string, number] {
+  const end = bytes.indexOf(0x0a, start);
+  if (end < 0) throw new Error(`unterminated line argument at offset ${start}`);
+  return [latin1(bytes, start, end), end + 1];
+}
+
+function disassemble(bytes: Uint8Array, member: string | null): Disassembly {
+  const stream: PickleStream = { member, protocol: null, opcodes: 0, instructions: [], globals: [], complete: false };
+  const uses: Disassembly["uses"] = [];
+  // Values pushed by text opcodes and memo lookups, with null for anything else; enough to resolve STACK_GLOBAL
+  const pushed: Array<string | null> = [];
+  const memo = new Map<number, string | null>();
+  let error: string | null = null;
+  let offset = 0;
+
+  try {
+    while (offset < bytes.length) {
+      const at = offset;
+      const definition = OPCODES[bytes[offset++]];
+      if (!definition) throw new Error(`unknown opcode 0x${bytes[at].toString(16).padStart(2, "0")} at offset ${at}`);
+      const [opcode, kind] = definition;
+      let argument: string | number | undefined;
+
+      const take = (length: number) => {
+        if (offset + length > bytes.length) throw new Error(`${opcode} argument at offset ${at} runs past the end`);
+        const start = offset;
+        offset += length;
+        return start;
+      };
+      switch (kind) {
+        case "u8": argument = bytes[take(1)]; break;
+        case "u16": argument = u16le(bytes, take(2)); break;
+        case "i32": argument = u32le(bytes, take(4)) | 0; break;
+        case "u32": argument = u32le(bytes, take(4)); break;
+        case "u64": argument = u64le(bytes, take(8)); break;
+        case "f64": argument = new DataView(bytes.buffer, bytes.byteOffset + take(8), 8).getFloat64(0); break;
+        case "line": [argument, offset] = lineAt(bytes, offset); break;
+        case "lines": {
+          const [module, next] = lineAt(bytes, offset);
+          const [name, end] = lineAt(bytes, next);
+          argument = `${module}.${name}`;
+          offset = end;
+          break;
+        }
+        case "u8-bytes": case "u32-bytes": case "u64-bytes": {
+          const length = kind === "u8-bytes" ? bytes[take(1)] : kind === "u32-bytes" ? u32le(bytes, take(4)) : u64le(bytes, take(8));
+          const start = take(length);
+          argument = TEXT_OPCODES.has(opcode) ? (opcode.includes("UNICODE") ? utf8(bytes, start, offset) : latin1(bytes, start, offset)) : `<${length} bytes>`;
+          break;
+        }
+      }
+
+      stream.opcodes++;
+      if (stream.instructions.length < MAX_INSTRUCTIONS) {
+        const shown = typeof argument === "string" ? argument.slice(0, MAX_ARGUMENT_LENGTH) : argument;
+        stream.instructions.push(shown === undefined ? { offset: at, opcode } : { offset: at, opcode, argument: shown });
+      }
+
+      if (opcode === "PROTO") stream.protocol = argument as number;
+      else if (opcode === "GLOBAL" || opcode === "INST") uses.push({ name: argument as string, offset: at, called: opcode === "INST" });
+      else if (opcode === "STACK_GLOBAL") {
+        const name = pushed.pop();
+        const module = pushed.pop();
+        uses.push({ name: module && name ? `${module}.${name}` : "(unresolved)", offset: at, called: false });
+      } else if (CALL_OPCODES.has(opcode) && uses.length > 0) uses[uses.length - 1].called = true;
+
+      if (TEXT_OPCODES.has(opcode)) pushed.push(String(argument).replace(/^(['"])(.*)\1$/, "$2"));
+      else if (opcode === "MEMOIZE") memo.set(memo.size, pushed[pushed.length - 1] ?? null);
+      else if (opcode === "PUT" || opcode === "BINPUT" || opcode === "LONG_BINPUT") memo.set(Number(argument), pushed[pushed.length - 1] ?? null);
+      else if (opcode === "GET" || opcode === "BINGET" || opcode === "LONG_BINGET") pushed.push(memo.get(Number(argument)) ?? null);
+      else if (opcode !== "FRAME" && opcode !== "PROTO") pushed.push(null);
+
+      if (opcode === "STOP") {
+        stream.complete = true;
+        break;
+      }
+    }
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  for (const use of uses) {
+    if (!stream.globals.includes(use.name)) stream.globals.push(use.name);
+  }
+  return { stream, uses, error };
+}
+
+/** Classic protocol 0 payloads start with a GLOBAL opcode and carry no signature */
+export function looksLikePickle(bytes: Uint8Array): boolean {
+  return /^c[A-Za-z_][\w.]*\n[A-Za-z_]\w*\n/.test(latin1(bytes, 0, 256));
+}
+
+/**
+ * Whether a ZIP archive is a PyTorch checkpoint, judged from its entry names
+ */
+export function isPickleArchive(bytes: Uint8Array): boolean {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length);
+  return buffer.includes("/data.pkl", 0, "latin1");
+}
+
+/**
+ * Disassemble a bare pickle or the pickles inside a PyTorch archive
+ */
+export function parsePickle(bytes: Uint8Array, window?: ByteWindow): ParseResult<PickleMetadata> {
+  const partial = window !== undefined && bytes.length < window.size;
+  const findings: Finding[] = [];
+  const metadata: PickleMetadata = { streams: [], partial };
+
+  const disassemblies: Disassembly[] = [];
+  if (latin1(bytes, 0, 4) === "PK\x03\x04") {
+    if (partial) {
+      findings.push({ id: "pickle.skipped", severity: "info", message: "Model archive is too large for pickle parsing", source: "pickle" });
+      return { metadata, findings };
+    }
+    const { metadata: zip } = parseZip(bytes);
+    const members = zip.entries.filter((entry) => entry.name.endsWith(".pkl") && !entry.directory).slice(0, MAX_MEMBERS);
+    if (members.length === 0) throw new Error("Archive has no .pkl members");
+    for (const entry of members) {
+      if (entry.uncompressedSize > MAX_MEMBER_BYTES) continue;
+      disassemblies.push(disassemble(readZipEntry(bytes, entry, zip.prependedBytes), entry.name));
+    }
+  } else {
+    disassemblies.push(disassemble(bytes, null));
+  }
+
+  for (const { stream, uses, error } of disassemblies) {
+    metadata.streams.push(stream);
+    const where = stream.member ? ` in ${stream.member}` : "";
+    // Offsets are only meaningful in the file for a bare pickle
+    const at = (offset: number) => (stream.member ? {} : { offset });
+
+    const unknown = new Set<string>();
+    for (const use of uses) {
+      if (DANGEROUS_GLOBALS.some((pattern) => pattern.test(use.name))) {
+        const severity: Severity = use.called ? "critical" : "high";
+        const action = use.called ? "imports and calls" : "imports";
+        findings.push({ id: "pickle.dangerous-global", severity, message: `Loading${where} ${action} ${use.name}`, source: "pickle", ...at(use.offset) });
+      } else if (!SAFE_GLOBALS.some((pattern) => pattern.test(use.name))) {
+        unknown.add(use.name);
+      }
+    }
+    if (unknown.size > 0) {
+      const names = [...unknown].slice(0, 5).join(", ");
+      findings.push({ id: "pickle.unknown-global", severity: "medium", message: `Loading${where} imports ${names}${unknown.size > 5 ? ` and ${unknown.size - 5} more` : ""}`, source: "pickle" });
+    }
+    if (error && !(partial && stream.member === null)) {
+      findings.push({ id: "pickle.malformed", severity: "low", message: `Disassembly${where} stopped: ${error}`, source: "pickle" });
+    } else if (!error && !stream.complete && !partial) {
+      findings.push({ id: "pickle.malformed", severity: "low", message: `Pickle${where} ends without a STOP opcode`, source: "pickle" });
+    }
+  }
+
+  return { metadata, findings };
+}
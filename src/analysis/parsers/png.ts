@@ -0,0 +1,241 @@
+/**
+ * PNG Structural Parser
+ * Walks the chunk stream, validates CRCs and decodes IHDR, colour management and text chunks
+ */
+
+import { inflateSync } from "node:zlib";
+import { indexOfNul, latin1, u32be, utf8 } from "../binary";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+
+export interface PngChunk {
+  offset: number;
+  type: string;
+  length: number;
+  crc: number;
+  crcValid: boolean;
+  /** Ancillary chunks have a lowercase first letter */
+  ancillary: boolean;
+  known: boolean;
+}
+
+export interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  colorTypeName: string;
+  compressionMethod: number;
+  filterMethod: number;
+  interlaced: boolean;
+}
+
+export interface PngTextEntry {
+  type: "tEXt" | "zTXt" | "iTXt";
+  keyword: string;
+  value: string;
+  languageTag?: string;
+  translatedKeyword?: string;
+}
+
+export interface PngMetadata {
+  ihdr: PngHeader | null;
+  gamma: number | null;
+  iccProfile: { name: string; compressedSize: number } | null;
+  srgbIntent: number | null;
+  animated: boolean;
+  text: PngTextEntry[];
+  chunks: PngChunk[];
+  unknownAncillaryChunks: string[];
+  hasIEND: boolean;
+  /** Bytes present after the IEND chunk */
+  trailingBytes: number;
+}
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+/** Upper bound on decompressed text so a crafted zTXt cannot exhaust memory */
+const MAX_TEXT_BYTES = 1024 * 1024;
+
+const KNOWN_CHUNKS = new Set([
+  "IHDR", "PLTE", "IDAT", "IEND",
+  "tRNS", "cHRM", "gAMA", "iCCP", "sBIT", "sRGB", "cICP", "mDCV", "cLLI",
+  "tEXt", "zTXt", "iTXt", "bKGD", "hIST", "pHYs", "sPLT", "eXIf", "tIME",
+  "acTL", "fcTL", "fdAT",
+  "oFFs", "pCAL", "sCAL", "sTER", "gIFg", "gIFx", "gIFt", "dSIG", "fRAc",
+]);
+
+const COLOR_TYPES: Record<number, string> = {
+  0: "Greyscale",
+  2: "Truecolour",
+  3: "Indexed-colour",
+  4: "Greyscale with alpha",
+  6: "Truecolour with alpha",
+};
+
+function inflateText(data: Uint8Array): string | null {
+  try {
+    return utf8(inflateSync(data, { maxOutputLength: MAX_TEXT_BYTES }));
+  } catch {
+    return null;
+  }
+}
+
+function parseText(type: PngTextEntry["type"], data: Uint8Array): PngTextEntry | null {
+  const keywordEnd = indexOfNul(data, 0);
+  if (keywordEnd < 1) return null;
+  const keyword = latin1(data, 0, keywordEnd);
+
+  if (type === "tEXt") {
+    return { type, keyword, value: latin1(data, keywordEnd + 1) };
+  }
+
+  if (type === "zTXt") {
+    const value = inflateText(data.subarray(keywordEnd + 2));
+    return value === null ? null : { type, keyword, value };
+  }
+
+  // iTXt: keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = indexOfNul(data, keywordEnd + 3);
+  if (languageEnd < 0) return null;
+  const translatedEnd = indexOfNul(data, languageEnd + 1);
+  if (translatedEnd < 0) return null;
+
+  const body = data.subarray(translatedEnd + 1);
+  const value = compressed ? inflateText(body) : utf8(body);
+  if (value === null) return null;
+
+  return {
+    type,
+    keyword,
+    value,
+    languageTag: latin1(data, keywordEnd + 3, languageEnd),
+    translatedKeyword: utf8(data, languageEnd + 1, translatedEnd),
+  };
+}
+
+/**
+ * Parse a PNG file's chunk structure
+ */
+export function parsePng(bytes: Uint8Array, window?: ByteWindow): ParseResult<PngMetadata> {
+  const findings: Finding[] = [];
+  // Only the head of a large file is available; running off its end is expected
+  const partial = window !== undefined && bytes.length < window.size;
+  const metadata: PngMetadata = {
+    ihdr: null,
+    gamma: null,
+    iccProfile: null,
+    srgbIntent: null,
+    animated: false,
+    text: [],
+    chunks: [],
+    unknownAncillaryChunks: [],
+    hasIEND: false,
+    trailingBytes: 0,
+  };
+
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= bytes.length) {
+    const length = u32be(bytes, offset);
+    const type = latin1(bytes, offset + 4, offset + 8);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+
+    if (!/^[A-Za-z]{4}$/.test(type)) {
+      findings.push({ id: "png.invalid-chunk", severity: "medium", message: `Invalid chunk type at offset ${offset}`, source: "png", offset });
+      break;
+    }
+    if (dataEnd + 4 > bytes.length) {
+      if (partial) break;
+      findings.push({ id: "png.truncated-chunk", severity: "medium", message: `${type} chunk at offset ${offset} extends past end of file`, source: "png", offset });
+      break;
+    }
+
+    const crc = u32be(bytes, dataEnd);
+    const crcValid = (Bun.hash.crc32(bytes.subarray(offset + 4, dataEnd)) >>> 0) === crc;
+    const ancillary = (bytes[offset + 4] & 0x20) !== 0;
+    const known = KNOWN_CHUNKS.has(type);
+    metadata.chunks.push({ offset, type, length, crc, crcValid, ancillary, known });
+
+    if (!crcValid) {
+      findings.push({ id: "png.crc-mismatch", severity: "medium", message: `${type} chunk at offset ${offset} has an invalid CRC`, source: "png", offset });
+    }
+    if (!known) {
+      if (ancillary) {
+        metadata.unknownAncillaryChunks.push(type);
+        findings.push({ id: "png.unknown-chunk", severity: "low", message: `Unknown ancillary chunk ${type} (${length} bytes)`, source: "png", offset });
+      } else {
+        findings.push({ id: "png.unknown-critical-chunk", severity: "medium", message: `Unknown critical chunk ${type}`, source: "png", offset });
+      }
+    }
+
+    const data = bytes.subarray(dataStart, dataEnd);
+    switch (type) {
+      case "IHDR":
+        if (length >= 13) {
+          metadata.ihdr = {
+            width: u32be(data, 0),
+            height: u32be(data, 4),
+            bitDepth: data[8],
+            colorType: data[9],
+            colorTypeName: COLOR_TYPES[data[9]] ?? "Unknown",
+            compressionMethod: data[10],
+            filterMethod: data[11],
+            interlaced: data[12] === 1,
+          };
+        }
+        break;
+      case "gAMA":
+        if (length >= 4) metadata.gamma = u32be(data, 0) / 100000;
+        break;
+      case "sRGB":
+        if (length >= 1) metadata.srgbIntent = data[0];
+        break;
+      case "iCCP": {
+        const nameEnd = indexOfNul(data, 0);
+        metadata.iccProfile = {
+          name: latin1(data, 0, nameEnd < 0 ? Math.min(length, 79) : nameEnd),
+          compressedSize: nameEnd < 0 ? 0 : length - nameEnd - 2,
+        };
+        break;
+      }
+      case "acTL":
+        metadata.animated = true;
+        break;
+      case "tEXt":
+      case "zTXt":
+      case "iTXt": {
+        const entry = parseText(type, data);
+        if (entry) metadata.text.push(entry);
+        break;
+      }
+    }
+
+    offset = dataEnd + 4;
+    if (type === "IEND") {
+      metadata.hasIEND = true;
+      break;
+    }
+  }
+
+  if (metadata.chunks[0]?.type !== "IHDR") {
+    findings.push({ id: "png.missing-ihdr", severity: "medium", message: "First chunk is not IHDR", source: "png" });
+  }
+
+  if (metadata.hasIEND) {
+    metadata.trailingBytes = (window?.size ?? bytes.length) - offset;
+    if (metadata.trailingBytes > 0) {
+      findings.push({
+        id: "png.trailing-data",
+        severity: "medium",
+        message: `${metadata.trailingBytes} bytes appended after IEND`,
+        source: "png",
+        offset,
+      });
+    }
+  } else if (!partial) {
+    findings.push({ id: "png.missing-iend", severity: "low", message: "No IEND chunk; file may be truncated", source: "png" });
+  }
+
+  return { metadata, findings };
+}
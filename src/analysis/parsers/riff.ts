@@ -0,0 +1,153 @@
+/**
+ * RIFF Parser
+ * Walks WAV and AVI chunk trees for the `fmt ` and stream headers, data size and INFO tags
+ */
+
+import { indexOfNul, latin1, u16le, u32le, u64le } from "../binary";
+import type { Finding, ParseResult } from "../types";
+import { emptyMedia, fourCC, MAX_BOXES, MAX_TAG_LENGTH, type MediaBox, type MediaMetadata, type MediaTrack } from "./media";
+
+const WAVE_CODECS: Record<number, string> = {
+  0x0001: "PCM", 0x0002: "MS ADPCM", 0x0003: "IEEE float", 0x0006: "A-law", 0x0007: "µ-law", 0x0011: "IMA ADPCM",
+  0x0031: "GSM 6.10", 0x0050: "MPEG", 0x0055: "MP3", 0x00ff: "AAC", 0x2000: "AC-3", 0xf1ac: "FLAC",
+};
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const INFO_TAGS: Record<string, string> = {
+  INAM: "title", IART: "artist", IPRD: "album", ICMT: "comment", ICRD: "date", IGNR: "genre",
+  ISFT: "software", ICOP: "copyright", IENG: "engineer", ITRK: "track",
+};
+
+const STREAM_KINDS: Record<string, MediaTrack["kind"]> = { vids: "video", auds: "audio", txts: "text" };
+const MAX_DEPTH = 8;
+/** RF64 stores real sizes in its ds64 chunk and saturates the 32-bit fields */
+const RF64_SATURATED = 0xffffffff;
+
+function emptyTrack(kind: MediaTrack["kind"]): MediaTrack {
+  return { id: null, kind, codec: null, duration: null, width: null, height: null, sampleRate: null, channels: null };
+}
+
+/**
+ * Parse a RIFF or RF64 file; `partial` means only the head of the file is in `bytes`
+ */
+export function parseRiff(bytes: Uint8Array, partial: boolean): ParseResult<MediaMetadata> {
+  const findings: Finding[] = [];
+  const metadata = emptyMedia("RIFF", partial);
+  const rf64 = latin1(bytes, 0, 4) === "RF64";
+  metadata.brand = fourCC(bytes, 8)?.trim() ?? null;
+
+  let riffSize = u32le(bytes, 4);
+  let dataSize: number | null = null;
+  let ds64DataSize: number | null = null;
+  if (rf64 && fourCC(bytes, 12) === "ds64") {
+    riffSize = u64le(bytes, 20);
+    ds64DataSize = u64le(bytes, 28);
+  }
+  const riffEnd = 8 + riffSize;
+  let listed = 0;
+
+  const read = (id: string, start: number, size: number, parent: string) => {
+    const end = Math.min(start + size, bytes.length);
+    if (id === "fmt " && end - start >= 16) {
+      let formatTag = u16le(bytes, start);
+      let codec = WAVE_CODECS[formatTag] ?? `format 0x${formatTag.toString(16)}`;
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && end - start >= 40) {
+        // The sub-format GUID starts with the real format tag
+        formatTag = u16le(bytes, start + 24);
+        codec = `${WAVE_CODECS[formatTag] ?? `format 0x${formatTag.toString(16)}`} (extensible)`;
+      }
+      metadata.wave = {
+        formatTag,
+        codec,
+        channels: u16le(bytes, start + 2),
+        sampleRate: u32le(bytes, start + 4),
+        byteRate: u32le(bytes, start + 8),
+        blockAlign: u16le(bytes, start + 12),
+        bitsPerSample: u16le(bytes, start + 14),
+      };
+    } else if (id === "data" && parent === "RIFF") {
+      dataSize = size;
+    } else if (parent === "INFO" && INFO_TAGS[id]) {
+      const nul = indexOfNul(bytes, start, end);
+      const value = latin1(bytes, start, nul < 0 ? end : nul).trim();
+      if (value) metadata.tags[INFO_TAGS[id]] ??= value.slice(0, MAX_TAG_LENGTH);
+    } else if (id === "avih" && end - start >= 40) {
+      const microseconds = u32le(bytes, start);
+      metadata.duration = (u32le(bytes, start + 16) * microseconds) / 1_000_000;
+    } else if (id === "strh" && end - start >= 36) {
+      const track = emptyTrack(STREAM_KINDS[fourCC(bytes, start) ?? ""] ?? "other");
+      track.codec = fourCC(bytes, start + 4)?.replace(/\0/g, "").trim() || null;
+      const scale = u32le(bytes, start + 20);
+      const rate = u32le(bytes, start + 24);
+      if (rate > 0) track.duration = (u32le(bytes, start + 32) * scale) / rate;
+      metadata.tracks.push(track);
+    } else if (id === "strf" && metadata.tracks.length > 0) {
+      const track = metadata.tracks[metadata.tracks.length - 1];
+      if (track.kind === "video" && end - start >= 20) {
+        // BITMAPINFOHEADER: width, height (negative for top-down), compression
+        track.width = u32le(bytes, start + 4);
+        track.height = Math.abs(u32le(bytes, start + 8) | 0);
+        track.codec ??= fourCC(bytes, start + 16)?.trim() || null;
+      } else if (track.kind === "audio" && end - start >= 16) {
+        const formatTag = u16le(bytes, start);
+        track.codec = WAVE_CODECS[formatTag] ?? track.codec;
+        track.channels = u16le(bytes, start + 2);
+        track.sampleRate = u32le(bytes, start + 4);
+      }
+    }
+  };
+
+  const walk = (start: number, end: number, depth: number, parent: string): MediaBox[] => {
+    const chunks: MediaBox[] = [];
+    let offset = start;
+    while (offset + 8 <= Math.min(end, bytes.length)) {
+      const id = fourCC(bytes, offset);
+      if (id === null) {
+        findings.push({ id: "media.malformed-chunk", severity: "medium", message: `Chunk at offset ${offset} has no valid identifier`, source: "media", offset });
+        break;
+      }
+      let size = u32le(bytes, offset + 4);
+      if (rf64 && id === "data" && size === RF64_SATURATED && ds64DataSize !== null) size = ds64DataSize;
+      if (offset + 8 + size > end) {
+        if (end !== riffEnd || offset + 8 + size > bytes.length || !partial) {
+          findings.push({ id: "media.malformed-chunk", severity: "medium", message: `Chunk "${id}" runs ${offset + 8 + size - end} bytes past the end of ${parent}`, source: "media", offset });
+        }
+      }
+
+      const listType = id === "LIST" ? fourCC(bytes, offset + 8) : null;
+      const chunk: MediaBox = { type: listType ? `LIST/${listType.trim()}` : id, offset, size: 8 + size };
+      if (listed++ < MAX_BOXES) chunks.push(chunk);
+      if (listType && depth < MAX_DEPTH) {
+        const children = walk(offset + 12, Math.min(offset + 8 + size, end), depth + 1, listType);
+        if (children.length > 0) chunk.children = children;
+      } else {
+        read(id, offset + 8, size, parent);
+      }
+      // Chunks are padded to an even length
+      offset += 8 + size + (size & 1);
+    }
+    return chunks;
+  };
+
+  metadata.structure = walk(12, riffEnd, 0, "RIFF");
+
+  const { wave } = metadata;
+  if (wave) {
+    metadata.tracks.push({ ...emptyTrack("audio"), codec: wave.codec, sampleRate: wave.sampleRate, channels: wave.channels });
+    if (dataSize !== null && wave.byteRate > 0) {
+      metadata.duration = dataSize / wave.byteRate;
+      metadata.tracks[0].duration = metadata.duration;
+    }
+  }
+
+  if (!partial) {
+    if (riffEnd < bytes.length) {
+      metadata.trailingBytes = bytes.length - riffEnd;
+      findings.push({ id: "media.trailing-data", severity: "low", message: `${metadata.trailingBytes} bytes follow the end of the RIFF data`, source: "media", offset: riffEnd });
+    } else if (riffEnd > bytes.length) {
+      findings.push({ id: "media.truncated", severity: "low", message: `RIFF header declares ${riffEnd} bytes but the file has ${bytes.length}`, source: "media" });
+    }
+  }
+
+  return { metadata, findings };
+}
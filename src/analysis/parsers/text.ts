@@ -0,0 +1,316 @@
+/**
+ * Text Analyzer
+ * Encoding, line endings and counts for text uploads, plus the bidirectional and invisible
+ * characters that let source code read differently from how it compiles (Trojan Source)
+ */
+
+import { latin1 } from "../binary";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+
+export type TextEncoding = "ascii" | "utf-8" | "utf-16le" | "utf-16be" | "utf-32le" | "utf-32be" | "latin-1";
+export type LineEnding = "lf" | "crlf" | "cr" | "mixed" | "none";
+
+export interface TextMetadata {
+  encoding: TextEncoding;
+  /** Encoding named by a byte order mark; null without one */
+  bom: TextEncoding | null;
+  lineEnding: LineEnding;
+  lineEndings: { lf: number; crlf: number; cr: number };
+  lines: number;
+  /** Unicode code points, excluding the byte order mark */
+  characters: number;
+  /** Longest line in code points and its 1-based line number */
+  longestLine: { line: number; length: number };
+  finalNewline: boolean;
+  bidiControls: number;
+  invisibleCharacters: number;
+  /** Only the head of a large file was read; counts cover that part */
+  partial: boolean;
+}
+
+/** Signature ids of formats that are text, whatever their content looks like */
+export const TEXT_SIGNATURES = [
+  "utf8-bom", "utf16le-bom", "utf16be-bom", "utf32le-bom", "utf32be-bom",
+  "xml", "xml-bom", "html-doctype", "html", "svg", "vcalendar", "vcard", "eml", "mbox",
+  "shebang", "shebang-env", "shebang-sh", "reg-text", "regedit4", "ansible-vault", "ssh-public-key",
+  "pem", "pem-certificate", "pem-private-key", "pem-rsa-private-key", "pem-ec-private-key", "openssh-private-key", "pgp-armored",
+];
+
+/** Bytes inspected when deciding whether a file without a signature is text */
+const SAMPLE_BYTES = 8192;
+/** Share of non-whitespace C0 control bytes tolerated in text */
+const MAX_CONTROL_RATIO = 0.01;
+/** Share of zero bytes in alternate positions that marks BOM-less UTF-16 */
+const UTF16_ZERO_RATIO = 0.3;
+const MIN_UTF16_UNITS = 4;
+/** Findings listed per kind; the metadata counts cover the rest */
+const MAX_FINDINGS = 50;
+
+// Tab, line feed, vertical tab, form feed, carriage return and escape (ANSI colour codes)
+const TEXT_CONTROLS = new Set([0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x1b]);
+
+// Checked longest first: the UTF-32 LE mark starts with the UTF-16 LE one
+const BOMS: Array<[TextEncoding, number[]]> = [
+  ["utf-32le", [0xff, 0xfe, 0x00, 0x00]],
+  ["utf-32be", [0x00, 0x00, 0xfe, 0xff]],
+  ["utf-8", [0xef, 0xbb, 0xbf]],
+  ["utf-16le", [0xff, 0xfe]],
+  ["utf-16be", [0xfe, 0xff]],
+];
+
+// Embeddings and overrides are closed by PDF, isolates by PDI
+const BIDI_OPENERS: Record<number, string> = {
+  0x202a: "LEFT-TO-RIGHT EMBEDDING",
+  0x202b: "RIGHT-TO-LEFT EMBEDDING",
+  0x202d: "LEFT-TO-RIGHT OVERRIDE",
+  0x202e: "RIGHT-TO-LEFT OVERRIDE",
+  0x2066: "LEFT-TO-RIGHT ISOLATE",
+  0x2067: "RIGHT-TO-LEFT ISOLATE",
+  0x2068: "FIRST STRONG ISOLATE",
+};
+const BIDI_CLOSERS: Record<number, string> = {
+  0x202c: "POP DIRECTIONAL FORMATTING",
+  0x2069: "POP DIRECTIONAL ISOLATE",
+};
+
+// Zero-width joiners are left out: emoji sequences and many scripts need them
+const INVISIBLE: Record<number, string> = {
+  0x115f: "HANGUL CHOSEONG FILLER",
+  0x1160: "HANGUL JUNGSEONG FILLER",
+  0x180e: "MONGOLIAN VOWEL SEPARATOR",
+  0x200b: "ZERO WIDTH SPACE",
+  0x2060: "WORD JOINER",
+  0x2061: "FUNCTION APPLICATION",
+  0x2062: "INVISIBLE TIMES",
+  0x2063: "INVISIBLE SEPARATOR",
+  0x2064: "INVISIBLE PLUS",
+  0x3164: "HANGUL FILLER",
+  0xfeff: "ZERO WIDTH NO-BREAK SPACE",
+  0xffa0: "HALFWIDTH HANGUL FILLER",
+};
+const TAG_FIRST = 0xe0000;
+const TAG_LAST = 0xe007f;
+
+function bomOf(bytes: Uint8Array): [TextEncoding, number] | null {
+  for (const [encoding, mark] of BOMS) {
+    if (mark.every((byte, i) => bytes[i] === byte)) return [encoding, mark.length];
+  }
+  return null;
+}
+
+/** Byte order of BOM-less UTF-16, recognised by the zero high bytes of Latin characters */
+function utf16Order(sample: Uint8Array): "utf-16le" | "utf-16be" | null {
+  const units = Math.floor(sample.length / 2);
+  if (units < MIN_UTF16_UNITS) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < units * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const order = oddZeros / units >= UTF16_ZERO_RATIO && evenZeros === 0
+    ? "utf-16le"
+    : evenZeros / units >= UTF16_ZERO_RATIO && oddZeros === 0 ? "utf-16be" : null;
+  if (!order) return null;
+
+  // Binary records padded with zeros share the pattern but decode to control characters
+  let control = 0;
+  for (let i = 0; i < units * 2; i += 2) {
+    const unit = order === "utf-16le" ? sample[i] | (sample[i + 1] << 8) : (sample[i] << 8) | sample[i + 1];
+    if ((unit < 0x20 && !TEXT_CONTROLS.has(unit)) || unit === 0x7f) control++;
+  }
+  return control / units <= MAX_CONTROL_RATIO ? order : null;
+}
+
+/**
+ * Whether content without a recognised signature reads as text
+ */
+export function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+  if (sample.length === 0) return false;
+  if (bomOf(sample) || utf16Order(sample)) return true;
+
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return false;
+    if ((byte < 0x20 && !TEXT_CONTROLS.has(byte)) || byte === 0x7f) control++;
+  }
+  return control / sample.length <= MAX_CONTROL_RATIO;
+}
+
+function decodeUtf32(bytes: Uint8Array, littleEndian: boolean): string {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: string[] = [];
+  let codePoints: number[] = [];
+  for (let i = 0; i + 4 <= bytes.length; i += 4) {
+    const value = view.getUint32(i, littleEndian);
+    codePoints.push(value > 0x10ffff || (value >= 0xd800 && value <= 0xdfff) ? 0xfffd : value);
+    if (codePoints.length === 4096) {
+      parts.push(String.fromCodePoint(...codePoints));
+      codePoints = [];
+    }
+  }
+  parts.push(String.fromCodePoint(...codePoints));
+  return parts.join("");
+}
+
+/** Encoding and decoded text; a window's cut-off trailing sequence is dropped rather than replaced */
+function decode(body: Uint8Array, bom: TextEncoding | null, partial: boolean): { encoding: TextEncoding; text: string } {
+  const encoding = bom ?? utf16Order(body.subarray(0, SAMPLE_BYTES));
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    return { encoding, text: new TextDecoder(encoding, { ignoreBOM: true }).decode(body.subarray(0, body.length & ~1)) };
+  }
+  if (encoding === "utf-32le" || encoding === "utf-32be") {
+    return { encoding, text: decodeUtf32(body, encoding === "utf-32le") };
+  }
+
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(body, { stream: partial });
+    if (encoding === "utf-8") return { encoding, text };
+    let ascii = true;
+    for (let i = 0; i < body.length && ascii; i++) ascii = body[i] < 0x80;
+    return { encoding: ascii ? "ascii" : "utf-8", text };
+  } catch {
+    return { encoding: "latin-1", text: latin1(body) };
+  }
+}
+
+function byteWidth(encoding: TextEncoding, codePoint: number): number {
+  switch (encoding) {
+    case "ascii":
+    case "latin-1":
+      return 1;
+    case "utf-8":
+      return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    case "utf-16le":
+    case "utf-16be":
+      return codePoint > 0xffff ? 4 : 2;
+    default:
+      return 4;
+  }
+}
+
+function describe(codePoint: number, name: string): string {
+  return `U+${codePoint.toString(16).toUpperCase().padStart(4, "0")} ${name}`;
+}
+
+interface LineMarks {
+  bidi: Set<string>;
+  bidiOffset: number;
+  /** Embeddings, overrides and isolates still open */
+  depth: number;
+  invisible: Set<string>;
+  invisibleOffset: number;
+}
+
+/**
+ * Describe a text file; `window` is set when `bytes` is only the head of a larger file
+ */
+export function parseText(bytes: Uint8Array, window?: ByteWindow): ParseResult<TextMetadata> {
+  const partial = window !== undefined && bytes.length < window.size;
+  const findings: Finding[] = [];
+  const [bom, bomLength] = bomOf(bytes) ?? [null, 0];
+  const { encoding, text } = decode(bytes.subarray(bomLength), bom, partial);
+
+  let lf = 0;
+  let crlf = 0;
+  let cr = 0;
+  let characters = 0;
+  let bidiControls = 0;
+  let invisibleCharacters = 0;
+  let line = 1;
+  let column = 0;
+  let offset = bomLength;
+  let afterCr = false;
+  const longestLine = { line: 1, length: 0 };
+  const counts = { "text.bidi-control": 0, "text.invisible-character": 0 };
+  let marks: LineMarks | null = null;
+
+  const report = (id: keyof typeof counts, severity: Finding["severity"], message: string, at: number) => {
+    if (counts[id]++ < MAX_FINDINGS) findings.push({ id, severity, message, source: "text", offset: at });
+  };
+
+  const endLine = () => {
+    if (column > longestLine.length) {
+      longestLine.line = line;
+      longestLine.length = column;
+    }
+    if (marks?.bidi.size) {
+      const open = marks.depth > 0 ? "; an embedding is left open at the end of the line, so the code displays in a different order than it runs" : "";
+      report("text.bidi-control", "high", `Line ${line} contains bidirectional control characters: ${[...marks.bidi].join(", ")}${open}`, marks.bidiOffset);
+    }
+    if (marks?.invisible.size) {
+      report("text.invisible-character", "medium", `Line ${line} contains invisible characters: ${[...marks.invisible].join(", ")}`, marks.invisibleOffset);
+    }
+    marks = null;
+    line++;
+    column = 0;
+  };
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    characters++;
+
+    if (codePoint === 0x0a) {
+      if (afterCr) {
+        cr--;
+        crlf++;
+      } else {
+        lf++;
+        endLine();
+      }
+      afterCr = false;
+    } else if (codePoint === 0x0d) {
+      cr++;
+      endLine();
+      afterCr = true;
+    } else {
+      afterCr = false;
+      column++;
+      const bidi = BIDI_OPENERS[codePoint] ?? BIDI_CLOSERS[codePoint];
+      const invisible = INVISIBLE[codePoint] ?? (codePoint >= TAG_FIRST && codePoint <= TAG_LAST ? "TAG CHARACTER" : undefined);
+      if (bidi || invisible) {
+        marks ??= { bidi: new Set(), bidiOffset: offset, depth: 0, invisible: new Set(), invisibleOffset: offset };
+        if (bidi) {
+          if (marks.bidi.size === 0) marks.bidiOffset = offset;
+          marks.bidi.add(describe(codePoint, bidi));
+          marks.depth = BIDI_OPENERS[codePoint] ? marks.depth + 1 : Math.max(0, marks.depth - 1);
+          bidiControls++;
+        } else {
+          if (marks.invisible.size === 0) marks.invisibleOffset = offset;
+          marks.invisible.add(describe(codePoint, invisible!));
+          invisibleCharacters++;
+        }
+      }
+    }
+    offset += byteWidth(encoding, codePoint);
+  }
+
+  const last = text.charCodeAt(text.length - 1);
+  const finalNewline = last === 0x0a || last === 0x0d;
+  if (column > 0 || marks) endLine();
+  const lines = lf + crlf + cr + (finalNewline || text.length === 0 ? 0 : 1);
+
+  const styles = ([["lf", lf], ["crlf", crlf], ["cr", cr]] as const).filter(([, count]) => count > 0);
+  const lineEnding: LineEnding = styles.length === 0 ? "none" : styles.length > 1 ? "mixed" : styles[0][0];
+  if (lineEnding === "mixed") {
+    findings.push({ id: "text.mixed-line-endings", severity: "info", message: `Mixed line endings: ${styles.map(([style, count]) => `${count} ${style.toUpperCase()}`).join(", ")}`, source: "text" });
+  }
+
+  return {
+    metadata: {
+      encoding,
+      bom,
+      lineEnding,
+      lineEndings: { lf, crlf, cr },
+      lines,
+      characters,
+      longestLine,
+      finalNewline,
+      bidiControls,
+      invisibleCharacters,
+      partial,
+    },
+    findings,
+  };
+}
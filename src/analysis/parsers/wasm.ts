@@ -0,0 +1,241 @@
+/**
+ * WebAssembly Parser
+ * Section list, imports, exports and memory limits of a binary module, with findings for
+ * host capabilities the module asks for
+ */
+
+import { utf8 } from "../binary";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+
+export type WasmExternalKind = "function" | "table" | "memory" | "global" | "tag";
+
+export interface WasmSection {
+  id: number;
+  /** Standard section name, or the name of a custom section */
+  name: string;
+  offset: number;
+  size: number;
+}
+
+export interface WasmImport {
+  module: string;
+  name: string;
+  kind: WasmExternalKind;
+}
+
+export interface WasmExport {
+  name: string;
+  kind: WasmExternalKind;
+  index: number;
+}
+
+/** Limits in 64 KiB pages */
+export interface WasmMemory {
+  min: number;
+  max: number | null;
+  shared: boolean;
+  memory64: boolean;
+  imported: boolean;
+}
+
+export interface WasmMetadata {
+  version: number;
+  sections: WasmSection[];
+  imports: WasmImport[];
+  exports: WasmExport[];
+  memories: WasmMemory[];
+  /** Functions defined in the module, excluding imports */
+  functions: number;
+  /** Function index run on instantiation */
+  start: number | null;
+  /** Only the head of a large module was read; later sections are missing */
+  partial: boolean;
+}
+
+const SECTION_NAMES = ["custom", "type", "import", "function", "table", "memory", "global", "export", "start", "element", "code", "data", "datacount", "tag"];
+const KINDS: WasmExternalKind[] = ["function", "table", "memory", "global", "tag"];
+const MAX_LISTED = 5000;
+const PAGE_BYTES = 64 * 1024;
+/** Minimum memory that is unusual outside of emulators and ML runtimes (1 GiB) */
+const LARGE_MEMORY_PAGES = 16384;
+
+// Imports that hand the module more than computation, matched against "module.name"
+const HOST_CAPABILITIES: Array<{ pattern: RegExp; id: string; severity: Finding["severity"]; message: string }> = [
+  { pattern: /^env\.(emscripten_run_script\w*|eval|js_eval)$/, id: "wasm.script-eval", severity: "high", message: "evaluates JavaScript in the host" },
+  { pattern: /^wasi\w*\.sock_\w+$/, id: "wasm.network", severity: "medium", message: "opens or uses network sockets" },
+  { pattern: /^wasi\w*\.(path_open|path_unlink_file|path_remove_directory|path_rename|path_create_directory)$/, id: "wasm.filesystem", severity: "low", message: "opens or modifies files" },
+  { pattern: /^wasi\w*\.proc_(exec|spawn)$/, id: "wasm.process", severity: "high", message: "starts processes" },
+];
+
+class Reader {
+  offset: number;
+
+  constructor(
+    private bytes: Uint8Array,
+    offset: number,
+    private end: number,
+  ) {
+    this.offset = offset;
+  }
+
+  byte(): number {
+    if (this.offset >= this.end) throw new Error(`unexpected end of section at offset ${this.offset}`);
+    return this.bytes[this.offset++];
+  }
+
+  /** Unsigned LEB128; values past 2^53 lose precision, which no count or index reaches */
+  leb(): number {
+    let result = 0;
+    let scale = 1;
+    for (let i = 0; i < 10; i++) {
+      const byte = this.byte();
+      result += (byte & 0x7f) * scale;
+      if ((byte & 0x80) === 0) return result;
+      scale *= 128;
+    }
+    throw new Error(`LEB128 value too long at offset ${this.offset}`);
+  }
+
+  name(): string {
+    const length = this.leb();
+    if (this.offset + length > this.end) throw new Error(`name runs past the section at offset ${this.offset}`);
+    const value = utf8(this.bytes, this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  limits(memory: boolean, imported: boolean): WasmMemory {
+    const flags = this.byte();
+    const min = this.leb();
+    const max = flags & 1 ? this.leb() : null;
+    return { min, max, shared: memory && (flags & 2) !== 0, memory64: memory && (flags & 4) !== 0, imported };
+  }
+}
+
+/**
+ * Parse a WebAssembly binary module
+ */
+export function parseWasm(bytes: Uint8Array, window?: ByteWindow): ParseResult<WasmMetadata> {
+  if (bytes.length < 8 || bytes[0] !== 0x00 || bytes[1] !== 0x61 || bytes[2] !== 0x73 || bytes[3] !== 0x6d) {
+    throw new Error("Missing \\0asm magic");
+  }
+  const partial = window !== undefined && bytes.length < window.size;
+  const findings: Finding[] = [];
+  const metadata: WasmMetadata = {
+    version: new DataView(bytes.buffer, bytes.byteOffset).getUint32(4, true),
+    sections: [],
+    imports: [],
+    exports: [],
+    memories: [],
+    functions: 0,
+    start: null,
+    partial,
+  };
+  if (metadata.version !== 1) {
+    findings.push({ id: "wasm.version", severity: "info", message: `Binary format version ${metadata.version}; only version 1 is standard`, source: "wasm" });
+  }
+
+  const outer = new Reader(bytes, 8, bytes.length);
+  while (outer.offset < bytes.length) {
+    const offset = outer.offset;
+    const id = outer.byte();
+    const size = outer.leb();
+    const start = outer.offset;
+    const end = start + size;
+    if (end > bytes.length) {
+      if (!partial) {
+        findings.push({ id: "wasm.truncated", severity: "medium", message: `Section ${SECTION_NAMES[id] ?? id} runs ${end - bytes.length} bytes past the end of the module`, source: "wasm", offset });
+      }
+      metadata.sections.push({ id, name: SECTION_NAMES[id] ?? `unknown (${id})`, offset, size });
+      break;
+    }
+
+    const reader = new Reader(bytes, start, end);
+    let name = SECTION_NAMES[id] ?? `unknown (${id})`;
+    if (id === 0) {
+      try {
+        name = reader.name();
+      } catch {
+        findings.push({ id: "wasm.malformed-section", severity: "medium", message: "Custom section name runs past the section", source: "wasm", offset });
+      }
+    }
+    if (metadata.sections.length < MAX_LISTED) metadata.sections.push({ id, name, offset, size });
+    if (id >= SECTION_NAMES.length) {
+      findings.push({ id: "wasm.unknown-section", severity: "low", message: `Unknown section id ${id}`, source: "wasm", offset });
+    }
+
+    try {
+      readSection(id, reader, metadata);
+    } catch (error) {
+      findings.push({ id: "wasm.malformed-section", severity: "medium", message: `Malformed ${name} section: ${error instanceof Error ? error.message : error}`, source: "wasm", offset });
+    }
+    outer.offset = end;
+  }
+
+  findings.push(...capabilityFindings(metadata));
+  return { metadata, findings };
+}
+
+function readSection(id: number, reader: Reader, metadata: WasmMetadata): void {
+  if (id === 2) {
+    for (let count = reader.leb(); count > 0; count--) {
+      const module = reader.name();
+      const name = reader.name();
+      const kindByte = reader.byte();
+      const kind = KINDS[kindByte];
+      if (!kind) throw new Error(`unknown import kind ${kindByte}`);
+      if (kind === "memory") {
+        metadata.memories.push(reader.limits(true, true));
+      } else if (kind === "table") {
+        reader.byte();
+        reader.limits(false, true);
+      } else if (kind === "global") {
+        // Value type, mutability
+        reader.byte();
+        reader.byte();
+      } else {
+        // Function type index, or a tag's attribute byte and type index
+        if (kind === "tag") reader.byte();
+        reader.leb();
+      }
+      if (metadata.imports.length < MAX_LISTED) metadata.imports.push({ module, name, kind });
+    }
+  } else if (id === 3) {
+    metadata.functions = reader.leb();
+  } else if (id === 5) {
+    for (let count = reader.leb(); count > 0; count--) metadata.memories.push(reader.limits(true, false));
+  } else if (id === 7) {
+    for (let count = reader.leb(); count > 0; count--) {
+      const name = reader.name();
+      const kindByte = reader.byte();
+      const index = reader.leb();
+      if (metadata.exports.length < MAX_LISTED) metadata.exports.push({ name, kind: KINDS[kindByte] ?? "function", index });
+    }
+  } else if (id === 8) {
+    metadata.start = reader.leb();
+  }
+}
+
+function capabilityFindings(metadata: WasmMetadata): Finding[] {
+  const findings: Finding[] = [];
+  for (const { pattern, id, severity, message } of HOST_CAPABILITIES) {
+    const matched = metadata.imports.filter((entry) => entry.kind === "function" && pattern.test(`${entry.module}.${entry.name}`));
+    if (matched.length === 0) continue;
+    const names = matched.slice(0, 5).map((entry) => `${entry.module}.${entry.name}`).join(", ");
+    findings.push({ id, severity, message: `Module imports ${names}${matched.length > 5 ? ", …" : ""} and so ${message}`, source: "wasm" });
+  }
+
+  for (const memory of metadata.memories) {
+    if (memory.min >= LARGE_MEMORY_PAGES) {
+      findings.push({ id: "wasm.large-memory", severity: "low", message: `Memory starts at ${(memory.min * PAGE_BYTES) / 2 ** 20} MiB`, source: "wasm" });
+    }
+    if (memory.shared) {
+      findings.push({ id: "wasm.shared-memory", severity: "info", message: "Memory is shared between threads", source: "wasm" });
+    }
+  }
+
+  if (metadata.start !== null) {
+    findings.push({ id: "wasm.start-function", severity: "info", message: `Function ${metadata.start} runs as soon as the module is instantiated`, source: "wasm" });
+  }
+  return findings;
+}
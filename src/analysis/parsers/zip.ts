@@ -0,0 +1,411 @@
+/**
+ * ZIP Central Directory Inspector
+ * Locates the end-of-central-directory record, lists entries and cross-checks local headers
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { latin1, u16le, u32le, u64le, utf8 } from "../binary";
+import type { ByteWindow, Finding, ParseResult } from "../types";
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  methodName: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  crc32: number;
+  /** DOS timestamp from the central directory, local time without zone */
+  modified: string | null;
+  /** UTC modification time from the extended-timestamp extra field */
+  modifiedUtc: string | null;
+  encrypted: boolean;
+  directory: boolean;
+  zip64: boolean;
+  localHeaderOffset: number;
+}
+
+export interface ZipEndOfCentralDirectory {
+  offset: number;
+  diskNumber: number;
+  centralDirectoryDisk: number;
+  entriesOnDisk: number;
+  totalEntries: number;
+  centralDirectorySize: number;
+  centralDirectoryOffset: number;
+  comment: string;
+}
+
+export interface ZipMetadata {
+  eocd: ZipEndOfCentralDirectory | null;
+  zip64: boolean;
+  /** Bytes before the first local header, e.g. a self-extractor stub */
+  prependedBytes: number;
+  entries: ZipEntry[];
+  /** Entries present in the central directory but not listed because of MAX_ENTRIES */
+  omittedEntries: number;
+  totalCompressedSize: number;
+  totalUncompressedSize: number;
+  compressionRatio: number;
+  encryptedEntries: number;
+}
+
+/** Signature ids of ZIP and the container formats built on it */
+export const ZIP_SIGNATURES = ["zip", "zip-empty", "zip-spanned", "zip-eocd", "jar", "apk", "ooxml", "odt", "ods", "odp", "odg", "epub", "xps"];
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const EOCD = 0x06054b50;
+const ZIP64_EOCD = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+const MAX_ENTRIES = 10000;
+
+/** Per-entry ratio above which an entry is treated as a decompression bomb */
+const ENTRY_RATIO_LIMIT = 1000;
+/** Declared expansion of the whole archive relative to its size */
+const ARCHIVE_RATIO_LIMIT = 100;
+/** Ratios on tiny archives are meaningless; require this much declared output */
+const BOMB_MIN_UNCOMPRESSED = 100 * 1024 * 1024;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+const METHODS: Record<number, string> = {
+  0: "Stored",
+  1: "Shrunk",
+  6: "Imploded",
+  8: "Deflated",
+  9: "Deflate64",
+  12: "BZIP2",
+  14: "LZMA",
+  93: "Zstandard",
+  95: "XZ",
+  98: "PPMd",
+  99: "AES",
+};
+
+function dosTimestamp(time: number, date: number): string | null {
+  if (date === 0) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const year = 1980 + (date >> 9);
+  const month = (date >> 5) & 0x0f;
+  const day = date & 0x1f;
+  return `${year}-${pad(month)}-${pad(day)}T${pad(time >> 11)}:${pad((time >> 5) & 0x3f)}:${pad((time & 0x1f) * 2)}`;
+}
+
+/** Walk an extra-field block, yielding header id and data bounds */
+function* extraFields(bytes: Uint8Array, start: number, end: number): Generator<[number, number, number]> {
+  let offset = start;
+  while (offset + 4 <= end) {
+    const id = u16le(bytes, offset);
+    const size = u16le(bytes, offset + 2);
+    if (offset + 4 + size > end) return;
+    yield [id, offset + 4, offset + 4 + size];
+    offset += 4 + size;
+  }
+}
+
+/** True when a stored name would land outside the extraction directory */
+export function isUnsafeZipPath(name: string): boolean {
+  const normalized = name.replace(/\\/g, "/");
+  return (
+    normalized.startsWith("/") ||
+    /^[A-Za-z]:/.test(normalized) ||
+    normalized.split("/").includes("..")
+  );
+}
+
+function findEocd(bytes: Uint8Array): number {
+  const floor = Math.max(0, bytes.length - EOCD_SIZE - MAX_COMMENT);
+  for (let offset = bytes.length - EOCD_SIZE; offset >= floor; offset--) {
+    if (u32le(bytes, offset) !== EOCD) continue;
+    // The declared comment must fit inside the file, which rules out stray signatures in entry data
+    if (offset + EOCD_SIZE + u16le(bytes, offset + 20) <= bytes.length) return offset;
+  }
+  return -1;
+}
+
+function readEocd(bytes: Uint8Array, offset: number, base: number): ZipEndOfCentralDirectory {
+  const commentLength = u16le(bytes, offset + 20);
+  return {
+    offset: base + offset,
+    diskNumber: u16le(bytes, offset + 4),
+    centralDirectoryDisk: u16le(bytes, offset + 6),
+    entriesOnDisk: u16le(bytes, offset + 8),
+    totalEntries: u16le(bytes, offset + 10),
+    centralDirectorySize: u32le(bytes, offset + 12),
+    centralDirectoryOffset: u32le(bytes, offset + 16),
+    comment: latin1(bytes, offset + EOCD_SIZE, offset + EOCD_SIZE + commentLength),
+  };
+}
+
+/**
+ * Replace saturated EOCD fields with values from the ZIP64 end record when present.
+ * Returns the record's file offset, or -1 for a plain archive.
+ */
+function applyZip64(bytes: Uint8Array, eocd: ZipEndOfCentralDirectory, base: number): number {
+  const locator = eocd.offset - base - 20;
+  if (locator < 0 || u32le(bytes, locator) !== ZIP64_LOCATOR) return -1;
+  const record = u64le(bytes, locator + 8) - base;
+  if (record < 0 || record + 56 > bytes.length || u32le(bytes, record) !== ZIP64_EOCD) return -1;
+
+  eocd.entriesOnDisk = u64le(bytes, record + 24);
+  eocd.totalEntries = u64le(bytes, record + 32);
+  eocd.centralDirectorySize = u64le(bytes, record + 40);
+  eocd.centralDirectoryOffset = u64le(bytes, record + 48);
+  return base + record;
+}
+
+/**
+ * Parse a ZIP archive's central directory. With a window, `bytes` is the tail of a
+ * larger file and structures before it are reported as unavailable rather than corrupt.
+ */
+export function parseZip(bytes: Uint8Array, window?: ByteWindow): ParseResult<ZipMetadata> {
+  const findings: Finding[] = [];
+  const base = window?.offset ?? 0;
+  const size = window?.size ?? bytes.length;
+  const metadata: ZipMetadata = {
+    eocd: null,
+    zip64: false,
+    prependedBytes: 0,
+    entries: [],
+    omittedEntries: 0,
+    totalCompressedSize: 0,
+    totalUncompressedSize: 0,
+    compressionRatio: 0,
+    encryptedEntries: 0,
+  };
+
+  const eocdOffset = findEocd(bytes);
+  if (eocdOffset < 0) {
+    findings.push({ id: "zip.missing-eocd", severity: "medium", message: "No end-of-central-directory record; archive is truncated or corrupt", source: "zip" });
+    return { metadata, findings };
+  }
+
+  const eocd = readEocd(bytes, eocdOffset, base);
+  metadata.eocd = eocd;
+  const zip64Record = applyZip64(bytes, eocd, base);
+  metadata.zip64 = zip64Record >= 0;
+
+  // A central directory that ends before the end records means bytes were prepended to the archive
+  const directoryEnd = metadata.zip64 ? zip64Record : eocd.offset;
+  let shift = Math.max(0, directoryEnd - (eocd.centralDirectoryOffset + eocd.centralDirectorySize));
+  // An understated directory size looks like prepended data; trust the offset if only it lands on a header
+  if (
+    shift > 0 &&
+    eocd.centralDirectoryOffset >= base &&
+    u32le(bytes, eocd.centralDirectoryOffset - base) === CENTRAL_HEADER &&
+    u32le(bytes, eocd.centralDirectoryOffset + shift - base) !== CENTRAL_HEADER
+  ) {
+    shift = 0;
+  }
+  metadata.prependedBytes = shift;
+  if (shift > 0) {
+    findings.push({ id: "zip.prepended-data", severity: "low", message: `${shift} bytes precede the archive (self-extractor or appended ZIP)`, source: "zip", offset: 0 });
+  }
+  if (eocd.diskNumber !== 0 || eocd.centralDirectoryDisk !== 0) {
+    findings.push({ id: "zip.multi-disk", severity: "low", message: "Archive spans multiple disks; only this part was inspected", source: "zip" });
+  }
+
+  const ranges: Array<{ start: number; end: number; name: string }> = [];
+  const seen = new Set<string>();
+  let offset = eocd.centralDirectoryOffset + shift - base;
+  let parsed = 0;
+  const directoryVisible = offset >= 0;
+  if (!directoryVisible) {
+    findings.push({
+      id: "zip.directory-unavailable",
+      severity: "info",
+      message: `Central directory starts ${-offset} bytes before the inspected window; entries were not listed`,
+      source: "zip",
+    });
+  }
+
+  while (directoryVisible && offset + 46 <= bytes.length && u32le(bytes, offset) === CENTRAL_HEADER) {
+    const flags = u16le(bytes, offset + 8);
+    const method = u16le(bytes, offset + 10);
+    const nameLength = u16le(bytes, offset + 28);
+    const extraLength = u16le(bytes, offset + 30);
+    const commentLength = u16le(bytes, offset + 32);
+    const nameStart = offset + 46;
+    const extraStart = nameStart + nameLength;
+    const extraEnd = extraStart + extraLength;
+    if (extraEnd > bytes.length) break;
+
+    const name = flags & FLAG_UTF8 ? utf8(bytes, nameStart, extraStart) : latin1(bytes, nameStart, extraStart);
+    let compressedSize = u32le(bytes, offset + 20);
+    let uncompressedSize = u32le(bytes, offset + 24);
+    let localHeaderOffset = u32le(bytes, offset + 42);
+    let modifiedUtc: string | null = null;
+    let zip64 = false;
+
+    for (const [id, start, end] of extraFields(bytes, extraStart, extraEnd)) {
+      if (id === 0x0001) {
+        // ZIP64 values appear only for fields saturated in the fixed header, in this order
+        let at = start;
+        zip64 = true;
+        if (uncompressedSize === 0xffffffff && at + 8 <= end) { uncompressedSize = u64le(bytes, at); at += 8; }
+        if (compressedSize === 0xffffffff && at + 8 <= end) { compressedSize = u64le(bytes, at); at += 8; }
+        if (localHeaderOffset === 0xffffffff && at + 8 <= end) { localHeaderOffset = u64le(bytes, at); }
+      } else if (id === 0x5455 && end - start >= 5 && bytes[start] & 1) {
+        modifiedUtc = new Date(u32le(bytes, start + 1) * 1000).toISOString();
+      }
+    }
+    if (zip64) metadata.zip64 = true;
+
+    const entry: ZipEntry = {
+      name,
+      method,
+      methodName: METHODS[method] ?? `Unknown (${method})`,
+      compressedSize,
+      uncompressedSize,
+      crc32: u32le(bytes, offset + 16),
+      modified: dosTimestamp(u16le(bytes, offset + 12), u16le(bytes, offset + 14)),
+      modifiedUtc,
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      directory: name.endsWith("/"),
+      zip64,
+      localHeaderOffset,
+    };
+
+    parsed++;
+    offset = extraEnd + commentLength;
+    metadata.totalCompressedSize += compressedSize;
+    metadata.totalUncompressedSize += uncompressedSize;
+    if (entry.encrypted) metadata.encryptedEntries++;
+    if (metadata.entries.length < MAX_ENTRIES) metadata.entries.push(entry);
+    else metadata.omittedEntries++;
+
+    if (isUnsafeZipPath(name)) {
+      findings.push({ id: "zip.path-traversal", severity: "high", message: `Entry "${name}" escapes the extraction directory`, source: "zip" });
+    }
+    if (seen.has(name)) {
+      findings.push({ id: "zip.duplicate-entry", severity: "medium", message: `Entry "${name}" appears more than once`, source: "zip" });
+    }
+    seen.add(name);
+
+    if (compressedSize > 0 && uncompressedSize / compressedSize > ENTRY_RATIO_LIMIT) {
+      findings.push({
+        id: "zip.compression-ratio",
+        severity: "high",
+        message: `Entry "${name}" expands ${Math.round(uncompressedSize / compressedSize)}x (${uncompressedSize} bytes)`,
+        source: "zip",
+      });
+    }
+
+    // Cross-check the local header the extractor will actually read
+    const absolute = localHeaderOffset + shift;
+    const local = absolute - base;
+    if (local < 0) continue;
+    if (local + 30 > bytes.length || u32le(bytes, local) !== LOCAL_HEADER) {
+      findings.push({ id: "zip.header-mismatch", severity: "medium", message: `Entry "${name}" has no local header at offset ${absolute}`, source: "zip", offset: absolute });
+      continue;
+    }
+    const localFlags = u16le(bytes, local + 6);
+    const localNameLength = u16le(bytes, local + 26);
+    const localName = localFlags & FLAG_UTF8
+      ? utf8(bytes, local + 30, local + 30 + localNameLength)
+      : latin1(bytes, local + 30, local + 30 + localNameLength);
+    const disagreements: string[] = [];
+    if (localName !== name) disagreements.push(`name "${localName}"`);
+    if (u16le(bytes, local + 8) !== method) disagreements.push("method");
+    if (!(localFlags & FLAG_DATA_DESCRIPTOR) && !zip64) {
+      if (u32le(bytes, local + 14) !== entry.crc32) disagreements.push("CRC");
+      if (u32le(bytes, local + 18) !== compressedSize || u32le(bytes, local + 22) !== uncompressedSize) disagreements.push("sizes");
+    }
+    if (disagreements.length > 0) {
+      findings.push({
+        id: "zip.header-mismatch",
+        severity: "medium",
+        message: `Local header for "${name}" disagrees with the central directory (${disagreements.join(", ")})`,
+        source: "zip",
+        offset: absolute,
+      });
+    }
+
+    const dataStart = absolute + 30 + localNameLength + u16le(bytes, local + 28);
+    ranges.push({ start: absolute, end: dataStart + compressedSize, name });
+  }
+
+  if (directoryVisible && parsed !== eocd.totalEntries) {
+    findings.push({
+      id: "zip.entry-count-mismatch",
+      severity: "medium",
+      message: `End record declares ${eocd.totalEntries} entries but the central directory holds ${parsed}`,
+      source: "zip",
+    });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].start < ranges[i - 1].end) {
+      findings.push({
+        id: "zip.overlapping-entries",
+        severity: "high",
+        message: `Entries "${ranges[i - 1].name}" and "${ranges[i].name}" share file data`,
+        source: "zip",
+        offset: ranges[i].start,
+      });
+      break;
+    }
+  }
+
+  metadata.compressionRatio = metadata.totalCompressedSize > 0
+    ? metadata.totalUncompressedSize / metadata.totalCompressedSize
+    : 0;
+  if (
+    metadata.totalUncompressedSize >= BOMB_MIN_UNCOMPRESSED &&
+    metadata.totalUncompressedSize / size > ARCHIVE_RATIO_LIMIT &&
+    !findings.some((finding) => finding.id === "zip.compression-ratio")
+  ) {
+    findings.push({
+      id: "zip.compression-ratio",
+      severity: "high",
+      message: `Archive declares ${metadata.totalUncompressedSize} bytes of content from ${size} bytes`,
+      source: "zip",
+    });
+  }
+
+  if (metadata.zip64) {
+    findings.push({ id: "zip.zip64", severity: "low", message: "Archive uses ZIP64 extensions", source: "zip" });
+  }
+  if (metadata.encryptedEntries > 0) {
+    findings.push({ id: "zip.encrypted", severity: "low", message: `${metadata.encryptedEntries} encrypted entries cannot be inspected`, source: "zip" });
+  }
+
+  return { metadata, findings };
+}
+
+/**
+ * Read and decompress one entry, verifying its size and CRC; `shift` is the archive's prepended byte count
+ */
+export function readZipEntry(bytes: Uint8Array, entry: ZipEntry, shift = 0): Uint8Array {
+  if (entry.encrypted) throw new Error("entry is encrypted");
+  const local = entry.localHeaderOffset + shift;
+  if (local + 30 > bytes.length || u32le(bytes, local) !== LOCAL_HEADER) throw new Error("local header not found");
+
+  const start = local + 30 + u16le(bytes, local + 26) + u16le(bytes, local + 28);
+  const raw = bytes.subarray(start, start + entry.compressedSize);
+  if (raw.length < entry.compressedSize) throw new Error("entry data is truncated");
+
+  let data: Uint8Array;
+  if (entry.method === 0) {
+    data = raw;
+  } else if (entry.method === 8) {
+    // Never inflate past the declared size, which callers budget for
+    try {
+      data = inflateRawSync(raw, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+    } catch {
+      throw new Error("entry does not inflate to its declared size");
+    }
+  } else {
+    throw new Error(`unsupported compression method ${entry.methodName}`);
+  }
+
+  if (data.length !== entry.uncompressedSize) throw new Error("size differs from the central directory");
+  if ((Bun.hash.crc32(data) >>> 0) !== entry.crc32) throw new Error("CRC mismatch");
+  return data;
+}
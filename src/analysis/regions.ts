@@ -0,0 +1,113 @@
+/**
+ * Byte Regions
+ * Flattens the offsets reported by each analyzer into labelled ranges a hex view can highlight
+ */
+
+import type { FileAnalysis } from "./index";
+import type { ExtractedString } from "./strings";
+
+export interface ByteRegion {
+  offset: number;
+  length: number;
+  label: string;
+  /** Analyzer that reported the range, e.g. "png" or "entropy" */
+  source: string;
+}
+
+/** The parts of an analysis that carry offsets; stored analyses may lack some of them */
+export type RegionSource = Partial<Pick<FileAnalysis, "size" | "detection" | "metadata" | "findings" | "entropy">>;
+
+const PNG_CHUNK_OVERHEAD = 12;
+const JPEG_MARKER_LENGTH = 2;
+const ZIP_LOCAL_HEADER_LENGTH = 30;
+const ZIP_EOCD_LENGTH = 22;
+const STRING_LABEL_LENGTH = 40;
+
+/**
+ * Every offset-bearing structure in an analysis, ordered by offset with enclosing ranges first
+ */
+export function analysisRegions({ size, detection, metadata, findings, entropy }: RegionSource): ByteRegion[] {
+  const regions: ByteRegion[] = [];
+
+  for (const candidate of detection?.candidates ?? []) {
+    // Trailer signatures are anchored relative to the end of the file
+    const offset = candidate.offset < 0 ? (size ?? 0) + candidate.offset : candidate.offset;
+    regions.push({ offset, length: candidate.length, label: `${candidate.name} signature`, source: "signature" });
+  }
+
+  for (const chunk of metadata?.png?.chunks ?? []) {
+    regions.push({ offset: chunk.offset, length: chunk.length + PNG_CHUNK_OVERHEAD, label: `${chunk.type} chunk`, source: "png" });
+  }
+
+  for (const segment of metadata?.jpeg?.segments ?? []) {
+    regions.push({ offset: segment.offset, length: JPEG_MARKER_LENGTH + segment.length, label: segment.name, source: "jpeg" });
+  }
+
+  const zip = metadata?.zip;
+  if (zip) {
+    for (const entry of zip.entries) {
+      regions.push({ offset: entry.localHeaderOffset, length: ZIP_LOCAL_HEADER_LENGTH, label: `Local header: ${entry.name}`, source: "zip" });
+    }
+    if (zip.eocd) {
+      const { eocd } = zip;
+      regions.push({ offset: eocd.centralDirectoryOffset, length: eocd.centralDirectorySize, label: "Central directory", source: "zip" });
+      regions.push({ offset: eocd.offset, length: ZIP_EOCD_LENGTH + eocd.comment.length, label: "End of central directory", source: "zip" });
+    }
+  }
+
+  for (const section of metadata?.pdf?.xref ?? []) {
+    regions.push({ offset: section.offset, length: section.length, label: `Cross-reference ${section.kind} (${section.entries} entries)`, source: "pdf" });
+  }
+
+  for (const section of metadata?.executable?.sections ?? []) {
+    if (section.size === 0) continue;
+    regions.push({ offset: section.offset, length: section.size, label: `Section ${section.name || "(unnamed)"}`, source: "executable" });
+  }
+
+  for (const section of metadata?.wasm?.sections ?? []) {
+    regions.push({ offset: section.offset, length: section.size, label: `Section ${section.name}`, source: "wasm" });
+  }
+
+  const boxes = [...(metadata?.media?.structure ?? [])];
+  for (let box = boxes.shift(); box; box = boxes.shift()) {
+    regions.push({ offset: box.offset, length: box.size, label: box.type, source: "media" });
+    boxes.push(...(box.children ?? []));
+  }
+
+  for (const region of entropy?.regions ?? []) {
+    regions.push({ offset: region.offset, length: region.length, label: `High entropy (likely ${region.likely})`, source: "entropy" });
+  }
+
+  for (const finding of findings ?? []) {
+    if (finding.offset === undefined) continue;
+    regions.push({ offset: finding.offset, length: 1, label: finding.message, source: finding.source });
+  }
+
+  return sortRegions(regions);
+}
+
+/**
+ * Regions for strings returned by the strings endpoint
+ */
+export function stringRegions(strings: ExtractedString[]): ByteRegion[] {
+  return strings.map((string) => {
+    const label = string.value.length > STRING_LABEL_LENGTH ? `${string.value.slice(0, STRING_LABEL_LENGTH)}…` : string.value;
+    return {
+      offset: string.offset,
+      length: string.encoding === "ascii" ? string.length : string.length * 2,
+      label: string.kinds.length > 0 ? `${label} [${string.kinds.join(", ")}]` : label,
+      source: "strings",
+    };
+  });
+}
+
+export function sortRegions(regions: ByteRegion[]): ByteRegion[] {
+  return regions.sort((a, b) => a.offset - b.offset || b.length - a.length);
+}
+
+/**
+ * Regions covering a byte, innermost last
+ */
+export function regionsAt(regions: readonly ByteRegion[], offset: number): ByteRegion[] {
+  return regions.filter((region) => offset >= region.offset && offset < region.offset + region.length);
+}
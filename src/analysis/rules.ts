@@ -0,0 +1,732 @@
+/**
+ * Rule Engine
+ * A YARA-inspired rule language: text, hex and regex strings, conditions over their
+ * presence, counts and offsets, and free-form metadata. Rules compile to regular
+ * expressions run over the Latin-1 reading of the bytes, so every match position is
+ * a byte offset.
+ *
+ *   rule EncodedPowerShell : script windows
+ *   {
+ *     meta:
+ *       description = "PowerShell started with an encoded command"
+ *       severity = "high"
+ *     strings:
+ *       $ps = "powershell" nocase
+ *       $enc = /-e(nc(odedcommand)?)?\s+[A-Za-z0-9+\/=]{40,}/i
+ *       $mz = { 4D 5A ?? 00 [2-8] 50 45 }
+ *     condition:
+ *       $ps and ($enc or #mz > 1) and filesize < 1MB
+ *   }
+ *
+ * Conditions support and/or/not, comparisons, + - * \ %, `$a at N`, `$a in (A..B)`,
+ * `#a` counts, `@a[i]` offsets, `!a[i]` lengths, `any|all|none|N of them|($a, $b*)`,
+ * filesize, uint8/16/32(offset) with a `be` suffix for big-endian, and earlier rule names.
+ */
+
+import { u16be, u16le, u32be, u32le } from "./binary";
+
+export type MetaValue = string | number | boolean;
+
+export type Expression =
+  | { type: "boolean"; value: boolean }
+  | { type: "number"; value: number }
+  | { type: "filesize" }
+  | { type: "string"; id: string; at: Expression | null; range: [Expression, Expression] | null }
+  | { type: "count"; id: string }
+  | { type: "offset" | "length"; id: string; index: Expression | null }
+  | { type: "of"; quantifier: "all" | "any" | "none" | Expression; ids: string[] }
+  | { type: "read"; width: 1 | 2 | 4; bigEndian: boolean; offset: Expression }
+  | { type: "rule"; name: string }
+  | { type: "not"; operand: Expression }
+  | { type: "binary"; operator: string; left: Expression; right: Expression };
+
+export interface RuleString {
+  /** Including the leading "$" */
+  id: string;
+  /** Global; run over the Latin-1 reading of the content */
+  pattern: RegExp;
+}
+
+export interface CompiledRule {
+  name: string;
+  tags: string[];
+  meta: Record<string, MetaValue>;
+  strings: RuleString[];
+  condition: Expression;
+  /** File the rule was read from */
+  file: string;
+}
+
+export interface StringMatch {
+  id: string;
+  count: number;
+  /** Offsets of the first hits */
+  offsets: number[];
+}
+
+export interface RuleMatch {
+  rule: string;
+  tags: string[];
+  meta: Record<string, MetaValue>;
+  strings: StringMatch[];
+}
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string, readonly file: string, readonly line: number, readonly column: number) {
+    super(`${file}:${line}:${column}: ${message}`);
+    this.name = "RuleSyntaxError";
+  }
+}
+
+const MAX_HITS_PER_STRING = 1000;
+const REPORTED_OFFSETS = 10;
+const WORD = "A-Za-z0-9_";
+const QUANTIFIERS = new Set(["all", "any", "none"]);
+const READS: Record<string, { width: 1 | 2 | 4; bigEndian: boolean }> = {
+  uint8: { width: 1, bigEndian: false },
+  uint16: { width: 2, bigEndian: false },
+  uint32: { width: 4, bigEndian: false },
+  uint8be: { width: 1, bigEndian: true },
+  uint16be: { width: 2, bigEndian: true },
+  uint32be: { width: 4, bigEndian: true },
+};
+const COMPARISONS = new Set(["==", "!=", "<", "<=", ">", ">="]);
+const PUNCTUATION = ["..", "==", "!=", "<=", ">=", "{", "}", "(", ")", "[", "]", ",", ":", "=", "<", ">", "+", "-", "*", "\\", "%"];
+
+// --- Lexing -----------------------------------------------------------------
+
+type TokenKind = "identifier" | "string-id" | "count" | "offset" | "length" | "number" | "text" | "hex" | "regex" | "punct" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  /** Bytes of a text string */
+  bytes?: number[];
+  /** Flags of a regex */
+  flags?: string;
+  number?: number;
+  line: number;
+  column: number;
+}
+
+const hex2 = (byte: number) => `\\x${byte.toString(16).padStart(2, "0")}`;
+const isWordChar = (char: string) => /[A-Za-z0-9_]/.test(char);
+
+class Lexer {
+  private position = 0;
+  private line = 1;
+  private lineStart = 0;
+  private previous: Token | null = null;
+
+  constructor(private readonly source: string, private readonly file: string) {}
+
+  error(message: string, token?: Token): RuleSyntaxError {
+    return new RuleSyntaxError(message, this.file, token?.line ?? this.line, token?.column ?? this.position - this.lineStart + 1);
+  }
+
+  next(): Token {
+    this.skipSpace();
+    const token = this.read();
+    this.previous = token;
+    return token;
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count; i++) {
+      if (this.source[this.position] === "\n") {
+        this.line++;
+        this.lineStart = this.position + 1;
+      }
+      this.position++;
+    }
+  }
+
+  private skipSpace(): void {
+    const { source } = this;
+    while (this.position < source.length) {
+      const char = source[this.position];
+      if (/\s/.test(char)) this.advance();
+      else if (source.startsWith("//", this.position)) {
+        while (this.position < source.length && source[this.position] !== "\n") this.advance();
+      } else if (source.startsWith("/*", this.position)) {
+        const end = source.indexOf("*/", this.position + 2);
+        if (end < 0) throw this.error("Unterminated comment");
+        this.advance(end + 2 - this.position);
+      } else break;
+    }
+  }
+
+  private read(): Token {
+    const { source } = this;
+    const start = { line: this.line, column: this.position - this.lineStart + 1 };
+    const make = (kind: TokenKind, value: string, extra: Partial<Token> = {}): Token => ({ kind, value, ...start, ...extra });
+    if (this.position >= source.length) return make("eof", "");
+
+    const char = source[this.position];
+    // String values: hex and regex strings only appear straight after "="
+    const afterAssign = this.previous?.kind === "punct" && this.previous.value === "=";
+    if (afterAssign && char === "{") return make("hex", this.readHex());
+    if (afterAssign && char === "/") {
+      const { pattern, flags } = this.readRegex();
+      return make("regex", pattern, { flags });
+    }
+    if (char === "\"") return make("text", "", { bytes: this.readText() });
+
+    const sigil = { $: "string-id", "#": "count", "@": "offset", "!": "length" }[char] as TokenKind | undefined;
+    if (sigil && (sigil === "string-id" || isWordChar(source[this.position + 1] ?? ""))) {
+      this.advance();
+      let name = "";
+      while (this.position < source.length && isWordChar(source[this.position])) {
+        name += source[this.position];
+        this.advance();
+      }
+      if (sigil === "string-id" && source[this.position] === "*") {
+        name += "*";
+        this.advance();
+      }
+      if (name === "") throw this.error("Anonymous strings are not supported");
+      return make(sigil, `$${name}`);
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^(0x[0-9a-fA-F]+|[0-9]+)(KB|MB)?/.exec(source.slice(this.position, this.position + 32))!;
+      this.advance(match[0].length);
+      const multiplier = match[2] === "KB" ? 1024 : match[2] === "MB" ? 1024 * 1024 : 1;
+      return make("number", match[0], { number: Number(match[1]) * multiplier });
+    }
+    if (isWordChar(char)) {
+      const match = /^[A-Za-z0-9_]+/.exec(source.slice(this.position, this.position + 256))!;
+      this.advance(match[0].length);
+      return make("identifier", match[0]);
+    }
+    for (const punct of PUNCTUATION) {
+      if (source.startsWith(punct, this.position)) {
+        this.advance(punct.length);
+        return make("punct", punct);
+      }
+    }
+    throw this.error(`Unexpected character "${char}"`);
+  }
+
+  /** A double-quoted string as bytes: UTF-8 for the characters, raw for \xNN escapes */
+  private readText(): number[] {
+    const { source } = this;
+    const bytes: number[] = [];
+    const encoder = new TextEncoder();
+    this.advance();
+    while (true) {
+      const char = source[this.position];
+      if (char === undefined || char === "\n") throw this.error("Unterminated string");
+      this.advance();
+      if (char === "\"") return bytes;
+      if (char !== "\\") {
+        bytes.push(...encoder.encode(char));
+        continue;
+      }
+      const escape = source[this.position];
+      this.advance();
+      if (escape === "x") {
+        const digits = source.slice(this.position, this.position + 2);
+        if (!/^[0-9a-fA-F]{2}$/.test(digits)) throw this.error("Expected two hex digits after \\x");
+        bytes.push(parseInt(digits, 16));
+        this.advance(2);
+      } else {
+        const value = { n: 0x0a, r: 0x0d, t: 0x09, "\"": 0x22, "\\": 0x5c }[escape];
+        if (value === undefined) throw this.error(`Unknown escape \\${escape}`);
+        bytes.push(value);
+      }
+    }
+  }
+
+  /** Hex string body as regular expression source */
+  private readHex(): string {
+    const end = this.source.indexOf("}", this.position);
+    if (end < 0) throw this.error("Unterminated hex string");
+    const body = this.source.slice(this.position + 1, end);
+    this.advance(end + 1 - this.position);
+
+    let pattern = "";
+    let bytes = 0;
+    let depth = 0;
+    for (const part of body.match(/\[[^\]]*\]|[0-9a-fA-F?]{2}|[()|]|\S/g) ?? []) {
+      if (part === "(") {
+        depth++;
+        pattern += "(?:";
+      } else if (part === ")") {
+        if (depth-- === 0) throw this.error("Unbalanced ) in hex string");
+        pattern += ")";
+      } else if (part === "|") {
+        if (depth === 0) throw this.error("Alternatives in hex strings need parentheses");
+        pattern += "|";
+      } else if (part.startsWith("[")) {
+        const jump = /^\[\s*(\d*)\s*(?:(-)\s*(\d*))?\s*\]$/.exec(part);
+        if (!jump) throw this.error(`Malformed jump ${part}`);
+        const min = jump[1] === "" ? 0 : Number(jump[1]);
+        const max = jump[2] ? jump[3] : jump[1];
+        if (max !== "" && Number(max) < min) throw this.error(`Malformed jump ${part}`);
+        pattern += `[\\s\\S]{${min},${max}}`;
+      } else if (/^[0-9a-fA-F?]{2}$/.test(part)) {
+        bytes++;
+        pattern += this.hexByte(part);
+      } else {
+        throw this.error(`Unexpected "${part}" in hex string`);
+      }
+    }
+    if (depth !== 0) throw this.error("Unbalanced ( in hex string");
+    if (bytes === 0) throw this.error("Hex string has no bytes");
+    return pattern;
+  }
+
+  private hexByte(pair: string): string {
+    const [high, low] = [pair[0], pair[1]];
+    if (high === "?" && low === "?") return "[\\s\\S]";
+    if (low === "?") {
+      const base = parseInt(high, 16) << 4;
+      return `[${hex2(base)}-${hex2(base | 0x0f)}]`;
+    }
+    if (high === "?") {
+      const nibble = parseInt(low, 16);
+      return `[${Array.from({ length: 16 }, (_, index) => hex2((index << 4) | nibble)).join("")}]`;
+    }
+    return hex2(parseInt(pair, 16));
+  }
+
+  private readRegex(): { pattern: string; flags: string } {
+    const { source } = this;
+    let pattern = "";
+    let inClass = false;
+    this.advance();
+    while (true) {
+      const char = source[this.position];
+      if (char === undefined || char === "\n") throw this.error("Unterminated regular expression");
+      this.advance();
+      if (char === "\\") {
+        pattern += char + (source[this.position] ?? "");
+        this.advance();
+        continue;
+      }
+      if (char === "/" && !inClass) break;
+      if (char === "[") inClass = true;
+      else if (char === "]") inClass = false;
+      pattern += char;
+    }
+    let flags = "";
+    while (/[is]/.test(source[this.position] ?? "")) {
+      flags += source[this.position];
+      this.advance();
+    }
+    if (pattern === "") throw this.error("Empty regular expression");
+    return { pattern, flags };
+  }
+}
+
+// --- Parsing ----------------------------------------------------------------
+
+class RuleParser {
+  private readonly lexer: Lexer;
+  private token: Token;
+  private stringIds: string[] = [];
+
+  constructor(source: string, private readonly file: string, private readonly known: Set<string>) {
+    this.lexer = new Lexer(source, file);
+    this.token = this.lexer.next();
+  }
+
+  parseFile(): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+    while (this.token.kind !== "eof") {
+      const rule = this.parseRule();
+      rules.push(rule);
+      this.known.add(rule.name);
+    }
+    return rules;
+  }
+
+  private error(message: string, token = this.token): RuleSyntaxError {
+    return this.lexer.error(message, token);
+  }
+
+  private advance(): Token {
+    const current = this.token;
+    this.token = this.lexer.next();
+    return current;
+  }
+
+  private is(kind: TokenKind, value?: string): boolean {
+    return this.token.kind === kind && (value === undefined || this.token.value === value);
+  }
+
+  private accept(kind: TokenKind, value?: string): Token | null {
+    return this.is(kind, value) ? this.advance() : null;
+  }
+
+  private expect(kind: TokenKind, value?: string): Token {
+    const token = this.accept(kind, value);
+    if (!token) throw this.error(`Expected ${value ? `"${value}"` : kind}, found "${this.token.value || this.token.kind}"`);
+    return token;
+  }
+
+  private parseRule(): CompiledRule {
+    this.expect("identifier", "rule");
+    const nameToken = this.expect("identifier");
+    const name = nameToken.value;
+    if (this.known.has(name)) throw this.error(`Rule ${name} is defined twice`, nameToken);
+
+    const tags: string[] = [];
+    if (this.accept("punct", ":")) {
+      while (this.is("identifier")) tags.push(this.advance().value);
+      if (tags.length === 0) throw this.error("Expected tags after \":\"");
+    }
+    this.expect("punct", "{");
+
+    const meta: Record<string, MetaValue> = {};
+    if (this.accept("identifier", "meta")) {
+      this.expect("punct", ":");
+      while (this.is("identifier") && !["strings", "condition"].includes(this.token.value)) {
+        const key = this.advance().value;
+        this.expect("punct", "=");
+        meta[key] = this.parseMetaValue();
+      }
+    }
+
+    const strings: RuleString[] = [];
+    this.stringIds = [];
+    if (this.accept("identifier", "strings")) {
+      this.expect("punct", ":");
+      while (this.is("string-id")) strings.push(this.parseString());
+    }
+
+    this.expect("identifier", "condition");
+    this.expect("punct", ":");
+    const condition = this.parseOr();
+    this.expect("punct", "}");
+    return { name, tags, meta, strings, condition, file: this.file };
+  }
+
+  private parseMetaValue(): MetaValue {
+    if (this.is("text")) return new TextDecoder().decode(new Uint8Array(this.advance().bytes!));
+    const negative = this.accept("punct", "-") !== null;
+    if (this.is("number")) return (negative ? -1 : 1) * this.advance().number!;
+    if (!negative && (this.is("identifier", "true") || this.is("identifier", "false"))) return this.advance().value === "true";
+    throw this.error("Meta values are strings, numbers or true/false");
+  }
+
+  private parseString(): RuleString {
+    const idToken = this.advance();
+    const id = idToken.value;
+    if (id.endsWith("*")) throw this.error(`String ${id} cannot be a wildcard`, idToken);
+    if (this.stringIds.includes(id)) throw this.error(`String ${id} is defined twice`, idToken);
+    this.expect("punct", "=");
+
+    const value = this.advance();
+    if (!["text", "hex", "regex"].includes(value.kind)) throw this.error("Expected a text, hex or regex string", value);
+    const modifiers = new Set<string>();
+    while (this.is("identifier") && ["nocase", "wide", "ascii", "fullword"].includes(this.token.value)) modifiers.add(this.advance().value);
+    if (value.kind === "hex" && modifiers.size > 0) throw this.error("Hex strings take no modifiers", value);
+    if (value.kind === "regex" && modifiers.has("wide")) throw this.error("wide is not supported for regular expressions", value);
+
+    let source: string;
+    let flags = value.kind === "regex" ? value.flags! : "";
+    if (value.kind === "text") {
+      if (value.bytes!.length === 0) throw this.error("Empty string", value);
+      const ascii = value.bytes!.map(hex2).join("");
+      const wide = value.bytes!.map((byte) => hex2(byte) + "\\x00").join("");
+      source = !modifiers.has("wide") ? ascii : modifiers.has("ascii") ? `${ascii}|${wide}` : wide;
+    } else {
+      source = value.value;
+    }
+    if (modifiers.has("nocase") && !flags.includes("i")) flags += "i";
+    if (modifiers.has("fullword")) source = `(?<![${WORD}])(?:${source})(?![${WORD}])`;
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, `${flags}g`);
+    } catch (error) {
+      throw this.error(`Invalid pattern for ${id}: ${error instanceof Error ? error.message : error}`, value);
+    }
+    this.stringIds.push(id);
+    return { id, pattern };
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.accept("identifier", "or")) left = { type: "binary", operator: "or", left, right: this.parseAnd() };
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.accept("identifier", "and")) left = { type: "binary", operator: "and", left, right: this.parseNot() };
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.accept("identifier", "not")) return { type: "not", operand: this.parseNot() };
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+    if (this.token.kind === "punct" && COMPARISONS.has(this.token.value)) {
+      const operator = this.advance().value;
+      return { type: "binary", operator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (this.is("punct", "+") || this.is("punct", "-")) {
+      const operator = this.advance().value;
+      left = { type: "binary", operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parsePrimary();
+    while (this.is("punct", "*") || this.is("punct", "\\") || this.is("punct", "%")) {
+      const operator = this.advance().value;
+      left = { type: "binary", operator, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private stringRef(token: Token): string {
+    if (!this.stringIds.includes(token.value)) throw this.error(`Undefined string ${token.value}`, token);
+    return token.value;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.token;
+
+    if (this.accept("punct", "(")) {
+      const inner = this.parseOr();
+      this.expect("punct", ")");
+      return inner;
+    }
+    if (token.kind === "number") {
+      this.advance();
+      if (this.is("identifier", "of")) return this.parseOf({ type: "number", value: token.number! });
+      return { type: "number", value: token.number! };
+    }
+    if (this.accept("punct", "-")) {
+      return { type: "binary", operator: "-", left: { type: "number", value: 0 }, right: this.parsePrimary() };
+    }
+    if (token.kind === "string-id") {
+      this.advance();
+      const id = this.stringRef(token);
+      if (this.accept("identifier", "at")) return { type: "string", id, at: this.parseAdditive(), range: null };
+      if (this.accept("identifier", "in")) {
+        this.expect("punct", "(");
+        const from = this.parseAdditive();
+        this.expect("punct", "..");
+        const to = this.parseAdditive();
+        this.expect("punct", ")");
+        return { type: "string", id, at: null, range: [from, to] };
+      }
+      return { type: "string", id, at: null, range: null };
+    }
+    if (token.kind === "count") {
+      this.advance();
+      return { type: "count", id: this.stringRef(token) };
+    }
+    if (token.kind === "offset" || token.kind === "length") {
+      this.advance();
+      const id = this.stringRef(token);
+      let index: Expression | null = null;
+      if (this.accept("punct", "[")) {
+        index = this.parseAdditive();
+        this.expect("punct", "]");
+      }
+      return { type: token.kind, id, index };
+    }
+    if (token.kind === "identifier") {
+      const word = token.value;
+      this.advance();
+      if (word === "true" || word === "false") return { type: "boolean", value: word === "true" };
+      if (word === "filesize") return { type: "filesize" };
+      if (QUANTIFIERS.has(word)) return this.parseOf(word as "all" | "any" | "none");
+      if (READS[word]) {
+        this.expect("punct", "(");
+        const offset = this.parseAdditive();
+        this.expect("punct", ")");
+        return { type: "read", ...READS[word], offset };
+      }
+      if (this.known.has(word)) return { type: "rule", name: word };
+      throw this.error(`Unknown identifier ${word}`, token);
+    }
+    throw this.error(`Unexpected "${token.value || token.kind}" in condition`);
+  }
+
+  private parseOf(quantifier: "all" | "any" | "none" | Expression): Expression {
+    this.expect("identifier", "of");
+    if (this.accept("identifier", "them")) {
+      if (this.stringIds.length === 0) throw this.error("Rule has no strings for \"them\"");
+      return { type: "of", quantifier, ids: [...this.stringIds] };
+    }
+
+    this.expect("punct", "(");
+    const ids = new Set<string>();
+    do {
+      const token = this.expect("string-id");
+      if (token.value.endsWith("*")) {
+        const prefix = token.value.slice(0, -1);
+        const matched = this.stringIds.filter((id) => id.startsWith(prefix));
+        if (matched.length === 0) throw this.error(`No strings match ${token.value}`, token);
+        matched.forEach((id) => ids.add(id));
+      } else {
+        ids.add(this.stringRef(token));
+      }
+    } while (this.accept("punct", ","));
+    this.expect("punct", ")");
+    return { type: "of", quantifier, ids: [...ids] };
+  }
+}
+
+/**
+ * Compile the rules in one file; `known` holds rule names from earlier files, which
+ * conditions may refer to, and gains this file's names
+ */
+export function compileRules(source: string, file = "<rules>", known = new Set<string>()): CompiledRule[] {
+  return new RuleParser(source, file, known).parseFile();
+}
+
+// --- Matching ---------------------------------------------------------------
+
+interface Hits {
+  offsets: number[];
+  lengths: number[];
+}
+
+interface Context {
+  bytes: Uint8Array;
+  size: number;
+  hits: Map<string, Hits>;
+  results: Map<string, boolean>;
+}
+
+type Value = number | boolean | null;
+
+const truthy = (value: Value) => value !== null && value !== false && value !== 0;
+const numeric = (value: Value): number | null => (value === null ? null : typeof value === "boolean" ? Number(value) : value);
+
+function findHits(text: string, pattern: RegExp): Hits {
+  const hits: Hits = { offsets: [], lengths: [] };
+  const regex = new RegExp(pattern);
+  let match: RegExpExecArray | null;
+  while (hits.offsets.length < MAX_HITS_PER_STRING && (match = regex.exec(text))) {
+    hits.offsets.push(match.index);
+    hits.lengths.push(match[0].length);
+    // Step one byte so overlapping matches are counted, as YARA does
+    regex.lastIndex = match.index + 1;
+  }
+  return hits;
+}
+
+function read(bytes: Uint8Array, offset: number, width: 1 | 2 | 4, bigEndian: boolean): number | null {
+  if (!Number.isInteger(offset) || offset < 0 || offset + width > bytes.length) return null;
+  if (width === 1) return bytes[offset];
+  if (width === 2) return bigEndian ? u16be(bytes, offset) : u16le(bytes, offset);
+  return bigEndian ? u32be(bytes, offset) : u32le(bytes, offset);
+}
+
+function evaluate(expression: Expression, context: Context): Value {
+  switch (expression.type) {
+    case "boolean":
+    case "number":
+      return expression.value;
+    case "filesize":
+      return context.size;
+    case "rule":
+      return context.results.get(expression.name) ?? false;
+    case "not": {
+      // Undefined stays undefined, so `not` of a read past the end is not a match
+      const operand = evaluate(expression.operand, context);
+      return operand === null ? null : !truthy(operand);
+    }
+    case "count":
+      return context.hits.get(expression.id)!.offsets.length;
+    case "offset":
+    case "length": {
+      const hits = context.hits.get(expression.id)!;
+      const index = expression.index ? numeric(evaluate(expression.index, context)) : 1;
+      if (index === null || index < 1) return null;
+      return (expression.type === "offset" ? hits.offsets : hits.lengths)[index - 1] ?? null;
+    }
+    case "string": {
+      const { offsets } = context.hits.get(expression.id)!;
+      if (expression.at) {
+        const at = numeric(evaluate(expression.at, context));
+        return at !== null && offsets.includes(at);
+      }
+      if (expression.range) {
+        const from = numeric(evaluate(expression.range[0], context));
+        const to = numeric(evaluate(expression.range[1], context));
+        return from !== null && to !== null && offsets.some((offset) => offset >= from && offset <= to);
+      }
+      return offsets.length > 0;
+    }
+    case "of": {
+      const matched = expression.ids.filter((id) => context.hits.get(id)!.offsets.length > 0).length;
+      if (expression.quantifier === "all") return matched === expression.ids.length;
+      if (expression.quantifier === "any") return matched > 0;
+      if (expression.quantifier === "none") return matched === 0;
+      const wanted = numeric(evaluate(expression.quantifier, context));
+      return wanted !== null && matched >= wanted;
+    }
+    case "read": {
+      const offset = numeric(evaluate(expression.offset, context));
+      return offset === null ? null : read(context.bytes, offset, expression.width, expression.bigEndian);
+    }
+    case "binary": {
+      const { operator } = expression;
+      if (operator === "and") return truthy(evaluate(expression.left, context)) && truthy(evaluate(expression.right, context));
+      if (operator === "or") return truthy(evaluate(expression.left, context)) || truthy(evaluate(expression.right, context));
+
+      const left = numeric(evaluate(expression.left, context));
+      const right = numeric(evaluate(expression.right, context));
+      if (left === null || right === null) return null;
+      switch (operator) {
+        case "==": return left === right;
+        case "!=": return left !== right;
+        case "<": return left < right;
+        case "<=": return left <= right;
+        case ">": return left > right;
+        case ">=": return left >= right;
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "\\": return right === 0 ? null : Math.trunc(left / right);
+        default: return right === 0 ? null : left % right;
+      }
+    }
+  }
+}
+
+/**
+ * Rules whose condition holds for the content; `bytes` start at file offset 0 and
+ * `size` is the size of the whole file
+ */
+export function matchRules(bytes: Uint8Array, rules: readonly CompiledRule[], size = bytes.length): RuleMatch[] {
+  const text = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length).toString("latin1");
+  const results = new Map<string, boolean>();
+  const matches: RuleMatch[] = [];
+
+  for (const rule of rules) {
+    const hits = new Map(rule.strings.map((string) => [string.id, findHits(text, string.pattern)]));
+    const matched = truthy(evaluate(rule.condition, { bytes, size, hits, results }));
+    results.set(rule.name, matched);
+    if (!matched) continue;
+
+    matches.push({
+      rule: rule.name,
+      tags: rule.tags,
+      meta: rule.meta,
+      strings: rule.strings
+        .map(({ id }) => ({ id, count: hits.get(id)!.offsets.length, offsets: hits.get(id)!.offsets.slice(0, REPORTED_OFFSETS) }))
+        .filter((string) => string.count > 0),
+    });
+  }
+  return matches;
+}
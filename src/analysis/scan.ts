@@ -0,0 +1,177 @@
+/**
+ * Local Scanning
+ * Runs the rule files in config/rules and the hash blocklist in config/hash-blocklist.txt
+ * against every analyzed file, offline, and turns the outcome into a verdict
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { hashBytes, type FileHashes } from "./hashing";
+import { compileRules, matchRules, type CompiledRule, type RuleMatch } from "./rules";
+import type { Finding, ParseResult, RiskSummary, Severity } from "./types";
+
+export type Verdict = "clean" | "suspicious" | "malicious";
+
+export type BlocklistAlgorithm = "md5" | "sha1" | "sha256";
+
+export interface BlocklistMatch {
+  algorithm: BlocklistAlgorithm;
+  digest: string;
+  /** Label given after the digest in the blocklist, if any */
+  name: string | null;
+}
+
+export interface ScanResult {
+  /** Rules loaded; 0 when no rule files are installed */
+  rules: number;
+  matches: RuleMatch[];
+  blocklisted: BlocklistMatch | null;
+  /** Only the head of a large file was matched */
+  partial: boolean;
+}
+
+export interface RuleSet {
+  rules: CompiledRule[];
+  /** Lowercase hex digest to label */
+  blocklist: Map<string, string | null>;
+}
+
+export const RULES_DIR = join(import.meta.dir, "../../config/rules");
+export const BLOCKLIST_PATH = join(import.meta.dir, "../../config/hash-blocklist.txt");
+
+const DIGEST_LENGTHS: Record<number, BlocklistAlgorithm> = { 32: "md5", 40: "sha1", 64: "sha256" };
+const SEVERITIES: readonly Severity[] = ["info", "low", "medium", "high", "critical"];
+const DEFAULT_SEVERITY: Severity = "high";
+
+let defaultSet: RuleSet | null = null;
+
+/**
+ * Read a blocklist: one MD5, SHA-1 or SHA-256 digest per line, optionally followed by a
+ * label; blank lines and lines starting with "#" are ignored
+ */
+export function parseBlocklist(source: string, file = "<blocklist>"): Map<string, string | null> {
+  const entries = new Map<string, string | null>();
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) return;
+    const [digest, ...label] = line.split(/\s+/);
+    if (!/^[0-9a-f]+$/i.test(digest) || !DIGEST_LENGTHS[digest.length]) {
+      throw new Error(`${file}:${index + 1}: expected an MD5, SHA-1 or SHA-256 digest`);
+    }
+    entries.set(digest.toLowerCase(), label.length > 0 ? label.join(" ") : null);
+  });
+  return entries;
+}
+
+/**
+ * Compile every .yar/.yara file in `dir` in name order, so rules may refer to rules
+ * in files sorted before them, and read the blocklist when it exists
+ */
+export function loadRuleSet(dir = RULES_DIR, blocklistPath = BLOCKLIST_PATH): RuleSet {
+  const known = new Set<string>();
+  const rules: CompiledRule[] = [];
+  let files: string[] = [];
+  try {
+    files = readdirSync(dir).filter((name) => /\.ya?ra?$/i.test(name)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  for (const name of files) rules.push(...compileRules(readFileSync(join(dir, name), "utf8"), name, known));
+
+  let blocklist = new Map<string, string | null>();
+  try {
+    blocklist = parseBlocklist(readFileSync(blocklistPath, "utf8"), blocklistPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  return { rules, blocklist };
+}
+
+/** Rule set from RULES_DIR and BLOCKLIST_PATH, read on first use */
+export function defaultRuleSet(): RuleSet {
+  if (!defaultSet) defaultSet = loadRuleSet();
+  return defaultSet;
+}
+
+function severityOf(match: RuleMatch): Severity {
+  const severity = match.meta.severity;
+  return typeof severity === "string" && SEVERITIES.includes(severity as Severity) ? (severity as Severity) : DEFAULT_SEVERITY;
+}
+
+/** A rule's `verdict` meta, or malicious for critical rules and suspicious otherwise */
+function ruleVerdict(match: RuleMatch): Verdict {
+  const { verdict } = match.meta;
+  if (verdict === "malicious" || verdict === "suspicious") return verdict;
+  return severityOf(match) === "critical" ? "malicious" : "suspicious";
+}
+
+export interface ScanInput {
+  /** Size of the whole file; `bytes` is its head when smaller */
+  size: number;
+  /** Digests of the whole file, when already computed; needed for windows */
+  hashes?: FileHashes;
+}
+
+/**
+ * Match the rule set against content starting at file offset 0, and look the file's
+ * digests up in the blocklist
+ */
+export function scanContent(bytes: Uint8Array, { size, hashes }: ScanInput, ruleSet: RuleSet = defaultRuleSet()): ParseResult<ScanResult> {
+  const whole = bytes.length >= size;
+  const matches = matchRules(bytes, ruleSet.rules, size);
+
+  let blocklisted: BlocklistMatch | null = null;
+  let digests = hashes ?? {};
+  if (ruleSet.blocklist.size > 0 && !hashes && whole) {
+    const lengths = new Set([...ruleSet.blocklist.keys()].map((digest) => digest.length));
+    digests = hashBytes(bytes, Object.entries(DIGEST_LENGTHS).filter(([length]) => lengths.has(Number(length))).map(([, algorithm]) => algorithm));
+  }
+  // Strongest digest first, so the reported match is the least ambiguous one
+  for (const algorithm of Object.values(DIGEST_LENGTHS).reverse()) {
+    const digest = digests[algorithm];
+    if (digest && ruleSet.blocklist.has(digest)) {
+      blocklisted = { algorithm, digest, name: ruleSet.blocklist.get(digest)! };
+      break;
+    }
+  }
+
+  const findings: Finding[] = [];
+  if (blocklisted) {
+    findings.push({
+      id: "blocklist",
+      severity: "critical",
+      message: `${blocklisted.algorithm.toUpperCase()} is on the local blocklist${blocklisted.name ? ` as ${blocklisted.name}` : ""}`,
+      source: "blocklist",
+    });
+  }
+  for (const match of matches) {
+    const description = typeof match.meta.description === "string" ? `: ${match.meta.description}` : "";
+    findings.push({
+      id: `rules.${match.rule}`,
+      severity: severityOf(match),
+      message: `Matched rule ${match.rule}${description}`,
+      source: "rules",
+      ...(match.strings.length > 0 ? { offset: Math.min(...match.strings.map((string) => string.offsets[0])) } : {}),
+    });
+  }
+
+  const scan: ScanResult = {
+    rules: ruleSet.rules.length,
+    matches,
+    blocklisted,
+    partial: !whole,
+  };
+  return { metadata: scan, findings };
+}
+
+/**
+ * Overall verdict: a blocklisted file or a malicious rule match is malicious; any other
+ * rule match, or high-risk findings from the parsers, make it suspicious
+ */
+export function verdictOf(scan: ScanResult, risk: RiskSummary): Verdict {
+  if (scan.blocklisted) return "malicious";
+  const verdicts = scan.matches.map(ruleVerdict);
+  if (verdicts.includes("malicious")) return "malicious";
+  if (verdicts.includes("suspicious") || risk.level === "high" || risk.level === "critical") return "suspicious";
+  return "clean";
+}
@@ -0,0 +1,302 @@
+/**
+ * Secret Scanning
+ * Credentials in text content and in the printable strings of binaries, matched
+ * against the JSONC rule set in config/secrets.jsonc
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { indexOfNul } from "./binary";
+import { looksLikeText } from "./parsers/text";
+import { extractStrings } from "./strings";
+import type { ByteWindow, Finding, ParseResult, Severity } from "./types";
+
+export interface SecretRule {
+  /** Kebab-case; findings are reported as "secrets.<id>" */
+  id: string;
+  description: string;
+  /** Global; capture group 1, when present, is the secret */
+  pattern: RegExp;
+  /** 0..1, how likely a match is a live credential */
+  confidence: number;
+  severity: Severity;
+  /** Lowercase; the rule only runs on content containing one of them */
+  keywords: string[];
+  /** Bits per character below which a match is taken as a non-secret */
+  minEntropy: number | null;
+}
+
+export interface SecretHit {
+  rule: string;
+  /** 1-based; columns count bytes from the start of the line */
+  line: number;
+  column: number;
+  offset: number;
+  /** The match with the secret masked */
+  preview: string;
+  /** The rule's confidence, lowered for values that look like placeholders */
+  confidence: number;
+}
+
+export interface SecretMetadata {
+  /** "text" when the content was scanned as a whole, "strings" for binaries */
+  scanned: "text" | "strings";
+  rules: number;
+  hits: SecretHit[];
+  /** Only part of the file was scanned, or the hit limit was reached */
+  partial: boolean;
+}
+
+/** Rule set shipped with the analyzer; organization-specific tokens are added there */
+export const SECRET_RULES_PATH = join(import.meta.dir, "../../config/secrets.jsonc");
+
+const SEVERITIES: readonly Severity[] = ["info", "low", "medium", "high", "critical"];
+const RULE_ID = /^[a-z0-9][a-z0-9-]*$/;
+const RULE_FLAGS = /^[imsu]*$/;
+
+const MAX_SCAN_BYTES = 8 * 1024 * 1024;
+const MAX_HITS = 500;
+const MIN_STRING_LENGTH = 8;
+const MAX_STRING_LENGTH = 4096;
+const MAX_PREVIEW = 120;
+/** Secrets this short are masked entirely */
+const MIN_REVEAL_LENGTH = 12;
+const REVEALED = 4;
+
+// Values documentation and templates use in place of real credentials
+const PLACEHOLDER = /example|sample|dummy|placeholder|changeme|redacted|your[_-]|x{5,}|\*{3,}|<[^>]*>|\$\{|\{\{|(.)\1{7,}/i;
+const PLACEHOLDER_FACTOR = 0.2;
+/** Hits below this confidence are reported as informational */
+const LIKELY = 0.3;
+
+let defaultRules: SecretRule[] | null = null;
+
+function ruleError(index: number, message: string): Error {
+  return new Error(`Secret rule ${index}: ${message}`);
+}
+
+function compileRule(definition: unknown, index: number): SecretRule {
+  if (typeof definition !== "object" || definition === null) throw ruleError(index, "expected an object");
+  const { id, description, pattern, flags = "", confidence, severity, keywords = [], minEntropy = null } = definition as Record<string, unknown>;
+
+  if (typeof id !== "string" || !RULE_ID.test(id)) throw ruleError(index, "id must be kebab-case");
+  if (typeof description !== "string") throw ruleError(index, `${id} needs a description`);
+  if (typeof pattern !== "string" || pattern === "") throw ruleError(index, `${id} needs a pattern`);
+  if (typeof flags !== "string" || !RULE_FLAGS.test(flags)) throw ruleError(index, `${id} flags may only use i, m, s and u`);
+  if (typeof confidence !== "number" || !(confidence >= 0 && confidence <= 1)) throw ruleError(index, `${id} confidence must be between 0 and 1`);
+  if (!SEVERITIES.includes(severity as Severity)) throw ruleError(index, `${id} severity must be one of ${SEVERITIES.join(", ")}`);
+  if (!Array.isArray(keywords) || keywords.some((keyword) => typeof keyword !== "string" || keyword === "")) {
+    throw ruleError(index, `${id} keywords must be non-empty strings`);
+  }
+  if (minEntropy !== null && typeof minEntropy !== "number") throw ruleError(index, `${id} minEntropy must be a number`);
+
+  let compiled: RegExp;
+  try {
+    compiled = new RegExp(pattern, `${flags}g`);
+  } catch (error) {
+    throw ruleError(index, `${id} pattern is invalid: ${error instanceof Error ? error.message : error}`);
+  }
+  return {
+    id,
+    description,
+    pattern: compiled,
+    confidence,
+    severity: severity as Severity,
+    keywords: (keywords as string[]).map((keyword) => keyword.toLowerCase()),
+    minEntropy,
+  };
+}
+
+/**
+ * Compile a JSONC rule file; throws naming the first rule that is not usable
+ */
+export function parseSecretRules(source: string): SecretRule[] {
+  const parsed = Bun.JSONC.parse(source) as { rules?: unknown } | null;
+  if (!parsed || !Array.isArray(parsed.rules)) throw new Error("Secret rules must be a { \"rules\": [...] } object");
+
+  const rules = parsed.rules.map(compileRule);
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.id)) throw new Error(`Secret rule ${rule.id} is defined twice`);
+    seen.add(rule.id);
+  }
+  return rules;
+}
+
+export function loadSecretRules(path = SECRET_RULES_PATH): SecretRule[] {
+  return parseSecretRules(readFileSync(path, "utf8"));
+}
+
+/** Rules from SECRET_RULES_PATH, read on first use */
+export function defaultSecretRules(): SecretRule[] {
+  if (!defaultRules) defaultRules = loadSecretRules();
+  return defaultRules;
+}
+
+/** Shannon entropy in bits per character */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function mask(secret: string): string {
+  const shown = secret.length >= MIN_REVEAL_LENGTH ? REVEALED : 0;
+  return secret.slice(0, shown) + "*".repeat(Math.min(secret.length - shown, 16));
+}
+
+function preview(match: string, secretStart: number, secret: string): string {
+  const masked = match.slice(0, secretStart) + mask(secret) + match.slice(secretStart + secret.length);
+  const line = masked.replace(/\s+/g, " ");
+  return line.length > MAX_PREVIEW ? `${line.slice(0, MAX_PREVIEW - 1)}…` : line;
+}
+
+interface Candidate {
+  rule: SecretRule;
+  offset: number;
+  /** Byte span of the secret, used to drop weaker rules matching the same value */
+  start: number;
+  end: number;
+  preview: string;
+  confidence: number;
+}
+
+/**
+ * Match every rule against one piece of text; `width` is the bytes per character
+ * of its encoding and `base` the offset of its first byte
+ */
+function scanText(text: string, base: number, width: number, rules: readonly SecretRule[], out: Candidate[]): boolean {
+  const lower = text.toLowerCase();
+  for (const rule of rules) {
+    if (rule.keywords.length > 0 && !rule.keywords.some((keyword) => lower.includes(keyword))) continue;
+
+    const pattern = new RegExp(rule.pattern);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (match[0] === "") {
+        pattern.lastIndex++;
+        continue;
+      }
+      const secret = match[1] ?? (match.length > 1 ? "" : match[0]);
+      if (rule.minEntropy !== null && secret && entropy(secret) < rule.minEntropy) continue;
+      if (out.length >= MAX_HITS * 2) return true;
+
+      const secretStart = secret ? match[0].lastIndexOf(secret) : match[0].length;
+      const placeholder = PLACEHOLDER.test(secret);
+      out.push({
+        rule,
+        offset: base + match.index * width,
+        start: base + (match.index + secretStart) * width,
+        end: base + (match.index + secretStart + secret.length) * width,
+        preview: preview(match[0], secretStart, secret),
+        confidence: Math.round(rule.confidence * (placeholder ? PLACEHOLDER_FACTOR : 1) * 100) / 100,
+      });
+    }
+  }
+  return false;
+}
+
+/** Keep the most confident hit where rules match the same secret */
+function dedupe(candidates: Candidate[]): Candidate[] {
+  const kept: Candidate[] = [];
+  const ranked = candidates.slice().sort((a, b) => b.confidence - a.confidence || a.offset - b.offset);
+  for (const candidate of ranked) {
+    const overlaps = kept.some((other) =>
+      candidate.end > candidate.start && other.end > other.start
+        ? candidate.start < other.end && other.start < candidate.end
+        : candidate.offset === other.offset);
+    if (!overlaps) kept.push(candidate);
+  }
+  return kept.sort((a, b) => a.offset - b.offset);
+}
+
+/** Offsets of each line feed, for turning offsets into lines */
+function lineFeeds(bytes: Uint8Array): number[] {
+  const feeds: number[] = [];
+  for (let i = 0; i < bytes.length; i++) if (bytes[i] === 0x0a) feeds.push(i);
+  return feeds;
+}
+
+function lineOf(feeds: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = feeds.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (feeds[mid] < offset) low = mid + 1;
+    else high = mid;
+  }
+  return { line: low + 1, column: offset - (low > 0 ? feeds[low - 1] + 1 : 0) + 1 };
+}
+
+function severityOf(rule: SecretRule, confidence: number): Severity {
+  return confidence < LIKELY ? "info" : rule.severity;
+}
+
+/**
+ * Scan text as a whole, or the printable strings of anything else
+ */
+export function parseSecrets(
+  bytes: Uint8Array,
+  window?: ByteWindow,
+  rules: readonly SecretRule[] = defaultSecretRules(),
+): ParseResult<SecretMetadata> {
+  const scannedBytes = bytes.subarray(0, MAX_SCAN_BYTES);
+  const base = window?.offset ?? 0;
+  const textual = looksLikeText(scannedBytes) && indexOfNul(scannedBytes, 0) < 0;
+  const candidates: Candidate[] = [];
+  let capped = false;
+
+  if (textual) {
+    // Latin-1 keeps one character per byte, so match positions are byte offsets
+    const text = Buffer.from(scannedBytes.buffer, scannedBytes.byteOffset, scannedBytes.length).toString("latin1");
+    capped = scanText(text, base, 1, rules, candidates);
+  } else {
+    for (const found of extractStrings(scannedBytes, { minLength: MIN_STRING_LENGTH, maxLength: MAX_STRING_LENGTH })) {
+      capped = scanText(found.value, base + found.offset, found.encoding === "ascii" ? 1 : 2, rules, candidates);
+      if (capped) break;
+    }
+  }
+
+  const kept = dedupe(candidates);
+  const feeds = kept.length > 0 ? lineFeeds(scannedBytes) : [];
+  const hits: SecretHit[] = kept.slice(0, MAX_HITS).map((candidate) => ({
+    rule: candidate.rule.id,
+    ...lineOf(feeds, candidate.offset - base),
+    offset: candidate.offset,
+    preview: candidate.preview,
+    confidence: candidate.confidence,
+  }));
+
+  const findings: Finding[] = [];
+  for (const rule of rules) {
+    const matched = hits.filter((hit) => hit.rule === rule.id);
+    if (matched.length === 0) continue;
+    const [first] = matched;
+    const confidence = Math.max(...matched.map((hit) => hit.confidence));
+    const more = matched.length > 1 ? ` (and ${matched.length - 1} more)` : "";
+    findings.push({
+      id: `secrets.${rule.id}`,
+      severity: severityOf(rule, confidence),
+      message: `${rule.description} at line ${first.line}, column ${first.column}${more}`,
+      source: "secrets",
+      offset: first.offset,
+    });
+  }
+  findings.sort((a, b) => (a.offset ?? 0) - (b.offset ?? 0));
+
+  const size = window?.size ?? bytes.length;
+  return {
+    metadata: {
+      scanned: textual ? "text" : "strings",
+      rules: rules.length,
+      hits,
+      partial: capped || kept.length > MAX_HITS || base + scannedBytes.length < size,
+    },
+    findings,
+  };
+}
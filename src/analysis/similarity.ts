@@ -0,0 +1,367 @@
+/**
+ * Similarity Hashing
+ * ssdeep-compatible context-triggered piecewise hashes and a TLSH-style locality-sensitive digest
+ */
+
+import type { FileHashes } from "./hashing";
+
+// --- CTPH (ssdeep) ---------------------------------------------------------
+
+const ROLLING_WINDOW = 7;
+const MIN_BLOCKSIZE = 3;
+const SPAMSUM_LENGTH = 64;
+const NUM_BLOCKHASHES = 31;
+const HASH_PRIME = 0x01000193;
+const HASH_INIT = 0x28021967;
+const B64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const BLOCK_SIZES = Array.from({ length: NUM_BLOCKHASHES }, (_, index) => MIN_BLOCKSIZE * 2 ** index);
+const sumHash = (c: number, h: number) => (Math.imul(h, HASH_PRIME) ^ c) >>> 0;
+
+/**
+ * Incremental ssdeep hasher; block sizes are tracked in parallel so the input
+ * size does not need to be known up front
+ */
+export class CtphHasher {
+  private window = new Uint8Array(ROLLING_WINDOW);
+  private h1 = 0;
+  private h2 = 0;
+  private h3 = 0;
+  private n = 0;
+  // Per block size: running piece hash, the same hash for the half-length signature, and the signature so far
+  private h = new Uint32Array(NUM_BLOCKHASHES).fill(HASH_INIT);
+  private halfh = new Uint32Array(NUM_BLOCKHASHES).fill(HASH_INIT);
+  private digests: string[] = [""];
+  private start = 0;
+
+  update(chunk: Uint8Array): this {
+    const { window, h: hashes, halfh, digests } = this;
+    let { h1, h2, h3, n } = this;
+    for (let index = 0; index < chunk.length; index++) {
+      const c = chunk[index];
+      const slot = n % ROLLING_WINDOW;
+      h2 = (h2 - h1 + ROLLING_WINDOW * c) >>> 0;
+      h1 = (h1 + c - window[slot]) >>> 0;
+      window[slot] = c;
+      n++;
+      h3 = ((h3 << 5) ^ c) >>> 0;
+      const rolling = (h1 + h2 + h3) >>> 0;
+
+      for (let i = this.start; i < digests.length; i++) {
+        hashes[i] = sumHash(c, hashes[i]);
+        halfh[i] = sumHash(c, halfh[i]);
+      }
+
+      // Triggers for larger block sizes are a subset of those for smaller ones
+      for (let i = this.start; i < digests.length && rolling % BLOCK_SIZES[i] === BLOCK_SIZES[i] - 1; i++) {
+        if (digests[i].length === 0 && digests.length < NUM_BLOCKHASHES) {
+          const last = digests.length - 1;
+          hashes[last + 1] = hashes[last];
+          halfh[last + 1] = halfh[last];
+          digests.push("");
+        }
+        if (digests[i].length < SPAMSUM_LENGTH - 1) {
+          digests[i] += B64[hashes[i] % 64];
+          hashes[i] = HASH_INIT;
+          if (digests[i].length < SPAMSUM_LENGTH / 2) halfh[i] = HASH_INIT;
+        } else {
+          // A full signature stops growing; its hash keeps running into the final character
+          this.n = n;
+          this.reduce();
+        }
+      }
+    }
+    Object.assign(this, { h1, h2, h3, n });
+    return this;
+  }
+
+  digest(): string {
+    const rolling = (this.h1 + this.h2 + this.h3) >>> 0;
+    const { digests } = this;
+    let bi = this.start;
+    while (BLOCK_SIZES[bi] * SPAMSUM_LENGTH < this.n && bi < NUM_BLOCKHASHES - 1) bi++;
+    while (bi >= digests.length) bi--;
+    while (bi > this.start && digests[bi].length < SPAMSUM_LENGTH / 2) bi--;
+
+    let first = digests[bi];
+    if (rolling !== 0) first += B64[this.h[bi] % 64];
+
+    let second = "";
+    if (bi + 1 < digests.length) {
+      second = digests[bi + 1].slice(0, SPAMSUM_LENGTH / 2 - 1);
+      if (rolling !== 0) second += B64[this.halfh[bi + 1] % 64];
+    } else if (rolling !== 0) {
+      second = B64[this.h[bi] % 64];
+    }
+    return `${BLOCK_SIZES[bi]}:${first}:${second}`;
+  }
+
+  /** Stop updating the smallest block size once it can no longer be chosen */
+  private reduce(): void {
+    if (this.digests.length - this.start < 2) return;
+    if (BLOCK_SIZES[this.start] * SPAMSUM_LENGTH >= this.n) return;
+    if (this.digests[this.start + 1].length < SPAMSUM_LENGTH / 2) return;
+    this.start++;
+  }
+}
+
+/** Runs of more than three identical characters carry no information */
+function eliminateSequences(signature: string): string {
+  return signature.replace(/(.)\1{3,}/g, "$1$1$1");
+}
+
+function hasCommonSubstring(a: string, b: string): boolean {
+  if (a.length < ROLLING_WINDOW || b.length < ROLLING_WINDOW) return false;
+  const seen = new Set<string>();
+  for (let i = 0; i + ROLLING_WINDOW <= a.length; i++) seen.add(a.slice(i, i + ROLLING_WINDOW));
+  for (let i = 0; i + ROLLING_WINDOW <= b.length; i++) {
+    if (seen.has(b.slice(i, i + ROLLING_WINDOW))) return true;
+  }
+  return false;
+}
+
+/** Edit distance where insertions and deletions cost 1 and substitutions 2 */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 2),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function scoreStrings(a: string, b: string, size: number): number {
+  if (a.length > SPAMSUM_LENGTH || b.length > SPAMSUM_LENGTH) return 0;
+  if (!hasCommonSubstring(a, b)) return 0;
+
+  let score = Math.floor((editDistance(a, b) * SPAMSUM_LENGTH) / (a.length + b.length));
+  score = Math.floor((100 * score) / SPAMSUM_LENGTH);
+  if (score >= 100) return 0;
+  score = 100 - score;
+
+  // Small block sizes cannot justify a high score from short signatures
+  if (size >= Math.floor((99 + ROLLING_WINDOW) / ROLLING_WINDOW) * MIN_BLOCKSIZE) return score;
+  return Math.min(score, Math.floor(size / MIN_BLOCKSIZE) * Math.min(a.length, b.length));
+}
+
+function parseCtph(digest: string): { size: number; first: string; second: string } | null {
+  const match = /^(\d+):([A-Za-z0-9+/]*):([A-Za-z0-9+/]*)/.exec(digest);
+  if (!match) return null;
+  return { size: Number(match[1]), first: eliminateSequences(match[2]), second: eliminateSequences(match[3]) };
+}
+
+/**
+ * ssdeep match score from 0 (unrelated) to 100 (identical)
+ */
+export function compareCtph(a: string, b: string): number {
+  const left = parseCtph(a);
+  const right = parseCtph(b);
+  if (!left || !right) return 0;
+
+  if (left.size === right.size) {
+    if (left.first === right.first && left.second === right.second) return 100;
+    return Math.max(scoreStrings(left.first, right.first, left.size), scoreStrings(left.second, right.second, left.size * 2));
+  }
+  if (left.size * 2 === right.size) return scoreStrings(right.first, left.second, right.size);
+  if (right.size * 2 === left.size) return scoreStrings(left.first, right.second, left.size);
+  return 0;
+}
+
+// --- TLSH-style digest ------------------------------------------------------
+
+/** Pearson permutation used by TLSH */
+const PEARSON = new Uint8Array([
+  1, 87, 49, 12, 176, 178, 102, 166, 121, 193, 6, 84, 249, 230, 44, 163, 14, 197, 213, 181, 161, 85, 218, 80, 64, 239, 24, 226, 236, 142, 38, 200,
+  110, 177, 104, 103, 141, 253, 255, 50, 77, 101, 81, 18, 45, 96, 31, 222, 25, 107, 190, 70, 86, 237, 240, 34, 72, 242, 20, 214, 244, 227, 149, 235,
+  97, 234, 57, 22, 60, 250, 82, 175, 208, 5, 127, 199, 111, 62, 135, 248, 174, 169, 211, 58, 66, 154, 106, 195, 245, 171, 17, 187, 182, 179, 0, 243,
+  132, 56, 148, 75, 128, 133, 158, 100, 130, 126, 91, 13, 153, 246, 216, 219, 119, 68, 223, 78, 83, 88, 201, 99, 122, 11, 92, 32, 136, 114, 52, 10,
+  138, 30, 48, 183, 156, 35, 61, 26, 143, 74, 251, 94, 129, 162, 63, 152, 170, 7, 115, 167, 241, 206, 3, 150, 55, 59, 151, 220, 90, 53, 23, 131,
+  125, 173, 15, 238, 79, 95, 89, 16, 105, 137, 225, 224, 217, 160, 37, 123, 118, 73, 2, 157, 46, 116, 9, 145, 134, 228, 207, 212, 202, 215, 69, 229,
+  27, 188, 67, 124, 168, 252, 42, 4, 29, 108, 21, 247, 19, 205, 39, 203, 233, 40, 186, 147, 198, 192, 155, 33, 164, 191, 98, 204, 165, 180, 117, 76,
+  140, 36, 210, 172, 41, 54, 159, 8, 185, 232, 113, 196, 231, 47, 146, 120, 51, 65, 28, 144, 254, 221, 93, 189, 194, 139, 112, 43, 71, 109, 184, 209,
+]);
+
+const TLSH_BUCKETS = 128;
+const TLSH_MIN_LENGTH = 50;
+/** Digest of input too short or too uniform to describe */
+export const TLSH_NULL = "TNULL";
+
+const pearson = (salt: number, a: number, b: number, c: number) =>
+  PEARSON[PEARSON[PEARSON[PEARSON[salt] ^ a] ^ b] ^ c];
+const swapNibbles = (byte: number) => ((byte & 0x0f) << 4) | (byte >> 4);
+const hex = (byte: number) => byte.toString(16).padStart(2, "0").toUpperCase();
+
+function lengthCode(length: number): number {
+  const log = Math.log(length);
+  const code = length <= 656
+    ? Math.floor(log / 0.4054651)
+    : length <= 3199
+      ? Math.floor(log / 0.26236426 - 8.72777)
+      : Math.floor(log / 0.09531018 - 62.5472);
+  return code & 0xff;
+}
+
+/**
+ * Incremental TLSH-style hasher: 128 buckets of byte-triplet counts over a
+ * 5-byte sliding window, quantised to quartiles. The layout follows TLSH
+ * (1-byte checksum, no version prefix); digests are compared with
+ * `tlshDistance`, not with other TLSH implementations.
+ */
+export class TlshHasher {
+  private buckets = new Uint32Array(256);
+  private checksum = 0;
+  private length = 0;
+  // Previous four bytes, most recent first
+  private b1 = 0;
+  private b2 = 0;
+  private b3 = 0;
+  private b4 = 0;
+
+  update(chunk: Uint8Array): this {
+    const { buckets } = this;
+    let { b1, b2, b3, b4, checksum, length } = this;
+    for (let index = 0; index < chunk.length; index++) {
+      const c = chunk[index];
+      if (length >= 4) {
+        checksum = pearson(0, c, b1, checksum);
+        buckets[pearson(2, c, b1, b2)]++;
+        buckets[pearson(3, c, b1, b3)]++;
+        buckets[pearson(5, c, b2, b3)]++;
+        buckets[pearson(7, c, b2, b4)]++;
+        buckets[pearson(11, c, b1, b4)]++;
+        buckets[pearson(13, c, b3, b4)]++;
+      }
+      b4 = b3;
+      b3 = b2;
+      b2 = b1;
+      b1 = c;
+      length++;
+    }
+    Object.assign(this, { b1, b2, b3, b4, checksum, length });
+    return this;
+  }
+
+  digest(): string {
+    if (this.length < TLSH_MIN_LENGTH) return TLSH_NULL;
+    const counts = this.buckets.subarray(0, TLSH_BUCKETS);
+    const sorted = Uint32Array.from(counts).sort();
+    const q1 = sorted[TLSH_BUCKETS / 4 - 1];
+    const q2 = sorted[TLSH_BUCKETS / 2 - 1];
+    const q3 = sorted[(TLSH_BUCKETS * 3) / 4 - 1];
+    const nonZero = counts.reduce((total, count) => total + (count > 0 ? 1 : 0), 0);
+    if (q3 === 0 || nonZero <= TLSH_BUCKETS / 2) return TLSH_NULL;
+
+    const body = new Uint8Array(TLSH_BUCKETS / 4);
+    for (let i = 0; i < body.length; i++) {
+      let byte = 0;
+      for (let j = 0; j < 4; j++) {
+        const count = counts[i * 4 + j];
+        const code = count > q3 ? 3 : count > q2 ? 2 : count > q1 ? 1 : 0;
+        byte |= code << (j * 2);
+      }
+      body[body.length - 1 - i] = byte;
+    }
+
+    const q1Ratio = Math.floor((q1 * 100) / q3) % 16;
+    const q2Ratio = Math.floor((q2 * 100) / q3) % 16;
+    return (
+      hex(swapNibbles(this.checksum)) +
+      hex(swapNibbles(lengthCode(this.length))) +
+      hex((q1Ratio << 4) | q2Ratio) +
+      Array.from(body, hex).join("")
+    );
+  }
+}
+
+function parseTlsh(digest: string) {
+  if (!/^[0-9A-Fa-f]{70}$/.test(digest)) return null;
+  const bytes = Uint8Array.from(digest.match(/../g)!, (pair) => parseInt(pair, 16));
+  return {
+    checksum: swapNibbles(bytes[0]),
+    length: swapNibbles(bytes[1]),
+    q1Ratio: bytes[2] >> 4,
+    q2Ratio: bytes[2] & 0x0f,
+    body: bytes.subarray(3),
+  };
+}
+
+const modDiff = (a: number, b: number, range: number) => {
+  const direct = Math.abs(a - b);
+  return Math.min(direct, range - direct);
+};
+
+/**
+ * TLSH distance: 0 for identical digests, growing as content diverges; null when
+ * either digest is missing or TNULL
+ */
+export function tlshDistance(a: string, b: string): number | null {
+  const left = parseTlsh(a);
+  const right = parseTlsh(b);
+  if (!left || !right) return null;
+
+  let distance = 0;
+  const lengthDiff = modDiff(left.length, right.length, 256);
+  distance += lengthDiff <= 1 ? lengthDiff : lengthDiff * 12;
+  for (const [x, y] of [[left.q1Ratio, right.q1Ratio], [left.q2Ratio, right.q2Ratio]]) {
+    const diff = modDiff(x, y, 16);
+    distance += diff <= 1 ? diff : (diff - 1) * 12;
+  }
+  if (left.checksum !== right.checksum) distance += 1;
+
+  for (let i = 0; i < left.body.length; i++) {
+    for (let shift = 0; shift < 8; shift += 2) {
+      const diff = Math.abs(((left.body[i] >> shift) & 3) - ((right.body[i] >> shift) & 3));
+      distance += diff === 3 ? 6 : diff;
+    }
+  }
+  return distance;
+}
+
+// --- Ranking -----------------------------------------------------------------
+
+export interface SimilarityScore {
+  /** 0..100, the stronger of the two signals */
+  score: number;
+  ssdeep: number | null;
+  tlsh: number | null;
+}
+
+/**
+ * Compare two hash profiles using whichever fuzzy digests both carry
+ */
+export function compareHashes(a: FileHashes, b: FileHashes): SimilarityScore | null {
+  const ssdeep = a.ssdeep && b.ssdeep ? compareCtph(a.ssdeep, b.ssdeep) : null;
+  const tlsh = a.tlsh && b.tlsh ? tlshDistance(a.tlsh, b.tlsh) : null;
+  if (ssdeep === null && tlsh === null) return null;
+
+  // TLSH distances under 100 are considered related; map them onto the ssdeep scale
+  const tlshScore = tlsh === null ? 0 : Math.max(0, 100 - tlsh);
+  return { score: Math.max(ssdeep ?? 0, tlshScore), ssdeep, tlsh };
+}
+
+export interface SimilarMatch<T> extends SimilarityScore {
+  item: T;
+}
+
+/**
+ * Rank candidates by similarity to a target, dropping those at or below `minScore`
+ */
+export function rankSimilar<T extends { hashes: FileHashes }>(
+  target: FileHashes,
+  candidates: Iterable<T>,
+  { limit = 20, minScore = 0 }: { limit?: number; minScore?: number } = {},
+): Array<SimilarMatch<T>> {
+  const matches: Array<SimilarMatch<T>> = [];
+  for (const item of candidates) {
+    const result = compareHashes(target, item.hashes);
+    if (result && result.score > minScore) matches.push({ item, ...result });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,99 @@
+/**
+ * Streaming Analysis
+ * Reads a file chunk by chunk, hashing and profiling entropy as it goes and keeping only bounded head and tail windows
+ */
+
+import { EntropyProfiler } from "./entropy";
+import { MultiHasher, type FileHashes, type HashAlgorithm } from "./hashing";
+import { analyzeBuffer, analyzeWindows, type DeclaredSource, type FileAnalysis } from "./index";
+
+export interface StreamOptions {
+  /** Bytes accepted before the stream is abandoned */
+  maxBytes?: number;
+  /** Size of the head and tail windows; streams up to this size are analyzed whole */
+  windowBytes?: number;
+  /** Digests computed while reading; defaults to DEFAULT_HASH_ALGORITHMS */
+  algorithms?: readonly HashAlgorithm[];
+}
+
+export interface StreamAnalysis {
+  analysis: FileAnalysis;
+  hashes: FileHashes;
+}
+
+export class FileTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`File exceeds the ${limit} byte limit`);
+    this.name = "FileTooLargeError";
+  }
+}
+
+const DEFAULT_WINDOW = 16 * 1024 * 1024;
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  return chunks.length === 1 ? chunks[0] : new Uint8Array(Bun.concatArrayBuffers(chunks));
+}
+
+/**
+ * Analyze a stream without holding more than two windows of it in memory
+ */
+export async function analyzeStream(
+  stream: ReadableStream<Uint8Array>,
+  source: DeclaredSource = {},
+  options: StreamOptions = {},
+): Promise<StreamAnalysis> {
+  const maxBytes = options.maxBytes ?? Infinity;
+  const windowBytes = options.windowBytes ?? DEFAULT_WINDOW;
+  const hasher = new MultiHasher(options.algorithms);
+  const profiler = new EntropyProfiler();
+
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  // Chunks covering at least the last windowBytes; the oldest is dropped once it is no longer needed
+  const tail: Uint8Array[] = [];
+  let tailLength = 0;
+  let size = 0;
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value.length === 0) continue;
+
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new FileTooLargeError(maxBytes);
+      }
+      hasher.update(value);
+      profiler.update(value);
+
+      if (headLength < windowBytes) {
+        const take = value.subarray(0, windowBytes - headLength);
+        head.push(take);
+        headLength += take.length;
+      }
+      tail.push(value);
+      tailLength += value.length;
+      while (tailLength - tail[0].length >= windowBytes) tailLength -= tail.shift()!.length;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  const hashes = hasher.digest();
+  const entropy = profiler.digest();
+  if (size <= windowBytes) {
+    return { analysis: analyzeBuffer(concat(head), source, entropy), hashes };
+  }
+
+  const windows = {
+    head: concat(head),
+    tail: concat(tail).subarray(tailLength - windowBytes),
+    size,
+    entropy,
+    hashes,
+  };
+  return { analysis: analyzeWindows(windows, source), hashes };
+}
@@ -0,0 +1,375 @@
+/**
+ * Strings Extraction
+ * Printable ASCII and UTF-16 runs with offsets, classified as indicators of compromise
+ */
+
+export const STRING_ENCODINGS = ["ascii", "utf16le", "utf16be"] as const;
+export type StringEncoding = (typeof STRING_ENCODINGS)[number];
+
+export const IOC_KINDS = ["url", "ip", "email", "domain", "path", "registry", "base64"] as const;
+export type IocKind = (typeof IOC_KINDS)[number];
+
+export interface ExtractedString {
+  /** Absolute offset of the first byte of the run */
+  offset: number;
+  encoding: StringEncoding;
+  /** Characters in the run; `value` stops at maxLength */
+  length: number;
+  value: string;
+  kinds: IocKind[];
+}
+
+export interface StringScanOptions {
+  /** Shortest run reported, in characters */
+  minLength?: number;
+  /** Longest value returned; longer runs are cut but keep their full `length` */
+  maxLength?: number;
+  encodings?: readonly StringEncoding[];
+}
+
+export interface StringQuery extends StringScanOptions {
+  /** Byte offset to resume from: a previous page's `nextCursor` */
+  cursor?: number;
+  limit?: number;
+  /** Only return strings classified as one of these */
+  kinds?: readonly IocKind[];
+}
+
+export interface StringPage {
+  cursor: number;
+  strings: ExtractedString[];
+  /** Offset of the first string not returned, or null when the file is exhausted */
+  nextCursor: number | null;
+}
+
+const DEFAULT_MIN_LENGTH = 4;
+const DEFAULT_MAX_LENGTH = 1024;
+const DEFAULT_LIMIT = 500;
+
+export function isStringEncoding(name: string): name is StringEncoding {
+  return (STRING_ENCODINGS as readonly string[]).includes(name);
+}
+
+export function isIocKind(name: string): name is IocKind {
+  return (IOC_KINDS as readonly string[]).includes(name);
+}
+
+export interface StringQueryDefaults {
+  minLength: number;
+  maxLength: number;
+  pageSize: number;
+  maxPageSize: number;
+}
+
+const parseList = (value: string | null) => (value ? value.split(",").map((item) => item.trim()).filter(Boolean) : []);
+
+/**
+ * Read `cursor`, `limit`, `minLength`, `encoding` and `kind` query parameters;
+ * lists are comma-separated. Returns an error message for values that cannot be honoured
+ */
+export function parseStringQuery(params: URLSearchParams, defaults: StringQueryDefaults): StringQuery | string {
+  const integer = (name: string, fallback: number, min: number) => {
+    const raw = params.get(name);
+    if (raw === null || raw === "") return fallback;
+    const value = Number(raw);
+    return Number.isInteger(value) && value >= min ? value : null;
+  };
+
+  const cursor = integer("cursor", 0, 0);
+  if (cursor === null) return "cursor must be a non-negative integer";
+  const limit = integer("limit", defaults.pageSize, 1);
+  if (limit === null) return "limit must be a positive integer";
+  const minLength = integer("minLength", defaults.minLength, 1);
+  if (minLength === null) return "minLength must be a positive integer";
+
+  const encodings = parseList(params.get("encoding"));
+  const badEncoding = encodings.find((name) => !isStringEncoding(name));
+  if (badEncoding) return `Unknown encoding "${badEncoding}" (expected ${STRING_ENCODINGS.join(", ")})`;
+  const kinds = parseList(params.get("kind"));
+  const badKind = kinds.find((name) => !isIocKind(name));
+  if (badKind) return `Unknown kind "${badKind}" (expected ${IOC_KINDS.join(", ")})`;
+
+  return {
+    cursor,
+    limit: Math.min(limit, defaults.maxPageSize),
+    minLength,
+    maxLength: defaults.maxLength,
+    encodings: encodings.length > 0 ? (encodings as StringEncoding[]) : undefined,
+    kinds: kinds.length > 0 ? (kinds as IocKind[]) : undefined,
+  };
+}
+
+// --- Classification ---------------------------------------------------------
+
+const URL_PATTERN = /\b(?:https?|ftp|wss?|file):\/\/[^\s"'<>]+/i;
+const IPV4_PATTERN = /(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\d.])/;
+const IPV6_PATTERN = /(?<![\w:])(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}(?![\w:])|(?<![\w:])(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}:?){1,6}(?![\w:])/i;
+const EMAIL_PATTERN = /\b[\w.+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}\b/i;
+const DOMAIN_PATTERN = /\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+([a-z]{2,24})\b/gi;
+const WINDOWS_PATH_PATTERN = /[a-z]:\\[^\\/:*?"<>|\r\n]*|\\\\[\w.-]+\\[\w$.-]+|%[a-z]+%\\/i;
+const UNIX_PATH_PATTERN = /(?:^|[\s"'=(])(?:~|\.{1,2})?\/(?:[\w.@-]+\/)+[\w.@-]*/;
+const REGISTRY_PATTERN =
+  /\b(?:HKEY_(?:LOCAL_MACHINE|CURRENT_USER|CLASSES_ROOT|USERS|CURRENT_CONFIG)|HK(?:LM|CU|CR|U|CC))\\|\b(?:SOFTWARE|SYSTEM)\\(?:[\w .-]+\\)+/i;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})+(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const MIN_BASE64_LENGTH = 20;
+
+// Generic TLDs seen in the wild; two-letter labels are taken as country codes
+const GENERIC_TLDS = new Set([
+  "com", "net", "org", "info", "biz", "edu", "gov", "mil", "int", "io", "co", "app", "dev", "xyz", "top", "site",
+  "online", "club", "shop", "live", "tech", "cloud", "onion", "bit", "pro", "win", "icu", "link", "store", "work",
+]);
+// Two-letter file extensions that would otherwise pass as country codes
+const EXTENSION_LABELS = new Set(["so", "py", "rs", "md", "sh", "js", "ts", "cs", "go", "pl", "rb", "db", "gz", "xz", "ps", "mo", "am", "in"]);
+
+function looksLikeDomain(value: string): boolean {
+  for (const match of value.matchAll(DOMAIN_PATTERN)) {
+    const tld = match[1].toLowerCase();
+    if (GENERIC_TLDS.has(tld) || (tld.length === 2 && !EXTENSION_LABELS.has(tld))) return true;
+  }
+  return false;
+}
+
+function looksLikeBase64(token: string): boolean {
+  if (token.length < MIN_BASE64_LENGTH || !BASE64_PATTERN.test(token)) return false;
+  // Hex digests and plain words use the same alphabet
+  if (/^[0-9a-f]+$/i.test(token)) return false;
+  return /[A-Z]/.test(token) && /[a-z]/.test(token) && /[0-9+/]/.test(token);
+}
+
+/**
+ * Indicator kinds a string contains; empty for ordinary text
+ */
+export function classifyString(value: string): IocKind[] {
+  const kinds: IocKind[] = [];
+  const url = URL_PATTERN.test(value);
+  const email = EMAIL_PATTERN.test(value);
+  if (url) kinds.push("url");
+  if (IPV4_PATTERN.test(value) || IPV6_PATTERN.test(value)) kinds.push("ip");
+  if (email) kinds.push("email");
+  if (!url && !email && looksLikeDomain(value)) kinds.push("domain");
+  if (WINDOWS_PATH_PATTERN.test(value) || (!url && UNIX_PATH_PATTERN.test(value))) kinds.push("path");
+  if (REGISTRY_PATTERN.test(value)) kinds.push("registry");
+  // `key=value` splits at the `=`, trailing padding stays with the token
+  if (value.split(/[\s"',;:]+|=(?=[^=])/).some(looksLikeBase64)) kinds.push("base64");
+  return kinds;
+}
+
+// --- Scanning ---------------------------------------------------------------
+
+const isPrintable = (byte: number) => (byte >= 0x20 && byte <= 0x7e) || byte === 0x09;
+
+interface Run {
+  encoding: StringEncoding;
+  start: number;
+  length: number;
+  chars: number[];
+  /** The first character came straight after a printable byte */
+  afterPrintable: boolean;
+}
+
+/**
+ * Incremental scanner; strings are reported through `onString` as each run ends,
+ * so UTF-16 runs may arrive slightly out of offset order.
+ *
+ * UTF-16 text read with the other byte order one byte off yields the same characters,
+ * so a little-endian run and a big-endian run starting one byte apart are one string:
+ * the reading that accounts for more bytes wins, and little-endian wins a tie.
+ */
+export class StringScanner {
+  private readonly encodings: Set<StringEncoding>;
+  private readonly minLength: number;
+  private readonly maxLength: number;
+  private readonly ascii: Run | null;
+  // Indexed by (alignment << 1) | (big-endian ? 1 : 0)
+  private readonly utf16: Array<Run | null>;
+  private position: number;
+  private previous = -1;
+  private beforePrevious = -1;
+  // Last UTF-16 string, held until its other-byte-order reading has ended
+  private held: ExtractedString | null = null;
+
+  constructor(
+    options: StringScanOptions,
+    private onString: (found: ExtractedString) => void,
+    startOffset = 0,
+  ) {
+    const encodings = new Set(options.encodings ?? STRING_ENCODINGS);
+    // Both byte orders are read whenever either is wanted, so one can rule out the other
+    const wide = encodings.has("utf16le") || encodings.has("utf16be");
+    const run = (encoding: StringEncoding): Run | null =>
+      encodings.has(encoding) || (wide && encoding !== "ascii")
+        ? { encoding, start: 0, length: 0, chars: [], afterPrintable: false }
+        : null;
+
+    this.encodings = encodings;
+    this.minLength = Math.max(1, options.minLength ?? DEFAULT_MIN_LENGTH);
+    this.maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
+    this.ascii = run("ascii");
+    this.utf16 = [run("utf16le"), run("utf16be"), run("utf16le"), run("utf16be")];
+    this.position = startOffset;
+  }
+
+  update(chunk: Uint8Array): this {
+    const { ascii, utf16 } = this;
+    for (let index = 0; index < chunk.length; index++) {
+      const byte = chunk[index];
+      const position = this.position++;
+
+      if (ascii) {
+        if (isPrintable(byte)) this.extend(ascii, position, byte);
+        else this.close(ascii);
+      }
+
+      // Each byte completes the code unit that started on the byte before it
+      const previous = this.previous;
+      const beforePrevious = this.beforePrevious;
+      this.previous = byte;
+      this.beforePrevious = previous;
+      if (previous < 0) continue;
+      const slot = ((position - 1) & 1) << 1;
+      const le = utf16[slot];
+      const be = utf16[slot | 1];
+      if (le) {
+        if (byte === 0 && isPrintable(previous)) this.extend(le, position - 1, previous, isPrintable(beforePrevious));
+        else this.close(le);
+      }
+      if (be) {
+        if (previous === 0 && isPrintable(byte)) this.extend(be, position - 1, byte);
+        else this.close(be);
+      }
+    }
+    if (this.held && !this.partnerOf(this.held)?.length) this.release();
+    return this;
+  }
+
+  /** Report runs still open at the end of the input */
+  finish(): void {
+    if (this.ascii) this.close(this.ascii);
+    for (const run of this.utf16) if (run) this.close(run);
+    this.release();
+  }
+
+  /** Offset of the earliest string that may still be reported, or Infinity */
+  get openOffset(): number {
+    let offset = this.held?.offset ?? Infinity;
+    for (const run of [this.ascii, ...this.utf16]) {
+      if (run && run.length > 0) offset = Math.min(offset, run.start);
+    }
+    return offset;
+  }
+
+  /** The run reading the same bytes with the other byte order, one byte off */
+  private partnerOf({ offset, encoding }: ExtractedString): Run | null {
+    return this.utf16[(((offset + 1) & 1) << 1) | (encoding === "utf16le" ? 1 : 0)];
+  }
+
+  private emit(found: ExtractedString): void {
+    if (this.encodings.has(found.encoding)) this.onString(found);
+  }
+
+  private release(): void {
+    if (this.held) this.emit(this.held);
+    this.held = null;
+  }
+
+  private report(found: ExtractedString): void {
+    if (found.encoding === "ascii") return this.emit(found);
+
+    const held = this.held;
+    if (held && held.encoding !== found.encoding && Math.abs(held.offset - found.offset) === 1) {
+      const keepFound = found.length > held.length || (found.length === held.length && found.encoding === "utf16le");
+      this.held = null;
+      return this.emit(keepFound ? found : held);
+    }
+    this.release();
+    this.held = found;
+  }
+
+  private extend(run: Run, start: number, char: number, afterPrintable = false): void {
+    if (run.length === 0) {
+      run.start = start;
+      run.afterPrintable = afterPrintable;
+    }
+    if (run.length < this.maxLength) run.chars.push(char);
+    run.length++;
+  }
+
+  private close(run: Run): void {
+    // The last character of a NUL-terminated ASCII string also reads as the first of
+    // UTF-16LE text that follows it; it belongs to the ASCII string
+    const borrowed = run.encoding === "utf16le" && run.afterPrintable ? 1 : 0;
+    if (run.length - borrowed >= this.minLength) {
+      const value = String.fromCharCode(...run.chars.slice(borrowed));
+      const offset = run.start + borrowed * 2;
+      this.report({ offset, encoding: run.encoding, length: run.length - borrowed, value, kinds: classifyString(value) });
+    }
+    run.length = 0;
+    run.chars = [];
+  }
+}
+
+const byOffset = (a: ExtractedString, b: ExtractedString) => a.offset - b.offset || a.encoding.localeCompare(b.encoding);
+
+/**
+ * Every string in an in-memory buffer, in offset order
+ */
+export function extractStrings(bytes: Uint8Array, options: StringScanOptions = {}): ExtractedString[] {
+  const found: ExtractedString[] = [];
+  const scanner = new StringScanner(options, (string) => found.push(string));
+  scanner.update(bytes);
+  scanner.finish();
+  return found.sort(byOffset);
+}
+
+/**
+ * One page of strings starting at `query.cursor`; reading stops as soon as the page is
+ * complete, so paging through a large binary never holds more than one page
+ */
+export async function readStringPage(file: Blob, query: StringQuery = {}): Promise<StringPage> {
+  const cursor = Math.max(0, query.cursor ?? 0);
+  const limit = Math.max(1, query.limit ?? DEFAULT_LIMIT);
+  const kinds = query.kinds && query.kinds.length > 0 ? new Set(query.kinds) : null;
+
+  // Start a few bytes early so UTF-16 runs near the cursor are trimmed and paired with
+  // their other-byte-order reading exactly as they were on the previous page
+  const start = Math.max(0, cursor - 4);
+  const found: ExtractedString[] = [];
+  const scanner = new StringScanner(query, (string) => {
+    if (string.offset < cursor) return;
+    if (!kinds || string.kinds.some((kind) => kinds.has(kind))) found.push(string);
+  }, start);
+
+  // One string beyond the page tells us where the next page starts
+  const complete = () => {
+    if (found.length <= limit) return false;
+    found.sort(byOffset);
+    return scanner.openOffset > found[limit].offset;
+  };
+
+  const reader = file.slice(start).stream().getReader();
+  let done = false;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      if (result.done) {
+        scanner.finish();
+        done = true;
+      } else {
+        scanner.update(result.value);
+        if (complete()) {
+          await reader.cancel();
+          break;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  found.sort(byOffset);
+  return {
+    cursor,
+    strings: found.slice(0, limit),
+    nextCursor: found.length > limit ? found[limit].offset : null,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Analysis Types
+ * Shared finding and risk types produced by the file analysis pipeline
+ */
+
+export type Severity = "info" | "low" | "medium" | "high" | "critical";
+
+export interface Finding {
+  /** Stable identifier, e.g. "mismatch" or "zip.path-traversal" */
+  id: string;
+  severity: Severity;
+  message: string;
+  /** Analyzer that produced the finding */
+  source: string;
+  offset?: number;
+}
+
+export interface RiskSummary {
+  level: Severity | "none";
+  /** 0..100, driven by the most severe finding */
+  score: number;
+  findingCount: number;
+  counts: Record<Severity, number>;
+}
+
+export interface DeclaredSource {
+  /** Original file name (or upload id) as supplied by the client */
+  name?: string;
+  /** MIME type as supplied by the client */
+  type?: string;
+}
+
+/**
+ * Position of a parser's input within the file when only part of it is in memory.
+ * Parsers treat the edges of a window as unknown rather than as truncation.
+ */
+export interface ByteWindow {
+  /** Absolute file offset of the first byte */
+  offset: number;
+  /** Size of the whole file */
+  size: number;
+}
+
+/** What every format parser returns: a structured metadata section plus findings */
+export interface ParseResult<T> {
+  metadata: T;
+  findings: Finding[];
+}
@@ -0,0 +1,114 @@
+/**
+ * Byte Range Reads
+ * Resolves `Range` headers and `offset`/`length` parameters to a bounded window of a stored file
+ */
+
+export interface ResolvedRange {
+  /** First byte served */
+  start: number;
+  /** One past the last byte served */
+  end: number;
+  /** Size of the whole file */
+  size: number;
+  /** The request used a `Range` header and is answered with 206 */
+  partial: boolean;
+}
+
+export interface ByteRangeLimits {
+  defaultWindow: number;
+  maxWindow: number;
+}
+
+/** A request that cannot be answered, with the status to answer it with */
+export interface RangeRejection {
+  status: 400 | 416;
+  error: string;
+}
+
+/**
+ * Parse a single-range `bytes=` header. Returns undefined for headers this server ignores
+ * (other units, malformed values) and null for ranges that lie wholly past the end.
+ * Only the first of several ranges is honoured.
+ */
+export function parseRangeHeader(header: string, size: number): { start: number; end: number } | null | undefined {
+  const match = /^bytes=\s*(\d*)\s*-\s*(\d*)\s*(?:,|$)/i.exec(header.trim());
+  if (!match || (match[1] === "" && match[2] === "")) return undefined;
+
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return null;
+    return { start: Math.max(0, size - suffix), end: size };
+  }
+
+  const start = Number(match[1]);
+  const last = match[2] === "" ? Infinity : Number(match[2]);
+  if (last < start) return undefined;
+  if (start >= size) return null;
+  return { start, end: Math.min(size, last + 1) };
+}
+
+/**
+ * Work out which bytes to serve: a `Range` header wins over `offset`/`length` query
+ * parameters, and either is cut to `maxWindow` bytes
+ */
+export function resolveByteRange(req: Request, size: number, limits: ByteRangeLimits): ResolvedRange | RangeRejection {
+  const header = req.headers.get("range");
+  const range = header ? parseRangeHeader(header, size) : undefined;
+  if (range === null) {
+    return { status: 416, error: `Range not satisfiable for a ${size}-byte file` };
+  }
+  if (range) {
+    return { start: range.start, end: Math.min(range.end, range.start + limits.maxWindow), size, partial: true };
+  }
+
+  const params = new URL(req.url).searchParams;
+  const offset = params.has("offset") ? Number(params.get("offset")) : 0;
+  const length = params.has("length") ? Number(params.get("length")) : limits.defaultWindow;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { status: 400, error: "offset must be a non-negative integer" };
+  }
+  if (!Number.isInteger(length) || length < 1) {
+    return { status: 400, error: "length must be a positive integer" };
+  }
+  if (offset > 0 && offset >= size) {
+    return { status: 416, error: `Offset ${offset} is past the end of a ${size}-byte file` };
+  }
+
+  return { start: offset, end: Math.min(size, offset + Math.min(length, limits.maxWindow)), size, partial: false };
+}
+
+/**
+ * Stream a resolved window; the `X-Window-*` headers describe it for clients that
+ * used query parameters rather than `Range`
+ */
+export function byteRangeResponse(file: Blob, range: ResolvedRange, headers: Record<string, string> = {}): Response {
+  const { start, end, size, partial } = range;
+  const response = new Response(file.slice(start, end), {
+    status: partial ? 206 : 200,
+    headers: {
+      ...headers,
+      "Content-Type": "application/octet-stream",
+      "Accept-Ranges": "bytes",
+      "X-Window-Offset": String(start),
+      "X-Window-Length": String(end - start),
+      "X-File-Size": String(size),
+    },
+  });
+  if (partial) response.headers.set("Content-Range", `bytes ${start}-${end - 1}/${size}`);
+  return response;
+}
+
+/**
+ * Answer a request that cannot be served; 416 carries the file size as RFC 9110 asks
+ */
+export function rangeRejectionResponse({ status, error }: RangeRejection, size: number, headers: Record<string, string> = {}): Response {
+  return Response.json({ error }, {
+    status,
+    headers: status === 416 ? { ...headers, "Content-Range": `bytes */${size}` } : headers,
+  });
+}
+
+export function isRangeRejection(range: ResolvedRange | RangeRejection): range is RangeRejection {
+  return "error" in range;
+}
@@ -0,0 +1,87 @@
+/**
+ * Embedded-Content Carving
+ * Copies objects found inside an upload into child uploads and analyzes them, optionally carving their own contents
+ */
+
+import { topLevelObjects, type EmbeddedObject, type EmbeddedScan } from "../analysis/carve";
+import type { FileAnalysis, FileHashes } from "../analysis";
+import { config } from "../config";
+import { runOffThread } from "../workers";
+import { history } from "./history";
+
+export interface CarvedFile {
+  /** Upload id of the carved copy */
+  id: string;
+  parentId: string;
+  /** Where the object starts in its parent */
+  offset: number;
+  length: number;
+  signature: string;
+  format: string;
+  hashes: FileHashes;
+  analysis: FileAnalysis;
+  /** Objects carved out of this one in turn; empty unless carving recursively */
+  children: CarvedFile[];
+}
+
+export interface CarveRequest {
+  recursive?: boolean;
+  maxDepth?: number;
+  /** Child uploads one request may create, across all levels */
+  maxChildren?: number;
+}
+
+/** Children are named after their parent and offset, so carving the same object twice reuses the id */
+export function childUploadId(parentId: string, offset: number): string {
+  return `${parentId}_${offset.toString(16)}`;
+}
+
+/**
+ * Map the embedded objects of a stored upload
+ */
+export function scanUpload(id: string): Promise<EmbeddedScan> {
+  const { maxScanBytes, maxObjects, maxInflateBytes } = config.carving;
+  return runOffThread({ type: "embedded", path: `./uploads/${id}`, maxBytes: maxScanBytes, options: { maxObjects, maxInflateBytes } });
+}
+
+/**
+ * Write one embedded object out as a new upload, analyze it, and carve what it holds while the limits allow
+ */
+export async function carveObject(parentId: string, object: EmbeddedObject, request: CarveRequest = {}): Promise<CarvedFile> {
+  const maxDepth = Math.min(request.maxDepth ?? config.carving.maxDepth, config.carving.maxDepth);
+  const budget = { remaining: Math.min(request.maxChildren ?? config.carving.maxChildren, config.carving.maxChildren) };
+  return carve(parentId, object, request.recursive ? maxDepth : 0, budget);
+}
+
+async function carve(parentId: string, object: EmbeddedObject, depth: number, budget: { remaining: number }): Promise<CarvedFile> {
+  budget.remaining--;
+  const id = childUploadId(parentId, object.offset);
+  const path = `./uploads/${id}`;
+  // Bun.write copies a sliced BunFile whole, so the slice is read into memory first
+  const slice = Bun.file(`./uploads/${parentId}`).slice(object.offset, object.offset + object.length);
+  await Bun.write(path, await slice.bytes());
+
+  const result = await runOffThread({ type: "analyze", path, size: object.length, source: { name: id, type: object.mime } });
+  history.record(id, id, result);
+
+  const children: CarvedFile[] = [];
+  if (depth > 0) {
+    const scan = await scanUpload(id);
+    for (const inner of topLevelObjects(scan.objects)) {
+      if (budget.remaining <= 0) break;
+      children.push(await carve(id, inner, depth - 1, budget));
+    }
+  }
+
+  return {
+    id,
+    parentId,
+    offset: object.offset,
+    length: object.length,
+    signature: object.signature,
+    format: result.analysis.detection.format,
+    hashes: result.hashes,
+    analysis: result.analysis,
+    children,
+  };
+}
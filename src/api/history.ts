@@ -0,0 +1,75 @@
+/**
+ * Analysis History
+ * Remembers the digests of analyzed uploads so new files can be matched against earlier ones
+ */
+
+import type { FileHashes } from "../analysis";
+import { rankSimilar, type SimilarityScore } from "../analysis/similarity";
+import type { StreamAnalysis } from "../analysis/stream";
+import { config } from "../config";
+
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  format: string;
+  size: number;
+  hashes: FileHashes;
+  analyzedAt: number;
+}
+
+export interface SimilarFile extends SimilarityScore {
+  id: string;
+  name: string;
+  format: string;
+  size: number;
+}
+
+export class AnalysisHistory {
+  // Insertion order doubles as age order for eviction
+  private entries = new Map<string, HistoryEntry>();
+
+  constructor(private maxEntries: number = config.similarity.maxHistory) {}
+
+  /**
+   * Store the latest analysis of a file, replacing any earlier one
+   */
+  record(id: string, name: string, { analysis, hashes }: StreamAnalysis): HistoryEntry {
+    const entry = { id, name, format: analysis.detection.format, size: analysis.size, hashes, analyzedAt: Date.now() };
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return entry;
+  }
+
+  get(id: string): HistoryEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Remembered files ranked by fuzzy-hash similarity to the given digests
+   */
+  similar(
+    hashes: FileHashes,
+    { exclude, limit = config.similarity.limit, minScore = config.similarity.minScore }:
+      { exclude?: string; limit?: number; minScore?: number } = {},
+  ): SimilarFile[] {
+    const candidates = [...this.entries.values()].filter((entry) => entry.id !== exclude);
+    return rankSimilar(hashes, candidates, { limit, minScore }).map(({ item, score, ssdeep, tlsh }) => ({
+      id: item.id,
+      name: item.name,
+      format: item.format,
+      size: item.size,
+      score,
+      ssdeep,
+      tlsh,
+    }));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export const history = new AnalysisHistory();
@@ -0,0 +1,217 @@
+/**
+ * Batch Job Manager
+ * Runs analysis over many files with a per-job concurrency limit, progress polling and cancellation
+ */
+
+import type { DeclaredSource, FileAnalysis, FileHashes } from "../analysis";
+import { hashBytes } from "../analysis/hashing";
+import type { StreamAnalysis } from "../analysis/stream";
+import { config } from "../config";
+import { runOffThread } from "../workers";
+import { history } from "./history";
+
+export type JobStatus = "running" | "completed" | "cancelled";
+export type JobItemStatus = "pending" | "running" | "done" | "error" | "cancelled";
+
+/** A file to analyze; bytes are loaded only when the item starts */
+export interface JobSource {
+  /** Upload id, when the source is a stored file */
+  id?: string;
+  name: string;
+  type?: string;
+  /** Stored file the default analyzer streams instead of calling `read()` */
+  path?: string;
+  read: () => Promise<Uint8Array>;
+}
+
+export interface JobItem {
+  name: string;
+  status: JobItemStatus;
+  result?: FileAnalysis;
+  hashes?: FileHashes;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchJob {
+  id: string;
+  status: JobStatus;
+  concurrency: number;
+  createdAt: number;
+  finishedAt: number | null;
+  progress: Record<JobItemStatus, number> & { total: number };
+  items: JobItem[];
+}
+
+export type AnalyzeFn = (bytes: Uint8Array, source: DeclaredSource) => FileAnalysis | Promise<FileAnalysis>;
+
+export interface JobManagerOptions {
+  analyze?: AnalyzeFn;
+  /** Called for every item that finishes successfully */
+  onResult?: (source: JobSource, result: StreamAnalysis) => void;
+  maxConcurrency?: number;
+  retentionMs?: number;
+}
+
+interface JobRecord {
+  job: BatchJob;
+  owner: string | null;
+  sources: JobSource[];
+  done: Promise<void>;
+}
+
+/**
+ * Source backed by a stored upload in ./uploads
+ */
+export function uploadSource(id: string): JobSource {
+  const path = `./uploads/${id}`;
+  return {
+    id,
+    name: id,
+    path,
+    read: async () => {
+      const file = Bun.file(path);
+      if (!(await file.exists())) throw new Error("File not found");
+      return file.bytes();
+    },
+  };
+}
+
+export class JobManager {
+  private records = new Map<string, JobRecord>();
+  private analyze: AnalyzeFn | null;
+  private onResult: JobManagerOptions["onResult"];
+  private maxConcurrency: number;
+  private retentionMs: number;
+
+  constructor(options: JobManagerOptions = {}) {
+    this.analyze = options.analyze ?? null;
+    this.onResult = options.onResult;
+    this.maxConcurrency = options.maxConcurrency ?? config.batch.maxConcurrency;
+    this.retentionMs = options.retentionMs ?? config.batch.retentionMs;
+  }
+
+  /**
+   * Start a job; analysis continues in the background while callers poll `get()`
+   */
+  submit(sources: JobSource[], options: { concurrency?: number; owner?: string | null } = {}): BatchJob {
+    this.sweep();
+
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? config.batch.concurrency, this.maxConcurrency));
+    const job: BatchJob = {
+      id: Bun.randomUUIDv7(),
+      status: "running",
+      concurrency,
+      createdAt: Date.now(),
+      finishedAt: null,
+      progress: { total: sources.length, pending: sources.length, running: 0, done: 0, error: 0, cancelled: 0 },
+      items: sources.map((source) => ({ name: source.name, status: "pending" })),
+    };
+
+    const record: JobRecord = { job, owner: options.owner ?? null, sources, done: Promise.resolve() };
+    record.done = this.run(record);
+    this.records.set(job.id, record);
+    return job;
+  }
+
+  /**
+   * Current job state, or undefined when it does not exist or belongs to another owner
+   */
+  get(id: string, owner: string | null = null): BatchJob | undefined {
+    const record = this.records.get(id);
+    if (!record || (record.owner !== null && record.owner !== owner)) return undefined;
+    return record.job;
+  }
+
+  /**
+   * Stop scheduling new items; items already running are allowed to finish
+   */
+  cancel(id: string, owner: string | null = null): BatchJob | undefined {
+    const job = this.get(id, owner);
+    if (!job || job.status !== "running") return job;
+
+    job.status = "cancelled";
+    for (const item of job.items) {
+      if (item.status === "pending") this.transition(job, item, "cancelled");
+    }
+    return job;
+  }
+
+  /**
+   * Resolve once every item of the job has settled
+   */
+  async wait(id: string): Promise<BatchJob | undefined> {
+    const record = this.records.get(id);
+    if (!record) return undefined;
+    await record.done;
+    return record.job;
+  }
+
+  private async run({ job, sources }: JobRecord): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (job.status === "running" && next < sources.length) {
+        const index = next++;
+        await this.runItem(job, job.items[index], sources[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(job.concurrency, sources.length) }, worker));
+    if (job.status === "running") job.status = "completed";
+    job.finishedAt = Date.now();
+  }
+
+  private async runItem(job: BatchJob, item: JobItem, source: JobSource): Promise<void> {
+    if (item.status !== "pending") return;
+    this.transition(job, item, "running");
+    item.startedAt = Date.now();
+
+    try {
+      const result = await this.analyzeSource(source);
+      item.result = result.analysis;
+      item.hashes = result.hashes;
+      this.transition(job, item, "done");
+      this.onResult?.(source, result);
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : String(error);
+      this.transition(job, item, "error");
+    }
+    item.finishedAt = Date.now();
+  }
+
+  private async analyzeSource(source: JobSource): Promise<StreamAnalysis> {
+    const declared = { name: source.name, type: source.type };
+    if (this.analyze) {
+      const bytes = await source.read();
+      return { analysis: await this.analyze(bytes, declared), hashes: hashBytes(bytes, config.hashing.algorithms) };
+    }
+
+    // Stored files are streamed by the worker rather than loaded here
+    const task = source.path
+      ? { type: "analyze" as const, path: source.path, size: Bun.file(source.path).size, source: declared }
+      : { type: "analyze" as const, bytes: await source.read(), source: declared };
+    return runOffThread(task);
+  }
+
+  private transition(job: BatchJob, item: JobItem, status: JobItemStatus): void {
+    job.progress[item.status]--;
+    job.progress[status]++;
+    item.status = status;
+  }
+
+  /** Drop finished jobs older than the retention window */
+  private sweep(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, { job }] of this.records) {
+      if (job.finishedAt !== null && job.finishedAt < cutoff) this.records.delete(id);
+    }
+  }
+}
+
+// Stored uploads analyzed in batches become candidates for /api/files/:id/similar
+export const jobs = new JobManager({
+  onResult: (source, result) => {
+    if (source.id) history.record(source.id, source.name, result);
+  },
+});
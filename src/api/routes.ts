@@ -1,6 +1,16 @@
 import { Bun } from "bun";
 import { CookieManager } from "./cookie-manager";
 import { Palette } from "../utils/colors";
+import { rm } from "node:fs/promises";
+import { join } from "node:path";
+import { sweepSandboxes, type ExtractionLimits } from "../analysis/extract";
+import { parseStringQuery } from "../analysis/strings";
+import { config } from "../config";
+import { runOffThread, taskErrorStatus } from "../workers";
+import { jobs, uploadSource, type JobSource } from "./jobs";
+import { history } from "./history";
+import { carveObject, scanUpload } from "./carving";
+import { byteRangeResponse, isRangeRejection, rangeRejectionResponse, resolveByteRange } from "./byte-range";
 
 // Cookie-aware URL patterns
 const patterns = {
@@ -12,7 +22,13 @@ const patterns = {
   // File operations
   analyze: new URLPattern({ pathname: "/api/files/analyze" }),
   analyzeById: new URLPattern({ pathname: "/api/files/:id/analyze" }),
+  similar: new URLPattern({ pathname: "/api/files/:id/similar" }),
+  strings: new URLPattern({ pathname: "/api/files/:id/strings" }),
+  bytes: new URLPattern({ pathname: "/api/files/:id/bytes" }),
+  embedded: new URLPattern({ pathname: "/api/files/:id/embedded" }),
+  carve: new URLPattern({ pathname: "/api/files/:id/embedded/carve" }),
   batch: new URLPattern({ pathname: "/api/files/batch" }),
+  job: new URLPattern({ pathname: "/api/jobs/:id" }),
   
   // Archive operations
   archive: new URLPattern({ pathname: "/api/files/archive" }),
@@ -48,7 +64,7 @@ export async function handleRequest(req: Request): Promise<Response> {
   const cookies = new CookieManager(cookieHeader ? [cookieHeader] : undefined);
   
   // Verify session for protected routes
-  const protectedRoutes = ["analyze", "analyzeById", "batch", "archive"];
+  const protectedRoutes = ["analyze", "analyzeById", "similar", "strings", "bytes", "embedded", "carve", "batch", "job", "archive", "extract"];
   const matchedRoute = Object.entries(patterns).find(([, pattern]) => 
     pattern.exec(req.url)
   );
@@ -84,9 +100,34 @@ export async function handleRequest(req: Request): Promise<Response> {
           case "analyzeById":
             return handleAnalyzeById(req, cookies, params.id!);
             
+          case "similar":
+            return handleSimilar(req, params.id!);
+            
+          case "strings":
+            return handleStrings(req, params.id!);
+            
+          case "bytes":
+            return handleBytes(req, params.id!);
+            
+          case "embedded":
+            return handleEmbedded(req, params.id!);
+            
+          case "carve":
+            return handleCarve(req, params.id!);
+            
+          case "analyze":
+          case "batch":
+            return handleBatch(req, cookies);
+            
+          case "job":
+            return handleJob(req, cookies, params.id!);
+            
           case "archive":
             return handleArchive(req, cookies);
             
+          case "extract":
+            return handleExtract(req, params.id!);
+            
           case "config":
             return handleConfig(req, params.name!);
             
@@ -154,13 +195,20 @@ async function handleAnalyzeById(
   // Increment analytics
   cookies.setAnalytics(cookies.getAnalytics() + 1);
   
-  // Analyze
-  const bytes = await file.bytes();
+  // Hash and parse on a worker so large files do not block other requests
+  let result;
+  try {
+    result = await runOffThread({ type: "analyze", path: `./uploads/${id}`, size: file.size, source: { name: id, type: file.type } });
+  } catch (error) {
+    return taskErrorResponse(error, "analyzeById");
+  }
+  history.record(id, id, result);
+  
   const analysis = {
     id,
-    size: file.size,
-    sha256: Bun.hash.sha256(bytes).toString(),
-    format: detectFormat(bytes),
+    hashes: result.hashes,
+    format: result.analysis.detection.format,
+    ...result.analysis,
     views: cookies.getAnalytics(),
   };
   
@@ -172,6 +220,221 @@ async function handleAnalyzeById(
   });
 }
 
+export async function handleSimilar(req: Request, id: string): Promise<Response> {
+  const file = Bun.file(`./uploads/${id}`);
+  if (!(await file.exists())) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  
+  // Files never analyzed before are hashed now so the lookup still answers
+  let entry = history.get(id);
+  if (!entry) {
+    try {
+      const result = await runOffThread({ type: "analyze", path: `./uploads/${id}`, size: file.size, source: { name: id, type: file.type } });
+      entry = history.record(id, id, result);
+    } catch (error) {
+      return taskErrorResponse(error, "similar");
+    }
+  }
+  
+  if (!entry.hashes.ssdeep && !entry.hashes.tlsh) {
+    return Response.json(
+      { error: "Similarity digests are disabled: add ssdeep or tlsh to hashing.algorithms" },
+      { status: 409 }
+    );
+  }
+  
+  const params = new URL(req.url).searchParams;
+  const limit = Number(params.get("limit")) || undefined;
+  const minScore = params.has("minScore") ? Number(params.get("minScore")) || 0 : undefined;
+  const matches = history.similar(entry.hashes, { exclude: id, limit, minScore });
+  
+  return Response.json({
+    id,
+    hashes: { ssdeep: entry.hashes.ssdeep, tlsh: entry.hashes.tlsh },
+    compared: history.size - 1,
+    matches,
+  }, {
+    headers: {
+      "X-Similar-Color": Bun.color(Palette.processing.stroke, "hex")!,
+    },
+  });
+}
+
+export async function handleStrings(req: Request, id: string): Promise<Response> {
+  const file = Bun.file(`./uploads/${id}`);
+  if (!(await file.exists())) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  
+  const url = new URL(req.url);
+  const query = parseStringQuery(url.searchParams, config.strings);
+  if (typeof query === "string") {
+    return Response.json({ error: query }, { status: 400 });
+  }
+  
+  let page;
+  try {
+    page = await runOffThread({ type: "strings", path: `./uploads/${id}`, query });
+  } catch (error) {
+    return taskErrorResponse(error, "strings");
+  }
+  
+  // The next page keeps every filter and only moves the cursor
+  let nextUrl: string | null = null;
+  if (page.nextCursor !== null) {
+    const next = new URLSearchParams(url.searchParams);
+    next.set("cursor", String(page.nextCursor));
+    nextUrl = `${url.pathname}?${next}`;
+  }
+  
+  return Response.json({ id, size: file.size, ...page, nextUrl }, {
+    headers: {
+      "X-Strings-Color": Bun.color(Palette.security.stroke, "hex")!,
+    },
+  });
+}
+
+export async function handleBytes(req: Request, id: string): Promise<Response> {
+  const file = Bun.file(`./uploads/${id}`);
+  if (!(await file.exists())) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  
+  const range = resolveByteRange(req, file.size, config.hexView);
+  if (isRangeRejection(range)) {
+    return rangeRejectionResponse(range, file.size);
+  }
+  
+  return byteRangeResponse(file, range, {
+    "X-Bytes-Color": Bun.color(Palette.storage.stroke, "hex")!,
+  });
+}
+
+export async function handleEmbedded(req: Request, id: string): Promise<Response> {
+  const file = Bun.file(`./uploads/${id}`);
+  if (!(await file.exists())) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  
+  let scan;
+  try {
+    scan = await scanUpload(id);
+  } catch (error) {
+    return taskErrorResponse(error, "embedded");
+  }
+  
+  return Response.json({ id, ...scan, carveUrl: `/api/files/${id}/embedded/carve` }, {
+    headers: {
+      "X-Embedded-Color": Bun.color(Palette.security.stroke, "hex")!,
+    },
+  });
+}
+
+export async function handleCarve(req: Request, id: string): Promise<Response> {
+  if (req.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+  
+  const file = Bun.file(`./uploads/${id}`);
+  if (!(await file.exists())) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  
+  const body = await req.json().catch(() => null);
+  const offset = Number(body?.offset);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return Response.json({ error: "offset must be a non-negative integer" }, { status: 400 });
+  }
+  
+  // Only offsets from the object map can be carved, so lengths always come from the scan
+  let carved;
+  try {
+    const scan = await scanUpload(id);
+    const object = scan.objects.find((candidate) => candidate.offset === offset);
+    if (!object) {
+      return Response.json({ error: `No embedded object starts at offset ${offset}` }, { status: 404 });
+    }
+    carved = await carveObject(id, object, {
+      recursive: body?.recursive === true,
+      maxDepth: Number(body?.maxDepth) || undefined,
+      maxChildren: Number(body?.maxChildren) || undefined,
+    });
+  } catch (error) {
+    return taskErrorResponse(error, "carve");
+  }
+  
+  return Response.json(carved, {
+    status: 201,
+    headers: {
+      "Location": `/api/files/${carved.id}/analyze`,
+      "X-Carve-Color": Bun.color(Palette.security.stroke, "hex")!,
+    },
+  });
+}
+
+export async function handleBatch(req: Request, cookies: CookieManager): Promise<Response> {
+  if (req.method !== "POST") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+  
+  // Accept either stored upload ids as JSON or a multipart upload set
+  let sources: JobSource[] = [];
+  let concurrency: number | undefined;
+  if (req.headers.get("content-type")?.includes("multipart/form-data")) {
+    const form = await req.formData();
+    sources = form.getAll("files").filter((entry): entry is File => entry instanceof File).map((file) => ({
+      name: file.name,
+      type: file.type,
+      read: async () => new Uint8Array(await file.arrayBuffer()),
+    }));
+    concurrency = Number(form.get("concurrency")) || undefined;
+  } else {
+    const body = await req.json().catch(() => null);
+    const fileIds: unknown[] = Array.isArray(body?.fileIds) ? body.fileIds : [];
+    sources = fileIds.filter((id): id is string => typeof id === "string").map(uploadSource);
+    concurrency = Number(body?.concurrency) || undefined;
+  }
+  
+  if (sources.length === 0) {
+    return Response.json({ error: "No files specified" }, { status: 400 });
+  }
+  if (sources.length > config.batch.maxFiles) {
+    return Response.json({ error: `Too many files (max ${config.batch.maxFiles})` }, { status: 413 });
+  }
+  
+  const job = jobs.submit(sources, { concurrency, owner: cookies.getSession() });
+  
+  return Response.json({
+    jobId: job.id,
+    status: job.status,
+    concurrency: job.concurrency,
+    total: job.progress.total,
+    statusUrl: `/api/jobs/${job.id}`,
+  }, {
+    status: 202,
+    headers: {
+      "Location": `/api/jobs/${job.id}`,
+      "X-Batch-Color": Bun.color(Palette.processing.stroke, "hex")!,
+    },
+  });
+}
+
+async function handleJob(req: Request, cookies: CookieManager, id: string): Promise<Response> {
+  const owner = cookies.getSession();
+  const job = req.method === "DELETE" ? jobs.cancel(id, owner) : jobs.get(id, owner);
+  
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404 });
+  }
+  
+  return Response.json(job, {
+    headers: {
+      "X-Job-Color": Bun.color(Palette.processing.stroke, "hex")!,
+    },
+  });
+}
+
 async function handleArchive(req: Request, cookies: CookieManager): Promise<Response> {
   const body = await req.json().catch(() => null);
   const fileIds = body?.fileIds || [];
@@ -212,6 +475,58 @@ async function handleArchive(req: Request, cookies: CookieManager): Promise<Resp
   });
 }
 
+/**
+ * Limits come from config; query parameters may only tighten them
+ */
+function extractionLimits(params: URLSearchParams): ExtractionLimits {
+  const { maxTotalBytes, maxEntries, maxDepth, maxPathLength } = config.extraction;
+  const limits: ExtractionLimits = { maxTotalBytes, maxEntries, maxDepth, maxPathLength };
+  
+  for (const key of Object.keys(limits) as Array<keyof ExtractionLimits>) {
+    const requested = Number(params.get(key));
+    if (Number.isInteger(requested) && requested > 0) {
+      limits[key] = Math.min(limits[key], requested);
+    }
+  }
+  return limits;
+}
+
+export async function handleExtract(req: Request, id: string): Promise<Response> {
+  const file = Bun.file(`./uploads/${id}`);
+  if (!(await file.exists())) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  
+  // Every request unpacks into its own directory; expired ones are dropped first
+  const { sandboxRoot, retentionMs } = config.extraction;
+  await sweepSandboxes(sandboxRoot, retentionMs);
+  const extractionId = Bun.randomUUIDv7();
+  const sandbox = join(sandboxRoot, extractionId);
+  const limits = extractionLimits(new URL(req.url).searchParams);
+  
+  let manifest;
+  try {
+    manifest = await runOffThread({ type: "extract", path: `./uploads/${id}`, sandbox, limits });
+  } catch (error) {
+    await rm(sandbox, { recursive: true, force: true });
+    if (taskErrorStatus(error) !== 500) return taskErrorResponse(error, "extract");
+    return Response.json(
+      { error: `Extraction failed: ${error instanceof Error ? error.message : error}` },
+      { status: 422 }
+    );
+  }
+  
+  if (!manifest) {
+    return Response.json({ error: "Unsupported archive: expected tar, tar.gz or zip" }, { status: 415 });
+  }
+  
+  return Response.json({ id, extractionId, ...manifest }, {
+    headers: {
+      "X-Extract-Color": Bun.color(Palette.storage.stroke, "hex")!,
+    },
+  });
+}
+
 async function handleConfig(req: Request, name: string): Promise<Response> {
   const configPath = `./config/${name}.jsonc`;
   
@@ -271,6 +586,25 @@ async function handleDebugColors(
   });
 }
 
+/**
+ * Map worker pool failures to 503/504 so clients can back off and retry
+ */
+function taskErrorResponse(error: unknown, route: string): Response {
+  const status = taskErrorStatus(error);
+  if (status === 500) return handleError(error, route);
+  
+  return Response.json(
+    { error: error instanceof Error ? error.message : String(error) },
+    {
+      status,
+      headers: {
+        ...(status === 503 ? { "Retry-After": "5" } : {}),
+        "X-Error-Color": Bun.color(Palette.security.stroke, "hex")!,
+      },
+    }
+  );
+}
+
 function handleError(error: unknown, route: string): Response {
   console.error(
     `%c❌ Error in ${route}: ${error}`, 
@@ -287,14 +621,3 @@ function handleError(error: unknown, route: string): Response {
     }
   );
 }
-
-function detectFormat(bytes: Uint8Array): string {
-  // SIMD-optimized detection (Bun v1.3.6+)
-  const buffer = Buffer.from(bytes);
-  
-  if (buffer.includes(Buffer.from([0x89, 0x50, 0x4E, 0x47]))) return "PNG";
-  if (buffer.includes(Buffer.from([0xFF, 0xD8, 0xFF]))) return "JPEG";
-  if (buffer.includes(Buffer.from([0x50, 0x4B, 0x03, 0x04]))) return "ZIP";
-  
-  return "Unknown";
-}
@@ -1,5 +1,9 @@
 import { Bun } from "bun";
 import { CookieManager } from "./cookie-manager";
+import { runOffThread, taskErrorStatus } from "../workers";
+import { jobs } from "./jobs";
+import { history } from "./history";
+import { handleBatch, handleBytes, handleCarve, handleEmbedded, handleExtract, handleSimilar, handleStrings } from "./routes";
 
 // Environment variables
 const API_PORT = process.env.API_PORT || "3007";
@@ -21,7 +25,8 @@ export function createServer() {
       const corsHeaders = {
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type, Authorization, Cookie",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization, Cookie, Range",
+        "Access-Control-Expose-Headers": "Content-Range, X-Window-Offset, X-Window-Length, X-File-Size",
       };
 
       // Handle CORS preflight
@@ -29,6 +34,12 @@ export function createServer() {
         return new Response(null, { headers: corsHeaders });
       }
 
+      // Handlers shared with routes.ts answer without CORS headers
+      const withCors = (response: Response) => {
+        for (const [name, value] of Object.entries(corsHeaders)) response.headers.set(name, value);
+        return response;
+      };
+
       // Extract cookies from request
       const cookieHeader = req.headers.get("cookie") || "";
       const cookieManager = new CookieManager(cookieHeader);
@@ -114,30 +125,35 @@ export function createServer() {
           });
         }
 
-        // File analysis routes
-        if (url.pathname === "/api/files/analyze" && method === "POST") {
-          const body = await req.json();
-          const { fileIds = [] } = body;
+        // File analysis routes: submit a batch job and poll /api/jobs/:id
+        if ((url.pathname === "/api/files/analyze" || url.pathname === "/api/files/batch") && method === "POST") {
+          return withCors(await handleBatch(req, cookieManager));
+        }
 
-          const results = fileIds.map((id: string) => ({
-            id,
-            status: "analyzed",
-            timestamp: Date.now(),
-          }));
+        const jobMatch = new URLPattern({ pathname: "/api/jobs/:id" }).exec(url);
+        if (jobMatch && (method === "GET" || method === "DELETE")) {
+          const jobId = jobMatch.pathname.groups.id!;
+          const owner = cookieManager.getSession();
+          const job = method === "DELETE" ? jobs.cancel(jobId, owner) : jobs.get(jobId, owner);
 
-          return Response.json({
-            success: true,
-            results,
-            analyzed: fileIds.length,
-          }, { headers: corsHeaders });
+          if (!job) {
+            return Response.json({
+              error: "Job not found",
+            }, { 
+              status: 404,
+              headers: corsHeaders,
+            });
+          }
+
+          return Response.json(job, { headers: corsHeaders });
         }
 
         // Dynamic file routes with URLPattern
-        const filePattern = new URLPattern("/api/files/:id/analyze");
+        const filePattern = new URLPattern({ pathname: "/api/files/:id/analyze" });
         const fileMatch = filePattern.exec(url);
 
         if (fileMatch && method === "POST") {
-          const fileId = fileMatch.pathname.groups.id;
+          const fileId = fileMatch.pathname.groups.id!;
           
           // Check if file exists
           const filePath = `./uploads/${fileId}`;
@@ -152,27 +168,66 @@ export function createServer() {
             });
           }
 
-          const buffer = await file.arrayBuffer();
-          const size = buffer.byteLength;
-          
-          // Simple format detection
-          let format = "Unknown";
-          const uint8 = new Uint8Array(buffer.slice(0, 4));
-          const hex = Array.from(uint8).map(b => b.toString(16).padStart(2, "0")).join("");
-          
-          if (hex.startsWith("89504e47")) format = "PNG";
-          else if (hex.startsWith("ffd8ff")) format = "JPEG";
-          else if (hex.startsWith("47494638")) format = "GIF";
-          else if (hex.startsWith("504b0304")) format = "ZIP";
+          let result;
+          try {
+            result = await runOffThread({ type: "analyze", path: filePath, size: file.size, source: { name: fileId, type: file.type } });
+          } catch (error) {
+            return Response.json({
+              error: "Analysis failed",
+              details: error instanceof Error ? error.message : String(error),
+            }, { 
+              status: taskErrorStatus(error),
+              headers: corsHeaders,
+            });
+          }
+
+          history.record(fileId, fileId, result);
 
           return Response.json({
             id: fileId,
-            size,
-            format,
+            format: result.analysis.detection.format,
+            mime: result.analysis.detection.mime,
+            hashes: result.hashes,
+            ...result.analysis,
             timestamp: Date.now(),
           }, { headers: corsHeaders });
         }
 
+        const similarMatch = new URLPattern({ pathname: "/api/files/:id/similar" }).exec(url);
+        if (similarMatch && method === "GET") {
+          return withCors(await handleSimilar(req, similarMatch.pathname.groups.id!));
+        }
+
+        // Printable strings, one page at a time
+        const stringsMatch = new URLPattern({ pathname: "/api/files/:id/strings" }).exec(url);
+        if (stringsMatch && method === "GET") {
+          return withCors(await handleStrings(req, stringsMatch.pathname.groups.id!));
+        }
+
+        // Raw byte windows for the hex viewer
+        const bytesMatch = new URLPattern({ pathname: "/api/files/:id/bytes" }).exec(url);
+        if (bytesMatch && method === "GET") {
+          return withCors(await handleBytes(req, bytesMatch.pathname.groups.id!));
+        }
+
+        // Map of objects embedded in an upload
+        const embeddedMatch = new URLPattern({ pathname: "/api/files/:id/embedded" }).exec(url);
+        if (embeddedMatch && method === "GET") {
+          return withCors(await handleEmbedded(req, embeddedMatch.pathname.groups.id!));
+        }
+
+        // Carve one embedded object into a child upload
+        const carveMatch = new URLPattern({ pathname: "/api/files/:id/embedded/carve" }).exec(url);
+        if (carveMatch && method === "POST") {
+          return withCors(await handleCarve(req, carveMatch.pathname.groups.id!));
+        }
+
+        // Sandboxed extraction of a stored archive
+        const extractMatch = new URLPattern({ pathname: "/api/files/:id/extract" }).exec(url);
+        if (extractMatch && (method === "GET" || method === "POST")) {
+          return withCors(await handleExtract(req, extractMatch.pathname.groups.id!));
+        }
+
         // Archive creation
         if (url.pathname === "/api/files/archive" && method === "POST") {
           const body = await req.json();
@@ -268,7 +323,15 @@ export function createServer() {
             "/api/auth/login",
             "/api/auth/logout", 
             "/api/files/analyze",
+            "/api/files/batch",
+            "/api/jobs/:id",
             "/api/files/:id/analyze",
+            "/api/files/:id/similar",
+            "/api/files/:id/strings",
+            "/api/files/:id/bytes",
+            "/api/files/:id/embedded",
+            "/api/files/:id/embedded/carve",
+            "/api/files/:id/extract",
             "/api/files/archive",
             "/api/config/:name",
             "/api/debug/colors/:format",
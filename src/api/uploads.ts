@@ -0,0 +1,193 @@
+/**
+ * Upload Spooling
+ * Writes request bodies to disk as they arrive so analysis can run on a worker from a path
+ */
+
+import type { FileSink } from "bun";
+import { readdir, rm, stat } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { FileTooLargeError } from "../analysis/stream";
+import type { DeclaredSource } from "../analysis";
+
+export interface SpooledUpload {
+  source: DeclaredSource;
+  size: number;
+}
+
+interface PartHeaders {
+  field: string | null;
+  filename: string | null;
+  type: string | null;
+}
+
+/** Directory every stored upload lives in, named by its id */
+export const UPLOADS_DIR = "./uploads";
+
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+/** Part headers larger than this are treated as a malformed body */
+const MAX_PART_HEADERS = 16 * 1024;
+
+/**
+ * Path of the stored upload `id`, or null when the id would name anything but a file directly in UPLOADS_DIR.
+ * Route params arrive percent-decoded, so `..%2F..` must not reach the filesystem as-is.
+ */
+export function uploadPath(id: string): string | null {
+  const root = resolve(UPLOADS_DIR);
+  const path = resolve(root, id);
+  return dirname(path) === root ? path : null;
+}
+
+/**
+ * Remove stored uploads that were last written more than `retentionMs` ago
+ */
+export async function sweepUploads(retentionMs: number, root = UPLOADS_DIR): Promise<number> {
+  const cutoff = Date.now() - retentionMs;
+  let removed = 0;
+  const names = await readdir(root).catch(() => [] as string[]);
+  for (const name of names) {
+    const path = join(root, name);
+    const info = await stat(path).catch(() => null);
+    if (!info?.isFile() || info.mtimeMs > cutoff) continue;
+    await rm(path, { force: true });
+    removed++;
+  }
+  return removed;
+}
+
+/**
+ * Copy a stream into `path`, abandoning it once more than `maxBytes` have arrived
+ */
+export async function spoolStream(stream: ReadableStream<Uint8Array>, path: string, maxBytes: number): Promise<number> {
+  const writer = Bun.file(path).writer();
+  const reader = stream.getReader();
+  let size = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new FileTooLargeError(maxBytes);
+      }
+      writer.write(value);
+      await writer.flush();
+    }
+  } finally {
+    reader.releaseLock();
+    await writer.end();
+  }
+  return size;
+}
+
+/** Multipart boundary from a Content-Type header, or null when there is none */
+export function multipartBoundary(contentType: string): string | null {
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match ? match[1] ?? match[2] : null;
+}
+
+function parsePartHeaders(block: string): PartHeaders {
+  const headers: PartHeaders = { field: null, filename: null, type: null };
+  for (const line of block.split("\r\n")) {
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    if (name === "content-type") headers.type = value;
+    if (name === "content-disposition") {
+      headers.field = /;\s*name="([^"]*)"/i.exec(value)?.[1] ?? null;
+      headers.filename = /;\s*filename="([^"]*)"/i.exec(value)?.[1] ?? null;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Copy the file sent as form field `field` from a multipart body into `path` without buffering the body.
+ * Resolves to null when the body has no such file part.
+ */
+export async function spoolMultipartFile(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  field: string,
+  path: string,
+  maxBytes: number,
+): Promise<SpooledUpload | null> {
+  // The first delimiter has no leading CRLF; every later one does
+  const opening = Buffer.from(`--${boundary}`);
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const reader = body.getReader();
+  let buffer = Buffer.alloc(0);
+  let state: "preamble" | "headers" | "body" = "preamble";
+  let part: PartHeaders | null = null;
+  let writer: FileSink | null = null;
+  let size = 0;
+
+  const emit = async (chunk: Buffer) => {
+    if (!writer || chunk.length === 0) return;
+    size += chunk.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new FileTooLargeError(maxBytes);
+    }
+    writer.write(chunk);
+    await writer.flush();
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) buffer = Buffer.concat([buffer, value]);
+
+      // Consume as much of the buffer as the current state allows
+      while (true) {
+        if (state === "preamble") {
+          const at = buffer.indexOf(opening);
+          if (at < 0) {
+            buffer = buffer.subarray(Math.max(0, buffer.length - opening.length + 1));
+            break;
+          }
+          buffer = buffer.subarray(at + opening.length);
+          state = "headers";
+        } else if (state === "headers") {
+          // `--` right after a delimiter closes the body
+          if (buffer.length >= 2 && buffer[0] === 0x2d && buffer[1] === 0x2d) return null;
+          const end = buffer.indexOf(HEADER_END);
+          if (end < 0) {
+            if (buffer.length > MAX_PART_HEADERS) throw new Error("Multipart part headers are too large");
+            break;
+          }
+          const start = buffer.subarray(0, CRLF.length).equals(CRLF) ? CRLF.length : 0;
+          part = parsePartHeaders(buffer.toString("utf8", start, end));
+          buffer = buffer.subarray(end + HEADER_END.length);
+          if (part.field === field && part.filename !== null) writer = Bun.file(path).writer();
+          state = "body";
+        } else {
+          const at = buffer.indexOf(delimiter);
+          if (at < 0) {
+            // Hold back enough bytes to recognize a delimiter split across chunks
+            const safe = Math.max(0, buffer.length - delimiter.length + 1);
+            await emit(buffer.subarray(0, safe));
+            buffer = buffer.subarray(safe);
+            break;
+          }
+          await emit(buffer.subarray(0, at));
+          buffer = buffer.subarray(at + delimiter.length);
+          if (writer) {
+            await reader.cancel();
+            return { source: { name: part?.filename || undefined, type: part?.type ?? undefined }, size };
+          }
+          state = "headers";
+        }
+      }
+
+      if (done) break;
+    }
+    if (writer) throw new Error("Multipart body ended inside the file part");
+    return null;
+  } finally {
+    reader.releaseLock();
+    await writer?.end();
+  }
+}
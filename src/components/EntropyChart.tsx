@@ -0,0 +1,60 @@
+import React from "react";
+import type { EntropyProfile } from "../analysis";
+import { HIGH_ENTROPY } from "../analysis/entropy";
+import { Palette } from "../utils/colors";
+
+interface EntropyChartProps {
+  profile: EntropyProfile;
+  width?: number;
+  height?: number;
+}
+
+const formatOffset = (offset: number) => `0x${offset.toString(16)}`;
+
+/**
+ * Per-block entropy over the file with high-entropy regions shaded, and the byte histogram beneath
+ */
+export function EntropyChart({ profile, width = 480, height = 120 }: EntropyChartProps) {
+  const { blocks, blockSize, histogram, regions } = profile;
+  const span = Math.max(1, blocks.length * blockSize);
+  const x = (offset: number) => (offset / span) * width;
+  const y = (entropy: number) => height - (entropy / 8) * height;
+  const points = blocks.map((entropy, index) => `${x((index + 0.5) * blockSize)},${y(entropy)}`).join(" ");
+  const peak = Math.max(1, ...histogram);
+
+  return (
+    <div style={{ display: "grid", gap: "0.5rem" }}>
+      <svg width={width} height={height} role="img" aria-label={`Entropy ${profile.overall} bits per byte`}>
+        {regions.map((region) => (
+          <rect
+            key={region.offset}
+            x={x(region.offset)}
+            y={0}
+            width={Math.max(1, x(region.length))}
+            height={height}
+            fill={region.likely === "encrypted" ? Palette.security.gradient : Palette.processing.gradient}
+          >
+            <title>{`${formatOffset(region.offset)} +${region.length}: ${region.entropy} bits/byte, likely ${region.likely}`}</title>
+          </rect>
+        ))}
+        <line x1={0} x2={width} y1={y(HIGH_ENTROPY)} y2={y(HIGH_ENTROPY)} stroke={Palette.error.primary} strokeDasharray="4 4" />
+        <polyline points={points} fill="none" stroke={Palette.frontend.primary} strokeWidth={1.5} />
+      </svg>
+      <svg width={width} height={height / 2} role="img" aria-label="Byte histogram">
+        {histogram.map((count, value) => (
+          <rect
+            key={value}
+            x={(value / 256) * width}
+            y={height / 2 - (count / peak) * (height / 2)}
+            width={width / 256}
+            height={(count / peak) * (height / 2)}
+            fill={Palette.performance.primary}
+          />
+        ))}
+      </svg>
+      <small>
+        Overall {profile.overall} bits/byte · χ² {profile.chiSquare} · {blockSize}-byte blocks
+      </small>
+    </div>
+  );
+}
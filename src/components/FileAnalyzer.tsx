@@ -1,5 +1,9 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import { useFileStore } from "../stores/fileStore";
+import { analysisRegions, sortRegions, stringRegions } from "../analysis/regions";
+import type { Finding, StringPage } from "../analysis";
+import { EntropyChart } from "./EntropyChart";
+import { HexViewer } from "./HexViewer";
 import { Palette } from "../utils/colors";
 import type { Config } from "../config/types";
 
@@ -7,10 +11,37 @@ interface FileAnalyzerProps {
   config?: Config;
 }
 
+const API_BASE = "http://localhost:3005";
+// Indicator strings offered as hex viewer jump targets
+const STRING_TARGETS = "url,ip,email,domain,path,registry";
+
+const severityColor = (severity: string) =>
+  severity === "critical" || severity === "high" ? Palette.security.primary : Palette.error.primary;
+
 export function FileAnalyzer({ config }: FileAnalyzerProps = {}) {
   const [dragActive, setDragActive] = useState(false);
-  const { addFile, files } = useFileStore();
+  const { addFile, files, findSimilar, currentFile, setCurrentFile } = useFileStore();
   const uploadProgress = (import.meta.hot?.data.progress ?? 0) as number;
+  const [strings, setStrings] = useState<StringPage["strings"]>([]);
+  const [jumpTo, setJumpTo] = useState<number | null>(null);
+  const selected = files.find((file) => file.id === currentFile);
+
+  useEffect(() => {
+    setStrings([]);
+    setJumpTo(null);
+    if (!currentFile) return;
+    const controller = new AbortController();
+    fetch(`${API_BASE}/api/files/${currentFile}/strings?kind=${STRING_TARGETS}`, { credentials: "include", signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((page: StringPage | null) => setStrings(page?.strings ?? []))
+      .catch(() => {});
+    return () => controller.abort();
+  }, [currentFile]);
+
+  const regions = useMemo(
+    () => (selected ? sortRegions([...analysisRegions(selected), ...stringRegions(strings)]) : []),
+    [selected, strings]
+  );
 
   const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
@@ -21,9 +52,11 @@ export function FileAnalyzer({ config }: FileAnalyzerProps = {}) {
       try {
         const formData = new FormData();
         formData.append("file", file);
-        const response = await fetch("http://localhost:3005/api/files/analyze", { method: "POST", body: formData });
+        const response = await fetch(`${API_BASE}/api/files/analyze`, { method: "POST", body: formData, credentials: "include" });
         const analysis = await response.json();
-        addFile({ id: crypto.randomUUID(), name: file.name, ...analysis.data });
+        if (!response.ok) throw new Error(analysis.error ?? `HTTP ${response.status}`);
+        // The server's upload id addresses the stored copy for the strings and bytes routes
+        addFile({ name: file.name, ...analysis.data });
       } catch (error) {
         console.error("Upload failed:", error);
       }
@@ -52,13 +85,47 @@ export function FileAnalyzer({ config }: FileAnalyzerProps = {}) {
       <h2 style={{ color: Palette.frontend.primary }}>Drop files here to analyze</h2>
       <div style={{ display: "grid", gap: "1rem", marginTop: "1rem" }}>
         {files.map((file) => (
-          <div key={file.id} style={{ padding: "1rem", border: `1px solid ${Palette.frontend.stroke}`, background: Palette.frontend.gradient }}>
+          <div
+            key={file.id}
+            onClick={() => setCurrentFile(file.id)}
+            style={{ padding: "1rem", border: `1px solid ${Palette.frontend.stroke}`, background: Palette.frontend.gradient, cursor: "pointer" }}
+          >
             <h3>{file.name}</h3>
             <p>Format: {file.signature}</p>
-            <p>Hash: {file.hash}</p>
+            {Object.entries(file.hashes).map(([algorithm, digest]) => (
+              <p key={algorithm} style={{ fontFamily: "monospace", wordBreak: "break-all" }}>
+                {algorithm.toUpperCase()}: {digest}
+              </p>
+            ))}
+            {findSimilar(file.id, 3).map((match) => (
+              <p key={match.item.id} style={{ color: Palette.processing.primary }}>
+                ≈ Similar to {match.item.name} (score {match.score})
+              </p>
+            ))}
+            {file.mismatch && file.mismatch.severity !== "none" && (
+              <p style={{ color: severityColor(file.mismatch.severity), fontWeight: "bold" }}>
+                ⚠️ Type mismatch ({file.mismatch.severity}): {file.mismatch.reason}
+              </p>
+            )}
+            {file.id === currentFile && file.entropy && <EntropyChart profile={file.entropy} />}
           </div>
         ))}
       </div>
+      {selected && (
+        <div style={{ marginTop: "1rem" }}>
+          <h3 style={{ color: Palette.frontend.primary }}>{selected.name}</h3>
+          {selected.findings?.filter((finding: Finding) => finding.offset !== undefined).map((finding: Finding, i: number) => (
+            <p
+              key={i}
+              onClick={() => setJumpTo(finding.offset!)}
+              style={{ color: severityColor(finding.severity), cursor: "pointer", margin: "0.25rem 0" }}
+            >
+              ↳ 0x{finding.offset!.toString(16).padStart(8, "0")} {finding.message}
+            </p>
+          ))}
+          <HexViewer fileId={selected.id} size={selected.size} regions={regions} jumpTo={jumpTo} apiBase={API_BASE} />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { ByteRegion } from "../analysis";
+import { Palette } from "../utils/colors";
+
+interface HexViewerProps {
+  /** Upload id served by /api/files/:id/bytes */
+  fileId: string;
+  size: number;
+  /** Labelled ranges to highlight and offer as jump targets */
+  regions?: ByteRegion[];
+  /** Offset to scroll to; changing it jumps again */
+  jumpTo?: number | null;
+  apiBase?: string;
+  height?: number;
+}
+
+const BYTES_PER_ROW = 16;
+const ROW_HEIGHT = 18;
+// Bytes fetched per request; rows are drawn as soon as their page arrives
+const PAGE_SIZE = 4096;
+// Rows rendered beyond the viewport so short scrolls do not flash empty rows
+const OVERSCAN = 4;
+// Browsers cap element heights; taller files scroll proportionally instead of per row
+const MAX_SCROLL_HEIGHT = 4_000_000;
+const MAX_LISTED_REGIONS = 500;
+
+const LAYERS = [Palette.processing, Palette.storage, Palette.performance, Palette.api, Palette.security, Palette.error] as const;
+
+/** Stable colour per analyzer so a parser's regions read as one group */
+function sourceColors(source: string) {
+  let hash = 0;
+  for (let i = 0; i < source.length; i++) hash = (Math.imul(hash, 31) + source.charCodeAt(i)) >>> 0;
+  return LAYERS[hash % LAYERS.length];
+}
+
+const hex = (value: number, width: number) => value.toString(16).padStart(width, "0");
+const printable = (byte: number) => (byte >= 0x20 && byte <= 0x7e ? String.fromCharCode(byte) : ".");
+
+/**
+ * Virtualised hex/ASCII view of an uploaded file; only the rows on screen are rendered
+ * and only the pages they need are fetched, using HTTP Range requests
+ */
+export function HexViewer({ fileId, size, regions = [], jumpTo = null, apiBase = "http://localhost:3005", height = 360 }: HexViewerProps) {
+  const viewport = useRef<HTMLDivElement>(null);
+  const pages = useRef(new Map<number, Uint8Array>());
+  const pending = useRef(new Set<number>());
+  const [, setLoaded] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [offsetInput, setOffsetInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const totalRows = Math.max(1, Math.ceil(size / BYTES_PER_ROW));
+  const visibleRows = Math.ceil(height / ROW_HEIGHT);
+  const scrollHeight = Math.min(totalRows * ROW_HEIGHT, MAX_SCROLL_HEIGHT);
+  const maxFirstRow = Math.max(0, totalRows - visibleRows);
+  const scrollRange = Math.max(1, scrollHeight - height);
+  const firstRow = Math.min(maxFirstRow, Math.round((scrollTop / scrollRange) * maxFirstRow));
+  const startRow = Math.max(0, firstRow - OVERSCAN);
+  const endRow = Math.min(totalRows, firstRow + visibleRows + OVERSCAN);
+
+  // A different file starts from an empty cache
+  useEffect(() => {
+    pages.current.clear();
+    pending.current.clear();
+    setError(null);
+  }, [fileId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const firstPage = Math.floor((startRow * BYTES_PER_ROW) / PAGE_SIZE);
+    const lastPage = Math.floor((Math.max(0, endRow * BYTES_PER_ROW - 1)) / PAGE_SIZE);
+    const started: number[] = [];
+
+    for (let page = firstPage; page <= lastPage; page++) {
+      if (pages.current.has(page) || pending.current.has(page) || page * PAGE_SIZE >= size) continue;
+      pending.current.add(page);
+      started.push(page);
+      const start = page * PAGE_SIZE;
+      fetch(`${apiBase}/api/files/${fileId}/bytes`, {
+        headers: { Range: `bytes=${start}-${Math.min(size, start + PAGE_SIZE) - 1}` },
+        credentials: "include",
+        signal: controller.signal,
+      })
+        .then(async (response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          pages.current.set(page, new Uint8Array(await response.arrayBuffer()));
+          setLoaded((count) => count + 1);
+        })
+        .catch((reason) => {
+          if (!controller.signal.aborted) setError(`Could not load bytes at 0x${hex(start, 8)}: ${reason}`);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) pending.current.delete(page);
+        });
+    }
+    // Pages cut off by a scroll are released now, so the next effect can fetch them again
+    return () => {
+      controller.abort();
+      for (const page of started) pending.current.delete(page);
+    };
+  }, [fileId, size, startRow, endRow, apiBase]);
+
+  const jump = (offset: number) => {
+    const clamped = Math.max(0, Math.min(size - 1, offset));
+    const row = Math.min(maxFirstRow, Math.floor(clamped / BYTES_PER_ROW));
+    setSelected(clamped);
+    if (viewport.current) viewport.current.scrollTop = maxFirstRow === 0 ? 0 : (row / maxFirstRow) * scrollRange;
+  };
+
+  useEffect(() => {
+    if (jumpTo !== null) jump(jumpTo);
+  }, [jumpTo]);
+
+  // Only regions touching the rendered rows are searched per byte
+  const windowStart = startRow * BYTES_PER_ROW;
+  const windowEnd = endRow * BYTES_PER_ROW;
+  const visibleRegions = useMemo(
+    () => regions.filter((region) => region.offset < windowEnd && region.offset + region.length > windowStart),
+    [regions, windowStart, windowEnd]
+  );
+  const regionAt = (offset: number) => {
+    for (let i = visibleRegions.length - 1; i >= 0; i--) {
+      const region = visibleRegions[i];
+      if (offset >= region.offset && offset < region.offset + region.length) return region;
+    }
+    return null;
+  };
+  const sources = useMemo(() => [...new Set(regions.map((region) => region.source))], [regions]);
+
+  const byteAt = (offset: number) => pages.current.get(Math.floor(offset / PAGE_SIZE))?.[offset % PAGE_SIZE];
+
+  const cell = (offset: number, text: string, width: string) => {
+    const region = regionAt(offset);
+    const colors = region ? sourceColors(region.source) : null;
+    return (
+      <span
+        key={offset}
+        onClick={() => setSelected(offset)}
+        title={region ? `${region.source}: ${region.label}` : undefined}
+        style={{
+          display: "inline-block",
+          width,
+          textAlign: "center",
+          cursor: "pointer",
+          background: colors?.gradient,
+          borderBottom: colors ? `2px solid ${colors.primary}` : undefined,
+          outline: offset === selected ? `1px solid ${Palette.frontend.stroke}` : undefined,
+        }}
+      >
+        {text}
+      </span>
+    );
+  };
+
+  const rows = [];
+  for (let row = startRow; row < endRow; row++) {
+    const rowOffset = row * BYTES_PER_ROW;
+    const hexCells = [];
+    const asciiCells = [];
+    for (let column = 0; column < BYTES_PER_ROW && rowOffset + column < size; column++) {
+      const offset = rowOffset + column;
+      const byte = byteAt(offset);
+      hexCells.push(cell(offset, byte === undefined ? "··" : hex(byte, 2), "2.4ch"));
+      asciiCells.push(cell(offset, byte === undefined ? " " : printable(byte), "1ch"));
+    }
+    rows.push(
+      <div key={row} style={{ position: "absolute", top: (row - firstRow) * ROW_HEIGHT, height: ROW_HEIGHT, whiteSpace: "pre" }}>
+        <span style={{ color: Palette.frontend.primary, marginRight: "1ch" }}>{hex(rowOffset, 8)}</span>
+        <span style={{ display: "inline-block", width: `${BYTES_PER_ROW * 2.4 + 1}ch` }}>{hexCells}</span>
+        <span>{asciiCells}</span>
+      </div>
+    );
+  }
+
+  const selectedRegions = selected === null ? [] : regions.filter((r) => selected >= r.offset && selected < r.offset + r.length);
+
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "auto 16rem", gap: "1rem", fontFamily: "monospace", fontSize: "12px" }}>
+      <div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            const offset = offsetInput.trim().startsWith("0x") ? parseInt(offsetInput.trim().slice(2), 16) : Number(offsetInput);
+            if (Number.isFinite(offset)) jump(offset);
+          }}
+          style={{ marginBottom: "0.5rem" }}
+        >
+          <input value={offsetInput} onChange={(e) => setOffsetInput(e.target.value)} placeholder="Offset, e.g. 0x1f40" />
+          <button type="submit">Go</button>
+        </form>
+        <div
+          ref={viewport}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          style={{ height, overflowY: "auto", position: "relative", border: `1px solid ${Palette.frontend.stroke}` }}
+        >
+          <div style={{ height: scrollHeight, position: "relative" }}>
+            <div style={{ position: "sticky", top: 0, height: 0 }}>{rows}</div>
+          </div>
+        </div>
+        {error && <p style={{ color: Palette.security.primary }}>{error}</p>}
+        {selected !== null && (
+          <p>
+            0x{hex(selected, 8)} ({selected})
+            {selectedRegions.map((region, i) => (
+              <span key={i} style={{ color: sourceColors(region.source).stroke }}> · {region.source}: {region.label}</span>
+            ))}
+          </p>
+        )}
+      </div>
+      <div style={{ maxHeight: height + 40, overflowY: "auto" }}>
+        <div style={{ marginBottom: "0.5rem" }}>
+          {sources.map((source) => (
+            <span key={source} style={{ marginRight: "0.5rem", borderBottom: `2px solid ${sourceColors(source).primary}` }}>{source}</span>
+          ))}
+        </div>
+        {regions.slice(0, MAX_LISTED_REGIONS).map((region, i) => (
+          <div
+            key={i}
+            onClick={() => jump(region.offset)}
+            title={region.label}
+            style={{ cursor: "pointer", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", color: sourceColors(region.source).stroke }}
+          >
+            {hex(region.offset, 8)} {region.label}
+          </div>
+        ))}
+        {regions.length > MAX_LISTED_REGIONS && <small>{regions.length - MAX_LISTED_REGIONS} more not listed</small>}
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,11 @@ export const Features = {
   reactFastRefresh: typeof Bun !== "undefined" && Bun.version >= "1.3.6",
   simd: typeof Buffer !== "undefined" && typeof Buffer.prototype.indexOf === "function",
   workerPool: typeof navigator !== "undefined" && (navigator.hardwareConcurrency || 0) >= 4,
-  virusScan: false,
+  virusScan: true, // Local rules in config/rules
   gradients: false,
   configHMR: true, // Add configHMR feature
 } as const;
 
 export const WorkerPool = Features.workerPool
-  ? await import("../workers/pool.ts")
+  ? await import("../workers/pool")
   : null;
@@ -45,6 +45,78 @@ export const config: Config = {
     archiveCompression: "gzip",
   },
   
+  // Sandboxed archive extraction limits
+  extraction: {
+    sandboxRoot: "./sandbox",
+    maxTotalBytes: 256 * 1024 * 1024,
+    maxEntries: 10000,
+    maxDepth: 3,
+    maxPathLength: 1024,
+    retentionMs: 60 * 60 * 1000,
+  },
+  
+  // Batch analysis jobs
+  batch: {
+    concurrency: 4,
+    maxConcurrency: 16,
+    maxFiles: 1000,
+    retentionMs: 60 * 60 * 1000,
+  },
+  
+  // Analysis worker pool
+  workers: {
+    size: 0,
+    maxQueue: 256,
+    taskTimeoutMs: 60_000,
+  },
+  
+  // Digests reported for every analyzed file
+  hashing: {
+    algorithms: ["crc32", "md5", "sha1", "sha256", "sha512", "blake2b512", "ssdeep", "tlsh"],
+  },
+  
+  // Streaming analysis of large files
+  streaming: {
+    maxFileSize: 2 * 1024 * 1024 * 1024,
+    windowBytes: 16 * 1024 * 1024,
+    minBytesPerSecond: 32 * 1024 * 1024,
+  },
+  
+  // Files stored by the analyze API for later byte and strings requests
+  uploads: {
+    retentionMs: 24 * 60 * 60 * 1000,
+  },
+  
+  // Near-duplicate lookups over ssdeep/TLSH digests
+  similarity: {
+    maxHistory: 10_000,
+    limit: 20,
+    minScore: 0,
+  },
+  
+  // Strings extraction; pages stop reading once they are full
+  strings: {
+    minLength: 4,
+    maxLength: 1024,
+    pageSize: 500,
+    maxPageSize: 5000,
+  },
+  
+  // Byte windows served to the hex viewer
+  hexView: {
+    defaultWindow: 4096,
+    maxWindow: 64 * 1024,
+  },
+  
+  // Embedded-content carving
+  carving: {
+    maxScanBytes: 256 * 1024 * 1024,
+    maxObjects: 1000,
+    maxInflateBytes: 64 * 1024 * 1024,
+    maxDepth: 3,
+    maxChildren: 32,
+  },
+  
   // Cross-compilation targets
   targets: [
     "bun-darwin-arm64",
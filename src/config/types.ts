@@ -3,6 +3,8 @@
  * Type definitions for the Bun Enhanced File Analyzer configuration
  */
 
+import type { HashAlgorithm } from "../analysis/hashing";
+
 export interface Config {
   name: string;
   version: string;
@@ -11,6 +13,16 @@ export interface Config {
   build: BuildConfig;
   virtualFiles: VirtualFilesConfig;
   performance: PerformanceConfig;
+  extraction: ExtractionConfig;
+  batch: BatchConfig;
+  workers: WorkersConfig;
+  hashing: HashingConfig;
+  streaming: StreamingConfig;
+  uploads: UploadsConfig;
+  similarity: SimilarityConfig;
+  strings: StringsConfig;
+  hexView: HexViewConfig;
+  carving: CarvingConfig;
   targets: string[];
   features: string[];
 }
@@ -49,8 +61,93 @@ export interface PerformanceConfig {
   archiveCompression: string;
 }
 
+export interface ExtractionConfig {
+  sandboxRoot: string;
+  maxTotalBytes: number;
+  maxEntries: number;
+  /** How many archive-within-archive levels are unpacked */
+  maxDepth: number;
+  maxPathLength: number;
+  /** How long a request's sandbox is kept before it is swept */
+  retentionMs: number;
+}
+
+export interface BatchConfig {
+  /** Files analyzed in parallel when a job does not ask for a value */
+  concurrency: number;
+  maxConcurrency: number;
+  maxFiles: number;
+  /** How long finished jobs stay available for polling */
+  retentionMs: number;
+}
+
+export interface WorkersConfig {
+  /** Worker count; 0 sizes the pool from navigator.hardwareConcurrency */
+  size: number;
+  /** Tasks waiting for a worker before new ones are rejected */
+  maxQueue: number;
+  taskTimeoutMs: number;
+}
+
 export interface ConfigHMRUpdate {
   config: Config;
   oldConfig?: Config;
   changes: string[];
 }
+
+export interface HashingConfig {
+  /** Digests computed in the same pass that reads the file */
+  algorithms: HashAlgorithm[];
+}
+
+export interface StreamingConfig {
+  /** Largest file accepted for analysis */
+  maxFileSize: number;
+  /** Head and tail kept in memory; smaller files are analyzed whole */
+  windowBytes: number;
+  /** Slowest read rate assumed when extending task timeouts for large files */
+  minBytesPerSecond: number;
+}
+
+export interface UploadsConfig {
+  /** How long a stored upload is kept before it is swept; matches the session cookie lifetime */
+  retentionMs: number;
+}
+
+export interface SimilarityConfig {
+  /** Analyzed files remembered for similarity lookups; the oldest are forgotten first */
+  maxHistory: number;
+  /** Matches returned when a request does not ask for a value */
+  limit: number;
+  /** Scores at or below this are not reported */
+  minScore: number;
+}
+
+export interface StringsConfig {
+  /** Shortest run reported, in characters */
+  minLength: number;
+  /** Longer strings are cut to this many characters */
+  maxLength: number;
+  /** Strings per page when a request does not ask for a value */
+  pageSize: number;
+  maxPageSize: number;
+}
+
+export interface HexViewConfig {
+  /** Bytes returned when a request names an offset but no length */
+  defaultWindow: number;
+  /** Larger requests, including Range requests, are cut to this many bytes */
+  maxWindow: number;
+}
+
+export interface CarvingConfig {
+  /** Embedded objects are only searched for in the first this many bytes */
+  maxScanBytes: number;
+  maxObjects: number;
+  /** Output cap when inflating gzip members to find where they end */
+  maxInflateBytes: number;
+  /** Nesting levels followed when carving recursively */
+  maxDepth: number;
+  /** Child uploads created by one recursive carve, across all levels */
+  maxChildren: number;
+}
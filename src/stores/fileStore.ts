@@ -1,13 +1,21 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { DetectionResult, EntropyProfile, FileHashes, FileMetadata, Finding, MismatchAnalysis, RiskSummary } from "../analysis";
+import { rankSimilar, type SimilarMatch } from "../analysis/similarity";
 
 interface AnalyzedFile {
   id: string;
   name: string;
   signature: string;
-  metadata: Record<string, unknown>;
-  hash: string;
+  metadata: FileMetadata;
+  hashes: FileHashes;
   size: number;
+  mismatch?: MismatchAnalysis;
+  risk?: RiskSummary;
+  /** Absent for files analyzed before entropy profiling existed */
+  entropy?: EntropyProfile;
+  detection?: DetectionResult;
+  findings?: Finding[];
 }
 
 interface FileStore {
@@ -15,6 +23,8 @@ interface FileStore {
   currentFile: string | null;
   addFile: (file: AnalyzedFile) => void;
   setCurrentFile: (id: string) => void;
+  /** Other stored files ranked by ssdeep/TLSH similarity */
+  findSimilar: (id: string, limit?: number) => Array<SimilarMatch<AnalyzedFile>>;
 }
 
 const hotData: Partial<{ fileStore: FileStore }> = (import.meta.hot?.data ?? {});
@@ -26,9 +36,27 @@ export const useFileStore = create<FileStore>()(
       currentFile: hotData.fileStore?.currentFile ?? null,
       addFile: (file) => set((state) => ({ files: [...state.files, file] })),
       setCurrentFile: (id) => set({ currentFile: id }),
+      findSimilar: (id, limit) => {
+        const { files } = get();
+        const target = files.find((file) => file.id === id);
+        if (!target) return [];
+        return rankSimilar(target.hashes, files.filter((file) => file !== target), { limit });
+      },
     }),
     {
       name: "file-analyzer-storage",
+      version: 1,
+      // Version 0 stored a single SHA-256 digest as `hash`
+      migrate: (persisted, version) => {
+        const state = persisted as FileStore;
+        if (version === 0) {
+          state.files = state.files.map(({ hash, ...file }: AnalyzedFile & { hash?: string }) => ({
+            ...file,
+            hashes: hash ? { sha256: hash } : {},
+          }));
+        }
+        return state;
+      },
       onRehydrateStorage: () => (state) => {
         if (import.meta.hot) {
           import.meta.hot.data.fileStore = state;
@@ -1,11 +1,32 @@
-import { parentPort, workerData } from "bun";
-
-parentPort?.on("message", (file: File) => {
-  const signatures: Record<string, string> = {
-    "89504E47": "PNG",
-    "FFD8FF": "JPEG",
-    "47494638": "GIF",
-    "504B0304": "ZIP",
-  };
-  parentPort?.postMessage({ success: true, signature: "PNG" });
-});
+/**
+ * Analyzer Worker
+ * Runs pool tasks off the main thread and answers each request with its id
+ */
+
+import { runTask, type WorkerTask } from "./task";
+
+declare var self: Worker;
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTask;
+}
+
+export type WorkerResponse =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string; name?: string };
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, task } = event.data ?? {};
+
+  let response: WorkerResponse;
+  try {
+    if (typeof id !== "number" || !task) throw new Error("Malformed worker request");
+    response = { id, ok: true, result: await runTask(task) };
+  } catch (error) {
+    response = error instanceof Error
+      ? { id, ok: false, error: error.message, name: error.name }
+      : { id, ok: false, error: String(error) };
+  }
+  self.postMessage(response);
+};
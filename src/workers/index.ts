@@ -0,0 +1,25 @@
+/**
+ * Off-Thread Task Runner
+ * Sends tasks to the shared worker pool when it is enabled, otherwise runs them inline
+ */
+
+import { WorkerPool } from "../config/features";
+import { WorkerPoolError } from "./pool";
+import { runTask, type TaskResult, type WorkerTask } from "./task";
+
+export function runOffThread<T extends WorkerTask>(task: T): Promise<TaskResult<T>> {
+  return WorkerPool ? WorkerPool.getSharedPool().run(task) : runTask(task);
+}
+
+/**
+ * HTTP status for a failed task: 413 over the size limit, 503 under back-pressure, 504 on timeout
+ */
+export function taskErrorStatus(error: unknown): number {
+  // Matched by name because errors from workers arrive as plain Errors
+  if (error instanceof Error && error.name === "FileTooLargeError") return 413;
+  if (!(error instanceof WorkerPoolError)) return 500;
+  return error.code === "queue-full" ? 503 : error.code === "timeout" ? 504 : 500;
+}
+
+export { WorkerPoolError };
+export type { AnalyzeTaskResult, WorkerTask } from "./task";
@@ -0,0 +1,230 @@
+/**
+ * Analyzer Worker Pool
+ * Fixed set of workers with a bounded queue, per-task timeouts and automatic restarts
+ */
+
+import { config } from "../config";
+import type { WorkerRequest, WorkerResponse } from "./analyzer";
+import type { TaskResult, WorkerTask } from "./task";
+
+export type WorkerPoolErrorCode = "queue-full" | "timeout" | "crashed" | "terminated";
+
+export class WorkerPoolError extends Error {
+  constructor(readonly code: WorkerPoolErrorCode, message: string) {
+    super(message);
+    this.name = "WorkerPoolError";
+  }
+}
+
+export interface WorkerPoolOptions {
+  size?: number;
+  maxQueue?: number;
+  taskTimeoutMs?: number;
+  workerUrl?: string | URL;
+}
+
+export interface WorkerPoolStats {
+  size: number;
+  busy: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  timedOut: number;
+  rejected: number;
+  restarts: number;
+}
+
+interface PendingTask {
+  id: number;
+  task: WorkerTask;
+  /** Receives the worker's result as posted; `run` narrows it to the task's result type */
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  current: PendingTask | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * One worker per core, leaving a core for the main thread's event loop
+ */
+export function defaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 1 : 1;
+  return Math.max(1, cores - 1);
+}
+
+/** Transfer the buffer when the view owns all of it; otherwise let postMessage copy */
+function transferList(task: WorkerTask): ArrayBuffer[] {
+  if (task.type !== "analyze" || !task.bytes) return [];
+  const { buffer, byteOffset, byteLength } = task.bytes;
+  return buffer instanceof ArrayBuffer && byteOffset === 0 && byteLength === buffer.byteLength ? [buffer] : [];
+}
+
+export class WorkerPool {
+  readonly size: number;
+  private readonly maxQueue: number;
+  private readonly taskTimeoutMs: number;
+  private readonly workerUrl: string | URL;
+  private slots: Slot[] = [];
+  private queue: PendingTask[] = [];
+  private nextId = 1;
+  private closed = false;
+  private counters = { completed: 0, failed: 0, timedOut: 0, rejected: 0, restarts: 0 };
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.size = options.size || config.workers.size || defaultPoolSize();
+    this.maxQueue = options.maxQueue ?? config.workers.maxQueue;
+    this.taskTimeoutMs = options.taskTimeoutMs ?? config.workers.taskTimeoutMs;
+    this.workerUrl = options.workerUrl ?? new URL("./analyzer.ts", import.meta.url);
+
+    for (let i = 0; i < this.size; i++) this.slots.push(this.spawn());
+  }
+
+  /**
+   * Run a task on the next free worker. Rejects immediately with `queue-full`
+   * when every worker is busy and the queue is at capacity.
+   */
+  run<T extends WorkerTask>(task: T): Promise<TaskResult<T>> {
+    return new Promise((resolve, reject) => {
+      if (this.closed) {
+        reject(new WorkerPoolError("terminated", "Worker pool has been terminated"));
+        return;
+      }
+
+      const pending: PendingTask = {
+        id: this.nextId++,
+        task,
+        resolve: (result) => resolve(result as TaskResult<T>),
+        reject,
+      };
+      const idle = this.slots.find((slot) => slot.current === null);
+      if (idle) {
+        this.dispatch(idle, pending);
+      } else if (this.queue.length < this.maxQueue) {
+        this.queue.push(pending);
+      } else {
+        this.counters.rejected++;
+        reject(new WorkerPoolError("queue-full", `Worker queue is full (${this.maxQueue} tasks waiting)`));
+      }
+    });
+  }
+
+  get stats(): WorkerPoolStats {
+    return {
+      size: this.size,
+      busy: this.slots.filter((slot) => slot.current !== null).length,
+      queued: this.queue.length,
+      ...this.counters,
+    };
+  }
+
+  /**
+   * Stop every worker and reject running and queued tasks
+   */
+  terminate(): void {
+    this.closed = true;
+    const error = new WorkerPoolError("terminated", "Worker pool has been terminated");
+    for (const pending of this.queue.splice(0)) pending.reject(error);
+    for (const slot of this.slots) {
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.worker.terminate();
+      slot.current?.reject(error);
+      slot.current = null;
+    }
+  }
+
+  private spawn(): Slot {
+    const worker = new Worker(this.workerUrl);
+    const slot: Slot = { worker, current: null, timer: null };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.settle(slot, event.data);
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.restart(slot, new WorkerPoolError("crashed", `Worker crashed: ${event.message}`));
+    };
+    worker.addEventListener("close", () => {
+      // Workers we replaced ourselves are no longer in the slot list
+      if (this.slots.includes(slot) && !this.closed) {
+        this.restart(slot, new WorkerPoolError("crashed", "Worker exited unexpectedly"));
+      }
+    });
+    // Idle workers must not keep the process alive
+    (worker as unknown as Bun.Worker).unref();
+    return slot;
+  }
+
+  /** Streamed reads of large files get extra time in proportion to their size */
+  private timeoutFor(task: WorkerTask): number {
+    const size = task.type === "analyze" ? task.size ?? 0 : 0;
+    return this.taskTimeoutMs + Math.ceil((size / config.streaming.minBytesPerSecond) * 1000);
+  }
+
+  private dispatch(slot: Slot, pending: PendingTask): void {
+    const timeoutMs = this.timeoutFor(pending.task);
+    slot.current = pending;
+    slot.timer = setTimeout(() => {
+      this.counters.timedOut++;
+      this.restart(slot, new WorkerPoolError("timeout", `Task exceeded ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    const request: WorkerRequest = { id: pending.id, task: pending.task };
+    slot.worker.postMessage(request, transferList(pending.task));
+  }
+
+  private settle(slot: Slot, response: WorkerResponse): void {
+    const pending = slot.current;
+    if (!pending || response?.id !== pending.id) return;
+
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.timer = null;
+    slot.current = null;
+
+    if (response.ok) {
+      this.counters.completed++;
+      pending.resolve(response.result);
+    } else {
+      this.counters.failed++;
+      // Keep the error's name so callers can tell failures apart across the thread boundary
+      const error = new Error(response.error);
+      if (response.name) error.name = response.name;
+      pending.reject(error);
+    }
+    this.drain(slot);
+  }
+
+  /** Replace a worker that timed out or died, failing the task it was running */
+  private restart(slot: Slot, error: WorkerPoolError): void {
+    const index = this.slots.indexOf(slot);
+    if (index < 0) return;
+
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.worker.terminate();
+    if (slot.current) {
+      this.counters.failed++;
+      slot.current.reject(error);
+    }
+    if (this.closed) return;
+
+    const fresh = this.spawn();
+    this.slots[index] = fresh;
+    this.counters.restarts++;
+    this.drain(fresh);
+  }
+
+  private drain(slot: Slot): void {
+    const next = this.queue.shift();
+    if (next) this.dispatch(slot, next);
+  }
+}
+
+let shared: WorkerPool | null = null;
+
+/**
+ * Process-wide pool used by the API routes
+ */
+export function getSharedPool(): WorkerPool {
+  return (shared ??= new WorkerPool());
+}
@@ -0,0 +1,109 @@
+/**
+ * Worker Tasks
+ * Units of work executed by the analyzer worker, or inline when the pool is disabled
+ */
+
+import { analyzeBuffer, type DeclaredSource } from "../analysis";
+import { scanEmbedded, type CarveOptions, type EmbeddedScan } from "../analysis/carve";
+import { hashBytes } from "../analysis/hashing";
+import { archiveKind, extractArchive, type ExtractionLimits, type ExtractionManifest } from "../analysis/extract";
+import { analyzeStream, FileTooLargeError, type StreamAnalysis } from "../analysis/stream";
+import { readStringPage, type StringPage, type StringQuery } from "../analysis/strings";
+import { config } from "../config";
+
+/** Analyze bytes passed in the message, or a file the worker streams itself */
+export interface AnalyzeTask {
+  type: "analyze";
+  source: DeclaredSource;
+  path?: string;
+  bytes?: Uint8Array;
+  /** Expected file size, used to give large streamed reads a longer timeout */
+  size?: number;
+}
+
+export type AnalyzeTaskResult = StreamAnalysis;
+
+export interface ExtractTask {
+  type: "extract";
+  path: string;
+  sandbox: string;
+  limits: ExtractionLimits;
+}
+
+/** One page of printable strings from a stored file */
+export interface StringsTask {
+  type: "strings";
+  path: string;
+  query: StringQuery;
+}
+
+/** Map the objects embedded in the first `maxBytes` of a stored file */
+export interface EmbeddedTask {
+  type: "embedded";
+  path: string;
+  maxBytes: number;
+  options: CarveOptions;
+}
+
+export type WorkerTask = AnalyzeTask | ExtractTask | StringsTask | EmbeddedTask;
+
+interface TaskResults {
+  analyze: AnalyzeTaskResult;
+  /** null when the file is not an archive the extractor supports */
+  extract: ExtractionManifest | null;
+  strings: StringPage;
+  embedded: EmbeddedScan;
+}
+
+export type TaskResult<T extends WorkerTask> = TaskResults[T["type"]];
+
+async function openTaskFile(path: string | undefined) {
+  if (!path) throw new Error("Task has neither bytes nor a path");
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error("File not found");
+  return file;
+}
+
+/** Stream a stored file so its size is bounded by config rather than memory */
+async function analyzeFile(path: string | undefined, source: DeclaredSource): Promise<AnalyzeTaskResult> {
+  const file = await openTaskFile(path);
+  return analyzeStream(file.stream(), source, {
+    maxBytes: config.streaming.maxFileSize,
+    windowBytes: config.streaming.windowBytes,
+    algorithms: config.hashing.algorithms,
+  });
+}
+
+/**
+ * Execute a task on the current thread
+ */
+export async function runTask<T extends WorkerTask>(task: T): Promise<TaskResult<T>> {
+  if (task.type === "analyze") {
+    const result: AnalyzeTaskResult = task.bytes
+      ? {
+          analysis: analyzeBuffer(task.bytes, task.source),
+          hashes: hashBytes(task.bytes, config.hashing.algorithms),
+        }
+      : await analyzeFile(task.path, task.source);
+    return result as TaskResult<T>;
+  }
+
+  if (task.type === "strings") {
+    const page = await readStringPage(await openTaskFile(task.path), task.query);
+    return page as TaskResult<T>;
+  }
+
+  if (task.type === "embedded") {
+    const file = await openTaskFile(task.path);
+    const scan = scanEmbedded(await file.slice(0, task.maxBytes).bytes(), file.size, task.options);
+    return scan as TaskResult<T>;
+  }
+
+  // Archives are unpacked from memory, so one larger than everything it may unpack to is refused unread
+  const file = await openTaskFile(task.path);
+  if (file.size > task.limits.maxTotalBytes) throw new FileTooLargeError(task.limits.maxTotalBytes);
+  const bytes = await file.bytes();
+  const kind = archiveKind(bytes);
+  const manifest = kind ? await extractArchive(bytes, kind, task.sandbox, task.limits) : null;
+  return manifest as TaskResult<T>;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "bun:test";
+import { byteRangeResponse, parseRangeHeader, rangeRejectionResponse, resolveByteRange, type ResolvedRange } from "../src/api/byte-range";
+
+const LIMITS = { defaultWindow: 256, maxWindow: 1024 };
+const URL_BASE = "http://localhost/api/files/abc/bytes";
+
+function request(query = "", range?: string): Request {
+  return new Request(`${URL_BASE}${query}`, { headers: range ? { Range: range } : {} });
+}
+
+describe("parseRangeHeader", () => {
+  it("should read closed, open-ended and suffix ranges", () => {
+    expect(parseRangeHeader("bytes=0-99", 1000)).toEqual({ start: 0, end: 100 });
+    expect(parseRangeHeader("bytes=900-", 1000)).toEqual({ start: 900, end: 1000 });
+    expect(parseRangeHeader("bytes=-10", 1000)).toEqual({ start: 990, end: 1000 });
+    expect(parseRangeHeader("bytes=990-5000", 1000)).toEqual({ start: 990, end: 1000 });
+  });
+
+  it("should honour only the first of several ranges", () => {
+    expect(parseRangeHeader("bytes=10-19, 40-49", 1000)).toEqual({ start: 10, end: 20 });
+  });
+
+  it("should ignore malformed headers and reject ranges past the end", () => {
+    expect(parseRangeHeader("items=0-5", 1000)).toBeUndefined();
+    expect(parseRangeHeader("bytes=50-10", 1000)).toBeUndefined();
+    expect(parseRangeHeader("bytes=-", 1000)).toBeUndefined();
+    expect(parseRangeHeader("bytes=1000-", 1000)).toBeNull();
+    expect(parseRangeHeader("bytes=-0", 1000)).toBeNull();
+  });
+});
+
+describe("resolveByteRange", () => {
+  it("should prefer a Range header and cap it to maxWindow", () => {
+    expect(resolveByteRange(request("?offset=5", "bytes=100-"), 10_000, LIMITS)).toEqual({ start: 100, end: 1124, size: 10_000, partial: true });
+  });
+
+  it("should fall back to offset and length parameters", () => {
+    expect(resolveByteRange(request(), 10_000, LIMITS)).toEqual({ start: 0, end: 256, size: 10_000, partial: false });
+    expect(resolveByteRange(request("?offset=9990&length=64"), 10_000, LIMITS)).toMatchObject({ start: 9990, end: 10_000 });
+    expect(resolveByteRange(request("?length=99999"), 10_000, LIMITS)).toMatchObject({ end: 1024 });
+  });
+
+  it("should reject bad parameters and offsets past the end", () => {
+    expect(resolveByteRange(request("?offset=-1"), 100, LIMITS)).toMatchObject({ status: 400 });
+    expect(resolveByteRange(request("?length=0"), 100, LIMITS)).toMatchObject({ status: 400 });
+    expect(resolveByteRange(request("?offset=100"), 100, LIMITS)).toMatchObject({ status: 416 });
+    expect(resolveByteRange(request("", "bytes=500-"), 100, LIMITS)).toMatchObject({ status: 416 });
+  });
+});
+
+describe("byte range responses", () => {
+  const file = new Blob([new Uint8Array(2000).map((_, i) => i & 0xff)]);
+
+  it("should answer Range requests with 206 and a Content-Range", async () => {
+    const range: ResolvedRange = { start: 256, end: 260, size: 2000, partial: true };
+    const response = byteRangeResponse(file, range);
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get("Content-Range")).toBe("bytes 256-259/2000");
+    expect(response.headers.get("Accept-Ranges")).toBe("bytes");
+    expect([...new Uint8Array(await response.arrayBuffer())]).toEqual([0, 1, 2, 3]);
+  });
+
+  it("should describe query windows in X-Window headers", () => {
+    const response = byteRangeResponse(file, { start: 10, end: 30, size: 2000, partial: false });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Range")).toBeNull();
+    expect(response.headers.get("X-Window-Offset")).toBe("10");
+    expect(response.headers.get("X-Window-Length")).toBe("20");
+    expect(response.headers.get("X-File-Size")).toBe("2000");
+  });
+
+  it("should report the file size on 416", () => {
+    const response = rangeRejectionResponse({ status: 416, error: "past the end" }, 2000);
+    expect(response.status).toBe(416);
+    expect(response.headers.get("Content-Range")).toBe("bytes */2000");
+  });
+});
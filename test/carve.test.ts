@@ -0,0 +1,161 @@
+import { describe, it, expect } from "bun:test";
+import { embeddedFindings, findEmbedded, scanEmbedded, topLevelObjects } from "../src/analysis/carve";
+import { scanSignatures } from "../src/analysis/signatures";
+import { zip } from "./fixtures/zip";
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  return new Uint8Array(Bun.concatArrayBuffers(parts));
+}
+
+/** Deterministic pseudo-random filler standing in for unrelated data */
+function noise(length: number, seed = 1): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+/** Baseline JPEG: APP0, one scan of entropy-coded bytes, EOI */
+function jpeg(scanBytes = 300): Uint8Array {
+  const scan = noise(scanBytes, 9).map((byte) => (byte === 0xff ? 0x00 : byte));
+  return concat(
+    new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]),
+    new Uint8Array([0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00]),
+    scan,
+    new Uint8Array([0xff, 0xd9])
+  );
+}
+
+/** PE32 with one 512-byte section at file offset 512 */
+function pe(): Uint8Array {
+  const out = new Uint8Array(1024);
+  const view = new DataView(out.buffer);
+  out.set(encoder.encode("MZ"), 0);
+  view.setUint32(60, 64, true);
+  out.set(encoder.encode("PE\0\0"), 64);
+  view.setUint16(68, 0x14c, true);
+  view.setUint16(70, 1, true);
+  view.setUint16(84, 0xe0, true);
+  view.setUint16(88, 0x10b, true);
+  const section = 88 + 0xe0;
+  out.set(encoder.encode(".text"), section);
+  view.setUint32(section + 16, 512, true);
+  view.setUint32(section + 20, 512, true);
+  return out;
+}
+
+/** 64-bit little-endian ELF whose two section headers end the file at 0x180 */
+function elf(): Uint8Array {
+  const out = new Uint8Array(0x180);
+  const view = new DataView(out.buffer);
+  out.set([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1], 0);
+  view.setBigUint64(40, 0x100n, true);
+  view.setUint16(58, 64, true);
+  view.setUint16(60, 2, true);
+  return out;
+}
+
+/** A single ustar header + data block */
+function tarEntry(name: string, data: string): Uint8Array {
+  const body = encoder.encode(data);
+  const out = new Uint8Array(512 + Math.ceil(body.length / 512) * 512);
+  const field = (offset: number, value: string) => out.set(encoder.encode(value), offset);
+  field(0, name);
+  field(100, "0000644\0");
+  field(124, body.length.toString(8).padStart(11, "0") + "\0");
+  field(148, "        ");
+  field(156, "0");
+  field(257, "ustar\x0000");
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += out[i];
+  field(148, sum.toString(8).padStart(6, "0") + "\0 ");
+  out.set(body, 512);
+  return out;
+}
+
+const summary = (bytes: Uint8Array) =>
+  findEmbedded(bytes).objects.map(({ offset, length, lengthExact, signature }) => ({ offset, length, lengthExact, signature }));
+
+describe("scanSignatures", () => {
+  it("should find signatures at any offset, including ones anchored past the start", () => {
+    const bytes = concat(noise(100), tarEntry("a.txt", "hi"), new Uint8Array(1024));
+    expect(scanSignatures(bytes, new Set(["tar"])).map((match) => match.offset)).toEqual([100]);
+  });
+});
+
+describe("findEmbedded", () => {
+  it("should find a ZIP appended to a JPEG with both lengths", () => {
+    const image = jpeg();
+    const archive = zip({ "payload.txt": "secret ".repeat(50) }, { method: 8 });
+    expect(summary(concat(image, archive))).toEqual([
+      { offset: 0, length: image.length, lengthExact: true, signature: "jpeg-jfif" },
+      { offset: image.length, length: archive.length, lengthExact: true, signature: "zip" },
+    ]);
+  });
+
+  it("should measure gzip streams inside firmware-like noise", () => {
+    const packed = Bun.gzipSync(encoder.encode("kernel ".repeat(500)));
+    const bytes = concat(noise(4096, 2), packed, noise(4096, 3));
+    expect(summary(bytes)).toContainEqual({ offset: 4096, length: packed.length, lengthExact: true, signature: "gzip" });
+  });
+
+  it("should size executables from their headers", () => {
+    const bytes = concat(encoder.encode("%PDF-1.7\n"), noise(300, 4), pe(), elf(), encoder.encode("\n%%EOF\n"));
+    const objects = findEmbedded(bytes).objects;
+
+    expect(objects.map((object) => [object.signature, object.offset, object.length])).toEqual([
+      ["pdf", 0, bytes.length],
+      ["pe", 309, 1024],
+      ["elf", 1333, 0x180],
+    ]);
+    expect(objects[1].parent).toBe(0);
+  });
+
+  it("should not report a container's own members as separate objects", () => {
+    const archive = concat(tarEntry("a.txt", "one"), tarEntry("b.txt", "two"), new Uint8Array(1024));
+    expect(summary(archive)).toEqual([{ offset: 0, length: archive.length, lengthExact: true, signature: "tar" }]);
+  });
+
+  it("should run objects of unknown length to the next object", () => {
+    const bzip2 = concat(encoder.encode("BZh91AY&SY"), noise(200, 5));
+    const bytes = concat(bzip2, zip({ a: "b" }, { method: 8 }));
+    expect(summary(bytes)[0]).toEqual({ offset: 0, length: bzip2.length, lengthExact: false, signature: "bzip2" });
+  });
+
+  it("should ignore signature bytes that fail validation", () => {
+    // "MZ" without a PE header, and a ZIP magic with an impossible name length
+    const bytes = concat(noise(64, 6), encoder.encode("MZ"), new Uint8Array(100), new Uint8Array([0x50, 0x4b, 0x03, 0x04]), new Uint8Array(40));
+    expect(findEmbedded(bytes).objects).toEqual([]);
+  });
+
+  it("should stop listing at maxObjects", () => {
+    const gz = Bun.gzipSync(encoder.encode("x"));
+    const { objects, truncated } = findEmbedded(concat(gz, gz, gz, gz), { maxObjects: 2 });
+    expect(objects).toHaveLength(2);
+    expect(truncated).toBe(true);
+  });
+});
+
+describe("embedded findings", () => {
+  it("should flag hidden executables and archives but not the host file", () => {
+    const bytes = concat(jpeg(), zip({ "a.txt": "a" }, { method: 8 }), encoder.encode("junk"), pe());
+    const findings = scanEmbedded(bytes).findings;
+
+    expect(findings.map((finding) => [finding.severity, finding.offset])).toEqual([
+      ["medium", jpeg().length],
+      ["high", bytes.length - 1024],
+    ]);
+  });
+
+  it("should treat files inside a host archive as expected content", () => {
+    const archive = zip({ "inner.zip": zip({ "x.txt": "x" }, { method: 8 }) }, { method: 8 });
+    const { objects } = findEmbedded(archive);
+    expect(topLevelObjects(objects)).toEqual([]);
+    expect(embeddedFindings(objects)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "bun:test";
+import { detectFormat, UNKNOWN_FORMAT } from "../src/analysis/detect";
+
+const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+
+function bytesAt(size: number, ...parts: Array<[number, number[]]>): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (const [offset, values] of parts) bytes.set(values, offset);
+  return bytes;
+}
+
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, ...ascii("JFIF")];
+const EOCD = [0x50, 0x4b, 0x05, 0x06];
+
+describe("detectFormat", () => {
+  it("should not be fooled by signatures embedded mid-file", () => {
+    // A JPEG whose scan data happens to contain a ZIP local header
+    const jpeg = bytesAt(256, [0, JPEG_HEADER], [100, [0x50, 0x4b, 0x03, 0x04]]);
+    const result = detectFormat(jpeg);
+
+    expect(result.format).toBe("JPEG");
+    expect(result.candidates.map((c) => c.name)).not.toContain("ZIP");
+    expect(result.polyglot).toBe(false);
+  });
+
+  it("should rank candidates by confidence", () => {
+    const wav = bytesAt(64, [0, ascii("RIFF")], [8, ascii("WAVEfmt ")]);
+    const result = detectFormat(wav);
+
+    expect(result.candidates[0].name).toBe("WAV");
+    expect(result.candidates.map((c) => c.name)).toContain("RIFF");
+    for (let i = 1; i < result.candidates.length; i++) {
+      expect(result.candidates[i - 1].confidence).toBeGreaterThanOrEqual(result.candidates[i].confidence);
+    }
+  });
+
+  it("should not treat refinements of one structure as a polyglot", () => {
+    const jar = bytesAt(128, [0, [0x50, 0x4b, 0x03, 0x04]], [30, ascii("META-INF/MANIFEST.MF")]);
+    jar.set(EOCD, jar.length - 22);
+    const result = detectFormat(jar);
+
+    expect(result.format).toBe("JAR");
+    expect(result.polyglot).toBe(false);
+  });
+
+  it("should flag a JPEG with an appended ZIP as a polyglot", () => {
+    const polyglot = bytesAt(512, [0, JPEG_HEADER]);
+    polyglot.set(EOCD, polyglot.length - 22);
+    const result = detectFormat(polyglot);
+
+    expect(result.format).toBe("JPEG");
+    expect(result.polyglot).toBe(true);
+    expect(result.polyglotFormats).toEqual(["JPEG", "ZIP"]);
+  });
+
+  it("should not treat a Bun standalone trailer on an executable as a polyglot", () => {
+    const binary = bytesAt(4096, [0, [0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01]], [4080, ascii("\n---- Bun! ----\n")]);
+    const result = detectFormat(binary);
+
+    expect(result.format).toBe("ELF");
+    expect(result.candidates.map((c) => c.id)).toContain("bun-compiled");
+    expect(result.polyglot).toBe(false);
+  });
+
+  it("should ignore weak candidates when judging ambiguity", () => {
+    // 0x55AA at 510 looks like an MBR, but that alone is too weak to call a PDF ambiguous
+    const pdf = bytesAt(1024, [0, ascii("%PDF-1.4")], [510, [0x55, 0xaa]]);
+    const result = detectFormat(pdf);
+
+    expect(result.candidates.map((c) => c.name)).toContain("MBR Disk Image");
+    expect(result.polyglot).toBe(false);
+  });
+
+  it("should report unknown content", () => {
+    const result = detectFormat(new Uint8Array([1, 2, 3, 4]));
+
+    expect(result.format).toBe(UNKNOWN_FORMAT);
+    expect(result.category).toBe("unknown");
+    expect(result.candidates).toEqual([]);
+  });
+});
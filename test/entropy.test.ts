@@ -0,0 +1,115 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { EntropyProfiler, profileEntropy } from "../src/analysis/entropy";
+import { analyzeStream } from "../src/analysis/stream";
+
+/** Deterministic noise standing in for ciphertext */
+function noise(length: number, seed = 1): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+/** Deflated pseudo-text: high entropy but measurably uneven */
+function compressed(): Uint8Array {
+  const words = ["alpha", "beta", "gamma", "delta", "file", "zip", "entropy", "packed"];
+  const parts: string[] = [];
+  let state = 7;
+  for (let i = 0; i < 200_000; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    parts.push(words[state >>> 29], String(state % 1000));
+  }
+  return Bun.deflateSync(new TextEncoder().encode(parts.join(" ")));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  return new Uint8Array(Bun.concatArrayBuffers(parts));
+}
+
+const PNG_MAGIC = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("profileEntropy", () => {
+  it("should report 0 bits for constant data and 8 for a flat histogram", () => {
+    expect(profileEntropy(new Uint8Array(8192)).overall).toBe(0);
+
+    const flat = new Uint8Array(4096).map((_, i) => i & 0xff);
+    const profile = profileEntropy(flat);
+    expect(profile.overall).toBe(8);
+    expect(profile.histogram).toHaveLength(256);
+    expect(profile.histogram.every((count) => count === 16)).toBe(true);
+    expect(profile.chiSquare).toBe(0);
+  });
+
+  it("should locate a high-entropy region between low-entropy blocks", () => {
+    const bytes = concat(new Uint8Array(8192), noise(128 * 1024), new Uint8Array(8192));
+    const profile = profileEntropy(bytes);
+
+    expect(profile.blockSize).toBe(4096);
+    expect(profile.blocks).toHaveLength(bytes.length / 4096);
+    expect(profile.blocks[0]).toBe(0);
+    expect(profile.blocks[5]).toBeGreaterThan(7.9);
+    expect(profile.regions).toEqual([{ offset: 8192, length: 128 * 1024, entropy: expect.any(Number), likely: "encrypted" }]);
+    expect(profile.highEntropyBytes).toBe(128 * 1024);
+  });
+
+  it("should tell compressed data from random data", () => {
+    const [region] = profileEntropy(compressed()).regions;
+    expect(region.entropy).toBeGreaterThan(7.2);
+    expect(region.likely).toBe("compressed");
+  });
+
+  it("should keep the chart bounded by merging blocks", () => {
+    const profile = profileEntropy(noise(64 * 4096), { maxBlocks: 16 });
+    expect(profile.blockSize).toBe(4 * 4096);
+    expect(profile.blocks).toHaveLength(16);
+  });
+
+  it("should give the same profile whether data arrives whole or in chunks", () => {
+    const bytes = concat(new Uint8Array(5000), noise(70_000), new TextEncoder().encode("tail"));
+    const profiler = new EntropyProfiler({ maxBlocks: 8 });
+    for (let offset = 0; offset < bytes.length; offset += 777) profiler.update(bytes.subarray(offset, offset + 777));
+
+    expect(profiler.digest()).toEqual(profileEntropy(bytes, { maxBlocks: 8 }));
+  });
+});
+
+describe("entropy findings", () => {
+  it("should flag an encrypted blob hidden inside an image", () => {
+    const analysis = analyzeBuffer(concat(PNG_MAGIC, new Uint8Array(4088), noise(96 * 1024)), { name: "cat.png" });
+    const finding = analysis.findings.find((f) => f.id === "entropy.encrypted");
+
+    expect(finding).toMatchObject({ severity: "medium", offset: 4096, source: "entropy" });
+    expect(analysis.entropy.regions[0].likely).toBe("encrypted");
+  });
+
+  it("should treat encrypted content in archives as expected", () => {
+    const zipHeader = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+    const analysis = analyzeBuffer(concat(zipHeader, noise(96 * 1024)), { name: "secret.zip" });
+    expect(analysis.findings.find((f) => f.id === "entropy.encrypted")?.severity).toBe("info");
+  });
+
+  it("should flag executables that are mostly high-entropy as packed", () => {
+    const elf = concat(new Uint8Array([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0]), new Uint8Array(4088), noise(32 * 1024));
+    const finding = analyzeBuffer(elf, { name: "tool" }).findings.find((f) => f.id === "entropy.packed");
+    expect(finding?.severity).toBe("medium");
+  });
+
+  it("should profile the whole of a streamed file, not only its windows", async () => {
+    const bytes = concat(new Uint8Array(64 * 1024), noise(128 * 1024), new Uint8Array(64 * 1024));
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let offset = 0; offset < bytes.length; offset += 10_000) controller.enqueue(bytes.slice(offset, offset + 10_000));
+        controller.close();
+      },
+    });
+    const { analysis } = await analyzeStream(stream, { name: "blob.bin" }, { windowBytes: 16 * 1024 });
+
+    expect(analysis.windows).toEqual({ head: 16 * 1024, tail: 16 * 1024 });
+    expect(analysis.entropy).toEqual(profileEntropy(bytes));
+    expect(analysis.entropy.regions[0]).toMatchObject({ offset: 64 * 1024, length: 128 * 1024 });
+  });
+});
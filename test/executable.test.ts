@@ -0,0 +1,338 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { parseExecutable } from "../src/analysis/parsers/executable";
+
+const encoder = new TextEncoder();
+
+/** Deterministic pseudo-random bytes standing in for packed code */
+function noise(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = 7;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+/** Little-endian image builder */
+function image(size: number) {
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  return {
+    bytes,
+    u16: (offset: number, value: number) => view.setUint16(offset, value, true),
+    u32: (offset: number, value: number) => view.setUint32(offset, value, true),
+    u64: (offset: number, value: number) => view.setBigUint64(offset, BigInt(value), true),
+    text: (offset: number, value: string) => bytes.set(encoder.encode(value), offset),
+  };
+}
+
+/**
+ * x86-64 ELF: PT_LOAD, PT_INTERP, PT_DYNAMIC, PT_GNU_STACK, PT_GNU_RELRO, and sections
+ * .text, .dynsym, .dynstr, .shstrtab (plus .symtab when `symtab` is set)
+ */
+function elf({ type = 3, stackFlags = 6, relro = true, symtab = false } = {}): Uint8Array {
+  const { bytes, u16, u32, u64, text } = image(0x800);
+  const base = 0x400000;
+  bytes.set([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1], 0);
+  u16(16, type);
+  u16(18, 62);
+  u64(24, base + 0x500);
+  u64(32, 64);
+  u64(40, 0x600);
+  u16(54, 56);
+  const segments: Array<[number, number, number, number]> = [
+    [1, 5, 0, 0x800],
+    [3, 4, 0x200, 28],
+    [2, 6, 0x300, 64],
+    [0x6474e551, stackFlags, 0, 0],
+    ...(relro ? [[0x6474e552, 4, 0x300, 64] as [number, number, number, number]] : []),
+  ];
+  u16(56, segments.length);
+  segments.forEach(([kind, flags, offset, size], i) => {
+    const at = 64 + i * 56;
+    u32(at, kind);
+    u32(at + 4, flags);
+    u64(at + 8, offset);
+    u64(at + 16, base + offset);
+    u64(at + 32, size);
+  });
+
+  text(0x200, "/lib64/ld-linux-x86-64.so.2");
+  // DT_NEEDED libc.so.6, DT_STRTAB, DT_FLAGS_1 NOW|PIE
+  [[1, 1], [5, base + 0x400], [0x6ffffffb, 0x08000001], [0, 0]].forEach(([tag, value], i) => {
+    u64(0x300 + i * 16, tag);
+    u64(0x308 + i * 16, value);
+  });
+  text(0x400, "\0libc.so.6\0puts\0");
+  u32(0x480 + 24, 11);
+  bytes[0x480 + 24 + 4] = 0x12;
+  bytes.set(encoder.encode("mov rax, 60; xor rdi, rdi; syscall ".repeat(2)).subarray(0, 64), 0x500);
+  text(0x540, "\0.text\0.dynsym\0.dynstr\0.shstrtab\0.symtab\0");
+
+  // name, type, flags, offset, size, link
+  const sections: Array<[number, number, number, number, number, number]> = [
+    [1, 1, 6, 0x500, 0x40, 0],
+    [7, 11, 2, 0x480, 48, 3],
+    [15, 3, 2, 0x400, 16, 0],
+    [23, 3, 0, 0x540, 42, 0],
+    ...(symtab ? [[33, 2, 0, 0x480, 48, 3] as [number, number, number, number, number, number]] : []),
+  ];
+  u16(58, 64);
+  u16(60, sections.length + 1);
+  u16(62, 4);
+  sections.forEach(([name, kind, flags, offset, size, link], i) => {
+    const at = 0x600 + (i + 1) * 64;
+    u32(at, name);
+    u32(at + 4, kind);
+    u64(at + 8, flags);
+    u64(at + 16, flags & 2 ? base + offset : 0);
+    u64(at + 24, offset);
+    u64(at + 32, size);
+    u32(at + 40, link);
+  });
+  return bytes;
+}
+
+/** PE32+ console program importing KERNEL32!ExitProcess and ordinal 5 */
+function pe({ textFlags = 0x60000020, dllCharacteristics = 0x160, code = new Uint8Array(0) as Uint8Array } = {}): Uint8Array {
+  const { bytes, u16, u32, u64, text } = image(0x800);
+  text(0, "MZ");
+  u32(60, 0x80);
+  text(0x80, "PE\0\0");
+  u16(0x84, 0x8664);
+  u16(0x86, 2);
+  u32(0x88, 1_700_000_000);
+  u16(0x94, 0xf0);
+  u16(0x96, 0x22);
+
+  const optional = 0x98;
+  u16(optional, 0x20b);
+  u32(optional + 16, 0x1000);
+  u64(optional + 24, 0x140000000);
+  u16(optional + 68, 3);
+  u16(optional + 70, dllCharacteristics);
+  u32(optional + 108, 16);
+  u32(optional + 120, 0x2000);
+  u32(optional + 124, 40);
+
+  const sections: Array<[string, number, number, number]> = [
+    [".text", 0x1000, 0x400, textFlags],
+    [".rdata", 0x2000, 0x600, 0x40000040],
+  ];
+  sections.forEach(([name, rva, raw, flags], i) => {
+    const at = optional + 0xf0 + i * 40;
+    text(at, name);
+    u32(at + 8, 0x200);
+    u32(at + 12, rva);
+    u32(at + 16, 0x200);
+    u32(at + 20, raw);
+    u32(at + 36, flags);
+  });
+  bytes.set(code.subarray(0, 0x200), 0x400);
+
+  // .rdata: import descriptor, lookup table, hint/name, DLL name
+  u32(0x600, 0x2040);
+  u32(0x600 + 12, 0x2080);
+  u32(0x600 + 16, 0x2040);
+  u64(0x640, 0x2060);
+  u32(0x648, 5);
+  u32(0x64c, 0x80000000);
+  text(0x662, "ExitProcess");
+  text(0x680, "KERNEL32.dll");
+  return bytes;
+}
+
+/** x86-64 Mach-O executable linking libSystem and importing _printf */
+function macho(cpuType = 0x01000007): Uint8Array {
+  const { bytes, u32, u64, text } = image(0x1000);
+  u32(0, 0xfeedfacf);
+  u32(4, cpuType);
+  u32(12, 2);
+  u32(24, 0x200085);
+
+  let at = 32;
+  let commands = 0;
+  const command = (kind: number, size: number, fill: (at: number) => void) => {
+    u32(at, kind);
+    u32(at + 4, size);
+    fill(at);
+    at += size;
+    commands++;
+  };
+  command(0x19, 152, (c) => {
+    text(c + 8, "__TEXT");
+    u64(c + 24, 0x100000000);
+    u64(c + 32, 0x1000);
+    u64(c + 48, 0x1000);
+    u32(c + 56, 5);
+    u32(c + 60, 5);
+    u32(c + 64, 1);
+    text(c + 72, "__text");
+    text(c + 88, "__TEXT");
+    u64(c + 104, 0x100000400);
+    u64(c + 112, 0x100);
+    u32(c + 120, 0x400);
+  });
+  command(0xe, 32, (c) => {
+    u32(c + 8, 12);
+    text(c + 12, "/usr/lib/dyld");
+  });
+  command(0xc, 56, (c) => {
+    u32(c + 8, 24);
+    text(c + 24, "/usr/lib/libSystem.B.dylib");
+  });
+  command(0x80000028, 24, (c) => u64(c + 8, 0x400));
+  command(0x2, 24, (c) => {
+    u32(c + 8, 0x800);
+    u32(c + 12, 2);
+    u32(c + 16, 0x900);
+    u32(c + 20, 16);
+  });
+  command(0xb, 80, (c) => {
+    u32(c + 20, 1);
+    u32(c + 24, 1);
+    u32(c + 28, 1);
+  });
+  u32(16, commands);
+  u32(20, at - 32);
+
+  u32(0x800, 1);
+  bytes[0x804] = 0x0f;
+  u32(0x810, 7);
+  bytes[0x814] = 0x01;
+  bytes[0x817] = 1;
+  text(0x900, "\0_main\0_printf\0");
+  bytes.set(encoder.encode("push rbp; mov rbp, rsp; call _printf; pop rbp; ret ".repeat(5)), 0x400);
+  return bytes;
+}
+
+function fat(...slices: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(0x1000 * (slices.length + 1));
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0xcafebabe);
+  view.setUint32(4, slices.length);
+  slices.forEach((slice, i) => {
+    view.setUint32(8 + i * 20, new DataView(slice.buffer).getUint32(4, true));
+    view.setUint32(16 + i * 20, 0x1000 * (i + 1));
+    view.setUint32(20 + i * 20, slice.length);
+    out.set(slice, 0x1000 * (i + 1));
+  });
+  return out;
+}
+
+describe("parseExecutable: ELF", () => {
+  it("should read the header, dynamic section, sections and imports", () => {
+    const { metadata, findings } = parseExecutable(elf());
+
+    expect(metadata).toMatchObject({
+      format: "ELF",
+      architecture: "x86-64",
+      bits: 64,
+      endianness: "little",
+      fileType: "executable",
+      entryPoint: 0x400500,
+      interpreter: "/lib64/ld-linux-x86-64.so.2",
+      libraries: ["libc.so.6"],
+      imports: [{ name: "puts", library: null }],
+    });
+    expect(metadata.sections.map((section) => section.name)).toEqual([".text", ".dynsym", ".dynstr", ".shstrtab"]);
+    expect(metadata.sections[0]).toMatchObject({ executable: true, writable: false, virtualAddress: 0x400500 });
+    expect(metadata.sections[0].entropy).toBeGreaterThan(3);
+    expect(metadata.security).toEqual({ pie: true, nx: true, stripped: true, rwx: [], relro: "full", signed: null });
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag an executable stack and a fixed load address", () => {
+    const { metadata, findings } = parseExecutable(elf({ type: 2, stackFlags: 7, relro: false, symtab: true }));
+
+    expect(metadata.security).toMatchObject({ pie: false, nx: false, stripped: false, relro: "none" });
+    expect(findings.map((finding) => finding.id)).toEqual(["executable.no-nx", "executable.no-pie"]);
+  });
+
+  it("should report section details as unknown when only the head is available", () => {
+    const { metadata, findings } = parseExecutable(elf().subarray(0, 0x600), { offset: 0, size: 64 * 1024 * 1024 });
+
+    expect(metadata.libraries).toEqual(["libc.so.6"]);
+    expect(metadata.sections).toEqual([]);
+    expect(metadata.security.stripped).toBeNull();
+    expect(findings).toEqual([]);
+  });
+});
+
+describe("parseExecutable: PE", () => {
+  it("should read headers, subsystem, timestamp and imports", () => {
+    const { metadata, findings } = parseExecutable(pe());
+
+    expect(metadata).toMatchObject({
+      format: "PE",
+      architecture: "x86-64",
+      bits: 64,
+      fileType: "executable",
+      entryPoint: 0x140001000,
+      timestamp: "2023-11-14T22:13:20.000Z",
+      subsystem: "Windows console",
+      libraries: ["KERNEL32.dll"],
+      imports: [{ name: "ExitProcess", library: "KERNEL32.dll" }, { name: "#5", library: "KERNEL32.dll" }],
+    });
+    expect(metadata.sections.map((section) => [section.name, section.virtualAddress, section.executable])).toEqual([
+      [".text", 0x140001000, true],
+      [".rdata", 0x140002000, false],
+    ]);
+    expect(metadata.security).toEqual({ pie: true, nx: true, stripped: true, rwx: [], relro: null, signed: false });
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag writable code, missing ASLR/DEP and packed sections", () => {
+    const { findings } = parseExecutable(pe({ textFlags: 0xe0000020, dllCharacteristics: 0, code: noise(0x200) }));
+
+    expect(findings.map((finding) => finding.id)).toEqual([
+      "executable.rwx",
+      "executable.no-nx",
+      "executable.no-pie",
+      "executable.packed-section",
+    ]);
+    expect(findings[3].offset).toBe(0x400);
+  });
+});
+
+describe("parseExecutable: Mach-O", () => {
+  it("should read load commands, dylibs and two-level imports", () => {
+    const { metadata, findings } = parseExecutable(macho());
+
+    expect(metadata).toMatchObject({
+      format: "Mach-O",
+      architecture: "x86-64",
+      bits: 64,
+      fileType: "executable",
+      entryPoint: 0x100000400,
+      interpreter: "/usr/lib/dyld",
+      libraries: ["/usr/lib/libSystem.B.dylib"],
+      imports: [{ name: "_printf", library: "/usr/lib/libSystem.B.dylib" }],
+      slices: [],
+    });
+    expect(metadata.sections.map((section) => section.name)).toEqual(["__TEXT,__text"]);
+    expect(metadata.security).toEqual({ pie: true, nx: true, stripped: true, rwx: [], relro: null, signed: false });
+    expect(findings).toEqual([]);
+  });
+
+  it("should list every slice of a universal binary and describe the first", () => {
+    const { metadata } = parseExecutable(fat(macho(), macho(0x0100000c)));
+
+    expect(metadata.slices).toEqual([
+      { architecture: "x86-64", offset: 0x1000, size: 0x1000 },
+      { architecture: "AArch64", offset: 0x2000, size: 0x1000 },
+    ]);
+    expect(metadata.architecture).toBe("x86-64");
+    expect(metadata.sections[0].offset).toBe(0x1400);
+  });
+});
+
+describe("analyzeBuffer with executables", () => {
+  it("should add metadata.executable for each format", () => {
+    expect(analyzeBuffer(elf()).metadata.executable?.format).toBe("ELF");
+    expect(analyzeBuffer(pe()).metadata.executable?.format).toBe("PE");
+    expect(analyzeBuffer(macho()).metadata.executable?.format).toBe("Mach-O");
+  });
+});
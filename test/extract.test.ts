@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { archiveKind, extractArchive, normalizeEntryPath, sweepSandboxes, type ExtractionLimits } from "../src/analysis/extract";
+import { zip } from "./fixtures/zip";
+
+const encoder = new TextEncoder();
+const LIMITS: ExtractionLimits = { maxTotalBytes: 1024 * 1024, maxEntries: 100, maxDepth: 3, maxPathLength: 256 };
+
+/** A single ustar header + data block; `type` is the tar typeflag */
+function tarEntry(name: string, data: string | Uint8Array = "", type = "0"): Uint8Array {
+  const body = typeof data === "string" ? encoder.encode(data) : data;
+  const out = new Uint8Array(512 + Math.ceil(body.length / 512) * 512);
+  const field = (offset: number, value: string) => out.set(encoder.encode(value), offset);
+  field(0, name);
+  field(100, "0000644\0");
+  field(124, body.length.toString(8).padStart(11, "0") + "\0");
+  field(148, "        ");
+  field(156, type);
+  field(257, "ustar\x0000");
+  let sum = 0;
+  for (let i = 0; i < 512; i++) sum += out[i];
+  field(148, sum.toString(8).padStart(6, "0") + "\0 ");
+  out.set(body, 512);
+  return out;
+}
+
+const tar = (...entries: Uint8Array[]) => new Uint8Array([...entries.flatMap((e) => Array.from(e)), ...new Uint8Array(1024)]);
+
+let sandbox: string;
+
+beforeEach(async () => {
+  sandbox = await mkdtemp(join(tmpdir(), "extract-test-"));
+});
+
+afterEach(async () => {
+  await rm(sandbox, { recursive: true, force: true });
+});
+
+describe("normalizeEntryPath", () => {
+  it("should keep relative paths and strip roots", () => {
+    expect(normalizeEntryPath("a/./b//c.txt")).toBe("a/b/c.txt");
+    expect(normalizeEntryPath("/etc/passwd")).toBe("etc/passwd");
+    expect(normalizeEntryPath("C:\\Windows\\win.ini")).toBe("Windows/win.ini");
+    expect(normalizeEntryPath("a/../b")).toBe("b");
+  });
+
+  it("should reject paths that escape the root", () => {
+    expect(normalizeEntryPath("../evil")).toBeNull();
+    expect(normalizeEntryPath("a/../../evil")).toBeNull();
+    expect(normalizeEntryPath("name\0.txt")).toBeNull();
+  });
+});
+
+describe("extractArchive", () => {
+  it("should unpack tar.gz written by Bun.Archive and analyze each child", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...new Uint8Array(16)]);
+    const bytes = await new Bun.Archive({ "notes.txt": "hello", "img/logo.png": png }, { compress: "gzip" }).bytes();
+
+    expect(archiveKind(bytes)).toBe("tar.gz");
+    const manifest = await extractArchive(bytes, "tar.gz", sandbox, LIMITS);
+
+    expect(manifest.children.map((c) => c.path).sort()).toEqual(["img/logo.png", "notes.txt"]);
+    expect(manifest.children.find((c) => c.path === "img/logo.png")?.analysis.detection.format).toBe("PNG");
+    expect(await Bun.file(join(sandbox, "notes.txt")).text()).toBe("hello");
+    expect(manifest.totalBytes).toBe(5 + png.length);
+    expect(manifest.limitReached).toBeNull();
+  });
+
+  it("should skip traversal names and links", async () => {
+    const bytes = tar(tarEntry("../escape.txt", "x"), tarEntry("link", "", "2"), tarEntry("ok.txt", "fine"));
+    const manifest = await extractArchive(bytes, "tar", sandbox, LIMITS);
+
+    expect(manifest.children.map((c) => c.path)).toEqual(["ok.txt"]);
+    expect(manifest.skipped.map((s) => s.reason)).toEqual(["path escapes the sandbox", "link entries are not extracted"]);
+    expect(await Bun.file(join(sandbox, "..", "escape.txt")).exists()).toBe(false);
+  });
+
+  it("should stop at the entry and byte limits", async () => {
+    const bytes = tar(tarEntry("a", "1111"), tarEntry("b", "2222"), tarEntry("c", "3333"));
+
+    const byCount = await extractArchive(bytes, "tar", sandbox, { ...LIMITS, maxEntries: 2 });
+    expect(byCount.totalEntries).toBe(2);
+    expect(byCount.limitReached).toBe("maxEntries");
+
+    const byBytes = await extractArchive(bytes, "tar", join(sandbox, "second"), { ...LIMITS, maxTotalBytes: 6 });
+    expect(byBytes.totalEntries).toBe(1);
+    expect(byBytes.limitReached).toBe("maxTotalBytes");
+  });
+
+  it("should stop decompressing gzip streams that exceed the byte budget", async () => {
+    const bytes = await new Bun.Archive({ "zeros.bin": new Uint8Array(4 * 1024 * 1024) }, { compress: "gzip" }).bytes();
+    const manifest = await extractArchive(bytes, "tar.gz", sandbox, { ...LIMITS, maxEntries: 1, maxTotalBytes: 4096 });
+
+    expect(manifest.children).toEqual([]);
+    expect(manifest.limitReached).toBe("maxTotalBytes");
+  });
+
+  it("should enforce the path length limit", async () => {
+    const manifest = await extractArchive(tar(tarEntry("a".repeat(40), "x")), "tar", sandbox, { ...LIMITS, maxPathLength: 20 });
+    expect(manifest.children).toEqual([]);
+    expect(manifest.skipped[0].reason).toBe("path exceeds maxPathLength");
+  });
+
+  it("should inflate ZIP entries and recurse into nested archives up to maxDepth", async () => {
+    const inner = zip({ "deep.txt": "nested content" }, { method: 8 });
+    const outer = tar(tarEntry("bundle.zip", inner));
+
+    const manifest = await extractArchive(outer, "tar", sandbox, LIMITS);
+    const bundle = manifest.children[0];
+    expect(bundle.archive?.kind).toBe("zip");
+    expect(bundle.archive?.children[0].path).toBe("bundle.zip.contents/deep.txt");
+    expect(await Bun.file(join(sandbox, "bundle.zip.contents/deep.txt")).text()).toBe("nested content");
+
+    const shallow = await extractArchive(outer, "tar", join(sandbox, "shallow"), { ...LIMITS, maxDepth: 1 });
+    expect(shallow.children[0].archive).toBeUndefined();
+    expect(shallow.skipped[0].reason).toBe("nested archive exceeds maxDepth");
+  });
+
+  it("should not let nested contents overwrite a top-level entry with the same path", async () => {
+    const inner = zip({ "deep.txt": "nested content" }, { method: 8 });
+    const outer = tar(tarEntry("bundle.zip.contents/deep.txt", "top level"), tarEntry("bundle.zip", inner));
+
+    const manifest = await extractArchive(outer, "tar", sandbox, LIMITS);
+    expect(manifest.children[1].archive?.children).toEqual([]);
+    expect(manifest.skipped).toEqual([{ name: "bundle.zip.contents/deep.txt", reason: "duplicate path" }]);
+    expect(await Bun.file(join(sandbox, "bundle.zip.contents/deep.txt")).text()).toBe("top level");
+  });
+
+  it("should reject corrupt tar headers", async () => {
+    const bytes = tar(tarEntry("ok.txt", "x"));
+    bytes[0] ^= 0xff;
+    await expect(extractArchive(bytes, "tar", sandbox, LIMITS)).rejects.toThrow("Corrupt tar header");
+  });
+});
+
+describe("sweepSandboxes", () => {
+  it("should remove only sandboxes older than the retention window", async () => {
+    const stale = join(sandbox, "stale");
+    const fresh = join(sandbox, "fresh");
+    await mkdir(stale);
+    await mkdir(fresh);
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await utimes(stale, hourAgo, hourAgo);
+
+    expect(await sweepSandboxes(sandbox, 60 * 1000)).toBe(1);
+    expect(await readdir(sandbox)).toEqual(["fresh"]);
+    expect(await sweepSandboxes(join(sandbox, "missing"), 0)).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * ZIP Test Fixture
+ * Builds small archives in memory for the parser, extraction and carving tests
+ */
+
+import { deflateRawSync } from "node:zlib";
+
+export interface ZipEntry {
+  name: string;
+  data?: string | Uint8Array;
+  /** 0 stores the entry, 8 deflates it; defaults to the archive's method */
+  method?: 0 | 8;
+  flags?: number;
+  /** Overrides applied to the central directory record only */
+  central?: { name?: string; uncompressedSize?: number; localOffset?: number };
+}
+
+export interface ZipOptions {
+  /** Method for entries that do not name one */
+  method?: 0 | 8;
+  /** Bytes prepended before the archive, as in self-extracting or polyglot files */
+  prefix?: Uint8Array;
+  /** Entry count written to the end record instead of the real one */
+  declaredEntries?: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Build an archive with the entries in the given order, either as a list or as a name → content map.
+ * Every entry is dated 2025-01-01 12:00:00.
+ */
+export function zip(entries: ZipEntry[] | Record<string, string | Uint8Array>, { method = 0, prefix = new Uint8Array(), declaredEntries }: ZipOptions = {}): Uint8Array {
+  const list = Array.isArray(entries) ? entries : Object.entries(entries).map(([name, data]) => ({ name, data }) as ZipEntry);
+  const locals: number[] = [];
+  const centrals: number[] = [];
+  const out: number[] = [];
+  const u16 = (target: number[], n: number) => target.push(n & 0xff, n >> 8);
+  const u32 = (target: number[], n: number) => target.push(n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24);
+
+  for (const entry of list) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data ?? new Uint8Array();
+    const entryMethod = entry.method ?? method;
+    const packed = entryMethod === 8 ? deflateRawSync(data) : data;
+    const crc = Bun.hash.crc32(data) >>> 0;
+    locals.push(out.length);
+
+    u32(out, 0x04034b50);
+    u16(out, 20); u16(out, entry.flags ?? 0); u16(out, entryMethod);
+    u16(out, 0x6000); u16(out, 0x5a21);
+    u32(out, crc); u32(out, packed.length); u32(out, data.length);
+    u16(out, name.length); u16(out, 0);
+    out.push(...name, ...packed);
+
+    const centralName = encoder.encode(entry.central?.name ?? entry.name);
+    u32(centrals, 0x02014b50);
+    u16(centrals, 20); u16(centrals, 20); u16(centrals, entry.flags ?? 0); u16(centrals, entryMethod);
+    u16(centrals, 0x6000); u16(centrals, 0x5a21);
+    u32(centrals, crc); u32(centrals, packed.length); u32(centrals, entry.central?.uncompressedSize ?? data.length);
+    u16(centrals, centralName.length); u16(centrals, 0); u16(centrals, 0);
+    u16(centrals, 0); u16(centrals, 0); u32(centrals, 0);
+    u32(centrals, entry.central?.localOffset ?? locals[locals.length - 1]);
+    centrals.push(...centralName);
+  }
+
+  const directoryOffset = out.length;
+  out.push(...centrals);
+  u32(out, 0x06054b50);
+  u16(out, 0); u16(out, 0);
+  u16(out, declaredEntries ?? list.length); u16(out, declaredEntries ?? list.length);
+  u32(out, centrals.length); u32(out, directoryOffset);
+  u16(out, 0);
+
+  return new Uint8Array([...prefix, ...out]);
+}
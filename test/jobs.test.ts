@@ -0,0 +1,90 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { JobManager, type JobSource } from "../src/api/jobs";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...new Uint8Array(16)]);
+
+function source(name: string, bytes: Uint8Array = PNG): JobSource {
+  return { name, read: async () => bytes };
+}
+
+/** Analyzer that yields to the event loop so items overlap, recording peak parallelism */
+function trackingAnalyzer() {
+  const stats = { active: 0, peak: 0 };
+  const analyze = async (bytes: Uint8Array) => {
+    stats.active++;
+    stats.peak = Math.max(stats.peak, stats.active);
+    await Bun.sleep(5);
+    stats.active--;
+    return analyzeBuffer(bytes);
+  };
+  return { stats, analyze };
+}
+
+describe("JobManager", () => {
+  it("should analyze every source and report progress", async () => {
+    const manager = new JobManager();
+    const job = manager.submit([source("a.png"), source("b.png")]);
+
+    expect(job.status).toBe("running");
+    expect(job.progress.total).toBe(2);
+
+    await manager.wait(job.id);
+    expect(job.status).toBe("completed");
+    expect(job.progress.done).toBe(2);
+    expect(job.items[0].result?.detection.format).toBe("PNG");
+    expect(job.items[0].hashes?.sha256).toBe(new Bun.CryptoHasher("sha256").update(PNG).digest("hex"));
+    expect(job.finishedAt).not.toBeNull();
+  });
+
+  it("should record per-file errors without failing the job", async () => {
+    const manager = new JobManager();
+    const missing: JobSource = { name: "missing", read: async () => { throw new Error("File not found"); } };
+    const job = manager.submit([source("ok.png"), missing]);
+
+    await manager.wait(job.id);
+    expect(job.status).toBe("completed");
+    expect(job.progress).toMatchObject({ done: 1, error: 1 });
+    expect(job.items[1]).toMatchObject({ status: "error", error: "File not found" });
+  });
+
+  it("should never exceed the job's concurrency", async () => {
+    const { stats, analyze } = trackingAnalyzer();
+    const manager = new JobManager({ analyze });
+    const job = manager.submit(Array.from({ length: 10 }, (_, i) => source(`${i}.png`)), { concurrency: 3 });
+
+    await manager.wait(job.id);
+    expect(stats.peak).toBe(3);
+    expect(job.progress.done).toBe(10);
+  });
+
+  it("should clamp requested concurrency to the configured maximum", () => {
+    const manager = new JobManager({ maxConcurrency: 2 });
+    expect(manager.submit([source("a")], { concurrency: 50 }).concurrency).toBe(2);
+    expect(manager.submit([source("a")], { concurrency: 0 }).concurrency).toBe(1);
+  });
+
+  it("should cancel pending items and let running ones finish", async () => {
+    const { analyze } = trackingAnalyzer();
+    const manager = new JobManager({ analyze });
+    const job = manager.submit(Array.from({ length: 6 }, (_, i) => source(`${i}.png`)), { concurrency: 2 });
+
+    // The first `concurrency` items start synchronously on submit
+    manager.cancel(job.id);
+    await manager.wait(job.id);
+
+    expect(job.status).toBe("cancelled");
+    expect(job.progress.done).toBe(2);
+    expect(job.progress.cancelled).toBe(4);
+    expect(job.progress.pending + job.progress.running).toBe(0);
+  });
+
+  it("should hide jobs from other owners", () => {
+    const manager = new JobManager();
+    const job = manager.submit([source("a.png")], { owner: "session-a" });
+
+    expect(manager.get(job.id, "session-a")).toBe(job);
+    expect(manager.get(job.id, "session-b")).toBeUndefined();
+    expect(manager.cancel(job.id, "session-b")).toBeUndefined();
+  });
+});
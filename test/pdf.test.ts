@@ -0,0 +1,160 @@
+import { describe, it, expect } from "bun:test";
+import { deflateSync } from "node:zlib";
+import { analyzeBuffer } from "../src/analysis";
+import { parsePdf } from "../src/analysis/parsers/pdf";
+
+const encoder = new TextEncoder();
+
+/**
+ * Minimal PDF with a correct xref table; objects are numbered from 1 in order.
+ * `base` appends an incremental update to an earlier document instead of starting a new one.
+ */
+function pdf(objects: string[], trailer = "/Root 1 0 R", { base = "", first = 1, prev }: { base?: string; first?: number; prev?: number } = {}): string {
+  let out = base || "%PDF-1.7\n%\xe2\xe3\xcf\xd3\n";
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${first + i} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n${base ? "" : "0 1\n0000000000 65535 f \n"}${first} ${objects.length}\n`;
+  out += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${first + objects.length} ${trailer}${prev !== undefined ? ` /Prev ${prev}` : ""} >>\nstartxref\n${xref}\n%%EOF\n`;
+  return out;
+}
+
+const bytesOf = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const CATALOG = "<< /Type /Catalog /Pages 2 0 R >>";
+const PAGES = "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>";
+const PAGE = "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>";
+
+describe("parsePdf", () => {
+  it("should read the header, xref chain, object and page counts", () => {
+    const { metadata, findings } = parsePdf(bytesOf(pdf([CATALOG, PAGES, PAGE, PAGE])));
+
+    expect(metadata.version).toBe("1.7");
+    expect(metadata.headerOffset).toBe(0);
+    expect(metadata.xrefValid).toBe(true);
+    expect(metadata.xref).toEqual([expect.objectContaining({ kind: "table", entries: 5 })]);
+    expect(metadata.trailer).toMatchObject({ size: 5, root: "1 0 R" });
+    expect(metadata.objectCount).toBe(4);
+    expect(metadata.pageCount).toBe(2);
+    expect(metadata.incrementalUpdates).toBe(0);
+    expect(findings).toEqual([]);
+  });
+
+  it("should decode Info strings and read the XMP packet", () => {
+    const title = "\xfe\xff" + [..."Résumé"].map((char) => "\0" + char).join("");
+    const xmp = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description pdf:Producer="Writer 2.0" xmp:CreatorTool="Editor"/></rdf:RDF></x:xmpmeta>';
+    const doc = pdf(
+      [
+        "<< /Type /Catalog /Pages 2 0 R /Metadata 4 0 R >>",
+        "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+        PAGE,
+        `<< /Type /Metadata /Subtype /XML /Length ${xmp.length} >>\nstream\n${xmp}\nendstream`,
+        `<< /Title (${title}) /Author (Jane \\(QA\\) Doe) /CreationDate (D:20240102030405Z) >>`,
+      ],
+      "/Root 1 0 R /Info 5 0 R /ID [<0A1B> <0A1B>]"
+    );
+    const { metadata } = parsePdf(bytesOf(doc));
+
+    expect(metadata.info).toEqual({ Title: "Résumé", Author: "Jane (QA) Doe", CreationDate: "D:20240102030405Z" });
+    expect(metadata.xmp?.properties).toMatchObject({ "pdf:Producer": "Writer 2.0", "xmp:CreatorTool": "Editor" });
+    expect(metadata.trailer.id).toEqual(["0a1b", "0a1b"]);
+  });
+
+  it("should flag JavaScript, launch actions, embedded files and links", () => {
+    const doc = pdf([
+      "<< /Type /Catalog /Pages 2 0 R /OpenAction 4 0 R /Names << /EmbeddedFiles 5 0 R >> >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /AA << /O << /S /Launch /F (cmd.exe) >> >> /Annots [<< /Subtype /Link /A << /S /URI /URI (http://evil.example/x) >> >>] >>",
+      "<< /S /JavaScript /JS (app.alert\\(1\\)) >>",
+      "<< /Type /EmbeddedFile /Length 2 >>\nstream\nhi\nendstream",
+    ]);
+    const { metadata, findings } = parsePdf(bytesOf(doc));
+
+    expect(metadata.keywords).toMatchObject({ JavaScript: 1, JS: 1, OpenAction: 1, AA: 1, Launch: 1, EmbeddedFile: 1, URI: 2 });
+    expect(metadata.uris).toEqual(["http://evil.example/x"]);
+    expect(findings.map((finding) => [finding.id, finding.severity])).toEqual([
+      ["pdf.javascript", "high"],
+      ["pdf.launch", "high"],
+      ["pdf.open-action", "medium"],
+      ["pdf.additional-actions", "medium"],
+      ["pdf.embedded-file", "medium"],
+      ["pdf.uri", "low"],
+    ]);
+    expect(findings[0].offset).toBe(doc.indexOf("/JS "));
+  });
+
+  it("should see through #xx-escaped names", () => {
+    const doc = pdf([CATALOG, PAGES, PAGE, PAGE, "<< /S /J#61vaScript /J#53 (x) >>"]);
+    const { metadata, findings } = parsePdf(bytesOf(doc));
+
+    expect(metadata.keywords.JavaScript).toBe(1);
+    expect(metadata.obfuscatedNames).toEqual(["/J#61vaScript", "/J#53"]);
+    expect(findings.map((finding) => finding.id)).toContain("pdf.obfuscated-name");
+  });
+
+  it("should count objects and keywords hidden in compressed object streams", () => {
+    const packed = "<< /Type /Catalog /Pages 2 0 R /OpenAction << /S /JavaScript /JS (x) >> >> << /Type /Pages /Kids [] /Count 7 >>";
+    const header = `1 0 2 ${packed.indexOf("<< /Type /Pages")} `;
+    const stream = String.fromCharCode(...deflateSync(encoder.encode(header + packed)));
+    let doc = "%PDF-1.5\n";
+    const objStm = doc.length;
+    doc += `3 0 obj\n<< /Type /ObjStm /N 2 /First ${header.length} /Filter /FlateDecode /Length ${stream.length} >>\nstream\n${stream}\nendstream\nendobj\n`;
+    const xref = doc.length;
+    doc += `4 0 obj\n<< /Type /XRef /Size 5 /W [1 4 2] /Root 1 0 R /Length 0 >>\nstream\n\nendstream\nendobj\nstartxref\n${xref}\n%%EOF\n`;
+    const { metadata, findings } = parsePdf(bytesOf(doc));
+
+    expect(metadata.xref).toEqual([expect.objectContaining({ offset: xref, kind: "stream", entries: 5 })]);
+    expect(metadata.compressedObjects).toBe(2);
+    expect(metadata.objectCount).toBe(4);
+    expect(metadata.pageCount).toBe(7);
+    expect(metadata.keywords).toMatchObject({ ObjStm: 1, OpenAction: 1, JavaScript: 1, JS: 1 });
+    expect(findings.find((finding) => finding.id === "pdf.javascript")?.offset).toBe(objStm);
+  });
+
+  it("should report encryption and leave encrypted strings alone", () => {
+    const doc = pdf([CATALOG, PAGES, PAGE, PAGE, "<< /Filter /Standard /V 4 /R 4 /Length 128 >>", "<< /Title (\x8a\x01) >>"], "/Root 1 0 R /Encrypt 5 0 R /Info 6 0 R");
+    const { metadata, findings } = parsePdf(bytesOf(doc));
+
+    expect(metadata.encryption).toEqual({ filter: "Standard", version: 4, revision: 4, keyLength: 128 });
+    expect(metadata.info).toEqual({});
+    expect(findings.map((finding) => finding.id)).toEqual(["pdf.encrypted"]);
+  });
+
+  it("should follow /Prev through incremental updates", () => {
+    const original = pdf([CATALOG, PAGES, PAGE, PAGE, "<< /Title (Draft) >>"], "/Root 1 0 R /Info 5 0 R");
+    const firstXref = Number(/startxref\n(\d+)/.exec(original)![1]);
+    const updated = pdf(["<< /Title (Final) >>"], "/Root 1 0 R /Info 6 0 R", { base: original, first: 6, prev: firstXref });
+    const { metadata, findings } = parsePdf(bytesOf(updated));
+
+    expect(metadata.xref.map((section) => section.offset)).toEqual([updated.lastIndexOf("xref\n6 1"), firstXref]);
+    expect(metadata.info.Title).toBe("Final");
+    expect(metadata.incrementalUpdates).toBe(1);
+    expect(findings.map((finding) => finding.id)).toEqual(["pdf.incremental-updates"]);
+  });
+
+  it("should flag a broken xref pointer and data after %%EOF", () => {
+    const doc = pdf([CATALOG, PAGES, PAGE, PAGE]).replace(/startxref\n\d+/, "startxref\n9") + "MZ\x90\0payload";
+    const { metadata, findings } = parsePdf(bytesOf(doc));
+
+    expect(metadata.xrefValid).toBe(false);
+    expect(metadata.trailer.root).toBe("1 0 R");
+    expect(metadata.pageCount).toBe(2);
+    expect(metadata.trailingBytes).toBe(10);
+    expect(findings.map((finding) => finding.id)).toEqual(["pdf.trailing-data", "pdf.broken-xref"]);
+  });
+});
+
+describe("analyzeBuffer with PDFs", () => {
+  it("should add metadata.pdf and feed its findings into the risk summary", () => {
+    const doc = pdf(["<< /Type /Catalog /Pages 2 0 R /OpenAction << /S /JavaScript /JS (x) >> >>", "<< /Type /Pages /Kids [] /Count 0 >>"]);
+    const analysis = analyzeBuffer(bytesOf(doc), { name: "invoice.pdf", type: "application/pdf" });
+
+    expect(analysis.detection.format).toBe("PDF");
+    expect(analysis.metadata.pdf?.version).toBe("1.7");
+    expect(analysis.risk.level).toBe("high");
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect } from "bun:test";
+import { identifySignature } from "../src/analysis/signatures";
 
 describe("performance benchmarks", () => {
   it("Bun.file().bytes() 10MB", async () => {
@@ -13,7 +14,7 @@ describe("performance benchmarks", () => {
   it("SIMD signature detection", () => {
     const bytes = new Uint8Array(10_000_000);
     const start = performance.now();
-    detectFormatSIMD(bytes);
+    identifySignature(bytes);
     const duration = performance.now() - start;
     console.log(`10MB signature detect: ${duration.toFixed(2)}ms`);
     expect(duration).toBeLessThan(50);
@@ -31,13 +32,3 @@ describe("performance benchmarks", () => {
   });
 });
 
-function detectFormatSIMD(bytes: Uint8Array): string {
-  const signatures: Record<string, string> = {
-    "89504E47": "PNG",
-    "FFD8FF": "JPEG",
-    "47494638": "GIF",
-    "504B0304": "ZIP",
-  };
-  const key = Array.from(bytes.slice(0, 4)).map(b => b.toString(16).toUpperCase()).join("");
-  return signatures[key] || "Unknown";
-}
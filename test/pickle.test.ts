@@ -0,0 +1,78 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { looksLikePickle, parsePickle } from "../src/analysis/parsers/pickle";
+import { zip } from "./fixtures/zip";
+
+const encoder = new TextEncoder();
+
+function hex(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, "hex"));
+}
+
+// pickle.dumps of an object whose __reduce__ returns (os.system, ("id",)), protocol 4
+const REDUCE_SYSTEM = hex("8004951d000000000000008c05706f736978948c0673797374656d9493948c02696494859452942e");
+// The same payload at protocol 0
+const REDUCE_SYSTEM_V0 = encoder.encode("cposix\nsystem\np0\n(Vid\np1\ntp2\nRp3\n.");
+// pickle.dumps(OrderedDict(a=1, b=[1.5, "x"]), protocol=2)
+const ORDERED_DICT = hex("800263636f6c6c656374696f6e730a4f726465726564446963740a7100295271012858010000006171024b0158010000006271035d710428473ff8000000000000580100000078710565752e");
+
+describe("parsePickle", () => {
+  it("should resolve STACK_GLOBAL through the memo and flag a called os.system", () => {
+    const { metadata, findings } = parsePickle(REDUCE_SYSTEM);
+    const [stream] = metadata.streams;
+
+    expect(stream).toMatchObject({ member: null, protocol: 4, complete: true, globals: ["posix.system"] });
+    expect(stream.instructions.map((instruction) => instruction.opcode)).toEqual([
+      "PROTO", "FRAME", "SHORT_BINUNICODE", "MEMOIZE", "SHORT_BINUNICODE", "MEMOIZE", "STACK_GLOBAL", "MEMOIZE",
+      "SHORT_BINUNICODE", "MEMOIZE", "TUPLE1", "MEMOIZE", "REDUCE", "MEMOIZE", "STOP",
+    ]);
+    expect(findings).toEqual([{ id: "pickle.dangerous-global", severity: "critical", message: "Loading imports and calls posix.system", source: "pickle", offset: 28 }]);
+  });
+
+  it("should read protocol 0 GLOBAL lines", () => {
+    const { metadata, findings } = parsePickle(REDUCE_SYSTEM_V0);
+
+    expect(looksLikePickle(REDUCE_SYSTEM_V0)).toBe(true);
+    expect(metadata.streams[0].protocol).toBeNull();
+    expect(metadata.streams[0].instructions[0]).toEqual({ offset: 0, opcode: "GLOBAL", argument: "posix.system" });
+    expect(findings.map((finding) => finding.severity)).toEqual(["critical"]);
+  });
+
+  it("should not flag the globals ordinary data needs", () => {
+    const { metadata, findings } = parsePickle(ORDERED_DICT);
+
+    expect(metadata.streams[0].globals).toEqual(["collections.OrderedDict"]);
+    expect(metadata.streams[0].instructions).toContainEqual({ offset: 56, opcode: "BINFLOAT", argument: 1.5 });
+    expect(findings).toEqual([]);
+  });
+
+  it("should report unknown globals and streams that stop early", () => {
+    const truncated = encoder.encode("cmypackage.loader\nLoader\n(X\x05\x00\x00\x00ab");
+    const { metadata, findings } = parsePickle(truncated);
+
+    expect(metadata.streams[0].complete).toBe(false);
+    expect(findings.map((finding) => [finding.id, finding.severity])).toEqual([
+      ["pickle.unknown-global", "medium"],
+      ["pickle.malformed", "low"],
+    ]);
+  });
+});
+
+describe("analyzeBuffer with pickles", () => {
+  it("should disassemble data.pkl inside a PyTorch archive", () => {
+    // Stored entries, laid out like torch.save output
+    const model = zip({ "model/data.pkl": REDUCE_SYSTEM, "model/version": encoder.encode("3\n"), "model/data/0": new Uint8Array(16) });
+    const analysis = analyzeBuffer(model, { name: "model.pt" });
+    const pickleFindings = analysis.findings.filter((finding) => finding.source === "pickle");
+
+    expect(analysis.metadata.pickle?.streams.map((stream) => stream.member)).toEqual(["model/data.pkl"]);
+    expect(pickleFindings).toEqual([{ id: "pickle.dangerous-global", severity: "critical", message: "Loading in model/data.pkl imports and calls posix.system", source: "pickle" }]);
+  });
+
+  it("should disassemble protocol 0 pickles that carry no signature", () => {
+    const analysis = analyzeBuffer(REDUCE_SYSTEM_V0, { name: "model.pkl" });
+
+    expect(analysis.metadata.pickle?.streams[0].globals).toEqual(["posix.system"]);
+    expect(analysis.risk.level).toBe("critical");
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "bun:test";
+import { deflateSync } from "node:zlib";
+import { parsePng } from "../src/analysis/parsers/png";
+import { analyzeBuffer } from "../src/analysis";
+
+const encoder = new TextEncoder();
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, data: Uint8Array | number[] = [], corruptCrc = false): Uint8Array {
+  const body = new Uint8Array(4 + data.length);
+  body.set(encoder.encode(type), 0);
+  body.set(data, 4);
+
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(8 + data.length, (Bun.hash.crc32(body) + (corruptCrc ? 1 : 0)) >>> 0);
+  return out;
+}
+
+function ihdr(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data.set([8, 6, 0, 0, 1], 8);
+  return chunk("IHDR", data);
+}
+
+function concat(...parts: Array<Uint8Array | number[]>): Uint8Array {
+  const arrays = parts.map((part) => Uint8Array.from(part));
+  const out = new Uint8Array(arrays.reduce((n, a) => n + a.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    out.set(array, offset);
+    offset += array.length;
+  }
+  return out;
+}
+
+const png = (...parts: Uint8Array[]) => concat(PNG_SIGNATURE, ...parts);
+
+describe("parsePng", () => {
+  it("should decode IHDR and list chunks with valid CRCs", () => {
+    const { metadata, findings } = parsePng(png(ihdr(640, 480), chunk("IDAT", [1, 2, 3]), chunk("IEND")));
+
+    expect(metadata.ihdr).toEqual({
+      width: 640,
+      height: 480,
+      bitDepth: 8,
+      colorType: 6,
+      colorTypeName: "Truecolour with alpha",
+      compressionMethod: 0,
+      filterMethod: 0,
+      interlaced: true,
+    });
+    expect(metadata.chunks.map((c) => c.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+    expect(metadata.chunks.every((c) => c.crcValid)).toBe(true);
+    expect(metadata.chunks[0].offset).toBe(8);
+    expect(metadata.hasIEND).toBe(true);
+    expect(findings).toEqual([]);
+  });
+
+  it("should decode gamma, sRGB and ICC profile presence", () => {
+    const gama = new Uint8Array(4);
+    new DataView(gama.buffer).setUint32(0, 45455);
+    const iccp = concat(encoder.encode("Display P3"), [0, 0], deflateSync(new Uint8Array(64)));
+
+    const { metadata } = parsePng(png(ihdr(1, 1), chunk("gAMA", gama), chunk("sRGB", [0]), chunk("iCCP", iccp), chunk("IEND")));
+
+    expect(metadata.gamma).toBeCloseTo(0.45455);
+    expect(metadata.srgbIntent).toBe(0);
+    expect(metadata.iccProfile?.name).toBe("Display P3");
+  });
+
+  it("should decode tEXt, zTXt and iTXt entries", () => {
+    const text = concat(encoder.encode("Author"), [0], encoder.encode("Jane Doe"));
+    const ztxt = concat(encoder.encode("Comment"), [0, 0], deflateSync(encoder.encode("compressed note")));
+    const itxt = concat(encoder.encode("Title"), [0, 0, 0], encoder.encode("fr"), [0], encoder.encode("Titre"), [0], encoder.encode("Été"));
+
+    const { metadata } = parsePng(png(ihdr(1, 1), chunk("tEXt", text), chunk("zTXt", ztxt), chunk("iTXt", itxt), chunk("IEND")));
+
+    expect(metadata.text).toEqual([
+      { type: "tEXt", keyword: "Author", value: "Jane Doe" },
+      { type: "zTXt", keyword: "Comment", value: "compressed note" },
+      { type: "iTXt", keyword: "Title", value: "Été", languageTag: "fr", translatedKeyword: "Titre" },
+    ]);
+  });
+
+  it("should flag CRC errors, unknown ancillary chunks and data after IEND", () => {
+    const bytes = png(ihdr(1, 1), chunk("IDAT", [9], true), chunk("zzZz", [1, 2]), chunk("IEND"), new Uint8Array([0x50, 0x4b, 0x03, 0x04]));
+    const { metadata, findings } = parsePng(bytes);
+
+    expect(metadata.chunks[1].crcValid).toBe(false);
+    expect(metadata.unknownAncillaryChunks).toEqual(["zzZz"]);
+    expect(metadata.trailingBytes).toBe(4);
+    expect(findings.map((f) => f.id)).toEqual(["png.crc-mismatch", "png.unknown-chunk", "png.trailing-data"]);
+  });
+
+  it("should report truncated files", () => {
+    const { metadata, findings } = parsePng(png(ihdr(1, 1)));
+    expect(metadata.hasIEND).toBe(false);
+    expect(findings.map((f) => f.id)).toContain("png.missing-iend");
+  });
+});
+
+describe("analyzeBuffer PNG metadata", () => {
+  it("should attach metadata.png for PNG content only", () => {
+    const analysis = analyzeBuffer(png(ihdr(2, 2), chunk("IEND")), { name: "pixel.png" });
+    expect(analysis.metadata.png?.ihdr?.width).toBe(2);
+
+    expect(analyzeBuffer(new Uint8Array(16)).metadata.png).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileTooLargeError } from "../src/analysis/stream";
+import { taskErrorStatus } from "../src/workers";
+import { WorkerPool, WorkerPoolError, defaultPoolSize } from "../src/workers/pool";
+import { runTask } from "../src/workers/task";
+import type { AnalyzeTask } from "../src/workers/task";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+// Stand-in worker whose behaviour is chosen by the source name
+const SCRIPTED_WORKER = `
+self.onmessage = async ({ data: { id, task } }) => {
+  const name = task.source.name;
+  if (name === "hang") await new Promise(() => {});
+  if (name === "exit") process.exit(1);
+  if (name === "throw") throw new Error("boom");
+  if (name.startsWith("wait:")) await Bun.sleep(Number(name.slice(5)));
+  self.postMessage({ id, ok: true, result: name });
+};
+`;
+
+function task(name: string, bytes: Uint8Array = PNG): AnalyzeTask {
+  return { type: "analyze", bytes: bytes.slice(), source: { name } };
+}
+
+let pool: WorkerPool | null = null;
+let dir: string | null = null;
+
+async function scriptedPool(options: { size?: number; maxQueue?: number; taskTimeoutMs?: number } = {}) {
+  dir = await mkdtemp(join(tmpdir(), "pool-test-"));
+  const workerUrl = join(dir, "worker.js");
+  await Bun.write(workerUrl, SCRIPTED_WORKER);
+  pool = new WorkerPool({ size: 1, maxQueue: 4, taskTimeoutMs: 5_000, ...options, workerUrl });
+  return pool;
+}
+
+afterEach(async () => {
+  pool?.terminate();
+  pool = null;
+  if (dir) await rm(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+describe("runTask", () => {
+  test("analyzes bytes and hashes them on the current thread", async () => {
+    const result = await runTask(task("image.png"));
+    expect(result.analysis.detection.format).toBe("PNG");
+    expect(result.hashes.sha256).toBe(new Bun.CryptoHasher("sha256").update(PNG).digest("hex"));
+  });
+
+  test("rejects a task without bytes or a readable path", async () => {
+    await expect(runTask({ type: "analyze", source: { name: "x" } })).rejects.toThrow("neither bytes nor a path");
+    await expect(runTask({ type: "analyze", path: "./uploads/does-not-exist", source: { name: "x" } })).rejects.toThrow("File not found");
+  });
+
+  test("returns null when asked to extract a non-archive", async () => {
+    dir = await mkdtemp(join(tmpdir(), "pool-test-"));
+    const path = join(dir, "image.png");
+    await Bun.write(path, PNG);
+    const limits = { maxTotalBytes: 1024, maxEntries: 10, maxDepth: 1, maxPathLength: 256 };
+    expect(await runTask({ type: "extract", path, sandbox: join(dir, "out"), limits })).toBeNull();
+  });
+
+  test("refuses archives larger than the extraction byte limit before reading them", async () => {
+    dir = await mkdtemp(join(tmpdir(), "pool-test-"));
+    const path = join(dir, "large.zip");
+    await Bun.write(path, new Uint8Array(2048));
+    const limits = { maxTotalBytes: 1024, maxEntries: 10, maxDepth: 1, maxPathLength: 256 };
+    const error = await runTask({ type: "extract", path, sandbox: join(dir, "out"), limits }).catch((e) => e);
+    expect(error).toBeInstanceOf(FileTooLargeError);
+    expect(taskErrorStatus(error)).toBe(413);
+  });
+});
+
+describe("WorkerPool", () => {
+  test("sizes itself from hardwareConcurrency", () => {
+    expect(defaultPoolSize()).toBe(Math.max(1, navigator.hardwareConcurrency - 1));
+  });
+
+  test("runs analysis in the real analyzer worker", async () => {
+    pool = new WorkerPool({ size: 1, maxQueue: 4, taskTimeoutMs: 10_000 });
+    const result = await pool.run(task("image.png"));
+    expect(result.analysis.detection.format).toBe("PNG");
+    expect(result.hashes.sha256).toHaveLength(64);
+    expect(pool.stats.completed).toBe(1);
+  });
+
+  test("surfaces task errors without restarting the worker", async () => {
+    pool = new WorkerPool({ size: 1, maxQueue: 4, taskTimeoutMs: 10_000 });
+    await expect(pool.run({ type: "analyze", path: "./uploads/does-not-exist", source: { name: "x" } })).rejects.toThrow("File not found");
+    expect(pool.stats).toMatchObject({ failed: 1, restarts: 0 });
+  });
+
+  test("rejects with queue-full once the bounded queue is at capacity", async () => {
+    const pool = await scriptedPool({ size: 1, maxQueue: 2 });
+    const accepted = [pool.run(task("wait:50")), pool.run(task("a")), pool.run(task("b"))];
+
+    const error = await pool.run(task("c")).catch((e) => e);
+    expect(error).toBeInstanceOf(WorkerPoolError);
+    expect(error.code).toBe("queue-full");
+    expect(pool.stats).toMatchObject({ busy: 1, queued: 2, rejected: 1 });
+
+    expect((await Promise.all(accepted)) as unknown[]).toEqual(["wait:50", "a", "b"]);
+  });
+
+  test("times out a stuck task and restarts its worker", async () => {
+    const pool = await scriptedPool({ taskTimeoutMs: 100 });
+    const stuck = pool.run(task("hang")).catch((e) => e);
+    const queued = pool.run(task("after"));
+
+    expect((await stuck).code).toBe("timeout");
+    expect((await queued) as unknown).toBe("after");
+    expect(pool.stats).toMatchObject({ timedOut: 1, restarts: 1, completed: 1 });
+  });
+
+  test("restarts a worker that exits mid-task", async () => {
+    const pool = await scriptedPool();
+    const error = await pool.run(task("exit")).catch((e) => e);
+    expect(error.code).toBe("crashed");
+
+    expect((await pool.run(task("still-alive"))) as unknown).toBe("still-alive");
+    expect(pool.stats.restarts).toBeGreaterThanOrEqual(1);
+  });
+
+  test("restarts a worker that throws an uncaught error", async () => {
+    const pool = await scriptedPool();
+    const error = await pool.run(task("throw")).catch((e) => e);
+    expect(error.code).toBe("crashed");
+    expect((await pool.run(task("next"))) as unknown).toBe("next");
+  });
+
+  test("terminate rejects running and queued tasks", async () => {
+    const pool = await scriptedPool();
+    const running = pool.run(task("hang")).catch((e) => e.code);
+    const queued = pool.run(task("a")).catch((e) => e.code);
+    pool.terminate();
+
+    expect(await Promise.all([running, queued])).toEqual(["terminated", "terminated"]);
+    expect(await pool.run(task("late")).catch((e) => e.code)).toBe("terminated");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { analysisRegions, regionsAt, stringRegions } from "../src/analysis/regions";
+import { extractStrings } from "../src/analysis/strings";
+
+const encoder = new TextEncoder();
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, data: Uint8Array | number[] = []): Uint8Array {
+  const body = new Uint8Array(4 + data.length);
+  body.set(encoder.encode(type), 0);
+  body.set(data, 4);
+
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(8 + data.length, Bun.hash.crc32(body) >>> 0);
+  return out;
+}
+
+function png(): Uint8Array {
+  const ihdr = new Uint8Array(13);
+  new DataView(ihdr.buffer).setUint32(0, 1);
+  new DataView(ihdr.buffer).setUint32(4, 1);
+  ihdr.set([8, 6, 0, 0, 0], 8);
+  return new Uint8Array(Bun.concatArrayBuffers([new Uint8Array(PNG_SIGNATURE), chunk("IHDR", ihdr), chunk("tEXt", encoder.encode("Comment\0hi")), chunk("IEND")]));
+}
+
+describe("analysisRegions", () => {
+  it("should label signature hits and parser structures by their source", () => {
+    const regions = analysisRegions(analyzeBuffer(png(), { name: "a.png" }));
+    const summary = regions.map(({ offset, length, label, source }) => `${offset}+${length} ${source}: ${label}`);
+
+    expect(summary).toContain("0+8 signature: PNG signature");
+    expect(summary).toContain("8+25 png: IHDR chunk");
+    expect(summary).toContain("33+22 png: tEXt chunk");
+    expect(summary).toContain("55+12 png: IEND chunk");
+  });
+
+  it("should order regions by offset with enclosing ranges first", () => {
+    const regions = analysisRegions({
+      size: 200,
+      findings: [{ id: "x", severity: "low", message: "odd byte", source: "zip", offset: 40 }],
+      entropy: { overall: 0, blockSize: 0, blocks: [], histogram: [], chiSquare: 0, highEntropyBytes: 0, regions: [{ offset: 32, length: 100, entropy: 7.9, likely: "compressed" }] },
+    });
+
+    expect(regions.map((region) => region.source)).toEqual(["entropy", "zip"]);
+    expect(regionsAt(regions, 40).map((region) => region.label)).toEqual(["High entropy (likely compressed)", "odd byte"]);
+    expect(regionsAt(regions, 150)).toEqual([]);
+  });
+});
+
+describe("stringRegions", () => {
+  it("should cover the bytes of each string, two per UTF-16 character", () => {
+    const bytes = new Uint8Array(Bun.concatArrayBuffers([encoder.encode("\x01see http://a.example.com/x\x01"), new Uint8Array(Buffer.from("wide", "utf16le"))]));
+    const regions = stringRegions(extractStrings(bytes));
+
+    expect(regions).toEqual([
+      { offset: 1, length: 26, label: "see http://a.example.com/x [url]", source: "strings" },
+      { offset: 28, length: 8, label: "wide", source: "strings" },
+    ]);
+  });
+});
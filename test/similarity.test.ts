@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import { hashBytes } from "../src/analysis/hashing";
+import { compareCtph, compareHashes, CtphHasher, rankSimilar, TLSH_NULL, TlshHasher, tlshDistance } from "../src/analysis/similarity";
+import { AnalysisHistory } from "../src/api/history";
+import { analyzeBuffer } from "../src/analysis";
+
+const encoder = new TextEncoder();
+
+/** Deterministic pseudo-random bytes so digests are stable across runs */
+function noise(length: number, seed: number): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+function fuzzy(bytes: Uint8Array) {
+  return hashBytes(bytes, ["ssdeep", "tlsh"]);
+}
+
+describe("CtphHasher", () => {
+  it("should reproduce ssdeep's reference digests", () => {
+    const digest = (text: string) => new CtphHasher().update(encoder.encode(text)).digest();
+    const a = digest("Also called fuzzy hashes, Ctph can match inputs that have homologies.");
+    const b = digest("Also called fuzzy hashes, CTPH can match inputs that have homologies.");
+
+    expect(a).toBe("3:AXGBicFlgVNhBGcL6wCrFQEv:AXGHsNhxLsr2C");
+    expect(b).toBe("3:AXGBicFlIHBGcL6wCrFQEv:AXGH6xLsr2C");
+    expect(compareCtph(a, b)).toBe(22);
+    expect(digest("")).toBe("3::");
+  });
+
+  it("should give the same digest whether data arrives whole or in chunks", () => {
+    const data = noise(200_000, 1);
+    const chunked = new CtphHasher();
+    for (let offset = 0; offset < data.length; offset += 4093) chunked.update(data.subarray(offset, offset + 4093));
+
+    expect(chunked.digest()).toBe(new CtphHasher().update(data).digest());
+  });
+
+  it("should keep signatures within ssdeep's length limits", () => {
+    const [size, first, second] = new CtphHasher().update(noise(1_000_000, 2)).digest().split(":");
+    expect(Number(size) % 3).toBe(0);
+    expect(first.length).toBeLessThanOrEqual(64);
+    expect(second.length).toBeLessThanOrEqual(32);
+  });
+});
+
+describe("TlshHasher", () => {
+  it("should return TNULL for inputs too short or too uniform to describe", () => {
+    expect(new TlshHasher().update(noise(49, 3)).digest()).toBe(TLSH_NULL);
+    expect(new TlshHasher().update(new Uint8Array(4096)).digest()).toBe(TLSH_NULL);
+  });
+
+  it("should produce a 70-character digest at distance 0 from itself", () => {
+    const digest = new TlshHasher().update(noise(4096, 4)).digest();
+    expect(digest).toMatch(/^[0-9A-F]{70}$/);
+    expect(tlshDistance(digest, digest)).toBe(0);
+    expect(tlshDistance(digest, TLSH_NULL)).toBeNull();
+  });
+});
+
+describe("compareHashes", () => {
+  const original = noise(64 * 1024, 5);
+  const patched = original.slice();
+  patched[30_000] ^= 0xff;
+
+  it("should score a one-byte change as highly similar", () => {
+    const result = compareHashes(fuzzy(original), fuzzy(patched))!;
+    expect(result.ssdeep).toBeGreaterThanOrEqual(90);
+    expect(result.tlsh).toBeLessThan(20);
+    expect(result.score).toBeGreaterThanOrEqual(90);
+  });
+
+  it("should score unrelated content low", () => {
+    const result = compareHashes(fuzzy(original), fuzzy(noise(64 * 1024, 6)))!;
+    expect(result.ssdeep).toBe(0);
+    expect(result.score).toBeLessThan(50);
+  });
+
+  it("should return null when neither side carries fuzzy digests", () => {
+    expect(compareHashes({ sha256: "00" }, fuzzy(original))).toBeNull();
+  });
+
+  it("should rank candidates by score and honour limit and minScore", () => {
+    const candidates = [
+      { name: "unrelated", hashes: fuzzy(noise(64 * 1024, 7)) },
+      { name: "patched", hashes: fuzzy(patched) },
+      { name: "copy", hashes: fuzzy(original) },
+    ];
+    const target = fuzzy(original);
+
+    expect(rankSimilar(target, candidates).map(({ item }) => item.name).slice(0, 2)).toEqual(["copy", "patched"]);
+    expect(rankSimilar(target, candidates, { limit: 1 })).toHaveLength(1);
+    expect(rankSimilar(target, candidates, { minScore: 50 }).map(({ item }) => item.name)).toEqual(["copy", "patched"]);
+  });
+});
+
+describe("AnalysisHistory", () => {
+  const record = (history: AnalysisHistory, id: string, bytes: Uint8Array) =>
+    history.record(id, `${id}.bin`, { analysis: analyzeBuffer(bytes), hashes: fuzzy(bytes) });
+
+  it("should find earlier files similar to a new one, excluding itself", () => {
+    const history = new AnalysisHistory();
+    const original = noise(32 * 1024, 8);
+    const patched = original.slice();
+    patched[100] = 0;
+
+    record(history, "a", original);
+    record(history, "b", noise(32 * 1024, 9));
+    const entry = record(history, "c", patched);
+
+    const matches = history.similar(entry.hashes, { exclude: "c", minScore: 50 });
+    expect(matches.map((match) => match.id)).toEqual(["a"]);
+    expect(matches[0]).toMatchObject({ name: "a.bin", size: 32 * 1024 });
+  });
+
+  it("should forget the oldest entries beyond its capacity", () => {
+    const history = new AnalysisHistory(2);
+    record(history, "a", noise(1024, 10));
+    record(history, "b", noise(1024, 11));
+    record(history, "a", noise(1024, 10));
+    record(history, "c", noise(1024, 12));
+
+    expect(history.size).toBe(2);
+    expect(history.get("b")).toBeUndefined();
+    expect(history.get("a")).toBeDefined();
+  });
+});
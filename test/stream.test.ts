@@ -0,0 +1,173 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { analyzeStream, FileTooLargeError } from "../src/analysis/stream";
+
+const encoder = new TextEncoder();
+
+function sha256(bytes: Uint8Array): string {
+  return new Bun.CryptoHasher("sha256").update(bytes).digest("hex");
+}
+
+/** Stream a buffer in fixed-size chunks so windows straddle chunk boundaries */
+function chunked(bytes: Uint8Array, size = 7): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+function chunk(type: string, data: Uint8Array = new Uint8Array()): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(encoder.encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, Bun.hash.crc32(out.subarray(4, 8 + data.length)) >>> 0);
+  return out;
+}
+
+/** PNG with a large IDAT so the IEND chunk lies outside the head window */
+function largePng(idatSize: number): Uint8Array {
+  const ihdr = new Uint8Array(13);
+  new DataView(ihdr.buffer).setUint32(0, 640);
+  new DataView(ihdr.buffer).setUint32(4, 480);
+  ihdr.set([8, 2, 0, 0, 0], 8);
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", ihdr),
+    chunk("tEXt", encoder.encode("Comment\0streamed")),
+    chunk("IDAT", new Uint8Array(idatSize).fill(0x55)),
+    chunk("IEND"),
+  ];
+  return new Uint8Array(Bun.concatArrayBuffers(parts));
+}
+
+/** Stored-method archive whose first entry is `padding` bytes long */
+function largeZip(padding: number): Uint8Array {
+  const out: number[] = [];
+  const central: number[] = [];
+  const u16 = (target: number[], n: number) => target.push(n & 0xff, n >> 8);
+  const u32 = (target: number[], n: number) => target.push(n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24);
+  const entries = [
+    { name: "disk.img", data: new Uint8Array(padding) },
+    { name: "notes.txt", data: encoder.encode("hello") },
+  ];
+
+  for (const { name, data } of entries) {
+    const local = out.length;
+    const nameBytes = encoder.encode(name);
+    const crc = Bun.hash.crc32(data) >>> 0;
+    u32(out, 0x04034b50); u16(out, 20); u16(out, 0); u16(out, 0); u16(out, 0); u16(out, 0x5a21);
+    u32(out, crc); u32(out, data.length); u32(out, data.length); u16(out, nameBytes.length); u16(out, 0);
+    out.push(...nameBytes);
+    for (const byte of data) out.push(byte);
+
+    u32(central, 0x02014b50); u16(central, 20); u16(central, 20); u16(central, 0); u16(central, 0);
+    u16(central, 0); u16(central, 0x5a21); u32(central, crc); u32(central, data.length); u32(central, data.length);
+    u16(central, nameBytes.length); u16(central, 0); u16(central, 0); u16(central, 0); u16(central, 0);
+    u32(central, 0); u32(central, local);
+    central.push(...nameBytes);
+  }
+
+  const directoryOffset = out.length;
+  out.push(...central);
+  u32(out, 0x06054b50); u16(out, 0); u16(out, 0); u16(out, 2); u16(out, 2);
+  u32(out, central.length); u32(out, directoryOffset); u16(out, 0);
+  return new Uint8Array(out);
+}
+
+describe("analyzeStream", () => {
+  it("should match analyzeBuffer for streams that fit in one window", async () => {
+    const bytes = largePng(64);
+    const { analysis, hashes } = await analyzeStream(chunked(bytes), { name: "small.png" });
+
+    expect(analysis).toEqual(analyzeBuffer(bytes, { name: "small.png" }));
+    expect(analysis.windows).toBeUndefined();
+    expect(hashes.sha256).toBe(sha256(bytes));
+  });
+
+  it("should hash the whole stream but parse only the head of a large PNG", async () => {
+    const bytes = largePng(4096);
+    const { analysis, hashes } = await analyzeStream(chunked(bytes, 100), { name: "large.png" }, { windowBytes: 256 });
+
+    expect(hashes.sha256).toBe(sha256(bytes));
+    expect(analysis.size).toBe(bytes.length);
+    expect(analysis.windows).toEqual({ head: 256, tail: 256 });
+    expect(analysis.detection.format).toBe("PNG");
+    expect(analysis.metadata.png?.ihdr).toMatchObject({ width: 640, height: 480 });
+    expect(analysis.metadata.png?.text[0]).toMatchObject({ keyword: "Comment", value: "streamed" });
+    // The cut at the window edge is not truncation
+    expect(analysis.findings).toEqual([]);
+  });
+
+  it("should list ZIP entries from the tail window without flagging unseen local headers", async () => {
+    const bytes = largeZip(2048);
+    const { analysis } = await analyzeStream(chunked(bytes, 64), { name: "backup.zip" }, { windowBytes: 512 });
+
+    expect(analysis.metadata.zip?.entries.map((entry) => entry.name)).toEqual(["disk.img", "notes.txt"]);
+    expect(analysis.metadata.zip?.eocd?.offset).toBe(bytes.length - 22);
+    expect(analysis.findings).toEqual([]);
+  });
+
+  it("should report a central directory that starts before the tail window", async () => {
+    const bytes = largeZip(2048);
+    const { analysis } = await analyzeStream(chunked(bytes, 64), { name: "backup.zip" }, { windowBytes: 64 });
+
+    expect(analysis.metadata.zip?.entries).toEqual([]);
+    expect(analysis.findings.map((finding) => finding.id)).toEqual(["zip.directory-unavailable"]);
+    expect(analysis.risk.level).toBe("info");
+  });
+
+  it("should match end-anchored signatures against the tail window", async () => {
+    // UDIF disk images end with a 512-byte "koly" trailer
+    const dmg = new Uint8Array(64 * 1024).fill(0x11);
+    dmg.set(encoder.encode("koly"), dmg.length - 512);
+    const { analysis } = await analyzeStream(chunked(dmg, 1000), { name: "installer.dmg" }, { windowBytes: 8192 });
+
+    expect(analyzeBuffer(dmg).detection.format).toBe("Apple Disk Image");
+    expect(analysis.detection.format).toBe("Apple Disk Image");
+  });
+
+  it("should size data appended after IEND against the whole file", async () => {
+    const png = largePng(64);
+    const bytes = new Uint8Array(png.length + 4096).fill(0x41);
+    bytes.set(png);
+    const { analysis } = await analyzeStream(chunked(bytes, 100), { name: "appended.png" }, { windowBytes: 512 });
+
+    expect(analysis.metadata.png?.trailingBytes).toBe(4096);
+    expect(analysis.findings.find((finding) => finding.id === "png.trailing-data")?.message).toBe("4096 bytes appended after IEND");
+  });
+
+  it("should stop reading once the size limit is exceeded", async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+    });
+
+    const error = await analyzeStream(endless, {}, { maxBytes: 10_000 }).catch((e) => e);
+    expect(error).toBeInstanceOf(FileTooLargeError);
+    expect(error.limit).toBe(10_000);
+    expect(pulled).toBeLessThan(20);
+  });
+
+  it("should stream files from disk", async () => {
+    const bytes = largeZip(100_000);
+    const path = `/tmp/stream-test-${Bun.randomUUIDv7()}.zip`;
+    await Bun.write(path, bytes);
+    try {
+      const { analysis, hashes } = await analyzeStream(Bun.file(path).stream(), { name: "a.zip" }, { windowBytes: 4096 });
+      expect(hashes.sha256).toBe(sha256(bytes));
+      expect(analysis.windows).toEqual({ head: 4096, tail: 4096 });
+      expect(analysis.metadata.zip?.entries).toHaveLength(2);
+    } finally {
+      await Bun.file(path).delete();
+    }
+  });
+});
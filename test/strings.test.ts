@@ -0,0 +1,144 @@
+import { describe, it, expect } from "bun:test";
+import {
+  classifyString,
+  extractStrings,
+  parseStringQuery,
+  readStringPage,
+  StringScanner,
+  type ExtractedString,
+  type IocKind,
+  type StringPage,
+} from "../src/analysis/strings";
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+const utf16le = (text: string) => new Uint8Array(Buffer.from(text, "utf16le"));
+const utf16be = (text: string) => utf16le(text).map((_, i, bytes) => bytes[i ^ 1]);
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Bun.concatArrayBuffers(parts));
+}
+
+/** Deterministic pseudo-random filler between the interesting bytes */
+function binary(length: number, seed = 1): Uint8Array {
+  const out = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    out[i] = state >>> 24;
+  }
+  return out;
+}
+
+const DEFAULTS = { minLength: 4, maxLength: 1024, pageSize: 500, maxPageSize: 5000 };
+
+const sample = concat(
+  new Uint8Array([0x7f, 0x01, 0x02]),
+  ascii("http://evil.example.com/payload.bin\0"),
+  utf16le("C:\\Windows\\Temp\\x.exe"),
+  new Uint8Array([0xff, 0xfe]),
+  utf16be("HKLM\\Software\\Run"),
+  new Uint8Array([0xff]),
+  ascii("ok\x01"),
+  ascii("beacon 10.0.0.1 admin@corp.io")
+);
+
+describe("extractStrings", () => {
+  it("should find ASCII and UTF-16 runs at their byte offsets", () => {
+    const strings = extractStrings(sample);
+    const summary = strings.map(({ offset, encoding, value }) => ({ offset, encoding, value }));
+
+    expect(summary).toEqual([
+      { offset: 3, encoding: "ascii", value: "http://evil.example.com/payload.bin" },
+      { offset: 39, encoding: "utf16le", value: "C:\\Windows\\Temp\\x.exe" },
+      { offset: 83, encoding: "utf16be", value: "HKLM\\Software\\Run" },
+      { offset: 121, encoding: "ascii", value: "beacon 10.0.0.1 admin@corp.io" },
+    ]);
+    expect(sample.subarray(39, 41)).toEqual(utf16le("C"));
+  });
+
+  it("should honour minLength, maxLength and the encoding filter", () => {
+    expect(extractStrings(sample, { minLength: 2 }).some((s) => s.value === "ok")).toBe(true);
+    expect(extractStrings(sample, { encodings: ["utf16le"] }).map((s) => s.value)).toEqual(["C:\\Windows\\Temp\\x.exe"]);
+
+    const [long] = extractStrings(ascii("A".repeat(5000)), { maxLength: 16 });
+    expect(long.length).toBe(5000);
+    expect(long.value).toBe("A".repeat(16));
+  });
+
+  it("should give the same strings whether data arrives whole or in chunks", () => {
+    const bytes = concat(binary(3000, 2), sample, binary(3000, 3), sample);
+    const chunked: ExtractedString[] = [];
+    const scanner = new StringScanner({}, (found) => chunked.push(found));
+    for (let offset = 0; offset < bytes.length; offset += 7) scanner.update(bytes.subarray(offset, offset + 7));
+    scanner.finish();
+
+    expect(chunked.sort((a, b) => a.offset - b.offset)).toEqual(extractStrings(bytes));
+  });
+});
+
+describe("classifyString", () => {
+  it.each([
+    ["http://evil.example.com/payload.bin", ["url"]],
+    ["connect to 192.168.1.10:4444", ["ip"]],
+    ["fe80::1ff:fe23:4567:890a", ["ip"]],
+    ["mail ops@corp.io", ["email"]],
+    ["update.microsoft.com", ["domain"]],
+    ["C:\\Users\\Public\\run.bat", ["path"]],
+    ["/usr/local/bin/miner", ["path"]],
+    ["HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Run", ["registry"]],
+    ["token=TVqQAAMAAAAEAAAA//8AALgAAAAAAAAAQAAAAAAAAAAA", ["base64"]],
+  ])("should classify %p", (value, kinds) => {
+    expect(classifyString(value as string)).toEqual(kinds as IocKind[]);
+  });
+
+  it("should leave ordinary strings unclassified", () => {
+    for (const value of ["kernel32.dll", "libc.so.6", "std::vector", "main.py", "deadbeefdeadbeefdeadbeefdeadbeef"]) {
+      expect(classifyString(value)).toEqual([]);
+    }
+  });
+});
+
+describe("readStringPage", () => {
+  const bytes = concat(...Array.from({ length: 40 }, (_, i) => concat(binary(257, i + 10), sample)));
+  const file = new Blob([bytes]);
+
+  it("should walk every string exactly once across pages", async () => {
+    const walked: ExtractedString[] = [];
+    let cursor: number | null = 0;
+    let pages = 0;
+    while (cursor !== null) {
+      const page: StringPage = await readStringPage(file, { cursor, limit: 7 });
+      expect(page.strings.length).toBeLessThanOrEqual(7);
+      walked.push(...page.strings);
+      cursor = page.nextCursor;
+      pages++;
+    }
+
+    expect(walked).toEqual(extractStrings(bytes));
+    expect(pages).toBe(Math.ceil(walked.length / 7));
+  });
+
+  it("should only return strings of the requested kinds", async () => {
+    const page = await readStringPage(file, { kinds: ["registry"], limit: 1000 });
+    expect(page.strings).toHaveLength(40);
+    expect(page.strings.every((s) => s.kinds.includes("registry"))).toBe(true);
+    expect(page.nextCursor).toBeNull();
+  });
+});
+
+describe("parseStringQuery", () => {
+  it("should apply defaults and clamp the page size", () => {
+    expect(parseStringQuery(new URLSearchParams(), DEFAULTS)).toMatchObject({ cursor: 0, limit: 500, minLength: 4 });
+    expect(parseStringQuery(new URLSearchParams("limit=99999&encoding=ascii,utf16le&kind=url"), DEFAULTS)).toMatchObject({
+      limit: 5000,
+      encodings: ["ascii", "utf16le"],
+      kinds: ["url"],
+    });
+  });
+
+  it("should reject values it cannot honour", () => {
+    expect(parseStringQuery(new URLSearchParams("cursor=-1"), DEFAULTS)).toContain("cursor");
+    expect(parseStringQuery(new URLSearchParams("encoding=ebcdic"), DEFAULTS)).toContain("ebcdic");
+    expect(parseStringQuery(new URLSearchParams("kind=phone"), DEFAULTS)).toContain("phone");
+  });
+});
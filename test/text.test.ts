@@ -0,0 +1,112 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { looksLikeText, parseText } from "../src/analysis/parsers/text";
+
+const encoder = new TextEncoder();
+
+function utf16le(text: string, bom = true): Uint8Array {
+  const out = new Uint8Array((bom ? 2 : 0) + text.length * 2);
+  if (bom) out.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    out[(bom ? 2 : 0) + i * 2] = text.charCodeAt(i) & 0xff;
+    out[(bom ? 2 : 0) + i * 2 + 1] = text.charCodeAt(i) >> 8;
+  }
+  return out;
+}
+
+describe("looksLikeText", () => {
+  it("should accept source code, Latin-1 prose and UTF-16", () => {
+    expect(looksLikeText(encoder.encode("const x = 1;\n\tconsole.log(x);\n"))).toBe(true);
+    expect(looksLikeText(new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x0a]))).toBe(true);
+    expect(looksLikeText(utf16le("hello world", false))).toBe(true);
+  });
+
+  it("should reject binary content and empty files", () => {
+    expect(looksLikeText(new Uint8Array([0x01, 0x02, 0x00, 0x41, 0x42]))).toBe(false);
+    expect(looksLikeText(new Uint8Array(Array.from({ length: 100 }, (_, i) => (i % 3 === 0 ? 0x05 : 0x41))))).toBe(false);
+    expect(looksLikeText(new Uint8Array(0))).toBe(false);
+  });
+});
+
+describe("parseText", () => {
+  it("should count lines, characters and the longest line", () => {
+    const { metadata, findings } = parseText(encoder.encode("a\nlonger line\nnaïve\n"));
+
+    expect(metadata).toEqual({
+      encoding: "utf-8",
+      bom: null,
+      lineEnding: "lf",
+      lineEndings: { lf: 3, crlf: 0, cr: 0 },
+      lines: 3,
+      characters: 20,
+      longestLine: { line: 2, length: 11 },
+      finalNewline: true,
+      bidiControls: 0,
+      invisibleCharacters: 0,
+      partial: false,
+    });
+    expect(findings).toEqual([]);
+  });
+
+  it("should recognise ASCII, Latin-1 and byte order marks", () => {
+    expect(parseText(encoder.encode("plain")).metadata).toMatchObject({ encoding: "ascii", lines: 1, finalNewline: false, lineEnding: "none" });
+    expect(parseText(new Uint8Array([0x63, 0x61, 0x66, 0xe9])).metadata).toMatchObject({ encoding: "latin-1", characters: 4 });
+    expect(parseText(new Uint8Array([0xef, 0xbb, 0xbf, 0x68, 0x69])).metadata).toMatchObject({ encoding: "utf-8", bom: "utf-8", characters: 2 });
+    expect(parseText(utf16le("one\r\ntwo\r\n")).metadata).toMatchObject({ encoding: "utf-16le", bom: "utf-16le", lineEnding: "crlf", lines: 2 });
+    expect(parseText(utf16le("no mark", false)).metadata).toMatchObject({ encoding: "utf-16le", bom: null, characters: 7 });
+    expect(parseText(new Uint8Array([0x00, 0x00, 0xfe, 0xff, 0x00, 0x01, 0xf6, 0x00])).metadata).toMatchObject({ encoding: "utf-32be", characters: 1 });
+  });
+
+  it("should report mixed line endings", () => {
+    const { metadata, findings } = parseText(encoder.encode("a\r\nb\nc\rd"));
+
+    expect(metadata.lineEndings).toEqual({ lf: 1, crlf: 1, cr: 1 });
+    expect(metadata.lineEnding).toBe("mixed");
+    expect(metadata.lines).toBe(4);
+    expect(findings).toEqual([expect.objectContaining({ id: "text.mixed-line-endings", severity: "info" })]);
+  });
+
+  it("should flag Trojan Source bidi overrides left open at the end of a line", () => {
+    const source = 'let access = "user";\nif (access !== "user‮ ⁦// Check if admin⁩ ⁦") {\n';
+    const { metadata, findings } = parseText(encoder.encode(source));
+
+    expect(metadata.bidiControls).toBe(4);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ id: "text.bidi-control", severity: "high", offset: encoder.encode(source.slice(0, source.indexOf("‮"))).length });
+    expect(findings[0].message).toContain("Line 2");
+    expect(findings[0].message).toContain("U+202E RIGHT-TO-LEFT OVERRIDE");
+    expect(findings[0].message).toContain("left open");
+  });
+
+  it("should flag invisible characters but not emoji joiners", () => {
+    const { metadata, findings } = parseText(encoder.encode("const a​b = 1;\nconst family = \"👨‍👩‍👧\";\n"));
+
+    expect(metadata.invisibleCharacters).toBe(1);
+    expect(findings).toEqual([
+      expect.objectContaining({ id: "text.invisible-character", severity: "medium", offset: 7, message: "Line 1 contains invisible characters: U+200B ZERO WIDTH SPACE" }),
+    ]);
+  });
+
+  it("should keep counts for a head window without failing on a cut-off sequence", () => {
+    const bytes = encoder.encode("line one\nline twö");
+    const { metadata } = parseText(bytes.subarray(0, bytes.length - 1), { offset: 0, size: 1024 * 1024 });
+
+    expect(metadata).toMatchObject({ encoding: "utf-8", partial: true, lines: 2, characters: 16 });
+  });
+});
+
+describe("analyzeBuffer with text", () => {
+  it("should add metadata.text for unsigned text and text formats only", () => {
+    expect(analyzeBuffer(encoder.encode("key = value\n")).metadata.text?.encoding).toBe("ascii");
+    expect(analyzeBuffer(encoder.encode("#!/bin/sh\necho hi\n")).metadata.text?.lines).toBe(2);
+    expect(analyzeBuffer(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])).metadata.text).toBeUndefined();
+  });
+
+  it("should still parse text that happens to start with a weak binary magic", () => {
+    // "solid " is the ASCII STL magic, and an ordinary opening word
+    const { detection, metadata } = analyzeBuffer(encoder.encode("solid progress on the release this week\n"));
+
+    expect(detection.format).toBe("STL (ASCII)");
+    expect(metadata.text?.lines).toBe(1);
+  });
+});
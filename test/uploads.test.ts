@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { FileTooLargeError } from "../src/analysis/stream";
+import { multipartBoundary, spoolMultipartFile, spoolStream, sweepUploads, UPLOADS_DIR, uploadPath } from "../src/api/uploads";
+
+/** Re-chunk a buffer so delimiters straddle chunk boundaries */
+function chunked(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+/** Encode a form the way a browser would, returning the body and its boundary */
+async function multipart(form: FormData): Promise<{ bytes: Uint8Array; boundary: string }> {
+  const response = new Response(form);
+  const boundary = multipartBoundary(response.headers.get("content-type") ?? "")!;
+  return { bytes: new Uint8Array(await response.arrayBuffer()), boundary };
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "uploads-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("spoolStream", () => {
+  it("should copy a raw body to disk and enforce the size limit", async () => {
+    const bytes = new Uint8Array(5000).map((_, i) => i & 0xff);
+    const path = join(dir, "raw");
+
+    expect(await spoolStream(chunked(bytes, 333), path, 5000)).toBe(5000);
+    expect(await Bun.file(path).bytes()).toEqual(bytes);
+    await expect(spoolStream(chunked(bytes, 333), join(dir, "big"), 4999)).rejects.toBeInstanceOf(FileTooLargeError);
+  });
+});
+
+describe("spoolMultipartFile", () => {
+  it("should write only the named file part, whatever the chunking", async () => {
+    // Content that contains CRLF and dashes near the delimiter
+    const content = new Uint8Array([...new TextEncoder().encode("line\r\n--not-a-boundary\r\n"), ...new Uint8Array(3000).fill(0x2d)]);
+    const form = new FormData();
+    form.append("comment", "first field");
+    form.append("file", new File([content], "sample.bin", { type: "application/x-test" }));
+    const { bytes, boundary } = await multipart(form);
+
+    for (const size of [1, 7, 64, bytes.length]) {
+      const path = join(dir, `part-${size}`);
+      const upload = await spoolMultipartFile(chunked(bytes, size), boundary, "file", path, 1 << 20);
+      expect(upload).toEqual({ source: { name: "sample.bin", type: "application/x-test" }, size: content.length });
+      expect(await Bun.file(path).bytes()).toEqual(content);
+    }
+  });
+
+  it("should return null when the form has no such file", async () => {
+    const form = new FormData();
+    form.append("comment", "no upload here");
+    const { bytes, boundary } = await multipart(form);
+
+    expect(await spoolMultipartFile(chunked(bytes, 16), boundary, "file", join(dir, "none"), 1 << 20)).toBeNull();
+  });
+
+  it("should stop once the file part exceeds the size limit", async () => {
+    const form = new FormData();
+    form.append("file", new File([new Uint8Array(10_000)], "big.bin"));
+    const { bytes, boundary } = await multipart(form);
+
+    await expect(spoolMultipartFile(chunked(bytes, 512), boundary, "file", join(dir, "big"), 4096)).rejects.toBeInstanceOf(FileTooLargeError);
+  });
+});
+
+describe("multipartBoundary", () => {
+  it("should read quoted and bare boundaries", () => {
+    expect(multipartBoundary('multipart/form-data; boundary="abc def"')).toBe("abc def");
+    expect(multipartBoundary("multipart/form-data; boundary=----x123")).toBe("----x123");
+    expect(multipartBoundary("application/octet-stream")).toBeNull();
+  });
+});
+
+describe("uploadPath", () => {
+  it("should resolve ids to files directly inside the uploads directory", () => {
+    const id = Bun.randomUUIDv7();
+    expect(uploadPath(id)).toBe(resolve(UPLOADS_DIR, id));
+  });
+
+  it("should reject ids that climb out of it or name a subdirectory", () => {
+    for (const id of ["../package.json", "../../etc/passwd", "/etc/passwd", "a/b", "..", ".", ""]) {
+      expect(uploadPath(id)).toBeNull();
+    }
+  });
+});
+
+describe("sweepUploads", () => {
+  it("should remove only uploads older than the retention period", async () => {
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await Bun.write(join(dir, "old"), "expired");
+    await Bun.write(join(dir, "new"), "fresh");
+    await mkdir(join(dir, "nested"));
+    await utimes(join(dir, "old"), hourAgo, hourAgo);
+    await utimes(join(dir, "nested"), hourAgo, hourAgo);
+
+    expect(await sweepUploads(30 * 60 * 1000, dir)).toBe(1);
+    expect(await Bun.file(join(dir, "old")).exists()).toBe(false);
+    expect(await Bun.file(join(dir, "new")).exists()).toBe(true);
+    expect(await sweepUploads(30 * 60 * 1000, join(dir, "missing"))).toBe(0);
+  });
+});
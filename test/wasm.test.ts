@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test";
+import { analyzeBuffer } from "../src/analysis";
+import { parseWasm } from "../src/analysis/parsers/wasm";
+
+const encoder = new TextEncoder();
+
+function name(value: string): number[] {
+  const bytes = encoder.encode(value);
+  return [bytes.length, ...bytes];
+}
+
+function section(id: number, content: number[]): number[] {
+  return [id, content.length, ...content];
+}
+
+function module(...sections: number[][]): Uint8Array {
+  return new Uint8Array([0x00, 0x61, 0x73, 0x6d, 1, 0, 0, 0, ...sections.flat()]);
+}
+
+const TYPES = section(1, [1, 0x60, 0, 0]);
+const IMPORTS = section(2, [
+  3,
+  ...name("wasi_snapshot_preview1"), ...name("fd_write"), 0x00, 0,
+  ...name("wasi_snapshot_preview1"), ...name("sock_accept"), 0x00, 0,
+  // Shared memory: flags 3, 17 pages min, 0x4000 pages max (two-byte LEB128)
+  ...name("env"), ...name("memory"), 0x02, 3, 17, 0x80, 0x80, 0x01,
+]);
+const FUNCTIONS = section(3, [2, 0, 0]);
+const EXPORTS = section(7, [2, ...name("_start"), 0x00, 2, ...name("memory"), 0x02, 0]);
+const START = section(8, [2]);
+const CUSTOM = section(0, [...name("producers"), 1, 2, 3]);
+
+describe("parseWasm", () => {
+  it("should list sections, imports, exports and memory limits", () => {
+    const { metadata } = parseWasm(module(TYPES, IMPORTS, FUNCTIONS, EXPORTS, START, CUSTOM));
+
+    expect(metadata.version).toBe(1);
+    expect(metadata.sections.map((entry) => entry.name)).toEqual(["type", "import", "function", "export", "start", "producers"]);
+    expect(metadata.imports).toEqual([
+      { module: "wasi_snapshot_preview1", name: "fd_write", kind: "function" },
+      { module: "wasi_snapshot_preview1", name: "sock_accept", kind: "function" },
+      { module: "env", name: "memory", kind: "memory" },
+    ]);
+    expect(metadata.exports).toEqual([{ name: "_start", kind: "function", index: 2 }, { name: "memory", kind: "memory", index: 0 }]);
+    expect(metadata.memories).toEqual([{ min: 17, max: 16384, shared: true, memory64: false, imported: true }]);
+    expect(metadata.functions).toBe(2);
+    expect(metadata.start).toBe(2);
+  });
+
+  it("should flag host capabilities, shared memory and a start function", () => {
+    const { findings } = parseWasm(module(TYPES, IMPORTS, FUNCTIONS, START));
+
+    expect(findings.map((finding) => [finding.id, finding.severity])).toEqual([
+      ["wasm.network", "medium"],
+      ["wasm.shared-memory", "info"],
+      ["wasm.start-function", "info"],
+    ]);
+    expect(findings[0].message).toContain("wasi_snapshot_preview1.sock_accept");
+  });
+
+  it("should report malformed and truncated sections", () => {
+    const broken = section(7, [1, 40, 0x61]);
+    const { metadata, findings } = parseWasm(module(TYPES, broken, [10, 100, 0]));
+
+    expect(metadata.sections.map((entry) => entry.name)).toEqual(["type", "export", "code"]);
+    expect(findings.map((finding) => finding.id)).toEqual(["wasm.malformed-section", "wasm.truncated"]);
+  });
+});
+
+describe("analyzeBuffer with WebAssembly", () => {
+  it("should add metadata.wasm", () => {
+    const analysis = analyzeBuffer(module(TYPES, FUNCTIONS), { name: "plugin.wasm" });
+
+    expect(analysis.metadata.wasm?.functions).toBe(2);
+  });
+});
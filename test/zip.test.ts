@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { isUnsafeZipPath, parseZip } from "../src/analysis/parsers/zip";
+import { analyzeBuffer } from "../src/analysis";
+import { zip } from "./fixtures/zip";
+
+const encoder = new TextEncoder();
+
+describe("parseZip", () => {
+  it("should list the end record and every entry", () => {
+    const { metadata, findings } = parseZip(zip([{ name: "readme.txt", data: "hello" }, { name: "docs/" }]));
+
+    expect(metadata.eocd?.totalEntries).toBe(2);
+    expect(metadata.entries).toHaveLength(2);
+    expect(metadata.entries[0]).toMatchObject({
+      name: "readme.txt",
+      method: 0,
+      methodName: "Stored",
+      compressedSize: 5,
+      uncompressedSize: 5,
+      crc32: Bun.hash.crc32(encoder.encode("hello")) >>> 0,
+      modified: "2025-01-01T12:00:00",
+      encrypted: false,
+      directory: false,
+    });
+    expect(metadata.entries[1].directory).toBe(true);
+    expect(findings).toEqual([]);
+  });
+
+  it("should flag path traversal names", () => {
+    const { findings } = parseZip(zip([{ name: "../../etc/cron.d/job", data: "x" }, { name: "/abs/path", data: "y" }]));
+    expect(findings.filter((f) => f.id === "zip.path-traversal")).toHaveLength(2);
+  });
+
+  it("should flag extreme compression ratios", () => {
+    const { findings } = parseZip(zip([{ name: "bomb.bin", data: "0", central: { uncompressedSize: 0x7fffffff } }]));
+    expect(findings.map((f) => f.id)).toContain("zip.compression-ratio");
+  });
+
+  it("should flag overlapping entries that share file data", () => {
+    const { findings } = parseZip(zip([{ name: "a", data: "shared" }, { name: "b", data: "other", central: { name: "a2", localOffset: 0 } }]));
+    const ids = findings.map((f) => f.id);
+
+    expect(ids).toContain("zip.overlapping-entries");
+    expect(ids).toContain("zip.header-mismatch");
+  });
+
+  it("should flag local/central disagreements and declared entry counts", () => {
+    const { findings } = parseZip(zip([{ name: "invoice.pdf", data: "x", central: { name: "invoice.txt" } }], { declaredEntries: 3 }));
+    const ids = findings.map((f) => f.id);
+
+    expect(ids).toContain("zip.header-mismatch");
+    expect(ids).toContain("zip.entry-count-mismatch");
+  });
+
+  it("should report encrypted entries and prepended data", () => {
+    const { metadata, findings } = parseZip(zip([{ name: "secret.txt", data: "x", flags: 1 }], { prefix: encoder.encode("MZ stub") }));
+
+    expect(metadata.prependedBytes).toBe(7);
+    expect(metadata.entries[0].encrypted).toBe(true);
+    expect(findings.map((f) => f.id)).toEqual(["zip.prepended-data", "zip.encrypted"]);
+  });
+
+  it("should report archives without an end record", () => {
+    const { metadata, findings } = parseZip(zip([{ name: "a", data: "b" }]).subarray(0, 40));
+    expect(metadata.eocd).toBeNull();
+    expect(findings.map((f) => f.id)).toEqual(["zip.missing-eocd"]);
+  });
+});
+
+describe("isUnsafeZipPath", () => {
+  it("should recognise traversal, absolute and drive-letter paths", () => {
+    expect(isUnsafeZipPath("a/../../b")).toBe(true);
+    expect(isUnsafeZipPath("..\\windows\\system32")).toBe(true);
+    expect(isUnsafeZipPath("C:/boot.ini")).toBe(true);
+    expect(isUnsafeZipPath("dir/file..txt")).toBe(false);
+  });
+});
+
+describe("analyzeBuffer ZIP metadata", () => {
+  it("should attach metadata.zip to ZIP-based formats", () => {
+    const analysis = analyzeBuffer(zip([{ name: "[Content_Types].xml", data: "<Types/>" }]), { name: "report.docx" });
+
+    expect(analysis.detection.format).toBe("Office Open XML");
+    expect(analysis.metadata.zip?.entries[0].name).toBe("[Content_Types].xml");
+  });
+});
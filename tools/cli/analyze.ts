@@ -2,26 +2,81 @@
 /// <reference types="bun-types" />
 
 import { parseArgs } from "util";
+import { isHashAlgorithm, type HashAlgorithm } from "../../src/analysis/hashing";
+import { analyzeStream } from "../../src/analysis/stream";
+import { config } from "../../src/config";
 
-const { positionals } = parseArgs({
+const { values, positionals } = parseArgs({
   args: Bun.argv,
+  options: {
+    hashes: { type: "string" },
+  },
   allowPositionals: true,
 });
 
 const filePath = positionals[2];
 
 if (!filePath) {
-  console.error("Usage: bun analyze <file>");
+  console.error("Usage: bun analyze [--hashes md5,sha1,...] <file>");
+  process.exit(1);
+}
+
+const algorithms = values.hashes ? values.hashes.split(",").map((name) => name.trim().toLowerCase()) : config.hashing.algorithms;
+const unknown = algorithms.filter((name) => !isHashAlgorithm(name));
+if (unknown.length > 0) {
+  console.error(`Unsupported hash algorithm: ${unknown.join(", ")}`);
   process.exit(1);
 }
 
 const file = Bun.file(filePath);
-const bytes = await file.bytes();
 
 console.log(`📊 Analyzing: ${filePath}`);
 console.log(`📏 Size: ${file.size} bytes`);
 console.log(`🏷️  Type: ${file.type || "Unknown"}`);
 
-const hasher = new Bun.CryptoHasher("sha256");
-hasher.update(bytes);
-console.log(`🔐 SHA-256: ${hasher.digest("hex")}`);
+const { analysis, hashes } = await analyzeStream(file.stream(), { name: filePath, type: file.type }, {
+  maxBytes: config.streaming.maxFileSize,
+  windowBytes: config.streaming.windowBytes,
+  algorithms: algorithms as HashAlgorithm[],
+});
+for (const [algorithm, digest] of Object.entries(hashes)) {
+  console.log(`🔐 ${algorithm.toUpperCase()}: ${digest}`);
+}
+
+const { detection, mismatch, metadata, findings, risk, entropy } = analysis;
+console.log(
+  detection.candidates.length > 0
+    ? `🔎 Format: ${detection.format} (${detection.mime}, ${Math.round(detection.confidence * 100)}% confidence)`
+    : "🔎 Format: Unknown"
+);
+for (const candidate of detection.candidates.slice(1)) {
+  console.log(`   ↳ also matches ${candidate.name} @${candidate.offset} (${Math.round(candidate.confidence * 100)}%)`);
+}
+if (detection.polyglot) {
+  console.log(`⚠️  Polyglot: valid as ${detection.polyglotFormats.join(" + ")}`);
+}
+if (mismatch.severity !== "none") {
+  console.log(`🚩 Mismatch (${mismatch.severity}): ${mismatch.reason}`);
+}
+if (metadata.zip) {
+  const { zip } = metadata;
+  console.log(
+    `🗜️  ZIP: ${zip.entries.length + zip.omittedEntries} entries, ${zip.totalCompressedSize} → ${zip.totalUncompressedSize} bytes` +
+      (zip.zip64 ? " (ZIP64)" : "")
+  );
+  for (const entry of zip.entries.slice(0, 50)) {
+    console.log(
+      `   ${entry.encrypted ? "🔒" : "  "} ${entry.name}  ${entry.methodName} ${entry.compressedSize} → ${entry.uncompressedSize}` +
+        `  crc=${entry.crc32.toString(16).padStart(8, "0")}  ${entry.modified ?? ""}`
+    );
+  }
+  if (zip.entries.length > 50) console.log(`   … ${zip.entries.length - 50 + zip.omittedEntries} more`);
+}
+console.log(`📈 Entropy: ${entropy.overall} bits/byte (${entropy.highEntropyBytes} high-entropy bytes)`);
+for (const region of entropy.regions.slice(0, 10)) {
+  console.log(`   ▒ 0x${region.offset.toString(16)} +${region.length}  ${region.entropy} bits/byte, likely ${region.likely}`);
+}
+console.log(`🛡️  Risk: ${risk.level} (${risk.findingCount} finding${risk.findingCount === 1 ? "" : "s"})`);
+for (const finding of findings) {
+  console.log(`   • [${finding.severity}] ${finding.message}`);
+}
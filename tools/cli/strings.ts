@@ -0,0 +1,63 @@
+#!/usr/bin/env bun
+/// <reference types="bun-types" />
+
+import { parseArgs } from "util";
+import { parseStringQuery, readStringPage } from "../../src/analysis/strings";
+import { config } from "../../src/config";
+
+const { values, positionals } = parseArgs({
+  args: Bun.argv,
+  options: {
+    "min-length": { type: "string" },
+    encoding: { type: "string" },
+    kind: { type: "string" },
+    cursor: { type: "string" },
+    limit: { type: "string" },
+    all: { type: "boolean" },
+  },
+  allowPositionals: true,
+});
+
+const filePath = positionals[2];
+
+if (!filePath) {
+  console.error(
+    "Usage: bun strings [--min-length 4] [--encoding ascii,utf16le,utf16be] [--kind url,ip,...] [--cursor N] [--limit N] [--all] <file>"
+  );
+  process.exit(1);
+}
+
+// Same parameters and bounds as GET /api/files/:id/strings
+const params = new URLSearchParams();
+if (values["min-length"]) params.set("minLength", values["min-length"]);
+if (values.encoding) params.set("encoding", values.encoding);
+if (values.kind) params.set("kind", values.kind);
+if (values.cursor) params.set("cursor", values.cursor);
+if (values.limit) params.set("limit", values.limit);
+
+const query = parseStringQuery(params, config.strings);
+if (typeof query === "string") {
+  console.error(query);
+  process.exit(1);
+}
+
+const file = Bun.file(filePath);
+if (!(await file.exists())) {
+  console.error(`File not found: ${filePath}`);
+  process.exit(1);
+}
+
+let cursor: number | null = query.cursor ?? 0;
+let total = 0;
+while (cursor !== null) {
+  const page = await readStringPage(file, { ...query, cursor });
+  for (const string of page.strings) {
+    const kinds = string.kinds.length > 0 ? ` [${string.kinds.join(",")}]` : "";
+    console.log(`${string.offset.toString(16).padStart(8, "0")} ${string.encoding.padEnd(7)}${kinds} ${JSON.stringify(string.value)}`);
+  }
+  total += page.strings.length;
+  cursor = page.nextCursor;
+  if (!values.all) break;
+}
+
+console.log(`🧵 ${total} strings${cursor !== null ? ` · next page: --cursor ${cursor}` : ""}`);